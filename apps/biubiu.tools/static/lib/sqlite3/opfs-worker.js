@@ -28,7 +28,9 @@ CREATE TABLE IF NOT EXISTS tasks (
   completed_jobs INTEGER NOT NULL DEFAULT 0,
   failed_jobs INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL,
-  updated_at INTEGER NOT NULL
+  updated_at INTEGER NOT NULL,
+  depends_on TEXT,
+  result_root TEXT
 );
 
 CREATE TABLE IF NOT EXISTS jobs (
@@ -42,12 +44,50 @@ CREATE TABLE IF NOT EXISTS jobs (
   created_at INTEGER NOT NULL,
   started_at INTEGER,
   completed_at INTEGER,
-  scheduled_at INTEGER
+  scheduled_at INTEGER,
+  depends_on TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  history TEXT,
+  lease_owner TEXT,
+  lease_expires_at INTEGER
 );
 
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  cron TEXT,
+  interval_ms INTEGER,
+  missed_run_policy TEXT NOT NULL DEFAULT 'skip',
+  status TEXT NOT NULL DEFAULT 'active',
+  next_run_at INTEGER NOT NULL,
+  last_run_at INTEGER,
+  last_task_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS quotas (
+  key TEXT PRIMARY KEY,
+  window_start INTEGER NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0
+);
+`;
+
+// Columns added after the initial schema (existing databases are altered on init)
+const COLUMN_MIGRATIONS = [
+  { table: 'tasks', column: 'depends_on', definition: 'TEXT' },
+  { table: 'tasks', column: 'result_root', definition: 'TEXT' },
+  { table: 'jobs', column: 'depends_on', definition: 'TEXT' },
+  { table: 'jobs', column: 'priority', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'jobs', column: 'history', definition: 'TEXT' },
+  { table: 'jobs', column: 'lease_owner', definition: 'TEXT' },
+  { table: 'jobs', column: 'lease_expires_at', definition: 'INTEGER' },
+];
+
+const CREATE_INDEXES_SQL = `
 CREATE INDEX IF NOT EXISTS idx_jobs_task_id ON jobs(task_id);
 CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
 CREATE INDEX IF NOT EXISTS idx_jobs_task_status ON jobs(task_id, status);
+CREATE INDEX IF NOT EXISTS idx_jobs_task_status_priority ON jobs(task_id, status, priority DESC);
 `;
 
 let db = null;
@@ -59,12 +99,14 @@ function rowToTaskMeta(row) {
     name: row.name,
     type: row.type,
     merkleRoot: row.merkle_root,
+    resultRoot: row.result_root ?? undefined,
     status: row.status,
     totalJobs: row.total_jobs,
     completedJobs: row.completed_jobs,
     failedJobs: row.failed_jobs,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    dependsOn: row.depends_on ? JSON.parse(row.depends_on) : undefined,
   };
 }
 
@@ -81,6 +123,26 @@ function rowToJob(row) {
     startedAt: row.started_at ?? undefined,
     completedAt: row.completed_at ?? undefined,
     scheduledAt: row.scheduled_at ?? undefined,
+    dependsOn: row.depends_on ? JSON.parse(row.depends_on) : undefined,
+    priority: row.priority || undefined,
+    history: row.history ? JSON.parse(row.history) : undefined,
+    leaseOwner: row.lease_owner ?? undefined,
+    leaseExpiresAt: row.lease_expires_at ?? undefined,
+  };
+}
+
+function rowToSchedule(row) {
+  return {
+    id: row.id,
+    cron: row.cron,
+    intervalMs: row.interval_ms,
+    missedRunPolicy: row.missed_run_policy,
+    status: row.status,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    lastTaskId: row.last_task_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
   };
 }
 
@@ -95,6 +157,15 @@ function queryRows(sql, bind) {
   return results;
 }
 
+function migrateColumns() {
+  for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+    const columns = queryRows(`PRAGMA table_info(${table})`, []);
+    if (!columns.some((c) => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
 // StorageAdapter method implementations
 const methods = {
   async init() {
@@ -127,6 +198,8 @@ const methods = {
     db.exec('PRAGMA journal_mode = WAL;');
     db.exec('PRAGMA synchronous = NORMAL;');
     db.exec(CREATE_TABLES_SQL);
+    migrateColumns();
+    db.exec(CREATE_INDEXES_SQL);
   },
 
   close() {
@@ -139,9 +212,10 @@ const methods = {
   // Task operations
   createTask(meta) {
     db.exec({
-      sql: `INSERT INTO tasks (id, name, type, merkle_root, status, total_jobs, completed_jobs, failed_jobs, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      bind: [meta.id, meta.name, meta.type, meta.merkleRoot, meta.status, meta.totalJobs, meta.completedJobs, meta.failedJobs, meta.createdAt, meta.updatedAt]
+      sql: `INSERT INTO tasks (id, name, type, merkle_root, status, total_jobs, completed_jobs, failed_jobs, created_at, updated_at, depends_on)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      bind: [meta.id, meta.name, meta.type, meta.merkleRoot, meta.status, meta.totalJobs, meta.completedJobs, meta.failedJobs, meta.createdAt, meta.updatedAt,
+        meta.dependsOn?.length ? JSON.stringify(meta.dependsOn) : null]
     });
   },
 
@@ -160,6 +234,7 @@ const methods = {
     if (updates.completedJobs !== undefined) { fields.push('completed_jobs = ?'); values.push(updates.completedJobs); }
     if (updates.failedJobs !== undefined) { fields.push('failed_jobs = ?'); values.push(updates.failedJobs); }
     if (updates.merkleRoot !== undefined) { fields.push('merkle_root = ?'); values.push(updates.merkleRoot); }
+    if (updates.resultRoot !== undefined) { fields.push('result_root = ?'); values.push(updates.resultRoot); }
 
     if (fields.length === 0) return;
 
@@ -189,15 +264,17 @@ const methods = {
     try {
       for (const job of jobs) {
         db.exec({
-          sql: `INSERT INTO jobs (id, task_id, input, output, error, status, attempts, created_at, started_at, completed_at, scheduled_at)
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          sql: `INSERT INTO jobs (id, task_id, input, output, error, status, attempts, created_at, started_at, completed_at, scheduled_at, depends_on, priority)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           bind: [
             job.id, job.taskId,
             JSON.stringify(job.input),
             job.output !== undefined ? JSON.stringify(job.output) : null,
             job.error ?? null,
             job.status, job.attempts, job.createdAt,
-            job.startedAt ?? null, job.completedAt ?? null, job.scheduledAt ?? null
+            job.startedAt ?? null, job.completedAt ?? null, job.scheduledAt ?? null,
+            job.dependsOn?.length ? JSON.stringify(job.dependsOn) : null,
+            job.priority ?? 0
           ]
         });
       }
@@ -213,11 +290,17 @@ const methods = {
     return rows.length > 0 ? rowToJob(rows[0]) : null;
   },
 
+  existingJobIds(jobIds) {
+    if (jobIds.length === 0) return [];
+    return queryRows('SELECT id FROM jobs WHERE id IN (SELECT value FROM json_each(?))', [JSON.stringify(jobIds)])
+      .map(row => row.id);
+  },
+
   getJobsByTask(taskId, status, limit, offset) {
     let sql = 'SELECT * FROM jobs WHERE task_id = ?';
     const bind = [taskId];
     if (status) { sql += ' AND status = ?'; bind.push(status); }
-    sql += ' ORDER BY created_at ASC LIMIT ? OFFSET ?';
+    sql += ' ORDER BY created_at ASC, rowid ASC LIMIT ? OFFSET ?';
     bind.push(limit ?? 100, offset ?? 0);
     return queryRows(sql, bind).map(rowToJob);
   },
@@ -232,14 +315,29 @@ const methods = {
     return counts;
   },
 
-  claimJobs(taskId, limit) {
+  claimJobs(taskId, limit, lease) {
     const now = Date.now();
+    const leaseOwner = lease?.owner ?? null;
+    const leaseExpiresAt = lease ? now + lease.durationMs : null;
     db.exec('BEGIN TRANSACTION;');
     try {
+      // Jobs of workers (tabs) that stopped heartbeating become claimable again
+      db.exec({
+        sql: `UPDATE jobs SET status = 'pending', started_at = NULL, lease_owner = NULL, lease_expires_at = NULL
+              WHERE task_id = ? AND status = 'active' AND lease_expires_at <= ?`,
+        bind: [taskId, now]
+      });
+
       const jobs = queryRows(
-        `SELECT * FROM jobs
+        `SELECT * FROM jobs j
          WHERE task_id = ? AND status = 'pending'
            AND (scheduled_at IS NULL OR scheduled_at <= ?)
+           AND NOT EXISTS (
+             SELECT 1 FROM json_each(j.depends_on) d
+             LEFT JOIN jobs p ON p.id = d.value
+             WHERE p.status IS NULL OR p.status != 'completed'
+           )
+         ORDER BY priority DESC, rowid ASC
          LIMIT ?`,
         [taskId, now, limit]
       );
@@ -251,8 +349,9 @@ const methods = {
 
       for (const j of jobs) {
         db.exec({
-          sql: `UPDATE jobs SET status = 'active', started_at = ?, attempts = attempts + 1, scheduled_at = NULL WHERE id = ?`,
-          bind: [now, j.id]
+          sql: `UPDATE jobs SET status = 'active', started_at = ?, attempts = attempts + 1, scheduled_at = NULL,
+                lease_owner = ?, lease_expires_at = ? WHERE id = ?`,
+          bind: [now, leaseOwner, leaseExpiresAt, j.id]
         });
       }
       db.exec('COMMIT;');
@@ -263,6 +362,8 @@ const methods = {
         startedAt: now,
         attempts: row.attempts + 1,
         scheduledAt: undefined,
+        leaseOwner: leaseOwner ?? undefined,
+        leaseExpiresAt: leaseExpiresAt ?? undefined,
       }));
     } catch (err) {
       db.exec('ROLLBACK;');
@@ -270,38 +371,104 @@ const methods = {
     }
   },
 
-  completeJob(jobId, output) {
+  // completeJob/failJob return false when `owner` no longer holds the lease
+  completeJob(jobId, output, owner) {
     db.exec({
-      sql: `UPDATE jobs SET status = 'completed', output = ?, completed_at = ? WHERE id = ?`,
-      bind: [JSON.stringify(output), Date.now(), jobId]
+      sql: `UPDATE jobs SET status = 'completed', output = ?, completed_at = ?, lease_owner = NULL, lease_expires_at = NULL
+            WHERE id = ?${owner ? ` AND status = 'active' AND lease_owner = ?` : ''}`,
+      bind: [JSON.stringify(output), Date.now(), jobId, ...(owner ? [owner] : [])]
     });
+    return db.changes() > 0;
   },
 
-  failJob(jobId, error, canRetry, retryAfterMs) {
+  failJob(jobId, error, canRetry, retryAfterMs, attempt, owner) {
     const newStatus = canRetry ? 'pending' : 'failed';
+    // Append the failed attempt to the job's history
+    const appendHistory = attempt ? `, history = json_insert(COALESCE(history, '[]'), '$[#]', json(?))` : '';
+    const ownedBy = owner ? ` AND status = 'active' AND lease_owner = ?` : '';
+    const extraBind = [...(attempt ? [JSON.stringify(attempt)] : []), jobId, ...(owner ? [owner] : [])];
     if (canRetry) {
       const scheduledAt = retryAfterMs ? Date.now() + retryAfterMs : null;
       db.exec({
-        sql: `UPDATE jobs SET status = ?, error = ?, started_at = NULL, scheduled_at = ? WHERE id = ?`,
-        bind: [newStatus, error, scheduledAt, jobId]
+        sql: `UPDATE jobs SET status = ?, error = ?, started_at = NULL, scheduled_at = ?,
+              lease_owner = NULL, lease_expires_at = NULL${appendHistory} WHERE id = ?${ownedBy}`,
+        bind: [newStatus, error, scheduledAt, ...extraBind]
       });
     } else {
       db.exec({
-        sql: `UPDATE jobs SET status = ?, error = ?, completed_at = ? WHERE id = ?`,
-        bind: [newStatus, error, Date.now(), jobId]
+        sql: `UPDATE jobs SET status = ?, error = ?, completed_at = ?,
+              lease_owner = NULL, lease_expires_at = NULL${appendHistory} WHERE id = ?${ownedBy}`,
+        bind: [newStatus, error, Date.now(), ...extraBind]
       });
     }
+    return db.changes() > 0;
+  },
+
+  renewLeases(owner, jobIds, durationMs) {
+    return queryRows(
+      `UPDATE jobs SET lease_expires_at = ?
+       WHERE status = 'active' AND lease_owner = ? AND id IN (SELECT value FROM json_each(?))
+       RETURNING id`,
+      [Date.now() + durationMs, owner, JSON.stringify(jobIds)]
+    ).map(row => row.id);
+  },
+
+  unclaimJobs(jobIds, owner) {
+    if (jobIds.length === 0) return;
+    db.exec({
+      sql: `UPDATE jobs SET status = 'pending', started_at = NULL, attempts = MAX(attempts - 1, 0),
+              lease_owner = NULL, lease_expires_at = NULL
+            WHERE status = 'active' AND id IN (SELECT value FROM json_each(?))${owner ? ' AND lease_owner = ?' : ''}`,
+      bind: owner ? [JSON.stringify(jobIds), owner] : [JSON.stringify(jobIds)]
+    });
+  },
+
+  failDependents(taskId, jobId, error) {
+    const now = Date.now();
+    db.exec('BEGIN TRANSACTION;');
+    try {
+      const jobs = queryRows(
+        `WITH RECURSIVE dependents(id) AS (
+           SELECT j.id FROM jobs j, json_each(j.depends_on) d
+           WHERE d.value = ? AND j.task_id = ?
+           UNION
+           SELECT j.id FROM jobs j, json_each(j.depends_on) d
+           JOIN dependents ON d.value = dependents.id
+           WHERE j.task_id = ?
+         )
+         SELECT * FROM jobs WHERE id IN (SELECT id FROM dependents) AND status = 'pending'`,
+        [jobId, taskId, taskId]
+      );
+
+      for (const j of jobs) {
+        db.exec({
+          sql: `UPDATE jobs SET status = 'failed', error = ?, completed_at = ? WHERE id = ?`,
+          bind: [error, now, j.id]
+        });
+      }
+      db.exec('COMMIT;');
+
+      return jobs.map(row => ({
+        ...rowToJob(row),
+        status: 'failed',
+        error,
+        completedAt: now,
+      }));
+    } catch (err) {
+      db.exec('ROLLBACK;');
+      throw err;
+    }
   },
 
   resetActiveJobs(taskId) {
-    const rows = queryRows(
-      `SELECT COUNT(*) as count FROM jobs WHERE task_id = ? AND status = 'active'`,
-      [taskId]
-    );
+    // Jobs leased by a live worker are left alone
+    const now = Date.now();
+    const stale = `task_id = ? AND status = 'active' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)`;
+    const rows = queryRows(`SELECT COUNT(*) as count FROM jobs WHERE ${stale}`, [taskId, now]);
     const count = rows[0]?.count ?? 0;
     db.exec({
-      sql: `UPDATE jobs SET status = 'pending', started_at = NULL WHERE task_id = ? AND status = 'active'`,
-      bind: [taskId]
+      sql: `UPDATE jobs SET status = 'pending', started_at = NULL, lease_owner = NULL, lease_expires_at = NULL WHERE ${stale}`,
+      bind: [taskId, now]
     });
     return count;
   },
@@ -326,9 +493,146 @@ const methods = {
     return count;
   },
 
+  requeueFailedJobs(taskId, jobIds) {
+    const ids = JSON.stringify(jobIds);
+    db.exec('BEGIN TRANSACTION;');
+    try {
+      const rows = queryRows(
+        `SELECT COUNT(*) as count FROM jobs
+         WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))`,
+        [taskId, ids]
+      );
+      const count = rows[0]?.count ?? 0;
+      // History is kept so the next failure extends the same record
+      db.exec({
+        sql: `UPDATE jobs SET status = 'pending', error = NULL, started_at = NULL, completed_at = NULL, attempts = 0
+              WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))`,
+        bind: [taskId, ids]
+      });
+      if (count > 0) {
+        db.exec({
+          sql: `UPDATE tasks SET failed_jobs = MAX(0, failed_jobs - ?), updated_at = ? WHERE id = ?`,
+          bind: [count, Date.now(), taskId]
+        });
+      }
+      db.exec('COMMIT;');
+      return count;
+    } catch (err) {
+      db.exec('ROLLBACK;');
+      throw err;
+    }
+  },
+
+  discardFailedJobs(taskId, jobIds) {
+    const ids = JSON.stringify(jobIds);
+    db.exec('BEGIN TRANSACTION;');
+    try {
+      const rows = queryRows(
+        `SELECT COUNT(*) as count FROM jobs
+         WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))`,
+        [taskId, ids]
+      );
+      const count = rows[0]?.count ?? 0;
+      db.exec({
+        sql: `DELETE FROM jobs WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))`,
+        bind: [taskId, ids]
+      });
+      if (count > 0) {
+        db.exec({
+          sql: `UPDATE tasks SET failed_jobs = MAX(0, failed_jobs - ?), total_jobs = MAX(0, total_jobs - ?), updated_at = ?
+                WHERE id = ?`,
+          bind: [count, count, Date.now(), taskId]
+        });
+      }
+      db.exec('COMMIT;');
+      return count;
+    } catch (err) {
+      db.exec('ROLLBACK;');
+      throw err;
+    }
+  },
+
   deleteJobsByTask(taskId) {
     db.exec({ sql: 'DELETE FROM jobs WHERE task_id = ?', bind: [taskId] });
   },
+
+  // Schedule operations
+  createSchedule(meta) {
+    db.exec({
+      sql: `INSERT INTO schedules (id, cron, interval_ms, missed_run_policy, status, next_run_at, last_run_at, last_task_id, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      bind: [meta.id, meta.cron, meta.intervalMs, meta.missedRunPolicy, meta.status, meta.nextRunAt,
+        meta.lastRunAt, meta.lastTaskId, meta.createdAt, meta.updatedAt]
+    });
+  },
+
+  getSchedule(scheduleId) {
+    const rows = queryRows('SELECT * FROM schedules WHERE id = ?', [scheduleId]);
+    return rows.length > 0 ? rowToSchedule(rows[0]) : null;
+  },
+
+  updateSchedule(scheduleId, updates) {
+    const fields = [];
+    const values = [];
+
+    if (updates.cron !== undefined) { fields.push('cron = ?'); values.push(updates.cron); }
+    if (updates.intervalMs !== undefined) { fields.push('interval_ms = ?'); values.push(updates.intervalMs); }
+    if (updates.missedRunPolicy !== undefined) { fields.push('missed_run_policy = ?'); values.push(updates.missedRunPolicy); }
+    if (updates.status !== undefined) { fields.push('status = ?'); values.push(updates.status); }
+    if (updates.nextRunAt !== undefined) { fields.push('next_run_at = ?'); values.push(updates.nextRunAt); }
+    if (updates.lastRunAt !== undefined) { fields.push('last_run_at = ?'); values.push(updates.lastRunAt); }
+    if (updates.lastTaskId !== undefined) { fields.push('last_task_id = ?'); values.push(updates.lastTaskId); }
+
+    if (fields.length === 0) return;
+
+    fields.push('updated_at = ?');
+    values.push(Date.now());
+    values.push(scheduleId);
+
+    db.exec({
+      sql: `UPDATE schedules SET ${fields.join(', ')} WHERE id = ?`,
+      bind: values
+    });
+  },
+
+  deleteSchedule(scheduleId) {
+    db.exec({ sql: 'DELETE FROM schedules WHERE id = ?', bind: [scheduleId] });
+  },
+
+  listSchedules() {
+    return queryRows('SELECT * FROM schedules ORDER BY created_at ASC', []).map(rowToSchedule);
+  },
+
+  // Quota operations
+  consumeQuota(windows, count) {
+    db.exec('BEGIN TRANSACTION;');
+    try {
+      let granted = count;
+      for (const window of windows) {
+        // Start a fresh count when a new window begins
+        db.exec({
+          sql: `INSERT INTO quotas (key, window_start, used) VALUES (?, ?, 0)
+                ON CONFLICT(key) DO UPDATE SET window_start = excluded.window_start, used = 0
+                WHERE excluded.window_start > quotas.window_start`,
+          bind: [window.key, window.windowStart]
+        });
+        const rows = queryRows('SELECT used FROM quotas WHERE key = ?', [window.key]);
+        granted = Math.min(granted, window.limit - rows[0].used);
+      }
+      granted = Math.max(granted, 0);
+
+      if (granted > 0) {
+        for (const window of windows) {
+          db.exec({ sql: 'UPDATE quotas SET used = used + ? WHERE key = ?', bind: [granted, window.key] });
+        }
+      }
+      db.exec('COMMIT;');
+      return granted;
+    } catch (err) {
+      db.exec('ROLLBACK;');
+      throw err;
+    }
+  },
 };
 
 // RPC message handler
@@ -61,6 +61,11 @@ export type {
   OrchestratorEvents,
   Adapter,
   ExecutorFunction,
+  ExecutionStatus,
+  ExecutionRecord,
+  ExecutionFilter,
+  ExecutionStore,
+  RecordedInteraction,
 } from './types.js';
 
 // Manifest utilities
@@ -92,6 +97,8 @@ export { MCPAdapterImpl } from './adapters/mcp.js';
 
 // Storage
 export { MemoryStorage } from './storage/MemoryStorage.js';
+export { MemoryExecutionStore } from './storage/MemoryExecutionStore.js';
+export { WebStorageExecutionStore } from './storage/WebStorageExecutionStore.js';
 
 // Utilities
 export { EventEmitter } from './utils/EventEmitter.js';
@@ -101,6 +108,7 @@ export {
   StateTransitionError,
   InteractionTimeoutError,
   ExecutionCancelledError,
+  ReplayMismatchError,
 } from './utils/errors.js';
 
 // ============================================================================
@@ -115,6 +123,8 @@ import type {
   InteractionResponse,
   ExecutionResult,
   Adapter,
+  ExecutionStore,
+  FileStorage,
 } from './types.js';
 import { Orchestrator } from './orchestrator/Orchestrator.js';
 import { CLIAdapterImpl } from './adapters/cli.js';
@@ -144,6 +154,15 @@ export interface AppConfig<TInput extends z.ZodType, TOutput extends z.ZodType>
   /** Output schema (Zod) */
   outputSchema: TOutput;
 
+  /** Records runs so they can be resumed after a reload or crash (see App.resume) */
+  executionStore?: ExecutionStore;
+
+  /**
+   * ctx.storage for every run (default: a new MemoryStorage per run, so file handles
+   * saved by a run don't survive into its resume; pass a persistent one to keep them)
+   */
+  storage?: FileStorage;
+
   /** Executor function */
   executor: (
     input: z.infer<TInput>,
@@ -200,8 +219,14 @@ export interface App<TInput, TOutput> {
   /** Run with a specific adapter, optionally with pre-collected input (for GUI adapters) */
   run(adapter: Adapter<TInput, TOutput>, input?: TInput): Promise<ExecutionResult<TOutput>>;
 
-  /** Run in CLI mode */
-  runCLI(args?: string[], options?: { nonInteractive?: boolean }): Promise<ExecutionResult<TOutput>>;
+  /** Resume a recorded execution with a specific adapter (requires executionStore) */
+  resume(adapter: Adapter<TInput, TOutput>, executionId: string): Promise<ExecutionResult<TOutput>>;
+
+  /** Run in CLI mode, or resume a recorded execution with `resume: executionId` */
+  runCLI(
+    args?: string[],
+    options?: { nonInteractive?: boolean; resume?: string }
+  ): Promise<ExecutionResult<TOutput>>;
 
   /** Get MCP tool definition */
   getMCPToolDefinition(): MCPToolDefinition;
@@ -339,17 +364,30 @@ export function createApp<TInput extends z.ZodType, TOutput extends z.ZodType>(
     manifest,
 
     async run(adapter, input?) {
-      const storage = new MemoryStorage();
+      const storage = config.storage ?? new MemoryStorage();
       const orchestrator = new Orchestrator({
         manifest,
         adapter,
         storage,
         executor: wrappedExecutor,
+        executionStore: config.executionStore,
       });
       return orchestrator.run(input);
     },
 
-    async runCLI(args = [], options?: { nonInteractive?: boolean }) {
+    async resume(adapter, executionId) {
+      const storage = config.storage ?? new MemoryStorage();
+      const orchestrator = new Orchestrator({
+        manifest,
+        adapter,
+        storage,
+        executor: wrappedExecutor,
+        executionStore: config.executionStore,
+      });
+      return orchestrator.resume(executionId);
+    },
+
+    async runCLI(args = [], options?: { nonInteractive?: boolean; resume?: string }) {
       const adapter = new CLIAdapterImpl<z.infer<TInput>, z.infer<TOutput>>();
       if (options?.nonInteractive) {
         adapter.setNonInteractive(true);
@@ -357,14 +395,15 @@ export function createApp<TInput extends z.ZodType, TOutput extends z.ZodType>(
       if (args.length > 0) {
         adapter.parseArgs(args);
       }
-      const storage = new MemoryStorage();
+      const storage = config.storage ?? new MemoryStorage();
       const orchestrator = new Orchestrator({
         manifest,
         adapter,
         storage,
         executor: wrappedExecutor,
+        executionStore: config.executionStore,
       });
-      return orchestrator.run();
+      return options?.resume ? orchestrator.resume(options.resume) : orchestrator.run();
     },
 
     getMCPToolDefinition() {
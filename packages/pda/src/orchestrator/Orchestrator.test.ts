@@ -0,0 +1,167 @@
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+import { Orchestrator } from './Orchestrator.js';
+import { MemoryStorage } from '../storage/MemoryStorage.js';
+import { MemoryExecutionStore } from '../storage/MemoryExecutionStore.js';
+import { ReplayMismatchError } from '../utils/errors.js';
+import type {
+  Adapter,
+  ExecutorFunction,
+  InteractionRequest,
+  InteractionResponse,
+  Manifest,
+} from '../types.js';
+
+type Input = { name: string };
+
+const manifest: Manifest = {
+  id: 'greeter',
+  name: 'Greeter',
+  inputSchema: z.object({ name: z.string() }),
+  outputSchema: z.string(),
+};
+
+function request(type: 'confirm' | 'prompt', message: string): InteractionRequest {
+  return { requestId: crypto.randomUUID(), type, message, requiresResponse: true };
+}
+
+// Asks to confirm, then for a greeting
+const greeter: ExecutorFunction<Input, string> = async function* (input, ctx) {
+  ctx.progress(1, 2, 'asking');
+  const confirmed = yield request('confirm', 'Greet?');
+  if (!confirmed?.value) return 'skipped';
+  const greeting = yield request('prompt', 'Greeting?');
+  ctx.progress(2, 2, 'done');
+  return `${greeting?.value}, ${input.name}`;
+};
+
+// Answers from a map of message → value; a missing answer never resolves (the process "crashes")
+function createAdapter(answers: Record<string, unknown>) {
+  const asked: string[] = [];
+  const adapter: Adapter<Input, string> = {
+    async collectInput() {
+      return { name: 'Ada' };
+    },
+    handleInteraction(req) {
+      if (!req.requiresResponse) return Promise.resolve({ requestId: req.requestId } as InteractionResponse);
+      asked.push(req.message);
+      if (!(req.message in answers)) return new Promise(() => {});
+      return Promise.resolve({ requestId: req.requestId, value: answers[req.message] } as InteractionResponse);
+    },
+    async renderOutput() {},
+  };
+  return { adapter, asked };
+}
+
+// Runs until the greeting prompt is pending, then abandons the orchestrator
+async function crashAtGreeting(store: MemoryExecutionStore): Promise<string> {
+  const { adapter, asked } = createAdapter({ 'Greet?': true });
+  const orchestrator = new Orchestrator({
+    manifest,
+    adapter,
+    storage: new MemoryStorage(),
+    executor: greeter,
+    executionStore: store,
+  });
+  void orchestrator.run({ name: 'Ada' });
+  while (!asked.includes('Greeting?')) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+  return orchestrator.executionId!;
+}
+
+describe('Orchestrator', () => {
+  describe('execution store', () => {
+    test('should checkpoint every interaction and progress update', async () => {
+      const store = new MemoryExecutionStore();
+      const { adapter } = createAdapter({ 'Greet?': true, 'Greeting?': 'Hello' });
+      const orchestrator = new Orchestrator({
+        manifest,
+        adapter,
+        storage: new MemoryStorage(),
+        executor: greeter,
+        executionStore: store,
+      });
+
+      const result = await orchestrator.run({ name: 'Ada' });
+      const record = await store.load(orchestrator.executionId!);
+
+      expect(result.data).toBe('Hello, Ada');
+      expect(record?.status).toBe('SUCCESS');
+      expect(record?.input).toEqual({ name: 'Ada' });
+      expect(record?.interactions.map((entry) => entry.response?.value)).toEqual([true, 'Hello']);
+      expect(record?.progress.map((entry) => entry.status)).toEqual(['asking', 'done']);
+      expect(record?.result?.data).toBe('Hello, Ada');
+    });
+
+    test('should resume an execution that stopped in AWAITING_USER', async () => {
+      const store = new MemoryExecutionStore();
+      const id = await crashAtGreeting(store);
+
+      const crashed = await store.load(id);
+      expect(crashed?.status).toBe('AWAITING_USER');
+      expect(crashed?.interactions).toHaveLength(2);
+      expect(crashed?.interactions[1].response).toBeUndefined();
+
+      const { adapter, asked } = createAdapter({ 'Greeting?': 'Hi' });
+      const orchestrator = new Orchestrator({
+        manifest,
+        adapter,
+        storage: new MemoryStorage(),
+        executor: greeter,
+        executionStore: store,
+      });
+      const result = await orchestrator.resume(id);
+      const record = await store.load(id);
+
+      expect(result.data).toBe('Hi, Ada');
+      expect(asked).toEqual(['Greeting?']);
+      expect(orchestrator.executionId).toBe(id);
+      expect(record?.status).toBe('SUCCESS');
+      expect(record?.interactions.map((entry) => entry.response?.value)).toEqual([true, 'Hi']);
+      // The replayed progress update isn't reported again
+      expect(record?.progress.map((entry) => entry.status)).toEqual(['asking', 'done']);
+    });
+
+    test('should fail with ReplayMismatchError when the executor yields something else', async () => {
+      const store = new MemoryExecutionStore();
+      const id = await crashAtGreeting(store);
+
+      const changed: ExecutorFunction<Input, string> = async function* () {
+        yield request('confirm', 'Really greet?');
+        return 'never';
+      };
+      const { adapter, asked } = createAdapter({});
+      const orchestrator = new Orchestrator({
+        manifest,
+        adapter,
+        storage: new MemoryStorage(),
+        executor: changed,
+        executionStore: store,
+      });
+      const errors: Error[] = [];
+      orchestrator.on('error', (error) => errors.push(error));
+
+      const result = await orchestrator.resume(id);
+
+      expect(result.success).toBe(false);
+      expect(errors[0]).toBeInstanceOf(ReplayMismatchError);
+      expect((errors[0] as ReplayMismatchError).index).toBe(0);
+      expect(result.error).toContain('Really greet?');
+      expect(asked).toEqual([]);
+      expect((await store.load(id))?.status).toBe('ERROR');
+    });
+
+    test('should not resume a finished execution', async () => {
+      const store = new MemoryExecutionStore();
+      const { adapter } = createAdapter({ 'Greet?': false });
+      const config = { manifest, adapter, storage: new MemoryStorage(), executor: greeter, executionStore: store };
+      const first = new Orchestrator(config);
+      await first.run({ name: 'Ada' });
+
+      await expect(new Orchestrator(config).resume(first.executionId!)).rejects.toThrow(
+        'already finished'
+      );
+    });
+  });
+});
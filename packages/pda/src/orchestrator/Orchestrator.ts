@@ -1,5 +1,9 @@
 import { EventEmitter } from '../utils/EventEmitter.js';
-import { StateTransitionError, InteractionTimeoutError } from '../utils/errors.js';
+import {
+  StateTransitionError,
+  InteractionTimeoutError,
+  ReplayMismatchError,
+} from '../utils/errors.js';
 import type {
   Manifest,
   OrchestratorState,
@@ -11,6 +15,9 @@ import type {
   ExecutionContext,
   FileStorage,
   ExecutorFunction,
+  ExecutionStore,
+  ExecutionRecord,
+  RecordedInteraction,
 } from '../types.js';
 
 export interface OrchestratorConfig<TInput = unknown, TOutput = unknown> {
@@ -18,6 +25,14 @@ export interface OrchestratorConfig<TInput = unknown, TOutput = unknown> {
   adapter: Adapter<TInput, TOutput>;
   storage: FileStorage;
   executor: ExecutorFunction<TInput, TOutput>;
+  /** Checkpoints every run so it can be listed, inspected and resumed */
+  executionStore?: ExecutionStore;
+}
+
+/** What a run starts from: fresh input, or a recorded execution to resume */
+interface ExecutionStart<TInput, TOutput> {
+  input: TInput;
+  record?: ExecutionRecord<TInput, TOutput>;
 }
 
 /**
@@ -49,6 +64,9 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
     InteractionResponse | undefined
   > | null = null;
   private startTime: number = 0;
+  private record: ExecutionRecord<TInput, TOutput> | null = null;
+  private checkpoints: Promise<void> = Promise.resolve();
+  private replaying = false;
 
   constructor(config: OrchestratorConfig<TInput, TOutput>) {
     super();
@@ -59,6 +77,14 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
     return this.state;
   }
 
+  /**
+   * ID of the current (or last) recorded execution, set once input is validated
+   * Null without an executionStore.
+   */
+  get executionId(): string | null {
+    return this.record?.id ?? null;
+  }
+
   /**
    * Transition to a new state with validation
    */
@@ -82,13 +108,7 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
       throw new Error(`Cannot start: orchestrator is in ${this.state} state`);
     }
 
-    this.startTime = Date.now();
-    this.abortController = new AbortController();
-
-    try {
-      // PRE_FLIGHT: Collect and validate input
-      this.transition('PRE_FLIGHT');
-
+    return this.execute(async () => {
       let input: TInput;
 
       if (preCollectedInput !== undefined) {
@@ -108,14 +128,97 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
         input = parseResult.data as TInput;
       }
 
+      return { input };
+    });
+  }
+
+  /**
+   * Resume a recorded execution that didn't finish (e.g. the process exited in AWAITING_USER)
+   *
+   * A fresh executor is started with the recorded input and fed the recorded
+   * responses in order, without asking the adapter; live interaction starts at
+   * the first request that has no recorded response. The executor must yield
+   * the same requests (type and message) as in the recorded run.
+   */
+  async resume(executionId: string): Promise<ExecutionResult<TOutput>> {
+    if (this.state !== 'IDLE') {
+      throw new Error(`Cannot resume: orchestrator is in ${this.state} state`);
+    }
+    if (!this.config.executionStore) {
+      throw new Error('Cannot resume: no executionStore configured');
+    }
+
+    const record = (await this.config.executionStore.load(executionId)) as ExecutionRecord<
+      TInput,
+      TOutput
+    > | null;
+    if (!record) {
+      throw new Error(`Cannot resume: execution ${executionId} not found`);
+    }
+    if (record.appId !== this.config.manifest.id) {
+      throw new Error(`Cannot resume: execution ${executionId} belongs to app ${record.appId}`);
+    }
+    if (record.status === 'SUCCESS' || record.status === 'ERROR') {
+      throw new Error(`Cannot resume: execution ${executionId} has already finished`);
+    }
+
+    // Input was validated when the execution started
+    return this.execute(async () => ({ input: record.input, record }));
+  }
+
+  /**
+   * Run the executor from PRE_FLIGHT to SUCCESS/ERROR
+   * @param prepare - Collects the input (and the record to resume) during PRE_FLIGHT
+   */
+  private async execute(
+    prepare: () => Promise<ExecutionStart<TInput, TOutput>>
+  ): Promise<ExecutionResult<TOutput>> {
+    this.startTime = Date.now();
+    this.abortController = new AbortController();
+    this.record = null;
+
+    try {
+      // PRE_FLIGHT: Collect and validate input
+      this.transition('PRE_FLIGHT');
+
+      const { input, record } = await prepare();
+
+      // Recorded interactions answered before the resume point are replayed
+      const replay = record?.interactions ?? [];
+      const pendingIndex = replay.findIndex(
+        (entry) => entry.request.requiresResponse && !entry.response
+      );
+      const replayCount = pendingIndex === -1 ? replay.length : pendingIndex;
+
+      if (this.config.executionStore) {
+        const now = Date.now();
+        this.record = record ?? {
+          id: crypto.randomUUID(),
+          appId: this.config.manifest.id,
+          input,
+          status: 'RUNNING',
+          interactions: [],
+          progress: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+      }
+
       // RUNNING: Execute the generator
       this.transition('RUNNING');
+      await this.checkpoint({ status: 'RUNNING' });
 
       const context: ExecutionContext = {
         signal: this.abortController.signal,
         storage: this.config.storage,
         progress: (current, total, status) => {
+          // Already reported before the resume point
+          if (this.replaying) return;
           this.emit('progress', current, total, status);
+          if (this.record) {
+            const entry = { current, total, status, timestamp: Date.now() };
+            this.checkpoint({ progress: [...this.record.progress, entry] }).catch(() => {});
+          }
           // Send progress as non-blocking interaction
           this.config.adapter
             .handleInteraction({
@@ -128,6 +231,7 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
             .catch(() => {}); // Fire and forget
         },
         info: (message, level = 'info') => {
+          if (this.replaying) return;
           this.emit('info', message, level);
           this.config.adapter
             .handleInteraction({
@@ -143,6 +247,8 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
 
       this.generator = this.config.executor(input, context);
 
+      let index = 0;
+      this.replaying = replayCount > 0;
       let result = await this.generator.next();
 
       while (!result.done) {
@@ -151,21 +257,41 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
           throw new Error('Execution cancelled');
         }
 
-        // AWAITING_USER: Handle interaction
-        this.transition('AWAITING_USER');
-
         const request = result.value;
-        this.emit('interaction:request', request);
+        const recorded = replay[index];
+        if (recorded) {
+          this.assertSameRequest(index, recorded, request);
+        }
 
         let response: InteractionResponse | undefined;
 
-        if (request.requiresResponse) {
-          response = await this.handleInteractionWithTimeout(request);
-          this.emit('interaction:response', response);
+        if (index < replayCount) {
+          // Replay: answer with the recorded response, under the new request's ID
+          response = recorded.response && { ...recorded.response, requestId: request.requestId };
+        } else {
+          this.replaying = false;
+
+          // AWAITING_USER: Handle interaction
+          this.transition('AWAITING_USER');
+          this.emit('interaction:request', request);
+          await this.recordInteraction(index, { request: this.toRecordedRequest(request) }, 'AWAITING_USER');
+
+          if (request.requiresResponse) {
+            response = await this.handleInteractionWithTimeout(request);
+            this.emit('interaction:response', response);
+          }
+
+          // RUNNING: Resume execution
+          this.transition('RUNNING');
+          await this.recordInteraction(
+            index,
+            { request: this.toRecordedRequest(request), response },
+            'RUNNING'
+          );
         }
 
-        // RUNNING: Resume execution
-        this.transition('RUNNING');
+        index++;
+        this.replaying = index < replayCount;
         result = await this.generator.next(response);
       }
 
@@ -179,6 +305,8 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
         duration: Date.now() - this.startTime,
       };
 
+      // A failed final checkpoint leaves the record resumable, the result stands
+      await this.checkpoint({ status: 'SUCCESS', result: executionResult }).catch(() => {});
       this.emit('complete', executionResult);
       await this.config.adapter.renderOutput(executionResult, this.config.manifest);
 
@@ -197,6 +325,7 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
         duration: Date.now() - this.startTime,
       };
 
+      await this.checkpoint({ status: 'ERROR', result: executionResult }).catch(() => {});
       this.emit('complete', executionResult);
       await this.config.adapter.renderOutput(executionResult, this.config.manifest);
 
@@ -204,6 +333,73 @@ export class Orchestrator<TInput = unknown, TOutput = unknown> extends EventEmit
     } finally {
       this.generator = null;
       this.abortController = null;
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Update the execution record and save it (no-op without an executionStore)
+   * Saves are chained so they reach the store in order.
+   */
+  private checkpoint(changes: Partial<ExecutionRecord<TInput, TOutput>>): Promise<void> {
+    const store = this.config.executionStore;
+    if (!store || !this.record) return Promise.resolve();
+
+    Object.assign(this.record, changes, { updatedAt: Date.now() });
+    const snapshot = {
+      ...this.record,
+      interactions: [...this.record.interactions],
+      progress: [...this.record.progress],
+    };
+
+    const saved = this.checkpoints.then(() => store.save(snapshot));
+    this.checkpoints = saved.catch(() => {});
+    return saved;
+  }
+
+  /**
+   * Record the interaction at `index` (replacing a pending one being asked again)
+   */
+  private recordInteraction(
+    index: number,
+    interaction: RecordedInteraction,
+    status: 'RUNNING' | 'AWAITING_USER'
+  ): Promise<void> {
+    if (!this.record) return Promise.resolve();
+    const interactions = [...this.record.interactions];
+    interactions[index] = interaction;
+    return this.checkpoint({ interactions, status });
+  }
+
+  /**
+   * Drop `data`, which may hold values a store can't serialize (e.g. form schemas)
+   */
+  private toRecordedRequest(request: InteractionRequest): RecordedInteraction['request'] {
+    const recorded: RecordedInteraction['request'] = {
+      requestId: request.requestId,
+      type: request.type,
+      message: request.message,
+      requiresResponse: request.requiresResponse,
+    };
+    if (request.timeout !== undefined) recorded.timeout = request.timeout;
+    if (request.defaultValue !== undefined) recorded.defaultValue = request.defaultValue;
+    return recorded;
+  }
+
+  /**
+   * Replay only works if the executor yields what it yielded in the recorded run
+   */
+  private assertSameRequest(
+    index: number,
+    recorded: RecordedInteraction,
+    request: InteractionRequest
+  ): void {
+    if (recorded.request.type !== request.type || recorded.request.message !== request.message) {
+      throw new ReplayMismatchError(
+        index,
+        `${recorded.request.type}: ${recorded.request.message}`,
+        `${request.type}: ${request.message}`
+      );
     }
   }
 
@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryExecutionStore } from './MemoryExecutionStore.js';
+import type { ExecutionRecord } from '../types.js';
+
+function record(id: string, changes: Partial<ExecutionRecord> = {}): ExecutionRecord {
+  return {
+    id,
+    appId: 'app',
+    input: { amount: 1 },
+    status: 'AWAITING_USER',
+    interactions: [
+      {
+        request: { requestId: 'r1', type: 'confirm', message: 'Send?', requiresResponse: true },
+        response: { requestId: 'r1', value: true },
+      },
+    ],
+    progress: [{ current: 1, total: 2, status: 'sending', timestamp: 1 }],
+    createdAt: 1,
+    updatedAt: 1,
+    ...changes,
+  };
+}
+
+describe('MemoryExecutionStore', () => {
+  test('should round-trip a record as a copy', async () => {
+    const store = new MemoryExecutionStore();
+    const saved = record('a');
+
+    await store.save(saved);
+    saved.interactions.length = 0;
+    const loaded = await store.load('a');
+
+    expect(loaded).toEqual(record('a'));
+    loaded!.progress.length = 0;
+    expect((await store.load('a'))?.progress).toHaveLength(1);
+  });
+
+  test('should list newest first and filter by app and status', async () => {
+    const store = new MemoryExecutionStore();
+    await store.save(record('old', { createdAt: 1 }));
+    await store.save(record('new', { createdAt: 2 }));
+    await store.save(record('done', { createdAt: 3, status: 'SUCCESS' }));
+    await store.save(record('other', { createdAt: 4, appId: 'other' }));
+
+    expect((await store.list()).map((r) => r.id)).toEqual(['other', 'done', 'new', 'old']);
+    expect((await store.list({ appId: 'app', status: 'AWAITING_USER' })).map((r) => r.id)).toEqual([
+      'new',
+      'old',
+    ]);
+  });
+
+  test('should delete a record', async () => {
+    const store = new MemoryExecutionStore();
+    await store.save(record('a'));
+
+    await store.delete('a');
+
+    expect(await store.load('a')).toBeNull();
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import type { ExecutionStore, ExecutionRecord, ExecutionFilter } from '../types.js';
+
+/**
+ * Keep records matching a filter, newest first
+ */
+export function filterExecutions(
+  records: Iterable<ExecutionRecord>,
+  filter?: ExecutionFilter
+): ExecutionRecord[] {
+  return [...records]
+    .filter(
+      (record) =>
+        (!filter?.appId || record.appId === filter.appId) &&
+        (!filter?.status || record.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * In-memory execution store
+ *
+ * Records are cloned on save and load, like a persistent store would.
+ * Useful for testing; records are lost when the process exits.
+ */
+export class MemoryExecutionStore implements ExecutionStore {
+  private records = new Map<string, ExecutionRecord>();
+
+  async save(record: ExecutionRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async load(id: string): Promise<ExecutionRecord | null> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async list(filter?: ExecutionFilter): Promise<ExecutionRecord[]> {
+    return filterExecutions(this.records.values(), filter).map((record) => structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  /**
+   * Clear all records
+   */
+  clear(): void {
+    this.records.clear();
+  }
+
+  /**
+   * Get the number of stored records
+   */
+  get size(): number {
+    return this.records.size;
+  }
+}
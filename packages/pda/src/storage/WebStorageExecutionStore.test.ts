@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'bun:test';
+import { WebStorageExecutionStore } from './WebStorageExecutionStore.js';
+import type { ExecutionRecord } from '../types.js';
+
+// Map-backed Web Storage, like localStorage
+class MapStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+function record(id: string, changes: Partial<ExecutionRecord> = {}): ExecutionRecord {
+  return {
+    id,
+    appId: 'app',
+    input: { amount: 1 },
+    status: 'AWAITING_USER',
+    interactions: [
+      {
+        request: { requestId: 'r1', type: 'confirm', message: 'Send?', requiresResponse: true },
+        response: { requestId: 'r1', value: true },
+      },
+    ],
+    progress: [{ current: 1, total: 2, status: 'sending', timestamp: 1 }],
+    createdAt: 1,
+    updatedAt: 1,
+    ...changes,
+  };
+}
+
+describe('WebStorageExecutionStore', () => {
+  test('should round-trip a record through JSON under the prefix', async () => {
+    const storage = new MapStorage();
+    const store = new WebStorageExecutionStore(storage);
+
+    await store.save(record('a'));
+
+    expect(storage.getItem('pda:execution:a')).not.toBeNull();
+    expect(await store.load('a')).toEqual(record('a'));
+    expect(await store.load('missing')).toBeNull();
+  });
+
+  test('should list only its own keys, newest first, filtered', async () => {
+    const storage = new MapStorage();
+    storage.setItem('unrelated', '{}');
+    const store = new WebStorageExecutionStore(storage);
+    await store.save(record('old', { createdAt: 1 }));
+    await store.save(record('new', { createdAt: 2 }));
+    await store.save(record('done', { createdAt: 3, status: 'ERROR' }));
+
+    expect((await store.list()).map((r) => r.id)).toEqual(['done', 'new', 'old']);
+    expect((await store.list({ status: 'AWAITING_USER' })).map((r) => r.id)).toEqual(['new', 'old']);
+  });
+
+  test('should keep stores with different prefixes apart', async () => {
+    const storage = new MapStorage();
+    const first = new WebStorageExecutionStore(storage, 'first:');
+    const second = new WebStorageExecutionStore(storage, 'second:');
+
+    await first.save(record('a'));
+    await second.delete('a');
+
+    expect(await first.load('a')).not.toBeNull();
+    expect(await second.list()).toEqual([]);
+  });
+});
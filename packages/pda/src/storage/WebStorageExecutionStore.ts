@@ -0,0 +1,45 @@
+import type { ExecutionStore, ExecutionRecord, ExecutionFilter } from '../types.js';
+import { filterExecutions } from './MemoryExecutionStore.js';
+
+/**
+ * Execution store on top of the Web Storage API
+ *
+ * Survives page reloads when given `localStorage`. Each record is one JSON
+ * entry under `prefix + id`, so inputs and responses must be JSON-serializable.
+ *
+ * @example
+ * ```typescript
+ * const executions = new WebStorageExecutionStore(localStorage);
+ * const pending = await executions.list({ status: 'AWAITING_USER' });
+ * ```
+ */
+export class WebStorageExecutionStore implements ExecutionStore {
+  constructor(
+    private storage: Storage,
+    private prefix = 'pda:execution:'
+  ) {}
+
+  async save(record: ExecutionRecord): Promise<void> {
+    this.storage.setItem(this.prefix + record.id, JSON.stringify(record));
+  }
+
+  async load(id: string): Promise<ExecutionRecord | null> {
+    const json = this.storage.getItem(this.prefix + id);
+    return json ? (JSON.parse(json) as ExecutionRecord) : null;
+  }
+
+  async list(filter?: ExecutionFilter): Promise<ExecutionRecord[]> {
+    const records: ExecutionRecord[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key?.startsWith(this.prefix)) continue;
+      const json = this.storage.getItem(key);
+      if (json) records.push(JSON.parse(json) as ExecutionRecord);
+    }
+    return filterExecutions(records, filter);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.storage.removeItem(this.prefix + id);
+  }
+}
@@ -223,6 +223,81 @@ export interface FileStorage {
   getMetadata(handle: string): Promise<Omit<FileRef, 'handle'> | null>;
 }
 
+// ============================================================================
+// Execution Store Types
+// ============================================================================
+
+/** Status of a recorded execution */
+export type ExecutionStatus = 'RUNNING' | 'AWAITING_USER' | 'SUCCESS' | 'ERROR';
+
+export interface RecordedInteraction {
+  /** The request as yielded (without `data`, which may hold schemas that can't be serialized) */
+  request: Omit<InteractionRequest, 'data'>;
+
+  /** The user's response; missing while awaiting it, or for progress/info requests */
+  response?: InteractionResponse;
+}
+
+export interface RecordedProgress {
+  current: number;
+  total?: number;
+  status?: string;
+
+  /** When it was reported (ms since epoch) */
+  timestamp: number;
+}
+
+export interface ExecutionRecord<TInput = unknown, TOutput = unknown> {
+  /** Unique execution ID */
+  id: string;
+
+  /** Manifest ID of the app that ran */
+  appId: string;
+
+  /** Validated input the executor was started with */
+  input: TInput;
+
+  /** Current status */
+  status: ExecutionStatus;
+
+  /** Every yielded interaction, in order */
+  interactions: RecordedInteraction[];
+
+  /** Every progress update reported through ctx.progress(), in order */
+  progress: RecordedProgress[];
+
+  /** Final result, once finished */
+  result?: ExecutionResult<TOutput>;
+
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+
+  /** Last checkpoint time (ms since epoch) */
+  updatedAt: number;
+}
+
+export interface ExecutionFilter {
+  /** Only executions of this app */
+  appId?: string;
+
+  /** Only executions with this status */
+  status?: ExecutionStatus;
+}
+
+export interface ExecutionStore {
+  /** Create or replace a record */
+  save(record: ExecutionRecord): Promise<void>;
+
+  /** Get a record by ID */
+  load(id: string): Promise<ExecutionRecord | null>;
+
+  /** List records, newest first */
+  list(filter?: ExecutionFilter): Promise<ExecutionRecord[]>;
+
+  /** Delete a record by ID */
+  delete(id: string): Promise<void>;
+}
+
 // ============================================================================
 // Executor Types
 // ============================================================================
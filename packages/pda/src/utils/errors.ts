@@ -46,3 +46,16 @@ export class ExecutionCancelledError extends PDAError {
     this.name = 'ExecutionCancelledError';
   }
 }
+
+export class ReplayMismatchError extends PDAError {
+  constructor(
+    public readonly index: number,
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(
+      `Replay diverged at interaction ${index}: recorded "${expected}", executor yielded "${actual}"`
+    );
+    this.name = 'ReplayMismatchError';
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Cron Tests - Expression parsing and next-run calculation (UTC)
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseCron, nextCronTime } from './Cron.js';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('parseCron', () => {
+  test('parses wildcards, ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-17 1,15 * 1-5');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('treats day-of-week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  test('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow();
+    expect(() => parseCron('60 * * * *')).toThrow();
+    expect(() => parseCron('*/0 * * * *')).toThrow();
+    expect(() => parseCron('5-1 * * * *')).toThrow();
+    expect(() => parseCron('a * * * *')).toThrow();
+  });
+});
+
+describe('nextCronTime', () => {
+  test('returns the next matching minute strictly after the given time', () => {
+    expect(nextCronTime('*/15 * * * *', at('2024-01-01T10:07:30Z'))).toBe(at('2024-01-01T10:15:00Z'));
+    expect(nextCronTime('*/15 * * * *', at('2024-01-01T10:15:00Z'))).toBe(at('2024-01-01T10:30:00Z'));
+  });
+
+  test('rolls over hours, days, months and years', () => {
+    expect(nextCronTime('0 2 * * *', at('2024-01-01T03:00:00Z'))).toBe(at('2024-01-02T02:00:00Z'));
+    expect(nextCronTime('0 0 1 * *', at('2024-01-31T12:00:00Z'))).toBe(at('2024-02-01T00:00:00Z'));
+    expect(nextCronTime('30 6 1 1 *', at('2024-06-01T00:00:00Z'))).toBe(at('2025-01-01T06:30:00Z'));
+  });
+
+  test('finds leap days', () => {
+    expect(nextCronTime('0 0 29 2 *', at('2024-03-01T00:00:00Z'))).toBe(at('2028-02-29T00:00:00Z'));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 2024-01-06 is a Saturday; next is Monday the 8th, before the 15th
+    expect(nextCronTime('0 0 15 * 1', at('2024-01-06T00:00:00Z'))).toBe(at('2024-01-08T00:00:00Z'));
+  });
+
+  test('throws for expressions that never match', () => {
+    expect(() => nextCronTime('0 0 31 2 *', at('2024-01-01T00:00:00Z'))).toThrow();
+  });
+});
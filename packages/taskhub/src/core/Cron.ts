@@ -0,0 +1,137 @@
+/**
+ * Cron Expression Parser
+ * Standard 5-field cron (minute hour day-of-month month day-of-week), evaluated in UTC
+ *
+ * Supports `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/5`) and lists (`1,15,30`).
+ * Day-of-week accepts 0-7 (0 and 7 are Sunday). As in classic cron, when both
+ * day-of-month and day-of-week are restricted, a day matches if either does.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MINUTE_MS = 60_000;
+
+// Give up after this many years without a match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${name} step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = Number(a);
+      end = Number(b);
+    } else {
+      start = Number(rangePart);
+      // "5/15" means "from 5 to max every 15"
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minute, hour, dom, month, dow] = fields;
+  const daysOfWeek = parseField(dow, 0, 7, 'day-of-week');
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: expression,
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    daysOfMonth: parseField(dom, 1, 31, 'day-of-month'),
+    months: parseField(month, 1, 12, 'month'),
+    daysOfWeek,
+    domRestricted: dom !== '*',
+    dowRestricted: dow !== '*',
+  };
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time (ms) strictly after `after` that matches the expression
+ */
+export function nextCronTime(expression: string | CronExpression, after: number): number {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Start at the next whole minute
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date.getTime();
+  }
+
+  throw new Error(`Cron expression never matches: "${cron.source}"`);
+}
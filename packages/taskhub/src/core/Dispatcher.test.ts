@@ -5,7 +5,7 @@
 import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
 import { Dispatcher, type DispatcherConfig } from './Dispatcher.js';
 import { BunSQLiteAdapter } from '../storage/BunSQLiteAdapter.js';
-import type { Job, TaskSource, JobContext, TaskMeta } from '../types.js';
+import type { Job, TaskSource, JobContext, TaskMeta, RateLimitConfig, Metrics, JobSpan, RateLimitReason } from '../types.js';
 import { unlink } from 'fs/promises';
 
 const TEST_DB = 'test-dispatcher.db';
@@ -64,7 +64,7 @@ describe('Dispatcher', () => {
     try { await unlink(TEST_DB + '-shm'); } catch {}
   });
 
-  const createDispatcher = (source?: TestSource): Dispatcher => {
+  const createDispatcher = (source?: TestSource, rateLimit?: RateLimitConfig, metrics?: Metrics): Dispatcher => {
     const config: DispatcherConfig = {
       taskId,
       source: source ?? new TestSource(),
@@ -83,6 +83,8 @@ describe('Dispatcher', () => {
         maxDelay: 100,
       },
       timeout: 5000,
+      rateLimit,
+      metrics,
     };
     return new Dispatcher(config);
   };
@@ -447,6 +449,127 @@ describe('Dispatcher', () => {
     });
   });
 
+  describe('Rate limiting', () => {
+    test('spaces job starts with a token bucket', async () => {
+      const starts: number[] = [];
+      const source = new TestSource(async (input) => {
+        starts.push(Date.now());
+        return input;
+      });
+      await createJobs(4);
+
+      // One token every 50ms, no burst
+      const dispatcher = createDispatcher(source, { rate: 1, interval: 50, burst: 1 });
+      await dispatcher.start();
+
+      expect(starts.length).toBe(4);
+      expect(starts[3] - starts[0]).toBeGreaterThanOrEqual(140);
+    });
+
+    test('waits for Retry-After before retrying', async () => {
+      const starts: number[] = [];
+      const source = new TestSource(async () => {
+        starts.push(Date.now());
+        if (starts.length === 1) {
+          throw Object.assign(new Error('429 Too Many Requests'), { headers: { 'Retry-After': '0.2' } });
+        }
+        return 42;
+      });
+      source.isRetryableFn = () => true;
+      await createJobs(1);
+
+      const dispatcher = createDispatcher(source);
+      await dispatcher.start();
+
+      expect(starts.length).toBe(2);
+      expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(190);
+      expect((await adapter.getJob('job-0'))?.status).toBe('completed');
+    });
+
+    test('stops at the quota and hands back unstarted jobs', async () => {
+      await createJobs(4);
+
+      const dispatcher = createDispatcher(undefined, { key: 'api', quotas: [{ limit: 2, windowMs: 86_400_000 }] });
+      const resets: number[] = [];
+      dispatcher.on('quota-exhausted', (resetsAt) => resets.push(resetsAt));
+
+      const running = dispatcher.start();
+      await new Promise(r => setTimeout(r, 200));
+
+      const counts = await adapter.getJobCounts(taskId);
+      expect(counts.completed).toBe(2);
+      expect(counts.pending).toBe(2);
+      expect(resets[0]).toBeGreaterThan(Date.now());
+
+      const pending = await adapter.getJobsByTask(taskId, 'pending');
+      expect(pending.every(job => job.attempts === 0)).toBe(true);
+
+      await dispatcher.stop();
+      await running;
+    });
+  });
+
+  describe('Metrics', () => {
+    test('reports one span per attempt', async () => {
+      const spans: JobSpan[] = [];
+      let calls = 0;
+      const source = new TestSource(async (input) => {
+        if (input === 0 && ++calls === 1) throw new Error('flaky');
+        return input;
+      });
+      source.isRetryableFn = () => true;
+      await createJobs(3);
+
+      const dispatcher = createDispatcher(source, undefined, { onAttempt: span => spans.push(span) });
+      await dispatcher.start();
+
+      expect(spans.map(span => span.attributes['taskhub.job.outcome']).sort()).toEqual(['completed', 'completed', 'completed', 'retry']);
+
+      const retry = spans.find(span => span.attributes['taskhub.job.outcome'] === 'retry')!;
+      expect(retry.status).toEqual({ code: 'error', message: 'flaky' });
+      expect(retry.attributes['taskhub.job.classification']).toBe('retryable');
+      expect(retry.attributes['taskhub.job.attempt']).toBe(1);
+
+      expect(new Set(spans.map(span => span.traceId)).size).toBe(1);
+      expect(new Set(spans.map(span => span.spanId)).size).toBe(4);
+      expect(spans[0].traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(spans[0].spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(spans.every(span => span.endTime >= span.startTime)).toBe(true);
+    });
+
+    test('reports rate limits and concurrency changes', async () => {
+      const reasons: RateLimitReason[] = [];
+      const windows: number[] = [];
+      let calls = 0;
+      const source = new TestSource(async (input) => {
+        if (++calls === 1) throw new Error('429 Too Many Requests');
+        return input;
+      });
+      source.isRetryableFn = () => true;
+      source.isRateLimitedFn = () => true;
+      await createJobs(1);
+
+      const dispatcher = createDispatcher(source, undefined, {
+        onRateLimit: (task, reason) => reasons.push(reason),
+        onConcurrencyChange: (task, concurrency) => windows.push(concurrency),
+      });
+      await dispatcher.start();
+
+      expect(reasons).toEqual(['response']);
+      expect(windows).toEqual([2, 1]);
+    });
+
+    test('a throwing hook does not fail jobs', async () => {
+      await createJobs(2);
+      const dispatcher = createDispatcher(undefined, undefined, {
+        onAttempt: () => { throw new Error('metrics backend down'); },
+      });
+      await dispatcher.start();
+
+      expect((await adapter.getJobCounts(taskId)).completed).toBe(2);
+    });
+  });
+
   describe('Timeout handling', () => {
     test('times out long-running jobs', async () => {
       const source = new TestSource(async () => {
@@ -744,6 +867,7 @@ describe('Dispatcher', () => {
           }
           return adapter.failJob(jobId, error, canRetry, retryAfterMs);
         },
+        failDependents: adapter.failDependents.bind(adapter),
         getJobCounts: adapter.getJobCounts.bind(adapter),
       };
 
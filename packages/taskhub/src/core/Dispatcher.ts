@@ -3,15 +3,21 @@
  * Adaptive concurrency control using Additive Increase / Multiplicative Decrease
  */
 
-import type { AIMDConfig, Job, JobContext, StorageAdapter, TaskSource, RetryConfig, DEFAULT_RETRY_CONFIG } from '../types.js';
+import type { AIMDConfig, AttemptOutcome, Job, JobAttempt, JobContext, LeaseConfig, Metrics, MetricsTask, RateLimitConfig, StorageAdapter, TaskSource, RetryConfig, DEFAULT_RETRY_CONFIG } from '../types.js';
+import { LeaseLostError } from '../types.js';
 import { EventEmitter } from './EventEmitter.js';
+import type { Scheduler } from './Scheduler.js';
+import { RateLimiter, getRetryAfterMs } from './RateLimiter.js';
+import { randomHexId } from './Metrics.js';
 
 export interface DispatcherEvents {
   'job:start': (job: Job) => void;
   'job:complete': (job: Job) => void;
   'job:failed': (data: { job: Job; error: Error }) => void;
   'job:retry': (data: { job: Job; attempt: number }) => void;
+  'job:lease-lost': (job: Job) => void;
   'rate-limited': (concurrency: number) => void;
+  'quota-exhausted': (resetsAt: number) => void;
   'concurrency-change': (concurrency: number) => void;
 }
 
@@ -22,6 +28,14 @@ export interface DispatcherConfig {
   aimd: AIMDConfig;
   retry: RetryConfig;
   timeout: number;
+  scheduler?: Scheduler; // Hub-wide concurrency budget shared with other tasks
+  weight?: number; // Fair-share weight within the scheduler (default 1)
+  lease?: Required<LeaseConfig>; // Claim with leases so other workers can share the task
+  rateLimit?: RateLimitConfig; // Token bucket and persisted quotas (quota key defaults to the task name)
+  inputOpen?: () => boolean; // More input may still arrive (streaming ingestion): don't finish when drained
+  name?: string; // Task name for metrics and the default quota key (default: taskId)
+  metricsLabel?: string; // Task label of metric series (default: name)
+  metrics?: Metrics; // Observability hooks
 }
 
 export class Dispatcher extends EventEmitter<DispatcherEvents> {
@@ -32,11 +46,17 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
   private paused = false;
   private stopped = false;
   private processingPromise: Promise<void> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private limiter: RateLimiter;
+  private traceId = randomHexId(16);
+  private strandedChecked = false; // Stranded jobs were looked for since the last claim
 
   constructor(config: DispatcherConfig) {
     super();
     this.config = config;
     this.concurrency = config.aimd.initialConcurrency;
+    // Without a rateLimit config the limiter only honors Retry-After pauses
+    this.limiter = new RateLimiter(config.rateLimit ?? {}, config.name ?? config.taskId, config.storage);
   }
 
   get currentConcurrency(): number {
@@ -63,6 +83,7 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
 
     this.paused = false;
     this.stopped = false;
+    this.report(metrics => metrics.onConcurrencyChange?.(this.task, this.concurrency));
     this.processingPromise = this.processLoop();
 
     return this.processingPromise;
@@ -113,25 +134,59 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
    * Main processing loop
    */
   private async processLoop(): Promise<void> {
+    const { scheduler, taskId, lease } = this.config;
+    scheduler?.register(taskId, this.config.weight ?? 1);
+    this.startHeartbeat();
+
     while (!this.stopped) {
       if (this.paused) {
+        scheduler?.idle(taskId);
         await this.sleep(100);
         continue;
       }
 
       // Calculate how many jobs we can start
-      const slotsAvailable = this.concurrency - this.activeJobs.size;
+      let slotsAvailable = this.concurrency - this.activeJobs.size;
 
       if (slotsAvailable <= 0) {
         await this.sleep(10);
         continue;
       }
 
+      // Hub-wide budget: the AIMD window is an upper bound, the scheduler decides the rest
+      if (scheduler) {
+        slotsAvailable = scheduler.acquire(taskId, slotsAvailable);
+        if (slotsAvailable <= 0) {
+          await this.sleep(10);
+          continue;
+        }
+      }
+
+      // Client-side rate limit: tokens are taken before claiming and given back if unused
+      const requested = slotsAvailable;
+      slotsAvailable = this.limiter.take(requested);
+      if (slotsAvailable === 0) {
+        scheduler?.release(taskId, requested);
+        if (this.activeJobs.size === 0 && (await this.isDrained())) {
+          break;
+        }
+        await this.sleep(Math.min(Math.max(this.limiter.waitTime, 10), 100));
+        continue;
+      }
+      if (scheduler && slotsAvailable < requested) {
+        scheduler.release(taskId, requested - slotsAvailable);
+      }
+
       // Claim jobs from storage
       let jobs: Job[];
       try {
-        jobs = await this.config.storage.claimJobs(this.config.taskId, slotsAvailable);
+        jobs = await this.config.storage.claimJobs(
+          this.config.taskId,
+          slotsAvailable,
+          lease ? { owner: lease.workerId, durationMs: lease.durationMs } : undefined
+        );
       } catch (error) {
+        scheduler?.release(taskId, slotsAvailable);
         // Storage might be closed (e.g., during shutdown or crash)
         if (error instanceof Error && error.message.includes('closed')) {
           this.stopped = true;
@@ -140,26 +195,43 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
         throw error;
       }
 
+      const claimed = jobs.length;
+      if (claimed > 0) this.strandedChecked = false;
+
+      // Quotas are counted for claimed jobs only; jobs over quota go back unstarted
+      try {
+        jobs = await this.applyQuotas(jobs);
+      } catch (error) {
+        scheduler?.release(taskId, slotsAvailable);
+        if (error instanceof Error && error.message.includes('closed')) {
+          this.stopped = true;
+          break;
+        }
+        throw error;
+      }
+      this.limiter.giveBack(slotsAvailable - jobs.length);
+
+      // Give back slots that found no claimable job
+      if (scheduler && jobs.length < slotsAvailable) {
+        scheduler.release(taskId, slotsAvailable - jobs.length);
+        scheduler.idle(taskId);
+      }
+
       if (jobs.length === 0) {
         // No jobs claimed - either all done or waiting for scheduled retries
         if (this.activeJobs.size === 0) {
           // Check if there are still pending jobs (possibly with future scheduled_at)
-          try {
-            const counts = await this.config.storage.getJobCounts(this.config.taskId);
-            if (counts.pending === 0) {
-              // All done
-              break;
-            }
-            // Jobs exist but not ready yet - wait for scheduled_at to expire
-            await this.sleep(50);
+          if (await this.isDrained()) {
+            // All done
+            break;
+          }
+          // Jobs over quota were claimable: only an empty claim can mean jobs are stranded
+          if (claimed === 0 && (await this.failStrandedJobs())) {
             continue;
-          } catch (error) {
-            if (error instanceof Error && error.message.includes('closed')) {
-              this.stopped = true;
-              break;
-            }
-            throw error;
           }
+          // Jobs exist but not ready yet - wait for scheduled_at to expire
+          await this.sleep(50);
+          continue;
         }
         // Wait for active jobs to complete
         await this.sleep(50);
@@ -179,10 +251,49 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
     while (this.activeJobs.size > 0) {
       await this.sleep(50);
     }
+    this.report(metrics => metrics.onTaskStop?.(this.task));
 
+    this.stopHeartbeat();
+    scheduler?.unregister(taskId);
     this.processingPromise = null;
   }
 
+  /**
+   * True when no pending work is left and no more input is coming
+   * With leases, jobs active on other workers may still expire and need reclaiming.
+   * A closed storage also ends the loop.
+   */
+  private async isDrained(): Promise<boolean> {
+    if (this.config.inputOpen?.()) return false;
+
+    try {
+      const counts = await this.config.storage.getJobCounts(this.config.taskId);
+      return counts.pending === 0 && (!this.config.lease || counts.active === 0);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('closed')) {
+        this.stopped = true;
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count claimed jobs against the quotas and hand back the ones over quota
+   */
+  private async applyQuotas(jobs: Job[]): Promise<Job[]> {
+    if (jobs.length === 0) return jobs;
+
+    const granted = await this.limiter.consume(jobs.length);
+    if (granted === jobs.length) return jobs;
+
+    const over = jobs.slice(granted);
+    await this.config.storage.unclaimJobs(over.map(job => job.id), this.config.lease?.workerId);
+    this.report(metrics => metrics.onRateLimit?.(this.task, 'quota'));
+    this.emit('quota-exhausted', this.limiter.pausedUntil);
+    return jobs.slice(0, granted);
+  }
+
   /**
    * Process a single job
    */
@@ -193,6 +304,8 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
     this.emit('job:start', job);
 
     let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const startedAt = Date.now();
 
     try {
       const context: JobContext = {
@@ -204,6 +317,7 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
       // Create timeout promise
       const timeoutPromise = new Promise<never>((_, reject) => {
         timeoutId = setTimeout(() => {
+          timedOut = true;
           controller.abort(); // Abort the handler on timeout
           reject(new Error(`Job timeout after ${this.config.timeout}ms`));
         }, this.config.timeout);
@@ -219,15 +333,22 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
 
       // Job succeeded
       try {
-        await this.config.storage.completeJob(job.id, result);
+        await this.config.storage.completeJob(job.id, result, this.config.lease?.workerId);
       } catch (storageError) {
         // Storage closed during shutdown, job state will be recovered on restart
         if (storageError instanceof Error && storageError.message.includes('closed')) {
           return;
         }
+        // Another worker reclaimed the job, its result wins
+        if (storageError instanceof LeaseLostError) {
+          this.recordAttempt(job, startedAt, 'lease-lost');
+          this.emit('job:lease-lost', job);
+          return;
+        }
         throw storageError;
       }
 
+      this.recordAttempt(job, startedAt, 'completed');
       const completedJob: Job = { ...job, status: 'completed', output: result, completedAt: Date.now() };
       this.emit('job:complete', completedJob);
 
@@ -244,6 +365,7 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
 
       if (isRateLimited) {
         // AIMD: Multiplicative Decrease
+        this.report(metrics => metrics.onRateLimit?.(this.task, 'response'));
         this.onRateLimited();
       }
 
@@ -251,38 +373,206 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
       const isRetryable = this.config.source.isRetryable?.(error) ?? this.defaultIsRetryable(error);
       const canRetry = isRetryable && job.attempts < this.config.retry.maxAttempts;
 
+      // A server-provided Retry-After wins over backoff and holds back every other job too
+      const retryAfterHint = this.config.source.getRetryAfter?.(error) ?? getRetryAfterMs(error);
+      if (retryAfterHint !== undefined) {
+        this.report(metrics => metrics.onRateLimit?.(this.task, 'retry-after'));
+        this.limiter.pauseUntil(Date.now() + retryAfterHint);
+      }
+
       // Calculate retry delay for exponential backoff
       const retryAfterMs = canRetry
-        ? Math.min(
+        ? retryAfterHint ?? Math.min(
             this.config.retry.baseDelay * Math.pow(2, job.attempts - 1),
             this.config.retry.maxDelay
           )
         : undefined;
 
+      // Recorded in the job's history for dead-letter inspection
+      const failedAt = Date.now();
+      const attempt: JobAttempt = {
+        attempt: job.attempts,
+        error: err.message,
+        stack: err.stack,
+        classification: timedOut ? 'timeout' : isRateLimited ? 'rate-limited' : isRetryable ? 'retryable' : 'fatal',
+        startedAt,
+        failedAt,
+        durationMs: failedAt - startedAt,
+      };
+
       try {
-        await this.config.storage.failJob(job.id, err.message, canRetry, retryAfterMs);
+        await this.config.storage.failJob(job.id, err.message, canRetry, retryAfterMs, attempt, this.config.lease?.workerId);
       } catch (storageError) {
         // Storage closed during shutdown, job state will be recovered on restart
         if (storageError instanceof Error && storageError.message.includes('closed')) {
           return;
         }
+        if (storageError instanceof LeaseLostError) {
+          this.recordAttempt(job, startedAt, 'lease-lost', attempt);
+          this.emit('job:lease-lost', job);
+          return;
+        }
         throw storageError;
       }
 
+      this.recordAttempt(job, startedAt, canRetry ? 'retry' : 'failed', attempt);
       if (canRetry) {
         this.emit('job:retry', { job, attempt: job.attempts });
         // Note: Retry delay is handled by storage via scheduledAt field
         // The job will be available for claiming after the delay expires
       } else {
-        const failedJob: Job = { ...job, status: 'failed', error: err.message, completedAt: Date.now() };
+        const failedJob: Job = {
+          ...job,
+          status: 'failed',
+          error: err.message,
+          completedAt: failedAt,
+          history: [...(job.history ?? []), attempt],
+        };
         this.emit('job:failed', { job: failedJob, error: err });
+        await this.cascadeFailure(job.id);
       }
 
     } finally {
       this.activeJobs.delete(job.id);
+      this.config.scheduler?.release(this.config.taskId);
     }
   }
 
+  /**
+   * Fail every pending job that (transitively) depends on a failed job
+   * Without this, dependents would stay pending forever and the loop never ends
+   */
+  private async cascadeFailure(jobId: string, message = `Dependency failed: ${jobId}`): Promise<void> {
+    let dependents: Job[];
+
+    try {
+      dependents = await this.config.storage.failDependents(this.config.taskId, jobId, message);
+    } catch (storageError) {
+      if (storageError instanceof Error && storageError.message.includes('closed')) {
+        return;
+      }
+      throw storageError;
+    }
+
+    for (const dependent of dependents) {
+      this.emit('job:failed', { job: dependent, error: new Error(message) });
+    }
+  }
+
+  /**
+   * Fail pending jobs that can never be claimed because a dependency is failed or gone
+   * (requeued without their parent, parent discarded, or a crash before the cascade).
+   * Looked for once per idle spell; returns whether any job was failed
+   */
+  private async failStrandedJobs(): Promise<boolean> {
+    if (this.strandedChecked) return false;
+    this.strandedChecked = true;
+
+    const { storage, taskId } = this.config;
+    const now = Date.now();
+    const parents = new Map<string, Job | null>();
+    const broken = new Map<string, string>();
+
+    try {
+      for (const job of await storage.getJobsByTask(taskId, 'pending')) {
+        // Jobs waiting for a retry delay were claimable before
+        if (!job.dependsOn || (job.scheduledAt && job.scheduledAt > now)) continue;
+        for (const dep of job.dependsOn) {
+          if (!parents.has(dep)) parents.set(dep, await storage.getJob(dep));
+          const parent = parents.get(dep);
+          if (!parent) broken.set(dep, `Dependency missing: ${dep}`);
+          else if (parent.status === 'failed') broken.set(dep, `Dependency failed: ${dep}`);
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('closed')) {
+        return false;
+      }
+      throw error;
+    }
+
+    for (const [dep, message] of broken) {
+      await this.cascadeFailure(dep, message);
+    }
+    return broken.size > 0;
+  }
+
+  /**
+   * Renew leases of active jobs while the loop runs
+   */
+  private startHeartbeat(): void {
+    const { lease } = this.config;
+    if (!lease || this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(() => {
+        // Storage may be closing; an expired lease is simply reclaimed later
+      });
+    }, lease.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    const lease = this.config.lease!;
+    const jobIds = [...this.activeJobs.keys()];
+    if (jobIds.length === 0) return;
+
+    const renewed = new Set(await this.config.storage.renewLeases(lease.workerId, jobIds, lease.durationMs));
+
+    // Jobs we no longer own were reclaimed by another worker: stop working on them
+    for (const jobId of jobIds) {
+      if (!renewed.has(jobId)) {
+        this.activeJobs.get(jobId)?.abort();
+      }
+    }
+  }
+
+  private get task(): Required<MetricsTask> {
+    const name = this.config.name ?? this.config.taskId;
+    return { id: this.config.taskId, name, label: this.config.metricsLabel ?? name };
+  }
+
+  /**
+   * Call a metrics hook; a broken metrics backend must not fail jobs
+   */
+  private report(record: (metrics: Metrics) => void): void {
+    if (!this.config.metrics) return;
+    try {
+      record(this.config.metrics);
+    } catch (err) {
+      console.error('Error in metrics hook:', err);
+    }
+  }
+
+  /**
+   * Report one handler attempt as a span (`failure` is set for failed attempts)
+   */
+  private recordAttempt(job: Job, startedAt: number, outcome: AttemptOutcome, failure?: JobAttempt): void {
+    this.report(metrics => metrics.onAttempt?.({
+      name: 'taskhub.job',
+      traceId: this.traceId,
+      spanId: randomHexId(8),
+      startTime: startedAt,
+      endTime: failure?.failedAt ?? Date.now(),
+      status: failure ? { code: 'error', message: failure.error } : { code: 'ok' },
+      attributes: {
+        'taskhub.task.id': this.config.taskId,
+        'taskhub.task.name': this.task.name,
+        'taskhub.task.label': this.task.label,
+        'taskhub.job.id': job.id,
+        'taskhub.job.attempt': job.attempts,
+        'taskhub.job.outcome': outcome,
+        ...(failure && { 'taskhub.job.classification': failure.classification }),
+      },
+    }));
+  }
+
   /**
    * AIMD: Handle successful job
    */
@@ -299,6 +589,7 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
 
       if (newConcurrency !== this.concurrency) {
         this.concurrency = newConcurrency;
+        this.report(metrics => metrics.onConcurrencyChange?.(this.task, this.concurrency));
         this.emit('concurrency-change', this.concurrency);
       }
     }
@@ -317,6 +608,7 @@ export class Dispatcher extends EventEmitter<DispatcherEvents> {
 
     if (newConcurrency !== this.concurrency) {
       this.concurrency = newConcurrency;
+      this.report(metrics => metrics.onConcurrencyChange?.(this.task, this.concurrency));
       this.emit('rate-limited', this.concurrency);
       this.emit('concurrency-change', this.concurrency);
     }
@@ -6,7 +6,10 @@ import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
 import { Hub } from './Hub.js';
 import { createTaskHub } from './createTaskHub.js';
 import { Task } from './Task.js';
+import { verifyMerkleProof, verifyResults } from './MerkleTree.js';
+import { MetricsCollector } from './Metrics.js';
 import { BunSQLiteAdapter } from '../storage/BunSQLiteAdapter.js';
+import { MemoryAdapter } from '../storage/MemoryAdapter.js';
 import { TaskSource, type JobContext } from '../types.js';
 import { unlink } from 'fs/promises';
 
@@ -102,6 +105,37 @@ class FailingSource extends TaskSource<number, number> {
   }
 }
 
+class StreamSource extends TaskSource<number, number> {
+  readonly type = 'dynamic' as const;
+  yielded = 0;
+  private batches: number[][];
+  private gates: Promise<void>[];
+  private delay: number;
+
+  // Yields each batch once its gate resolves (the first batch right away)
+  constructor(batches: number[][], gates: Promise<void>[] = [], delay = 0) {
+    super();
+    this.batches = batches;
+    this.gates = gates;
+    this.delay = delay;
+  }
+
+  async *getData() {
+    for (let i = 0; i < this.batches.length; i++) {
+      if (i > 0) await this.gates[i - 1];
+      for (const item of this.batches[i]) {
+        this.yielded++;
+        yield item;
+      }
+    }
+  }
+
+  async handler(input: number): Promise<number> {
+    if (this.delay) await new Promise(r => setTimeout(r, this.delay));
+    return input * 2;
+  }
+}
+
 describe('Hub', () => {
   let adapter: BunSQLiteAdapter;
   let hub: Hub;
@@ -272,6 +306,175 @@ describe('Hub', () => {
       await hub.initialize();
     });
   });
+
+  describe('schedules', () => {
+    const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+      const start = Date.now();
+      while (!condition() && Date.now() - start < timeoutMs) {
+        await new Promise(r => setTimeout(r, 10));
+      }
+    };
+
+    const seedSchedule = async (id: string, missedRunPolicy: 'skip' | 'catch-up-once' | 'catch-up-all', nextRunAt: number, intervalMs = 60_000) => {
+      await adapter.createSchedule({
+        id,
+        cron: null,
+        intervalMs,
+        missedRunPolicy,
+        status: 'active',
+        nextRunAt,
+        lastRunAt: null,
+        lastTaskId: null,
+        createdAt: nextRunAt,
+        updatedAt: nextRunAt,
+      });
+    };
+
+    test('rejects invalid definitions', async () => {
+      const factory = () => new SimpleSource(['a']);
+      await expect(hub.schedule({ id: 'none' }, factory)).rejects.toThrow();
+      await expect(hub.schedule({ id: 'both', cron: '* * * * *', every: 1000 }, factory)).rejects.toThrow();
+      await expect(hub.schedule({ id: 'bad', cron: '99 * * * *' }, factory)).rejects.toThrow();
+    });
+
+    test('runs an interval schedule as new tasks', async () => {
+      const runs: number[] = [];
+      hub.on('schedule:run', (run) => runs.push(run.scheduledAt));
+
+      const created = await hub.schedule(
+        { id: 'tick', every: 50 },
+        ({ scheduledAt }) => new SimpleSource([String(scheduledAt)])
+      );
+      expect(created.status).toBe('active');
+
+      await waitFor(() => runs.length >= 2);
+      await hub.pauseSchedule('tick');
+
+      expect(runs.length).toBeGreaterThanOrEqual(2);
+      // Occurrences stay on the 50ms grid even if a run takes longer than the interval
+      expect((runs[1] - runs[0]) % 50).toBe(0);
+
+      const schedule = await hub.getSchedule('tick');
+      expect(schedule?.status).toBe('paused');
+      expect(schedule?.lastTaskId).toBeTruthy();
+
+      const task = await hub.getTask(schedule!.lastTaskId!);
+      expect(task?.name).toStartWith('tick@');
+    });
+
+    test('skip policy drops runs that are too late', async () => {
+      const now = Date.now();
+      await seedSchedule('late', 'skip', now - 5_000);
+
+      const runs: number[] = [];
+      hub.on('schedule:run', (run) => runs.push(run.scheduledAt));
+      await hub.schedule(
+        { id: 'late', every: 60_000, misfireThresholdMs: 100 },
+        () => new SimpleSource(['x'])
+      );
+
+      await waitFor(() => false, 100);
+      expect(runs).toEqual([]);
+      expect((await hub.getSchedule('late'))?.nextRunAt).toBe(now - 5_000 + 60_000);
+    });
+
+    test('catch-up-once runs the latest missed occurrence', async () => {
+      const first = Date.now() - 3 * 60_000 - 1_000;
+      await seedSchedule('once', 'catch-up-once', first);
+
+      const runs: number[] = [];
+      hub.on('schedule:run', (run) => runs.push(run.scheduledAt));
+      await hub.schedule(
+        { id: 'once', every: 60_000, missedRunPolicy: 'catch-up-once', misfireThresholdMs: 100 },
+        () => new SimpleSource(['x'])
+      );
+
+      await waitFor(() => runs.length >= 1);
+      await waitFor(() => false, 100);
+      expect(runs).toEqual([first + 3 * 60_000]);
+    });
+
+    test('catch-up-all runs every missed occurrence in order', async () => {
+      const first = Date.now() - 3 * 60_000 - 1_000;
+      await seedSchedule('all', 'catch-up-all', first);
+
+      const runs: number[] = [];
+      hub.on('schedule:run', (run) => runs.push(run.scheduledAt));
+      await hub.schedule(
+        { id: 'all', every: 60_000, missedRunPolicy: 'catch-up-all', misfireThresholdMs: 100 },
+        ({ scheduledAt }) => new SimpleSource([String(scheduledAt)])
+      );
+
+      await waitFor(() => runs.length >= 4);
+      expect(runs).toEqual([first, first + 60_000, first + 120_000, first + 180_000]);
+      expect((await hub.getSchedule('all'))?.nextRunAt).toBe(first + 240_000);
+    });
+
+    test('catches up after a long downtime without walking every occurrence', async () => {
+      const missed = 100_000_000;
+      const first = Date.now() - missed * 10_000 - 1_000;
+      await seedSchedule('dormant', 'catch-up-once', first, 10_000);
+
+      const runs: number[] = [];
+      hub.on('schedule:run', (run) => runs.push(run.scheduledAt));
+      const start = Date.now();
+      await hub.schedule(
+        { id: 'dormant', every: 10_000, missedRunPolicy: 'catch-up-once', misfireThresholdMs: 100 },
+        () => new SimpleSource(['x'])
+      );
+
+      await waitFor(() => runs.length >= 1);
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(runs).toEqual([first + missed * 10_000]);
+      expect((await hub.getSchedule('dormant'))?.nextRunAt).toBe(first + (missed + 1) * 10_000);
+    });
+
+    test('runs of a schedule share one quota', async () => {
+      const tasks: Task[] = [];
+      const exhausted: string[] = [];
+      hub.on('schedule:run', (_run, task) => {
+        tasks.push(task);
+        task.on('quota-exhausted', () => exhausted.push(task.name));
+      });
+
+      await hub.schedule(
+        { id: 'metered', every: 50, task: { rateLimit: { quotas: [{ limit: 1, windowMs: 86_400_000 }] } } },
+        () => new SimpleSource(['x'])
+      );
+
+      await waitFor(() => exhausted.length >= 1);
+      await hub.pauseSchedule('metered');
+
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0].completedJobs).toBe(1);
+      expect(exhausted).toEqual([tasks[1].name]);
+      await tasks[1].stop();
+    });
+
+    test('emits schedule:error when the factory throws', async () => {
+      const errors: string[] = [];
+      hub.on('schedule:error', ({ scheduleId }) => errors.push(scheduleId));
+
+      await hub.schedule({ id: 'broken', every: 20 }, () => {
+        throw new Error('no source');
+      });
+
+      await waitFor(() => errors.length >= 1);
+      expect(errors[0]).toBe('broken');
+    });
+
+    test('resumes and deletes schedules', async () => {
+      await hub.schedule({ id: 'daily', cron: '0 2 * * *' }, () => new SimpleSource(['x']));
+
+      await hub.pauseSchedule('daily');
+      await hub.resumeSchedule('daily');
+      expect((await hub.getSchedule('daily'))?.status).toBe('active');
+
+      await hub.deleteSchedule('daily');
+      expect(await hub.listSchedules()).toEqual([]);
+      await expect(hub.pauseSchedule('daily')).rejects.toThrow();
+    });
+  });
 });
 
 describe('Task', () => {
@@ -392,6 +595,508 @@ describe('Task', () => {
     });
   });
 
+  describe('dependencies', () => {
+    class PipelineSource extends TaskSource<string, string> {
+      readonly type = 'deterministic' as const;
+      readonly order: string[] = [];
+
+      constructor(private deps: Record<string, string[]>, private failing: string[] = []) {
+        super();
+      }
+
+      getData() {
+        return Object.keys(this.deps);
+      }
+
+      getJobId(input: string) {
+        return input;
+      }
+
+      getDependencies(input: string) {
+        return this.deps[input];
+      }
+
+      async handler(input: string): Promise<string> {
+        await new Promise(r => setTimeout(r, 10));
+        if (this.failing.includes(input)) throw new Error(`${input} broke`);
+        this.order.push(input);
+        return input;
+      }
+
+      isRetryable() {
+        return false;
+      }
+    }
+
+    test('runs fan-out/fan-in jobs after their parents', async () => {
+      const source = new PipelineSource({
+        aggregate: ['fetch-1', 'fetch-2', 'fetch-3'],
+        'fetch-1': [],
+        'fetch-2': [],
+        'fetch-3': [],
+      });
+      const task = await hub.createTask({ name: 'pipeline', source });
+
+      await task.start();
+
+      expect(task.status).toBe('completed');
+      expect(source.order).toHaveLength(4);
+      expect(source.order[3]).toBe('aggregate');
+    });
+
+    test('cascades failures to dependents', async () => {
+      const source = new PipelineSource({ a: [], b: ['a'], c: ['b'], d: [] }, ['a']);
+      const task = await hub.createTask({ name: 'cascade', source });
+      const failed: string[] = [];
+      task.on('job:failed', (job) => failed.push(job.input));
+
+      await task.start();
+
+      expect(source.order).toEqual(['d']);
+      expect(failed.sort()).toEqual(['a', 'b', 'c']);
+      const counts = await adapter.getJobCounts(task.id);
+      expect(counts).toEqual({ pending: 0, active: 0, completed: 1, failed: 3 });
+    });
+
+    test('requeues failed parents along with a cascade-failed dependent', async () => {
+      const source = new PipelineSource({ a: [], b: ['a'] }, ['a']);
+      const task = await hub.createTask({ name: 'requeue-chain', source });
+      await task.start();
+
+      const [b] = (await task.getFailedJobs()).filter(job => job.input === 'b');
+      expect(await task.requeueFailedJobs({ jobIds: [b.id] })).toBe(2);
+      await task.start();
+
+      const failed = await task.getFailedJobs();
+      expect(failed.find(job => job.input === 'a')?.history).toHaveLength(2);
+      expect(failed.find(job => job.input === 'b')?.error).toContain('Dependency failed');
+      expect((await adapter.getJobCounts(task.id)).pending).toBe(0);
+    });
+
+    test('fails a requeued dependent whose parent was discarded', async () => {
+      const source = new PipelineSource({ a: [], b: ['a'] }, ['a']);
+      const task = await hub.createTask({ name: 'discarded-parent', source });
+      await task.start();
+
+      const failed = await task.getFailedJobs();
+      await task.discardFailedJobs({ jobIds: failed.filter(job => job.input === 'a').map(job => job.id) });
+      expect(await task.requeueFailedJobs()).toBe(1);
+      await task.start();
+
+      const [b] = await task.getFailedJobs();
+      expect(b.input).toBe('b');
+      expect(b.error).toContain('Dependency missing');
+      expect((await adapter.getJobCounts(task.id)).pending).toBe(0);
+    });
+
+    test('fails dependents left pending by a crash before the cascade', async () => {
+      const source = new PipelineSource({ a: [], b: ['a'] });
+      const task = await hub.createTask({ name: 'crashed-cascade', source });
+
+      // The parent failed, but the process died before its dependents were failed
+      const [a] = await adapter.claimJobs(task.id, 1);
+      await adapter.failJob(a.id, 'a broke', false);
+      await task.start();
+
+      expect(source.order).toEqual([]);
+      const counts = await adapter.getJobCounts(task.id);
+      expect(counts).toEqual({ pending: 0, active: 0, completed: 0, failed: 2 });
+    });
+
+    test('rejects unknown dependencies and cycles', async () => {
+      await expect(hub.createTask({
+        name: 'unknown',
+        source: new PipelineSource({ a: ['missing'] }),
+      })).rejects.toThrow('unknown job missing');
+
+      await expect(hub.createTask({
+        name: 'cycle',
+        source: new PipelineSource({ a: ['b'], b: ['a'] }),
+      })).rejects.toThrow('cycle');
+    });
+
+    test('waits for upstream tasks to complete', async () => {
+      const upstream = await hub.createTask({ name: 'upstream', source: new SlowSource([1, 2], 50) });
+      const downstream = await hub.createTask({
+        name: 'downstream',
+        source: new SimpleSource(['x']),
+        dependsOn: [upstream.id],
+      });
+
+      const downstreamRun = downstream.start();
+      await new Promise(r => setTimeout(r, 30));
+      expect(downstream.completedJobs).toBe(0);
+
+      await upstream.start();
+      await downstreamRun;
+
+      expect(downstream.status).toBe('completed');
+      expect((await hub.getTask(downstream.id))?.dependsOn).toEqual([upstream.id]);
+    });
+
+    test('fails when an upstream task failed', async () => {
+      const upstream = await hub.createTask({ name: 'upstream', source: new PipelineSource({ a: [] }, ['a']) });
+      await upstream.start();
+      expect(upstream.status).toBe('failed');
+
+      const downstream = await hub.createTask({
+        name: 'downstream',
+        source: new SimpleSource(['x']),
+        dependsOn: [upstream.id],
+      });
+      const onError = mock(() => {});
+      downstream.on('error', onError);
+
+      await downstream.start();
+
+      expect(downstream.status).toBe('failed');
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('hub scheduler', () => {
+    test('shares the global concurrency budget across tasks', async () => {
+      await hub.close();
+      adapter = new BunSQLiteAdapter(TEST_DB);
+      hub = new Hub(adapter, { maxConcurrency: 4 });
+      await hub.initialize();
+
+      let active = 0;
+      let peak = 0;
+      class TrackedSource extends SlowSource {
+        async handler(input: number, ctx: JobContext): Promise<number> {
+          active++;
+          peak = Math.max(peak, active);
+          try {
+            return await super.handler(input, ctx);
+          } finally {
+            active--;
+          }
+        }
+      }
+
+      const config = { concurrency: { min: 1, max: 10, initial: 10 } };
+      const a = await hub.createTask({ name: 'a', source: new TrackedSource([1, 2, 3, 4, 5, 6], 30), ...config });
+      const b = await hub.createTask({ name: 'b', source: new TrackedSource([7, 8, 9, 10, 11, 12], 30), weight: 3, ...config });
+
+      await Promise.all([a.start(), b.start()]);
+
+      expect(a.status).toBe('completed');
+      expect(b.status).toBe('completed');
+      expect(peak).toBeLessThanOrEqual(4);
+      expect(hub.scheduler?.activeCount).toBe(0);
+    });
+
+    test('runs higher priority jobs first', async () => {
+      class PrioritySource extends SimpleSource {
+        getPriority(input: string) {
+          return input === 'urgent' ? 10 : 0;
+        }
+      }
+      const task = await hub.createTask({
+        name: 'priority',
+        source: new PrioritySource(['a', 'b', 'urgent']),
+        concurrency: { min: 1, max: 1, initial: 1 },
+      });
+      const order: string[] = [];
+      task.on('job:start', (job) => order.push(job.input));
+
+      await task.start();
+
+      expect(order[0]).toBe('urgent');
+    });
+  });
+
+  describe('dead letters', () => {
+    class FlakySource extends TaskSource<number, number> {
+      readonly type = 'deterministic' as const;
+      healed = false;
+
+      constructor(private data: number[]) {
+        super();
+      }
+
+      getData() {
+        return this.data;
+      }
+
+      async handler(input: number): Promise<number> {
+        if (this.healed) return input;
+        if (input % 2 === 0) throw new Error(`HTTP 500 for ${input}`);
+        if (input === 3) throw new Error('invalid input 3');
+        return input;
+      }
+    }
+
+    const createFailedTask = async () => {
+      const source = new FlakySource([1, 2, 3, 4]);
+      const task = await hub.createTask({
+        name: 'dead-letters',
+        source,
+        retry: { maxAttempts: 2, baseDelay: 1, maxDelay: 1 },
+      });
+      await task.start();
+      return { task, source };
+    };
+
+    test('records the attempt history of failed jobs', async () => {
+      const { task } = await createFailedTask();
+
+      const failed = await task.getFailedJobs();
+      expect(failed.map(j => j.input).sort()).toEqual([2, 3, 4]);
+
+      const retried = failed.find(j => j.input === 2)!;
+      expect(retried.history?.map(a => a.attempt)).toEqual([1, 2]);
+      expect(retried.history?.[0].classification).toBe('retryable');
+      expect(retried.history?.[0].stack).toContain('HTTP 500');
+      expect(retried.history?.[0].durationMs).toBeGreaterThanOrEqual(0);
+
+      const fatal = failed.find(j => j.input === 3)!;
+      expect(fatal.history).toHaveLength(1);
+      expect(fatal.history?.[0].classification).toBe('fatal');
+    });
+
+    test('filters failed jobs by error pattern and classification', async () => {
+      const { task } = await createFailedTask();
+
+      expect((await task.getFailedJobs({ errorPattern: 'HTTP 500' })).length).toBe(2);
+      expect((await task.getFailedJobs({ errorPattern: /^invalid/ })).map(j => j.input)).toEqual([3]);
+      expect((await task.getFailedJobs({ classification: 'fatal' })).map(j => j.input)).toEqual([3]);
+      expect((await task.getFailedJobs({ limit: 1 })).length).toBe(1);
+    });
+
+    test('requeues selected jobs and runs them again', async () => {
+      const { task, source } = await createFailedTask();
+      expect(task.status).toBe('completed');
+
+      source.healed = true;
+      expect(await task.requeueFailedJobs({ errorPattern: 'HTTP 500' })).toBe(2);
+      expect(task.status).toBe('paused');
+
+      await task.start();
+
+      const failed = await task.getFailedJobs();
+      expect(failed.map(j => j.input)).toEqual([3]);
+      expect(task.failedJobs).toBe(1);
+      expect(task.completedJobs).toBe(3);
+    });
+
+    test('discards failed jobs by id', async () => {
+      const { task } = await createFailedTask();
+      const [fatal] = await task.getFailedJobs({ classification: 'fatal' });
+
+      expect(await task.discardFailedJobs({ jobIds: [fatal.id] })).toBe(1);
+      expect((await task.getFailedJobs()).length).toBe(2);
+      expect(task.totalJobs).toBe(3);
+      expect(task.failedJobs).toBe(2);
+    });
+  });
+
+  describe('rate limits', () => {
+    test('daily quota survives a hub restart', async () => {
+      const rateLimit = { key: 'api', quotas: [{ limit: 3, windowMs: 86_400_000 }] };
+      const first = await hub.createTask({ name: 'quota-1', source: new SimpleSource(['a', 'bb']), rateLimit });
+      await first.start();
+      expect(first.completedJobs).toBe(2);
+      await hub.close();
+
+      // A new process on the same database only has one request left today
+      hub = new Hub(new BunSQLiteAdapter(TEST_DB));
+      const second = await hub.createTask({ name: 'quota-2', source: new SimpleSource(['c', 'dd']), rateLimit });
+      const resets: number[] = [];
+      second.on('quota-exhausted', (resetsAt) => resets.push(resetsAt));
+
+      const running = second.start();
+      await new Promise(r => setTimeout(r, 200));
+
+      const progress = await second.getProgress();
+      expect(progress.completed).toBe(1);
+      expect(progress.pending).toBe(1);
+      expect(resets).toHaveLength(1);
+
+      await second.stop();
+      await running;
+    });
+  });
+
+  describe('streaming and append', () => {
+    test('processes streamed input before the source finishes', async () => {
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const task = await hub.createTask({
+        name: 'stream',
+        source: new StreamSource([[1, 2, 3], [4, 5]], [gate]),
+        streaming: true,
+      });
+
+      const running = task.start();
+      await new Promise(r => setTimeout(r, 300));
+
+      expect(task.status).toBe('running');
+      expect(task.completedJobs).toBe(3);
+
+      release();
+      await running;
+
+      expect(task.status).toBe('completed');
+      expect(task.totalJobs).toBe(5);
+      expect(task.completedJobs).toBe(5);
+    });
+
+    test('stops pulling from the source at highWaterMark', async () => {
+      const source = new StreamSource([Array.from({ length: 100 }, (_, i) => i)], [], 50);
+      const task = await hub.createTask({
+        name: 'backpressure',
+        source,
+        streaming: true,
+        highWaterMark: 5,
+        concurrency: { min: 1, max: 1, initial: 1 },
+      });
+
+      const running = task.start();
+      await new Promise(r => setTimeout(r, 300));
+
+      const progress = await task.getProgress();
+      expect(progress.pending).toBeLessThanOrEqual(5);
+      expect(source.yielded).toBeLessThan(20);
+
+      await task.destroy();
+      await running;
+    });
+
+    test('appends new inputs to a completed task, skipping existing ones', async () => {
+      const task = await hub.createTask({ name: 'append', source: new AsyncSource([1, 2, 3]) });
+      await task.start();
+      expect(task.status).toBe('completed');
+
+      expect(await task.append([3, 4, 5, 5])).toBe(2);
+      expect(task.status).toBe('paused');
+      expect(task.totalJobs).toBe(5);
+
+      await task.start();
+      expect(task.status).toBe('completed');
+      expect(task.completedJobs).toBe(5);
+    });
+
+    test('appends to a running task', async () => {
+      const task = await hub.createTask({ name: 'append-running', source: new StreamSource([[1, 2]], [], 50) });
+      const running = task.start();
+
+      await new Promise(r => setTimeout(r, 20));
+      expect(await task.append((async function* () { yield 3; yield 4; })())).toBe(2);
+      await running;
+
+      expect(task.status).toBe('completed');
+      expect(task.completedJobs).toBe(4);
+    });
+
+    test('rejects append on deterministic tasks', async () => {
+      const task = await hub.createTask({ name: 'fixed', source: new SimpleSource(['a']) });
+      await expect(task.append(['b'])).rejects.toThrow('Only dynamic tasks accept appended input');
+    });
+  });
+
+  describe('metrics', () => {
+    test('records attempts of every task under its name', async () => {
+      const metrics = new MetricsCollector();
+      hub = new Hub(adapter, { metrics });
+
+      const task = await hub.createTask({ name: 'measured', source: new SimpleSource(['a', 'bb', 'ccc']) });
+      await task.start();
+
+      expect(hub.metrics).toBe(metrics);
+      expect(metrics.getAttempts('measured').completed).toBe(3);
+      // The gauge only covers running tasks
+      expect(metrics.toPrometheus()).not.toContain('taskhub_concurrency{task="measured"}');
+    });
+
+    test('records every run of a schedule under the schedule ID', async () => {
+      const metrics = new MetricsCollector();
+      hub = new Hub(adapter, { metrics });
+      const runs: string[] = [];
+      hub.on('schedule:run', (_run, task) => runs.push(task.name));
+
+      await hub.schedule({ id: 'hourly', every: 50 }, () => new SimpleSource(['a']));
+      const start = Date.now();
+      while (metrics.getAttempts('hourly').completed < 2 && Date.now() - start < 2000) {
+        await new Promise(r => setTimeout(r, 10));
+      }
+      await hub.pauseSchedule('hourly');
+
+      expect(metrics.getAttempts('hourly').completed).toBeGreaterThanOrEqual(2);
+      expect(metrics.getAttempts(runs[0]).completed).toBe(0);
+      expect(metrics.toPrometheus()).not.toContain('hourly@');
+    });
+  });
+
+  describe('leases', () => {
+    const SECOND_DB = 'test-hub-worker-b.db';
+
+    afterEach(async () => {
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { await unlink(SECOND_DB + suffix); } catch {}
+      }
+    });
+
+    test('two workers share one task without processing a job twice', async () => {
+      const seen: number[] = [];
+      class CountingSource extends SlowSource {
+        async handler(input: number, ctx: JobContext): Promise<number> {
+          seen.push(input);
+          return super.handler(input, ctx);
+        }
+      }
+
+      const data = Array.from({ length: 20 }, (_, i) => i);
+      const workerA = new Hub(adapter, { lease: { workerId: 'a', durationMs: 5000 } });
+      const task = await workerA.createTask({ name: 'shared', source: new CountingSource(data, 10) });
+
+      // Worker B opens the same database through its own connection
+      const workerB = new Hub(new BunSQLiteAdapter(TEST_DB), { lease: { workerId: 'b', durationMs: 5000 } });
+      const taskB = await workerB.resumeTask(task.id, new CountingSource(data, 10));
+
+      await Promise.all([task.start(), taskB!.start()]);
+      await workerB.close();
+
+      expect(seen.sort((x, y) => x - y)).toEqual(data);
+      expect((await task.getProgress()).completed).toBe(20);
+    });
+
+    test('reclaims jobs from a worker that stopped heartbeating', async () => {
+      const hub2 = new Hub(adapter, { lease: { workerId: 'alive', durationMs: 200, heartbeatInterval: 50 } });
+      const task = await hub2.createTask({ name: 'reclaim', source: new SimpleSource(['a', 'bb', 'ccc']) });
+
+      // A crashed worker holds one job with a short lease
+      await adapter.claimJobs(task.id, 1, { owner: 'crashed', durationMs: 100 });
+
+      await task.start();
+
+      const progress = await task.getProgress();
+      expect(progress.completed).toBe(3);
+      expect(progress.active).toBe(0);
+    });
+
+    test('a worker that lost its lease discards its result', async () => {
+      const hub2 = new Hub(adapter, { lease: { workerId: 'slow', durationMs: 10, heartbeatInterval: 60_000 } });
+      const task = await hub2.createTask({ name: 'lost', source: new SlowSource([1], 40) });
+      const lost: string[] = [];
+      task.on('job:lease-lost', (job) => lost.push(job.id));
+
+      const running = task.start();
+      await new Promise(r => setTimeout(r, 20));
+
+      // The lease expired without a heartbeat: another worker takes the job over and finishes it
+      const [stolen] = await adapter.claimJobs(task.id, 1, { owner: 'thief', durationMs: 60_000 });
+      expect(stolen).toBeTruthy();
+      await adapter.completeJob(stolen.id, 'from thief', 'thief');
+
+      await running;
+
+      expect(lost).toEqual([stolen.id]);
+      expect((await adapter.getJob(stolen.id))?.output).toBe('from thief');
+    });
+  });
+
   describe('pause', () => {
     test('pauses execution', async () => {
       const source = new SlowSource([1, 2, 3, 4, 5], 50);
@@ -536,6 +1241,143 @@ describe('Task', () => {
     });
   });
 
+  describe('proofs', () => {
+    test('sets resultRoot when a deterministic task completes', async () => {
+      const task = await hub.createTask({ name: 'roots', source: new SimpleSource(['a', 'bb', 'ccc']) });
+      expect(task.resultRoot).toBeNull();
+
+      await task.start();
+
+      expect(task.resultRoot).toMatch(/^[a-f0-9]{64}$/);
+      expect((await hub.getTask(task.id))!.resultRoot).toBe(task.resultRoot);
+    });
+
+    test('proves a job against both roots', async () => {
+      const task = await hub.createTask({ name: 'proof', source: new SimpleSource(['a', 'bb', 'ccc']) });
+      await task.start();
+
+      const [, job] = await task.getResults();
+      const proof = await task.getJobProof(job.id);
+
+      expect(proof.input.root).toBe(task.merkleRoot!);
+      expect(proof.result!.root).toBe(task.resultRoot!);
+      expect(await verifyMerkleProof(proof.input)).toBe(true);
+      expect(await verifyMerkleProof(proof.result!)).toBe(true);
+    });
+
+    test('proves inputs against merkleRoot after a job was discarded', async () => {
+      const task = await hub.createTask({
+        name: 'proof-discard',
+        source: new FailingSource([1, 2, 3], 1),
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1 },
+      });
+      await task.start();
+      expect(await task.discardFailedJobs()).toBe(1);
+
+      const [job] = await task.getResults({ status: 'completed' });
+      const proof = await task.getJobProof(job.id);
+
+      expect(proof.input.root).toBe(task.merkleRoot!);
+      expect(await verifyMerkleProof(proof.input)).toBe(true);
+      expect(await verifyMerkleProof(proof.result!)).toBe(true);
+    });
+
+    test('proves inputs against merkleRoot when duplicate inputs share a job', async () => {
+      // MemoryAdapter keeps one job per ID
+      const memoryHub = new Hub(new MemoryAdapter());
+      const task = await memoryHub.createTask({ name: 'proof-dupes', source: new SimpleSource(['a', 'a', 'bb']) });
+      await task.start();
+
+      const job = (await task.getResults()).find(j => j.input === 'bb')!;
+      const proof = await task.getJobProof(job.id);
+
+      expect(task.totalJobs).toBe(3);
+      expect(proof.input.root).toBe(task.merkleRoot!);
+      expect(await verifyMerkleProof(proof.input)).toBe(true);
+      await memoryHub.close();
+    });
+
+    test('refuses input proofs it cannot rebuild', async () => {
+      const task = await hub.createTask({
+        name: 'proof-lost',
+        source: new FailingSource([1, 2, 3], 1),
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1 },
+      });
+      await task.start();
+      await task.discardFailedJobs();
+
+      // Reloaded without its source
+      const reloaded = (await hub.getTask(task.id))!;
+      const [job] = await reloaded.getResults({ status: 'completed' });
+      await expect(reloaded.getJobProof(job.id)).rejects.toThrow('no longer match merkleRoot');
+    });
+
+    test('verifies an exported result set on another hub', async () => {
+      const task = await hub.createTask({ name: 'verify', source: new SimpleSource(['a', 'bb', 'ccc']) });
+      await task.start();
+
+      const blob = await task.exportResults({ format: 'ndjson' });
+      const rows = (await blob.text()).trim().split('\n').map(line => JSON.parse(line));
+
+      // Only the roots travel to the verifying side
+      const verification = await verifyResults(rows, { merkleRoot: task.merkleRoot, resultRoot: task.resultRoot });
+      expect(verification.valid).toBe(true);
+
+      rows[1].output = 99;
+      expect((await task.verifyResults(rows)).valid).toBe(false);
+    });
+
+    test('rejects proofs for dynamic tasks', async () => {
+      const task = await hub.createTask({ name: 'dynamic', source: new AsyncSource([1, 2, 3]) });
+      await task.start();
+
+      await expect(task.getJobProof('missing')).rejects.toThrow('deterministic');
+    });
+  });
+
+  describe('export', () => {
+    const EXPORT_FILE = 'test-export.ndjson';
+
+    afterEach(async () => {
+      try { await unlink(EXPORT_FILE); } catch {}
+    });
+
+    test('streams results in input order', async () => {
+      const data = Array.from({ length: 25 }, (_, i) => `item-${i}`);
+      const task = await hub.createTask({ name: 'stream', source: new SimpleSource(data) });
+      await task.start();
+
+      const inputs: string[] = [];
+      for await (const job of task.streamResults({ batchSize: 10 })) {
+        inputs.push(job.input);
+      }
+      expect(inputs).toEqual(data);
+    });
+
+    test('exports results as a Blob', async () => {
+      const task = await hub.createTask({ name: 'blob', source: new SimpleSource(['a', 'bb']) });
+      await task.start();
+
+      const blob = await task.exportResults({ format: 'csv', status: 'completed' });
+      expect(blob.type).toBe('text/csv');
+
+      const lines = (await blob.text()).trim().split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toStartWith(`${(await task.getResults())[0].id},completed,a,1,`);
+    });
+
+    test('exports results to a file', async () => {
+      const task = await hub.createTask({ name: 'file', source: new SimpleSource(['a', 'bb', 'ccc']) });
+      await task.start();
+
+      await task.exportResultsToFile(EXPORT_FILE, { format: 'ndjson' });
+
+      const rows = (await Bun.file(EXPORT_FILE).text()).trim().split('\n').map(line => JSON.parse(line));
+      expect(rows.map(row => row.output)).toEqual([1, 2, 3]);
+      expect(rows[0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
   describe('Getters', () => {
     test('id returns task id', async () => {
       const task = await hub.createTask({ name: 'test' });
@@ -2,21 +2,67 @@
  * TaskHub - Main entry point
  */
 
-import type { StorageAdapter, TaskConfig, TaskMeta, TaskSource } from '../types.js';
+import type { HubConfig, LeaseConfig, Metrics, ScheduleMeta, StorageAdapter, TaskConfig, TaskMeta, TaskSource } from '../types.js';
 import { Task } from './Task.js';
+import { Scheduler } from './Scheduler.js';
+import { EventEmitter } from './EventEmitter.js';
+import { ScheduleRunner, type ScheduleOptions, type ScheduleSourceFactory, type ScheduledRun } from './ScheduleRunner.js';
 import { generateTaskId, computeMerkleRoot, generateJobId } from './MerkleTree.js';
 
 export interface CreateTaskOptions<TInput = unknown, TOutput = unknown> extends TaskConfig {
   source?: TaskSource<TInput, TOutput>;
 }
 
-export class Hub {
+export type HubEvents = {
+  'schedule:run': (run: ScheduledRun, task: Task) => void;
+  'schedule:error': (data: { scheduleId: string; error: Error }) => void;
+};
+
+export class Hub extends EventEmitter<HubEvents> {
   private storage: StorageAdapter;
   private initialized = false;
   private initializePromise: Promise<void> | null = null;
+  private schedules: ScheduleRunner;
+
+  /**
+   * Hub-wide scheduler (null when no global budget is configured)
+   */
+  readonly scheduler: Scheduler | null;
+
+  /**
+   * Lease settings for distributed claiming (null when this hub is the only worker)
+   */
+  readonly lease: Required<LeaseConfig> | null;
 
-  constructor(storage: StorageAdapter) {
+  /**
+   * Observability hooks passed to every task (null when not configured)
+   */
+  readonly metrics: Metrics | null;
+
+  /**
+   * @param storage - Storage adapter
+   * @param config - Optional `maxConcurrency` to share one concurrency budget across all tasks,
+   *   `lease` to let several processes / tabs consume the same tasks, and `metrics` hooks
+   */
+  constructor(storage: StorageAdapter, config: Pick<HubConfig, 'maxConcurrency' | 'lease' | 'metrics'> = {}) {
+    super();
     this.storage = storage;
+    this.metrics = config.metrics ?? null;
+    this.scheduler = config.maxConcurrency ? new Scheduler(config.maxConcurrency) : null;
+    this.lease = null;
+    if (config.lease) {
+      const durationMs = config.lease.durationMs ?? 30000;
+      this.lease = {
+        workerId: config.lease.workerId ?? crypto.randomUUID(),
+        durationMs,
+        heartbeatInterval: config.lease.heartbeatInterval ?? Math.floor(durationMs / 3),
+      };
+    }
+    this.schedules = new ScheduleRunner(storage, {
+      createTask: options => this.createTask(options),
+      onRun: (run, task) => this.emit('schedule:run', run, task),
+      onError: (scheduleId, error) => this.emit('schedule:error', { scheduleId, error }),
+    });
   }
 
   /**
@@ -35,6 +81,7 @@ export class Hub {
    * Close the hub and release resources
    */
   async close(): Promise<void> {
+    this.schedules.close();
     await this.storage.close();
     this.initialized = false;
     this.initializePromise = null;
@@ -70,22 +117,34 @@ export class Hub {
     const taskId = await generateTaskId(options.name, merkleRoot ?? undefined);
     const now = Date.now();
 
+    // Upstream tasks must already exist - a missing one would block start() forever
+    for (const upstreamId of options.dependsOn ?? []) {
+      if (upstreamId === taskId) {
+        throw new Error('A task cannot depend on itself');
+      }
+      if (!(await this.storage.getTask(upstreamId))) {
+        throw new Error(`Upstream task not found: ${upstreamId}`);
+      }
+    }
+
     const meta: TaskMeta = {
       id: taskId,
       name: options.name,
       type: taskType,
       merkleRoot,
+      resultRoot: null,
       status: 'idle',
       totalJobs: 0,
       completedJobs: 0,
       failedJobs: 0,
       createdAt: now,
       updatedAt: now,
+      dependsOn: options.dependsOn?.length ? [...options.dependsOn] : undefined,
     };
 
     await this.storage.createTask(meta);
 
-    const task = new Task<TInput, TOutput>(meta, this.storage, options);
+    const task = new Task<TInput, TOutput>(meta, this.storage, options, this.scheduler, this.lease, this.metrics);
 
     if (options.source) {
       try {
@@ -110,7 +169,7 @@ export class Hub {
     const meta = await this.storage.getTask(taskId);
     if (!meta) return null;
 
-    return new Task<TInput, TOutput>(meta, this.storage, { name: meta.name });
+    return new Task<TInput, TOutput>(meta, this.storage, { name: meta.name }, this.scheduler, this.lease, this.metrics);
   }
 
   /**
@@ -141,7 +200,7 @@ export class Hub {
 
     if (!found) return null;
 
-    return new Task(found, this.storage, { name: found.name });
+    return new Task(found, this.storage, { name: found.name }, this.scheduler, this.lease, this.metrics);
   }
 
   /**
@@ -174,7 +233,7 @@ export class Hub {
     const task = new Task<TInput, TOutput>(meta, this.storage, {
       name: meta.name,
       ...config,
-    });
+    }, this.scheduler, this.lease, this.metrics);
     task.setSourceForResume(source);
 
     return task;
@@ -188,5 +247,61 @@ export class Hub {
     await this.initialize();
     return this.storage.resetFailedJobs(taskId);
   }
-}
 
+  // =========================================================================
+  // Schedules
+  // =========================================================================
+
+  /**
+   * Create a recurring schedule, or re-attach to a persisted one with the same id
+   * Each occurrence calls `factory` for a fresh source and runs it as a new task.
+   * Schedules only fire while the hub is open; call this again after a restart.
+   */
+  async schedule<TInput = unknown, TOutput = unknown>(
+    options: ScheduleOptions,
+    factory: ScheduleSourceFactory<TInput, TOutput>
+  ): Promise<ScheduleMeta> {
+    await this.initialize();
+    return this.schedules.attach(options, factory as ScheduleSourceFactory);
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(scheduleId: string): Promise<ScheduleMeta | null> {
+    await this.initialize();
+    return this.schedules.get(scheduleId);
+  }
+
+  /**
+   * List all schedules
+   */
+  async listSchedules(): Promise<ScheduleMeta[]> {
+    await this.initialize();
+    return this.schedules.list();
+  }
+
+  /**
+   * Pause a schedule (tasks it already started keep running)
+   */
+  async pauseSchedule(scheduleId: string): Promise<void> {
+    await this.initialize();
+    await this.schedules.pause(scheduleId);
+  }
+
+  /**
+   * Resume a paused schedule from its next occurrence
+   */
+  async resumeSchedule(scheduleId: string): Promise<void> {
+    await this.initialize();
+    await this.schedules.resume(scheduleId);
+  }
+
+  /**
+   * Delete a schedule (tasks it created are kept)
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.initialize();
+    await this.schedules.remove(scheduleId);
+  }
+}
@@ -3,7 +3,15 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { computeMerkleRoot, generateJobId, generateTaskId } from './MerkleTree.js';
+import {
+  computeMerkleRoot,
+  computeMerkleProof,
+  verifyMerkleProof,
+  verifyResults,
+  generateJobId,
+  generateResultId,
+  generateTaskId,
+} from './MerkleTree.js';
 
 describe('MerkleTree', () => {
   describe('computeMerkleRoot', () => {
@@ -220,4 +228,72 @@ describe('MerkleTree', () => {
       expect(merkleRoot).toBe(merkleRoot2);
     });
   });
+
+  describe('computeMerkleProof', () => {
+    test('proves every leaf for odd and even sizes', async () => {
+      for (const size of [1, 2, 3, 5, 8]) {
+        const leaves = Array.from({ length: size }, (_, i) => `leaf${i}`);
+        const root = await computeMerkleRoot(leaves);
+
+        for (let i = 0; i < size; i++) {
+          const proof = await computeMerkleProof(leaves, i);
+          expect(proof.root).toBe(root);
+          expect(await verifyMerkleProof(proof)).toBe(true);
+        }
+      }
+    });
+
+    test('rejects a tampered leaf or root', async () => {
+      const proof = await computeMerkleProof(['a', 'b', 'c'], 1);
+
+      expect(await verifyMerkleProof({ ...proof, leaf: 'x' })).toBe(false);
+      expect(await verifyMerkleProof({ ...proof, root: await computeMerkleRoot(['a', 'x', 'c']) })).toBe(false);
+    });
+
+    test('throws for an out-of-range index', async () => {
+      await expect(computeMerkleProof(['a'], 1)).rejects.toThrow('out of range');
+    });
+  });
+
+  describe('verifyResults', () => {
+    const rows = [
+      { input: 'a', output: 1 },
+      { input: 'bb', output: 2 },
+      { input: 'ccc', output: null },
+    ];
+
+    async function roots(items: { input: string; output: unknown }[]) {
+      const jobIds = await Promise.all(items.map(row => generateJobId(row.input)));
+      const resultIds = await Promise.all(items.map((row, i) => generateResultId(jobIds[i], row.output)));
+      return { merkleRoot: await computeMerkleRoot(jobIds), resultRoot: await computeMerkleRoot(resultIds) };
+    }
+
+    test('accepts results matching both roots', async () => {
+      const expected = await roots(rows);
+      const verification = await verifyResults(rows, expected);
+
+      expect(verification).toEqual({ valid: true, ...expected });
+    });
+
+    test('rejects a modified output', async () => {
+      const expected = await roots(rows);
+      const tampered = rows.map(row => (row.input === 'bb' ? { ...row, output: 3 } : row));
+
+      const verification = await verifyResults(tampered, expected);
+      expect(verification.valid).toBe(false);
+      expect(verification.merkleRoot).toBe(expected.merkleRoot);
+    });
+
+    test('uses a custom getJobId', async () => {
+      const getJobId = (input: string) => `id-${input}`;
+      const merkleRoot = await computeMerkleRoot(rows.map(row => getJobId(row.input)));
+
+      expect((await verifyResults(rows, { merkleRoot, getJobId })).valid).toBe(true);
+      expect((await verifyResults(rows, { merkleRoot })).valid).toBe(false);
+    });
+
+    test('requires an expected root', async () => {
+      await expect(verifyResults(rows, {})).rejects.toThrow('merkleRoot or resultRoot');
+    });
+  });
 });
@@ -1,6 +1,7 @@
 /**
  * Merkle Tree Implementation
- * Used to generate deterministic task IDs from job inputs
+ * Used to generate deterministic task IDs from job inputs, and to prove and
+ * verify job results against a task
  */
 
 /**
@@ -25,17 +26,22 @@ async function hashPair(left: string, right: string): Promise<string> {
 }
 
 /**
- * Calculate Merkle Root from a list of leaf values
- *
- * @param leaves - Array of strings to hash
- * @returns Merkle root hash, or empty string if no leaves
+ * Inclusion proof for one leaf
+ * Pairs are hashed in sorted order, so sibling hashes alone are enough to climb to the root.
  */
-export async function computeMerkleRoot(leaves: string[]): Promise<string> {
-  if (leaves.length === 0) return '';
-  if (leaves.length === 1) return sha256(leaves[0]);
+export interface MerkleProof {
+  leaf: string;
+  index: number;
+  siblings: string[]; // Bottom-up
+  root: string;
+}
 
-  // Hash all leaves first
+/**
+ * Hash leaves and build every level of the tree, leaf hashes first and root last
+ */
+async function buildLevels(leaves: string[]): Promise<string[][]> {
   let hashes = await Promise.all(leaves.map(leaf => sha256(leaf)));
+  const levels = [hashes];
 
   // Build tree level by level
   while (hashes.length > 1) {
@@ -51,9 +57,60 @@ export async function computeMerkleRoot(leaves: string[]): Promise<string> {
     }
 
     hashes = await Promise.all(nextLevel);
+    levels.push(hashes);
+  }
+
+  return levels;
+}
+
+/**
+ * Calculate Merkle Root from a list of leaf values
+ *
+ * @param leaves - Array of strings to hash
+ * @returns Merkle root hash, or empty string if no leaves
+ */
+export async function computeMerkleRoot(leaves: string[]): Promise<string> {
+  if (leaves.length === 0) return '';
+
+  const levels = await buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Build an inclusion proof for the leaf at `index`
+ */
+export async function computeMerkleProof(leaves: string[], index: number): Promise<MerkleProof> {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index out of range: ${index}`);
+  }
+
+  const levels = await buildLevels(leaves);
+  const siblings: string[] = [];
+  let position = index;
+
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    siblings.push(level[sibling] ?? level[position]);
+    position = Math.floor(position / 2);
   }
 
-  return hashes[0];
+  return {
+    leaf: leaves[index],
+    index,
+    siblings,
+    root: levels[levels.length - 1][0],
+  };
+}
+
+/**
+ * Check that a proof's leaf is included under its root
+ */
+export async function verifyMerkleProof(proof: MerkleProof): Promise<boolean> {
+  let hash = await sha256(proof.leaf);
+  for (const sibling of proof.siblings) {
+    hash = await hashPair(hash, sibling);
+  }
+  return hash === proof.root;
 }
 
 /**
@@ -74,3 +131,65 @@ export async function generateTaskId(name: string, merkleRoot?: string): Promise
   const data = merkleRoot ? `${name}:${merkleRoot}` : `${name}:${Date.now()}`;
   return sha256(data);
 }
+
+/**
+ * Generate the result leaf for one job: its input hash bound to its output
+ * Jobs without output (failed) use `null`.
+ */
+export async function generateResultId(jobId: string, output: unknown): Promise<string> {
+  return sha256(`${jobId}:${JSON.stringify(output ?? null)}`);
+}
+
+/**
+ * Inclusion proofs for one job of a deterministic task
+ */
+export interface JobProof {
+  jobId: string;
+  input: MerkleProof; // Against the task's merkleRoot
+  result: MerkleProof | null; // Against the task's resultRoot (null until the task completes)
+}
+
+export interface VerifyResultsOptions<TInput = unknown> {
+  merkleRoot?: string | null; // Expected task root over inputs
+  resultRoot?: string | null; // Expected root over (input, output) pairs
+  getJobId?: (input: TInput) => string; // Same as the task source's getJobId, if it had one
+}
+
+export interface ResultVerification {
+  valid: boolean;
+  merkleRoot: string; // Roots recomputed from the given results
+  resultRoot: string;
+}
+
+/**
+ * Recompute both roots from a full result set (e.g. a parsed NDJSON / JSON export)
+ * and compare them with the expected ones
+ *
+ * Results must cover every job of the task, in input order.
+ */
+export async function verifyResults<TInput = unknown>(
+  results: Iterable<{ input: TInput; output?: unknown }> | AsyncIterable<{ input: TInput; output?: unknown }>,
+  options: VerifyResultsOptions<TInput>
+): Promise<ResultVerification> {
+  if (options.merkleRoot == null && options.resultRoot == null) {
+    throw new Error('verifyResults needs a merkleRoot or resultRoot to compare against');
+  }
+
+  const jobIds: string[] = [];
+  const resultIds: string[] = [];
+  for await (const { input, output } of results) {
+    const jobId = options.getJobId?.(input) ?? await generateJobId(input);
+    jobIds.push(jobId);
+    resultIds.push(await generateResultId(jobId, output));
+  }
+
+  const merkleRoot = await computeMerkleRoot(jobIds);
+  const resultRoot = await computeMerkleRoot(resultIds);
+
+  return {
+    valid: (options.merkleRoot == null || options.merkleRoot === merkleRoot)
+      && (options.resultRoot == null || options.resultRoot === resultRoot),
+    merkleRoot,
+    resultRoot,
+  };
+}
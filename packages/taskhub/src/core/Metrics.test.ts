@@ -0,0 +1,103 @@
+/**
+ * Metrics Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { MetricsCollector } from './Metrics.js';
+import type { AttemptOutcome, JobSpan } from '../types.js';
+
+function span(outcome: AttemptOutcome, durationMs: number, task = 'crawl'): JobSpan {
+  return {
+    name: 'taskhub.job',
+    traceId: '0'.repeat(32),
+    spanId: '0'.repeat(16),
+    startTime: 1000,
+    endTime: 1000 + durationMs,
+    status: outcome === 'completed' ? { code: 'ok' } : { code: 'error', message: 'boom' },
+    attributes: {
+      'taskhub.task.id': 'task-1',
+      'taskhub.task.name': task,
+      'taskhub.job.id': 'task-1:job',
+      'taskhub.job.attempt': 1,
+      'taskhub.job.outcome': outcome,
+    },
+  };
+}
+
+describe('MetricsCollector', () => {
+  test('counts attempts by outcome', () => {
+    const metrics = new MetricsCollector();
+    metrics.onAttempt(span('completed', 10));
+    metrics.onAttempt(span('completed', 20));
+    metrics.onAttempt(span('retry', 5));
+
+    expect(metrics.getAttempts('crawl')).toEqual({ completed: 2, retry: 1, failed: 0, 'lease-lost': 0 });
+    expect(metrics.getAttempts('other').completed).toBe(0);
+  });
+
+  test('renders a cumulative latency histogram', () => {
+    const metrics = new MetricsCollector({ buckets: [0.1, 1] });
+    metrics.onAttempt(span('completed', 50));
+    metrics.onAttempt(span('completed', 500));
+    metrics.onAttempt(span('completed', 5000));
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain('# TYPE taskhub_job_duration_seconds histogram');
+    expect(text).toContain('taskhub_job_duration_seconds_bucket{task="crawl",outcome="completed",le="0.1"} 1');
+    expect(text).toContain('taskhub_job_duration_seconds_bucket{task="crawl",outcome="completed",le="1"} 2');
+    expect(text).toContain('taskhub_job_duration_seconds_bucket{task="crawl",outcome="completed",le="+Inf"} 3');
+    expect(text).toContain('taskhub_job_duration_seconds_sum{task="crawl",outcome="completed"} 5.55');
+    expect(text).toContain('taskhub_job_duration_seconds_count{task="crawl",outcome="completed"} 3');
+    expect(text).toContain('taskhub_job_attempts_total{task="crawl",outcome="completed"} 3');
+  });
+
+  test('renders concurrency and rate-limit series', () => {
+    const metrics = new MetricsCollector();
+    const task = { id: 'task-1', name: 'crawl' };
+    metrics.onConcurrencyChange(task, 5);
+    metrics.onConcurrencyChange(task, 2);
+    metrics.onRateLimit(task, 'response');
+    metrics.onRateLimit(task, 'response');
+    metrics.onRateLimit(task, 'quota');
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain('taskhub_concurrency{task="crawl"} 2');
+    expect(text).toContain('taskhub_rate_limit_events_total{task="crawl",reason="response"} 2');
+    expect(text).toContain('taskhub_rate_limit_events_total{task="crawl",reason="quota"} 1');
+  });
+
+  test('prefers the task label and drops the gauge when the task stops', () => {
+    const metrics = new MetricsCollector();
+    const run = { id: 'task-2', name: 'nightly@2026-01-01T00:00:00.000Z', label: 'nightly' };
+    metrics.onConcurrencyChange(run, 3);
+    metrics.onRateLimit(run, 'quota');
+    metrics.onAttempt({ ...span('completed', 1), attributes: { ...span('completed', 1).attributes, 'taskhub.task.label': 'nightly' } });
+
+    expect(metrics.getAttempts('nightly').completed).toBe(1);
+    expect(metrics.toPrometheus()).toContain('taskhub_concurrency{task="nightly"} 3');
+
+    metrics.onTaskStop(run);
+    const text = metrics.toPrometheus();
+    expect(text).not.toContain('taskhub_concurrency{');
+    expect(text).toContain('taskhub_rate_limit_events_total{task="nightly",reason="quota"} 1');
+    expect(text).not.toContain('@2026');
+  });
+
+  test('escapes label values', () => {
+    const metrics = new MetricsCollector();
+    metrics.onAttempt(span('failed', 1, 'say "hi"\\\n'));
+
+    expect(metrics.toPrometheus()).toContain('taskhub_job_attempts_total{task="say \\"hi\\"\\\\\\n",outcome="failed"} 1');
+  });
+
+  test('forwards spans and resets', () => {
+    const forwarded: JobSpan[] = [];
+    const metrics = new MetricsCollector({ onSpan: s => forwarded.push(s) });
+    metrics.onAttempt(span('completed', 1));
+    expect(forwarded).toHaveLength(1);
+
+    metrics.reset();
+    expect(metrics.getAttempts('crawl').completed).toBe(0);
+    expect(metrics.toPrometheus()).not.toContain('taskhub_job_attempts_total{');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Metrics
+ * Built-in collector for the Metrics hooks, with a Prometheus text exporter
+ *
+ * - taskhub_job_attempts_total: handler attempts by outcome (throughput and retries via rate())
+ * - taskhub_job_duration_seconds: latency histogram per outcome
+ * - taskhub_concurrency: current AIMD window per running task
+ *
+ * Series are labelled with the task's metrics label (its name unless set), so every run
+ * of a schedule adds to the same series.
+ * - taskhub_rate_limit_events_total: rate-limit signals by reason
+ */
+
+import type { AttemptOutcome, JobSpan, Metrics, MetricsTask, RateLimitReason } from '../types.js';
+
+export interface MetricsCollectorOptions {
+  buckets?: number[]; // Histogram upper bounds in seconds (default: DEFAULT_LATENCY_BUCKETS)
+  onSpan?: (span: JobSpan) => void; // Forward spans, e.g. to an OpenTelemetry exporter
+}
+
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+interface Histogram {
+  buckets: number[]; // Non-cumulative counts per bucket, last one is +Inf
+  sum: number;
+  count: number;
+}
+
+export class MetricsCollector implements Metrics {
+  private buckets: number[];
+  private onSpan: ((span: JobSpan) => void) | null;
+  private attempts = new Map<string, number>();
+  private durations = new Map<string, Histogram>();
+  private concurrency = new Map<string, number>();
+  private rateLimits = new Map<string, number>();
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    this.onSpan = options.onSpan ?? null;
+  }
+
+  onAttempt(span: JobSpan): void {
+    const key = labelKey({
+      task: span.attributes['taskhub.task.label'] ?? span.attributes['taskhub.task.name'],
+      outcome: span.attributes['taskhub.job.outcome'],
+    });
+    this.attempts.set(key, (this.attempts.get(key) ?? 0) + 1);
+
+    let histogram = this.durations.get(key);
+    if (!histogram) {
+      histogram = { buckets: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.durations.set(key, histogram);
+    }
+    const seconds = Math.max(span.endTime - span.startTime, 0) / 1000;
+    const bucket = this.buckets.findIndex(bound => seconds <= bound);
+    histogram.buckets[bucket === -1 ? this.buckets.length : bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+
+    this.onSpan?.(span);
+  }
+
+  onConcurrencyChange(task: MetricsTask, concurrency: number): void {
+    this.concurrency.set(labelKey({ task: task.label ?? task.name }), concurrency);
+  }
+
+  onRateLimit(task: MetricsTask, reason: RateLimitReason): void {
+    const key = labelKey({ task: task.label ?? task.name, reason });
+    this.rateLimits.set(key, (this.rateLimits.get(key) ?? 0) + 1);
+  }
+
+  onTaskStop(task: MetricsTask): void {
+    this.concurrency.delete(labelKey({ task: task.label ?? task.name }));
+  }
+
+  /**
+   * Attempts recorded so far for a task label (its name unless set), by outcome
+   */
+  getAttempts(taskLabel: string): Record<AttemptOutcome, number> {
+    const counts: Record<AttemptOutcome, number> = { completed: 0, retry: 0, failed: 0, 'lease-lost': 0 };
+    for (const outcome of Object.keys(counts) as AttemptOutcome[]) {
+      counts[outcome] = this.attempts.get(labelKey({ task: taskLabel, outcome })) ?? 0;
+    }
+    return counts;
+  }
+
+  /**
+   * Render everything in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+
+    lines.push('# HELP taskhub_job_attempts_total Handler attempts by outcome');
+    lines.push('# TYPE taskhub_job_attempts_total counter');
+    for (const [key, value] of this.attempts) {
+      lines.push(`taskhub_job_attempts_total{${key}} ${value}`);
+    }
+
+    lines.push('# HELP taskhub_job_duration_seconds Handler attempt latency');
+    lines.push('# TYPE taskhub_job_duration_seconds histogram');
+    for (const [key, histogram] of this.durations) {
+      let cumulative = 0;
+      for (let i = 0; i <= this.buckets.length; i++) {
+        cumulative += histogram.buckets[i];
+        const le = i < this.buckets.length ? String(this.buckets[i]) : '+Inf';
+        lines.push(`taskhub_job_duration_seconds_bucket{${key},le="${le}"} ${cumulative}`);
+      }
+      lines.push(`taskhub_job_duration_seconds_sum{${key}} ${histogram.sum}`);
+      lines.push(`taskhub_job_duration_seconds_count{${key}} ${histogram.count}`);
+    }
+
+    lines.push('# HELP taskhub_concurrency Current AIMD concurrency window');
+    lines.push('# TYPE taskhub_concurrency gauge');
+    for (const [key, value] of this.concurrency) {
+      lines.push(`taskhub_concurrency{${key}} ${value}`);
+    }
+
+    lines.push('# HELP taskhub_rate_limit_events_total Rate-limit signals by reason');
+    lines.push('# TYPE taskhub_rate_limit_events_total counter');
+    for (const [key, value] of this.rateLimits) {
+      lines.push(`taskhub_rate_limit_events_total{${key}} ${value}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Drop all recorded values
+   */
+  reset(): void {
+    this.attempts.clear();
+    this.durations.clear();
+    this.concurrency.clear();
+    this.rateLimits.clear();
+  }
+}
+
+/**
+ * Random lowercase hex ID of `bytes` bytes (trace IDs are 16 bytes, span IDs 8)
+ */
+export function randomHexId(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+// Rendered label set, also used as the series key
+function labelKey(labels: Record<string, string>): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
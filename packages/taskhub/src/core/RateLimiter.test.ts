@@ -0,0 +1,94 @@
+/**
+ * RateLimiter Tests - token bucket, quotas and Retry-After parsing
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { RateLimiter, getRetryAfterMs } from './RateLimiter.js';
+import { MemoryAdapter } from '../storage/MemoryAdapter.js';
+
+describe('RateLimiter', () => {
+  let storage: MemoryAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryAdapter();
+  });
+
+  describe('token bucket', () => {
+    test('grants up to the burst, then refills over time', async () => {
+      const limiter = new RateLimiter({ rate: 2, interval: 100, burst: 3 }, 'task', storage);
+
+      expect(limiter.take(5)).toBe(3);
+      expect(limiter.take(1)).toBe(0);
+      expect(limiter.waitTime).toBeGreaterThan(0);
+
+      await new Promise(r => setTimeout(r, 60));
+      expect(limiter.take(5)).toBe(1);
+    });
+
+    test('returns unused tokens', () => {
+      const limiter = new RateLimiter({ rate: 2 }, 'task', storage);
+
+      expect(limiter.take(2)).toBe(2);
+      limiter.giveBack(1);
+      expect(limiter.take(2)).toBe(1);
+    });
+
+    test('is unlimited without a rate', () => {
+      const limiter = new RateLimiter({}, 'task', storage);
+      expect(limiter.take(100)).toBe(100);
+      expect(limiter.waitTime).toBe(0);
+    });
+
+    test('rejects a non-positive rate', () => {
+      expect(() => new RateLimiter({ rate: 0 }, 'task', storage)).toThrow('positive');
+    });
+  });
+
+  describe('quotas', () => {
+    test('shares usage between limiters with the same key', async () => {
+      const quotas = [{ limit: 3, windowMs: 60_000 }];
+      const a = new RateLimiter({ key: 'api', quotas }, 'task-a', storage);
+      const b = new RateLimiter({ key: 'api', quotas }, 'task-b', storage);
+
+      expect(await a.consume(2)).toBe(2);
+      expect(await b.consume(2)).toBe(1);
+      expect(b.take(1)).toBe(0);
+      expect(b.pausedUntil).toBe(Math.ceil(Date.now() / 60_000) * 60_000);
+      expect(a.take(1)).toBe(1);
+    });
+  });
+
+  test('pauseUntil blocks every take', () => {
+    const limiter = new RateLimiter({}, 'task', storage);
+    limiter.pauseUntil(Date.now() + 1000);
+
+    expect(limiter.take(1)).toBe(0);
+    expect(limiter.waitTime).toBeGreaterThan(900);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  test('reads retryAfterMs and retryAfter seconds', () => {
+    expect(getRetryAfterMs({ retryAfterMs: 1500 }, now)).toBe(1500);
+    expect(getRetryAfterMs({ retryAfter: 2 }, now)).toBe(2000);
+    expect(getRetryAfterMs({ retryAfter: '3' }, now)).toBe(3000);
+  });
+
+  test('reads an HTTP date', () => {
+    expect(getRetryAfterMs({ retryAfter: 'Wed, 01 Jan 2025 00:00:10 GMT' }, now)).toBe(10_000);
+    expect(getRetryAfterMs({ retryAfter: 'Tue, 31 Dec 2024 23:00:00 GMT' }, now)).toBe(0);
+  });
+
+  test('reads headers case-insensitively', () => {
+    expect(getRetryAfterMs({ headers: { 'Retry-After': '5' } }, now)).toBe(5000);
+    expect(getRetryAfterMs({ response: { headers: new Headers({ 'retry-after': '1' }) } }, now)).toBe(1000);
+  });
+
+  test('returns undefined without a usable hint', () => {
+    expect(getRetryAfterMs(new Error('429'), now)).toBeUndefined();
+    expect(getRetryAfterMs({ retryAfter: 'soon' }, now)).toBeUndefined();
+    expect(getRetryAfterMs(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Rate Limiter
+ * Enforces published API limits before the AIMD window gets a say
+ *
+ * - Token bucket (`rate` per `interval`, up to `burst`), kept in memory per task
+ * - Fixed-window quotas, counted through the StorageAdapter so the budget survives
+ *   restarts and is shared by every worker and task using the same key
+ * - Retry-After hints pause all claiming until the server's deadline
+ */
+
+import type { QuotaWindow, RateLimitConfig, StorageAdapter } from '../types.js';
+
+export class RateLimiter {
+  private storage: StorageAdapter;
+  private key: string;
+  private rate: number | null;
+  private interval: number;
+  private burst: number;
+  private quotas: { limit: number; windowMs: number }[];
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+
+  constructor(config: RateLimitConfig, key: string, storage: StorageAdapter) {
+    if (config.rate !== undefined && !(config.rate > 0)) {
+      throw new Error('Rate limit `rate` must be positive');
+    }
+    for (const quota of config.quotas ?? []) {
+      if (!(quota.limit >= 0) || !(quota.windowMs >= 1)) {
+        throw new Error('Quota needs a non-negative `limit` and a `windowMs` of at least 1ms');
+      }
+    }
+
+    this.storage = storage;
+    this.key = config.key ?? key;
+    this.rate = config.rate ?? null;
+    this.interval = config.interval ?? 1000;
+    this.burst = Math.max(config.burst ?? config.rate ?? 1, 1);
+    this.quotas = config.quotas ?? [];
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * ms until the next request may start (0 if one may start now)
+   */
+  get waitTime(): number {
+    const now = Date.now();
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    if (this.rate === null) return 0;
+
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * this.interval) / this.rate);
+  }
+
+  /**
+   * Take up to `count` tokens, returns how many were granted
+   */
+  take(count: number): number {
+    const now = Date.now();
+    if (now < this.blockedUntil) return 0;
+    if (this.rate === null) return count;
+
+    this.refill(now);
+    const granted = Math.min(count, Math.floor(this.tokens));
+    this.tokens -= granted;
+    return granted;
+  }
+
+  /**
+   * Return tokens that were taken but not used
+   */
+  giveBack(count: number): void {
+    if (this.rate === null || count <= 0) return;
+    this.tokens = Math.min(this.tokens + count, this.burst);
+  }
+
+  /**
+   * Count `count` requests against every quota, returns how many may start
+   * When a quota runs out, nothing starts until its window ends.
+   */
+  async consume(count: number): Promise<number> {
+    if (this.quotas.length === 0 || count === 0) return count;
+
+    const now = Date.now();
+    const windows: QuotaWindow[] = this.quotas.map(quota => ({
+      key: `${this.key}:${quota.windowMs}`,
+      windowStart: Math.floor(now / quota.windowMs) * quota.windowMs,
+      limit: quota.limit,
+    }));
+
+    const granted = await this.storage.consumeQuota(windows, count);
+    if (granted < count) {
+      // We can't tell which quota ran out: wait for the earliest window to end and ask again
+      const resetsAt = Math.min(...windows.map((window, i) => window.windowStart + this.quotas[i].windowMs));
+      this.pauseUntil(resetsAt);
+    }
+    return granted;
+  }
+
+  /**
+   * Start nothing before `until` (ms timestamp)
+   */
+  pauseUntil(until: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  /**
+   * When a quota or Retry-After pause ends (0 if not paused)
+   */
+  get pausedUntil(): number {
+    return this.blockedUntil > Date.now() ? this.blockedUntil : 0;
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(this.tokens + (elapsed * this.rate!) / this.interval, this.burst);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Read a Retry-After hint from an error, in ms
+ * Accepts `retryAfterMs` (ms), or a Retry-After value in seconds or as an HTTP date,
+ * from a `retryAfter` property or a `headers` / `response.headers` object.
+ */
+export function getRetryAfterMs(error: unknown, now = Date.now()): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const source = error as {
+    retryAfterMs?: unknown;
+    retryAfter?: unknown;
+    headers?: unknown;
+    response?: { headers?: unknown };
+  };
+
+  if (typeof source.retryAfterMs === 'number' && source.retryAfterMs >= 0) {
+    return source.retryAfterMs;
+  }
+
+  const value = source.retryAfter ?? readHeader(source.headers) ?? readHeader(source.response?.headers);
+  if (typeof value === 'number') {
+    return value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+function readHeader(headers: unknown): unknown {
+  if (!headers || typeof headers !== 'object') return undefined;
+
+  // Fetch Headers (case-insensitive)
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get(name: string): string | null }).get('retry-after') ?? undefined;
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() === 'retry-after') return value;
+  }
+  return undefined;
+}
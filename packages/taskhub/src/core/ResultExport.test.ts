@@ -0,0 +1,71 @@
+/**
+ * Result Export Tests - NDJSON / CSV / JSON serialization
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { formatResults, toResultRow } from './ResultExport.js';
+import type { Job } from '../types.js';
+
+const jobs: Job[] = [
+  {
+    id: 'job-1',
+    taskId: 'task',
+    input: { address: '0xabc' },
+    output: 42,
+    status: 'completed',
+    attempts: 1,
+    createdAt: 1000,
+    startedAt: 1100,
+    completedAt: 1150,
+  },
+  {
+    id: 'job-2',
+    taskId: 'task',
+    input: 'line, with "quotes"\nand newline',
+    error: 'boom',
+    status: 'failed',
+    attempts: 3,
+    createdAt: 1000,
+  },
+];
+
+async function* iterate(items: Job[]) {
+  yield* items;
+}
+
+async function collect(format: 'ndjson' | 'csv' | 'json', items = jobs): Promise<string> {
+  let text = '';
+  for await (const chunk of formatResults(iterate(items), format)) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('toResultRow', () => {
+  test('includes timing and fills missing fields with null', () => {
+    expect(toResultRow(jobs[0]).durationMs).toBe(50);
+    expect(toResultRow(jobs[1])).toMatchObject({ output: null, startedAt: null, durationMs: null, error: 'boom' });
+  });
+});
+
+describe('formatResults', () => {
+  test('writes one JSON object per line for ndjson', async () => {
+    const lines = (await collect('ndjson')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ id: 'job-1', input: { address: '0xabc' }, output: 42 });
+  });
+
+  test('writes a header and escapes cells for csv', async () => {
+    const text = await collect('csv');
+    const [header, first] = text.split('\n');
+
+    expect(header).toBe('id,status,input,output,error,attempts,createdAt,startedAt,completedAt,durationMs');
+    expect(first).toBe('job-1,completed,"{""address"":""0xabc""}",42,,1,1000,1100,1150,50');
+    expect(text).toContain('"line, with ""quotes""\nand newline"');
+  });
+
+  test('writes a valid JSON array, also when empty', async () => {
+    expect(JSON.parse(await collect('json'))).toHaveLength(2);
+    expect(JSON.parse(await collect('json', []))).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Result Export
+ * Serializes job results as NDJSON, CSV or a JSON array, one chunk per row
+ */
+
+import type { Job, JobStatus } from '../types.js';
+
+export type ExportFormat = 'ndjson' | 'csv' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  status?: JobStatus; // Only export jobs with this status (default: all jobs)
+}
+
+/**
+ * One exported row: input, output, error and timing of a job
+ */
+export interface ResultRow<TInput = unknown, TOutput = unknown> {
+  id: string;
+  status: JobStatus;
+  input: TInput;
+  output: TOutput | null;
+  error: string | null;
+  attempts: number;
+  createdAt: number;
+  startedAt: number | null;
+  completedAt: number | null;
+  durationMs: number | null; // completedAt - startedAt of the last attempt
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const CSV_COLUMNS: (keyof ResultRow)[] = [
+  'id',
+  'status',
+  'input',
+  'output',
+  'error',
+  'attempts',
+  'createdAt',
+  'startedAt',
+  'completedAt',
+  'durationMs',
+];
+
+export function toResultRow<TInput, TOutput>(job: Job<TInput, TOutput>): ResultRow<TInput, TOutput> {
+  const startedAt = job.startedAt ?? null;
+  const completedAt = job.completedAt ?? null;
+
+  return {
+    id: job.id,
+    status: job.status,
+    input: job.input,
+    output: job.output ?? null,
+    error: job.error ?? null,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    startedAt,
+    completedAt,
+    durationMs: startedAt !== null && completedAt !== null ? completedAt - startedAt : null,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  // Structured inputs/outputs are embedded as JSON
+  const text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize jobs in the given format, yielding one string chunk per row
+ * (plus header / brackets), so large tasks never sit in memory as one string
+ */
+export async function* formatResults(jobs: AsyncIterable<Job>, format: ExportFormat): AsyncGenerator<string> {
+  switch (format) {
+    case 'ndjson':
+      for await (const job of jobs) {
+        yield JSON.stringify(toResultRow(job)) + '\n';
+      }
+      return;
+
+    case 'csv':
+      yield CSV_COLUMNS.join(',') + '\n';
+      for await (const job of jobs) {
+        const row = toResultRow(job);
+        yield CSV_COLUMNS.map(column => csvCell(row[column])).join(',') + '\n';
+      }
+      return;
+
+    case 'json': {
+      let first = true;
+      yield '[';
+      for await (const job of jobs) {
+        yield (first ? '\n' : ',\n') + JSON.stringify(toResultRow(job));
+        first = false;
+      }
+      yield first ? ']\n' : '\n]\n';
+      return;
+    }
+
+    default:
+      throw new Error(`Unsupported export format: ${format as string}`);
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Schedule Runner
+ * Fires recurring tasks from persisted schedules (cron or fixed interval)
+ *
+ * Schedules are stored through the StorageAdapter so `nextRunAt` survives restarts.
+ * Sources are code, not data: after a restart the schedule is re-attached by calling
+ * `hub.schedule()` again with the same id, and missed occurrences are handled by
+ * its MissedRunPolicy.
+ */
+
+import type { MissedRunPolicy, ScheduleMeta, StorageAdapter, TaskConfig, TaskSource } from '../types.js';
+import type { Task } from './Task.js';
+import type { CreateTaskOptions } from './Hub.js';
+import { parseCron, nextCronTime } from './Cron.js';
+
+export interface ScheduledRun {
+  scheduleId: string;
+  scheduledAt: number; // The occurrence this run stands for (ms)
+}
+
+export type ScheduleSourceFactory<TInput = unknown, TOutput = unknown> =
+  (run: ScheduledRun) => TaskSource<TInput, TOutput> | Promise<TaskSource<TInput, TOutput>>;
+
+export interface ScheduleOptions {
+  id: string;
+  cron?: string; // 5-field cron expression in UTC, e.g. "0 2 * * *"
+  every?: number; // Fixed interval in ms (alternative to cron)
+  missedRunPolicy?: MissedRunPolicy; // Default: 'skip'
+  misfireThresholdMs?: number; // An occurrence older than this counts as missed (default: 60000)
+  task?: Omit<TaskConfig, 'name'>; // Config for each task the schedule creates (quota key defaults to the schedule ID)
+}
+
+export interface ScheduleRunnerHooks {
+  createTask(options: CreateTaskOptions): Promise<Task>;
+  onRun(run: ScheduledRun, task: Task): void;
+  onError(scheduleId: string, error: Error): void;
+}
+
+interface AttachedSchedule {
+  meta: ScheduleMeta;
+  options: ScheduleOptions;
+  factory: ScheduleSourceFactory;
+  running: Promise<void> | null;
+}
+
+const DEFAULT_MISFIRE_THRESHOLD = 60_000;
+
+// catch-up-all never replays more than this many occurrences (the most recent ones)
+const MAX_CATCH_UP_RUNS = 100;
+
+// setTimeout overflows above 2^31-1 ms; re-arm instead of sleeping that long
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export class ScheduleRunner {
+  private storage: StorageAdapter;
+  private hooks: ScheduleRunnerHooks;
+  private attached = new Map<string, AttachedSchedule>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(storage: StorageAdapter, hooks: ScheduleRunnerHooks) {
+    this.storage = storage;
+    this.hooks = hooks;
+  }
+
+  /**
+   * Create a schedule, or re-attach a source factory to a persisted one
+   */
+  async attach(options: ScheduleOptions, factory: ScheduleSourceFactory): Promise<ScheduleMeta> {
+    this.validate(options);
+    this.closed = false;
+
+    const now = Date.now();
+    const cron = options.cron ?? null;
+    const intervalMs = options.every ?? null;
+    const missedRunPolicy = options.missedRunPolicy ?? 'skip';
+
+    let meta = await this.storage.getSchedule(options.id);
+
+    if (!meta) {
+      meta = {
+        id: options.id,
+        cron,
+        intervalMs,
+        missedRunPolicy,
+        status: 'active',
+        nextRunAt: cron ? nextCronTime(cron, now) : now + intervalMs!,
+        lastRunAt: null,
+        lastTaskId: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.storage.createSchedule(meta);
+    } else if (meta.cron !== cron || meta.intervalMs !== intervalMs || meta.missedRunPolicy !== missedRunPolicy) {
+      // Timing changed: restart the cadence from now rather than replaying the old one
+      const timingChanged = meta.cron !== cron || meta.intervalMs !== intervalMs;
+      const updates: Partial<ScheduleMeta> = { cron, intervalMs, missedRunPolicy };
+      if (timingChanged) {
+        updates.nextRunAt = cron ? nextCronTime(cron, now) : now + intervalMs!;
+      }
+      await this.storage.updateSchedule(meta.id, updates);
+      meta = { ...meta, ...updates };
+    }
+
+    const existing = this.attached.get(meta.id);
+    this.attached.set(meta.id, {
+      meta,
+      options,
+      factory: factory as ScheduleSourceFactory,
+      running: existing?.running ?? null,
+    });
+
+    this.arm();
+    return { ...meta };
+  }
+
+  async get(scheduleId: string): Promise<ScheduleMeta | null> {
+    return this.storage.getSchedule(scheduleId);
+  }
+
+  async list(): Promise<ScheduleMeta[]> {
+    return this.storage.listSchedules();
+  }
+
+  /**
+   * Stop firing a schedule (a run already in progress finishes)
+   */
+  async pause(scheduleId: string): Promise<void> {
+    await this.requireSchedule(scheduleId);
+    await this.storage.updateSchedule(scheduleId, { status: 'paused' });
+
+    const entry = this.attached.get(scheduleId);
+    if (entry) entry.meta.status = 'paused';
+    this.arm();
+  }
+
+  /**
+   * Resume a paused schedule; occurrences that passed while paused are not run
+   */
+  async resume(scheduleId: string): Promise<void> {
+    const meta = await this.requireSchedule(scheduleId);
+    const nextRunAt = this.nextOccurrence(meta, Date.now());
+    await this.storage.updateSchedule(scheduleId, { status: 'active', nextRunAt });
+
+    const entry = this.attached.get(scheduleId);
+    if (entry) {
+      entry.meta.status = 'active';
+      entry.meta.nextRunAt = nextRunAt;
+    }
+    this.arm();
+  }
+
+  /**
+   * Delete a schedule (tasks it already created are kept)
+   */
+  async remove(scheduleId: string): Promise<void> {
+    await this.storage.deleteSchedule(scheduleId);
+    this.attached.delete(scheduleId);
+    this.arm();
+  }
+
+  /**
+   * Stop the timer and detach all schedules (persisted state is kept)
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.attached.clear();
+  }
+
+  // =========================================================================
+  // Internal
+  // =========================================================================
+
+  private validate(options: ScheduleOptions): void {
+    if (!options.id) {
+      throw new Error('Schedule id is required');
+    }
+    if ((options.cron === undefined) === (options.every === undefined)) {
+      throw new Error('Schedule needs exactly one of `cron` or `every`');
+    }
+    if (options.cron !== undefined) {
+      parseCron(options.cron);
+    }
+    if (options.every !== undefined && !(options.every >= 1)) {
+      throw new Error('Schedule `every` must be at least 1ms');
+    }
+  }
+
+  private async requireSchedule(scheduleId: string): Promise<ScheduleMeta> {
+    const meta = await this.storage.getSchedule(scheduleId);
+    if (!meta) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+    return meta;
+  }
+
+  /**
+   * First occurrence strictly after `after`
+   * Interval schedules stay on the grid anchored at nextRunAt.
+   */
+  private nextOccurrence(meta: ScheduleMeta, after: number): number {
+    if (meta.cron) {
+      return nextCronTime(meta.cron, after);
+    }
+    const interval = meta.intervalMs!;
+    if (meta.nextRunAt > after) {
+      return meta.nextRunAt;
+    }
+    const steps = Math.floor((after - meta.nextRunAt) / interval) + 1;
+    return meta.nextRunAt + steps * interval;
+  }
+
+  /**
+   * Decide which due occurrences to run, per the missed-run policy
+   */
+  private planRuns(meta: ScheduleMeta, now: number, misfireThresholdMs: number): { runs: number[]; nextRunAt: number } {
+    const due: number[] = [];
+    let t = meta.nextRunAt;
+    if (meta.cron) {
+      while (t <= now) {
+        due.push(t);
+        if (due.length > MAX_CATCH_UP_RUNS) due.shift();
+        t = this.nextOccurrence(meta, t);
+      }
+    } else if (t <= now) {
+      // Occurrences sit on the interval grid: step straight to the last ones that may run
+      const interval = meta.intervalMs!;
+      const count = Math.floor((now - t) / interval) + 1;
+      for (let k = Math.max(0, count - MAX_CATCH_UP_RUNS); k < count; k++) {
+        due.push(t + k * interval);
+      }
+      t += count * interval;
+    }
+
+    const onTime = due.filter(occurrence => now - occurrence <= misfireThresholdMs);
+    let runs: number[];
+
+    switch (meta.missedRunPolicy) {
+      case 'catch-up-all':
+        runs = due;
+        break;
+      case 'catch-up-once':
+        runs = due.slice(-1);
+        break;
+      case 'skip':
+      default:
+        runs = onTime.slice(-1);
+        break;
+    }
+
+    return { runs, nextRunAt: t };
+  }
+
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.closed) return;
+
+    let earliest = Infinity;
+    for (const entry of this.attached.values()) {
+      if (entry.meta.status === 'active' && !entry.running) {
+        earliest = Math.min(earliest, entry.meta.nextRunAt);
+      }
+    }
+    if (earliest === Infinity) return;
+
+    const delay = Math.min(Math.max(earliest - Date.now(), 0), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    this.timer = null;
+    const now = Date.now();
+
+    for (const entry of this.attached.values()) {
+      if (entry.meta.status === 'active' && !entry.running && entry.meta.nextRunAt <= now) {
+        entry.running = this.fire(entry).finally(() => {
+          entry.running = null;
+          this.arm();
+        });
+      }
+    }
+
+    this.arm();
+  }
+
+  /**
+   * Run due occurrences of one schedule sequentially
+   * nextRunAt is persisted before running, so a crash mid-run never replays it.
+   */
+  private async fire(entry: AttachedSchedule): Promise<void> {
+    const scheduleId = entry.meta.id;
+
+    try {
+      const { runs, nextRunAt } = this.planRuns(
+        entry.meta,
+        Date.now(),
+        entry.options.misfireThresholdMs ?? DEFAULT_MISFIRE_THRESHOLD
+      );
+      entry.meta.nextRunAt = nextRunAt;
+      await this.storage.updateSchedule(scheduleId, { nextRunAt });
+
+      for (const scheduledAt of runs) {
+        if (this.closed || entry.meta.status !== 'active' || this.attached.get(scheduleId) !== entry) {
+          break;
+        }
+
+        const run: ScheduledRun = { scheduleId, scheduledAt };
+        const source = await entry.factory(run);
+        const rateLimit = entry.options.task?.rateLimit;
+        const task = await this.hooks.createTask({
+          ...entry.options.task,
+          name: `${scheduleId}@${new Date(scheduledAt).toISOString()}`,
+          // Every run has its own name: share the quota under the schedule ID instead
+          rateLimit: rateLimit && { ...rateLimit, key: rateLimit.key ?? scheduleId },
+          metricsLabel: entry.options.task?.metricsLabel ?? scheduleId,
+          source,
+        });
+
+        entry.meta.lastRunAt = scheduledAt;
+        entry.meta.lastTaskId = task.id;
+        await this.storage.updateSchedule(scheduleId, { lastRunAt: scheduledAt, lastTaskId: task.id });
+
+        this.hooks.onRun(run, task);
+        await task.start();
+      }
+    } catch (error) {
+      if (this.closed) return;
+      this.hooks.onError(scheduleId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Scheduler Tests - Hub-wide weighted fair concurrency
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Scheduler } from './Scheduler.js';
+
+describe('Scheduler', () => {
+  test('rejects invalid budget and weights', () => {
+    expect(() => new Scheduler(0)).toThrow();
+    expect(() => new Scheduler(4).register('a', 0)).toThrow();
+  });
+
+  test('a lone task can use the whole budget', () => {
+    const scheduler = new Scheduler(10);
+    scheduler.register('a');
+
+    expect(scheduler.acquire('a', 15)).toBe(10);
+    expect(scheduler.acquire('a', 1)).toBe(0);
+    expect(scheduler.activeCount).toBe(10);
+  });
+
+  test('unregistered tasks get nothing', () => {
+    const scheduler = new Scheduler(10);
+    expect(scheduler.acquire('ghost', 5)).toBe(0);
+  });
+
+  test('splits the budget by weight between contending tasks', () => {
+    const scheduler = new Scheduler(12);
+    scheduler.register('heavy', 3);
+    scheduler.register('light', 1);
+
+    // light holds 3 slots, so it counts as contending
+    expect(scheduler.acquire('light', 3)).toBe(3);
+
+    expect(scheduler.fairShare('heavy')).toBe(9);
+    expect(scheduler.acquire('heavy', 12)).toBe(9);
+    expect(scheduler.activeCount).toBe(12);
+  });
+
+  test('does not borrow capacity while another task is below its share', () => {
+    const scheduler = new Scheduler(10);
+    scheduler.register('a');
+    scheduler.register('b');
+
+    expect(scheduler.acquire('a', 10)).toBe(10);
+    // b wants slots but none are free; it is now hungry
+    expect(scheduler.acquire('b', 5)).toBe(0);
+
+    // a releases 4, but is over its share (5) while b is starved
+    scheduler.release('a', 4);
+    expect(scheduler.acquire('a', 4)).toBe(0);
+    expect(scheduler.acquire('b', 5)).toBe(4);
+  });
+
+  test('release and unregister free capacity', () => {
+    const scheduler = new Scheduler(4);
+    scheduler.register('a');
+    scheduler.acquire('a', 4);
+
+    scheduler.release('a', 2);
+    expect(scheduler.activeCount).toBe(2);
+
+    scheduler.unregister('a');
+    expect(scheduler.activeCount).toBe(0);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Hub-level Scheduler
+ * Shares one global concurrency budget across all running tasks with weighted fairness
+ *
+ * Each Dispatcher still runs its own AIMD window; the scheduler caps the sum.
+ * A task's fair share is `budget * weight / totalWeight` over the tasks currently
+ * contending (running jobs or waiting for slots). Slots left idle by one task can be
+ * borrowed by another, but only while no contending task is below its own share.
+ */
+
+interface TaskSlot {
+  weight: number;
+  active: number;
+  hungry: boolean; // Last acquire() was granted fewer slots than requested
+}
+
+export class Scheduler {
+  private budget: number;
+  private tasks = new Map<string, TaskSlot>();
+
+  constructor(maxConcurrency: number) {
+    if (!Number.isFinite(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error('Scheduler maxConcurrency must be at least 1');
+    }
+    this.budget = Math.floor(maxConcurrency);
+  }
+
+  get maxConcurrency(): number {
+    return this.budget;
+  }
+
+  get activeCount(): number {
+    let total = 0;
+    for (const slot of this.tasks.values()) {
+      total += slot.active;
+    }
+    return total;
+  }
+
+  /**
+   * Register a task with a fairness weight (default 1)
+   */
+  register(taskId: string, weight = 1): void {
+    if (!(weight > 0)) {
+      throw new Error('Task weight must be positive');
+    }
+    const existing = this.tasks.get(taskId);
+    if (existing) {
+      existing.weight = weight;
+      return;
+    }
+    this.tasks.set(taskId, { weight, active: 0, hungry: false });
+  }
+
+  /**
+   * Remove a task from scheduling
+   */
+  unregister(taskId: string): void {
+    this.tasks.delete(taskId);
+  }
+
+  /**
+   * Request up to `wanted` slots for a task
+   * Returns the number granted; each granted slot must be given back via release()
+   */
+  acquire(taskId: string, wanted: number): number {
+    const slot = this.tasks.get(taskId);
+    if (!slot || wanted <= 0) return 0;
+
+    const free = this.budget - this.activeCount;
+    const share = this.fairShare(taskId);
+
+    let allowed = share - slot.active;
+    if (allowed <= 0) {
+      // Over fair share: only borrow idle capacity nobody else is waiting for
+      allowed = this.othersStarved(taskId) ? 0 : free;
+    }
+
+    const granted = Math.max(0, Math.min(wanted, free, allowed));
+    slot.active += granted;
+    slot.hungry = granted < wanted;
+    return granted;
+  }
+
+  /**
+   * Mark a task as having no outstanding demand (paused, or nothing claimable right now)
+   */
+  idle(taskId: string): void {
+    const slot = this.tasks.get(taskId);
+    if (slot) slot.hungry = false;
+  }
+
+  /**
+   * Return slots previously granted by acquire()
+   */
+  release(taskId: string, count = 1): void {
+    const slot = this.tasks.get(taskId);
+    if (!slot) return;
+    slot.active = Math.max(0, slot.active - count);
+  }
+
+  /**
+   * Fair share of the budget for a task among currently contending tasks (at least 1)
+   */
+  fairShare(taskId: string): number {
+    const slot = this.tasks.get(taskId);
+    if (!slot) return 0;
+
+    let totalWeight = slot.weight;
+    for (const [id, other] of this.tasks) {
+      if (id !== taskId && (other.active > 0 || other.hungry)) {
+        totalWeight += other.weight;
+      }
+    }
+
+    return Math.max(1, Math.floor((this.budget * slot.weight) / totalWeight));
+  }
+
+  private othersStarved(taskId: string): boolean {
+    for (const [id, other] of this.tasks) {
+      if (id !== taskId && other.hungry && other.active < this.fairShare(id)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -12,6 +12,9 @@ import type {
   StorageAdapter,
   Job,
   JobStatus,
+  FailedJobFilter,
+  LeaseConfig,
+  Metrics,
   AIMDConfig,
   RetryConfig,
   ConcurrencyConfig,
@@ -21,7 +24,24 @@ import type {
 } from '../types.js';
 import { EventEmitter } from './EventEmitter.js';
 import { Dispatcher } from './Dispatcher.js';
-import { computeMerkleRoot, generateJobId, generateTaskId } from './MerkleTree.js';
+import type { Scheduler } from './Scheduler.js';
+import {
+  computeMerkleRoot,
+  computeMerkleProof,
+  generateJobId,
+  generateResultId,
+  generateTaskId,
+  verifyResults,
+  type JobProof,
+  type ResultVerification,
+} from './MerkleTree.js';
+import { formatResults, EXPORT_MIME_TYPES, type ExportOptions } from './ResultExport.js';
+
+// Jobs written per storage call when ingesting or appending input
+const INGEST_BATCH_SIZE = 1000;
+
+// How long a streaming source may stay quiet before a partial batch is written (ms)
+const STREAM_FLUSH_INTERVAL = 50;
 
 export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<TaskEvents<TInput, TOutput>> {
   private meta: TaskMeta;
@@ -29,18 +49,30 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
   private source: TaskSource<TInput, TOutput> | null = null;
   private dispatcher: Dispatcher | null = null;
   private config: Required<TaskConfig>;
+  private scheduler: Scheduler | null;
+  private lease: Required<LeaseConfig> | null;
+  private metrics: Metrics | null;
   private startTime: number = 0;
   private progressInterval: ReturnType<typeof setInterval> | null = null;
   private stopped = false;
+  private input: AsyncIterator<TInput> | null = null; // Streaming source not yet fully ingested
+  private ingestion: Promise<void> | null = null;
+  private inputLock: Promise<unknown> = Promise.resolve();
 
   constructor(
     meta: TaskMeta,
     storage: StorageAdapter,
-    config: TaskConfig
+    config: TaskConfig,
+    scheduler: Scheduler | null = null,
+    lease: Required<LeaseConfig> | null = null,
+    metrics: Metrics | null = null
   ) {
     super();
     this.meta = meta;
     this.storage = storage;
+    this.scheduler = scheduler;
+    this.lease = lease;
+    this.metrics = metrics;
     this.config = {
       name: config.name,
       concurrency: {
@@ -54,6 +86,12 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
         maxDelay: config.retry?.maxDelay ?? 30000,
       },
       timeout: config.timeout ?? 30000,
+      dependsOn: config.dependsOn ?? [],
+      weight: config.weight ?? 1,
+      rateLimit: config.rateLimit ?? {},
+      streaming: config.streaming ?? false,
+      highWaterMark: config.highWaterMark ?? 1000,
+      metricsLabel: config.metricsLabel ?? config.name,
     };
   }
 
@@ -89,6 +127,14 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
     return this.meta.merkleRoot;
   }
 
+  get resultRoot(): string | null {
+    return this.meta.resultRoot ?? null;
+  }
+
+  get dependsOn(): string[] {
+    return this.meta.dependsOn ?? [];
+  }
+
   get currentConcurrency(): number {
     return this.dispatcher?.currentConcurrency ?? 0;
   }
@@ -113,6 +159,9 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
     if (Array.isArray(data)) {
       // Deterministic task - compute merkle root
       await this.ingestDeterministicData(data);
+    } else if (this.config.streaming) {
+      // Streaming dynamic task - ingested alongside the dispatcher once started
+      this.input = data[Symbol.asyncIterator]();
     } else {
       // Dynamic task - stream ingest
       await this.ingestDynamicData(data);
@@ -126,31 +175,33 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
   }
 
   private async ingestDeterministicData(data: TInput[]): Promise<void> {
-    const jobIdsForMerkle: string[] = [];
     const now = Date.now();
 
-    // Process in batches to avoid memory issues
-    const BATCH_SIZE = 1000;
+    // Job IDs for merkle root (only based on input data)
+    const jobIdsForMerkle = await this.inputJobIds(data);
 
-    for (let i = 0; i < data.length; i += BATCH_SIZE) {
-      const batch = data.slice(i, i + BATCH_SIZE);
-      const batchJobs: Job<TInput, TOutput>[] = [];
+    // Validate the dependency graph before anything is written
+    const dependencies = this.source?.getDependencies
+      ? await this.resolveDependencies(data, jobIdsForMerkle)
+      : null;
 
-      for (const input of batch) {
-        // Job ID for merkle root (only based on input data)
-        const inputHash = this.source?.getJobId?.(input) ?? await generateJobId(input);
-        jobIdsForMerkle.push(inputHash);
+    // Process in batches to avoid memory issues
+    for (let i = 0; i < data.length; i += INGEST_BATCH_SIZE) {
+      const batchJobs: Job<TInput, TOutput>[] = [];
 
+      for (let j = i; j < Math.min(i + INGEST_BATCH_SIZE, data.length); j++) {
         // Job ID for storage includes task ID to ensure uniqueness across tasks
-        const jobId = `${this.meta.id}:${inputHash}`;
+        const jobId = this.toStorageJobId(jobIdsForMerkle[j]);
 
         batchJobs.push({
           id: jobId,
           taskId: this.meta.id,
-          input,
+          input: data[j],
           status: 'pending',
           attempts: 0,
           createdAt: now,
+          dependsOn: dependencies?.[j],
+          priority: this.source?.getPriority?.(data[j]),
         });
       }
 
@@ -167,12 +218,26 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
     const now = Date.now();
     let batch: Job<TInput, TOutput>[] = [];
     let count = 0;
-    const BATCH_SIZE = 1000;
+
+    // Dynamic sources can only depend on inputs yielded earlier, which rules out cycles
+    const seen = this.source?.getDependencies ? new Set<string>() : null;
 
     for await (const input of data) {
       const inputHash = this.source?.getJobId?.(input) ?? await generateJobId(input);
       // Job ID includes task ID to ensure uniqueness across tasks
-      const jobId = `${this.meta.id}:${inputHash}`;
+      const jobId = this.toStorageJobId(inputHash);
+
+      let dependsOn: string[] | undefined;
+      if (seen) {
+        const deps = await this.source!.getDependencies!(input);
+        for (const dep of deps) {
+          if (!seen.has(dep)) {
+            throw new Error(`Job ${inputHash} depends on ${dep}, which was not yielded before it`);
+          }
+        }
+        seen.add(inputHash);
+        dependsOn = deps.length > 0 ? deps.map(dep => this.toStorageJobId(dep)) : undefined;
+      }
 
       batch.push({
         id: jobId,
@@ -181,11 +246,13 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
         status: 'pending',
         attempts: 0,
         createdAt: now,
+        dependsOn,
+        priority: this.source?.getPriority?.(input),
       });
 
       count++;
 
-      if (batch.length >= BATCH_SIZE) {
+      if (batch.length >= INGEST_BATCH_SIZE) {
         await this.storage.createJobs(batch as Job[]);
         batch = [];
       }
@@ -199,6 +266,66 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
     this.meta.totalJobs = count;
   }
 
+  /**
+   * Resolve and validate dependencies for a deterministic task
+   * Every dependency must be an input of this task, and the graph must be acyclic.
+   * Returns storage job IDs per input (undefined for inputs without dependencies).
+   */
+  private async resolveDependencies(data: TInput[], inputHashes: string[]): Promise<(string[] | undefined)[]> {
+    const known = new Set(inputHashes);
+    const edges = new Map<string, string[]>();
+
+    for (let i = 0; i < data.length; i++) {
+      const deps = await this.source!.getDependencies!(data[i]);
+      for (const dep of deps) {
+        if (!known.has(dep)) {
+          throw new Error(`Job ${inputHashes[i]} depends on unknown job ${dep}`);
+        }
+        if (dep === inputHashes[i]) {
+          throw new Error(`Job ${dep} depends on itself`);
+        }
+      }
+      if (deps.length > 0) {
+        edges.set(inputHashes[i], deps);
+      }
+    }
+
+    // Kahn's algorithm: anything left unvisited sits on a cycle
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+    for (const [id, deps] of edges) {
+      inDegree.set(id, deps.length);
+      for (const dep of deps) {
+        const list = dependents.get(dep) ?? [];
+        list.push(id);
+        dependents.set(dep, list);
+      }
+    }
+
+    const queue = inputHashes.filter(id => !inDegree.has(id));
+    let visited = 0;
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      visited++;
+      for (const child of dependents.get(id) ?? []) {
+        const remaining = inDegree.get(child)! - 1;
+        inDegree.set(child, remaining);
+        if (remaining === 0) queue.push(child);
+      }
+    }
+
+    if (visited < known.size) {
+      const cyclic = [...inDegree].find(([, degree]) => degree > 0)?.[0];
+      throw new Error(`Dependency cycle detected involving job ${cyclic}`);
+    }
+
+    return inputHashes.map(id => edges.get(id)?.map(dep => this.toStorageJobId(dep)));
+  }
+
+  private toStorageJobId(inputHash: string): string {
+    return `${this.meta.id}:${inputHash}`;
+  }
+
   // =========================================================================
   // Execution Control
   // =========================================================================
@@ -219,100 +346,7 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
       throw new Error('No source set. Call setSource() first.');
     }
 
-    // Reset stopped flag for new start
-    this.stopped = false;
-
-    // Reset any active jobs from previous crash
-    await this.storage.resetActiveJobs(this.meta.id);
-
-    // Update status
-    this.meta.status = 'running';
-    await this.storage.updateTask(this.meta.id, { status: 'running' });
-
-    this.startTime = Date.now();
-
-    // Create dispatcher
-    this.dispatcher = new Dispatcher({
-      taskId: this.meta.id,
-      source: this.source as TaskSource,
-      storage: this.storage,
-      aimd: {
-        initialConcurrency: this.config.concurrency.initial ?? this.config.concurrency.min,
-        minConcurrency: this.config.concurrency.min,
-        maxConcurrency: this.config.concurrency.max,
-        additiveIncrease: 1,
-        multiplicativeDecrease: 0.5,
-        successThreshold: 10,
-      },
-      retry: this.config.retry,
-      timeout: this.config.timeout,
-    });
-
-    // Wire up events
-    this.dispatcher.on('job:start', (job) => {
-      this.emit('job:start', job as Job<TInput, TOutput>);
-    });
-
-    this.dispatcher.on('job:complete', (job) => {
-      this.meta.completedJobs++;
-      // Fire and forget - don't await to avoid blocking the dispatcher
-      this.updateJobCounts().catch(() => {});
-      this.emit('job:complete', job as Job<TInput, TOutput>);
-    });
-
-    this.dispatcher.on('job:failed', ({ job, error }) => {
-      this.meta.failedJobs++;
-      // Fire and forget - don't await to avoid blocking the dispatcher
-      this.updateJobCounts().catch(() => {});
-      this.emit('job:failed', job as Job<TInput, TOutput>, error);
-    });
-
-    this.dispatcher.on('job:retry', ({ job, attempt }) => {
-      this.emit('job:retry', job as Job<TInput, TOutput>, attempt);
-    });
-
-    this.dispatcher.on('rate-limited', (concurrency) => {
-      this.emit('rate-limited', concurrency);
-    });
-
-    // Start progress reporting
-    this.startProgressReporting();
-
-    // Start processing
-    await this.dispatcher.start();
-
-    // Processing complete - but check if we were stopped during processing
-    this.stopProgressReporting();
-
-    // If stopped externally, don't update final status (stop() handles it)
-    if (this.stopped) {
-      return;
-    }
-
-    // Update final status
-    try {
-      const counts = await this.storage.getJobCounts(this.meta.id);
-      this.meta.completedJobs = counts.completed;
-      this.meta.failedJobs = counts.failed;
-
-      if (counts.pending === 0 && counts.active === 0) {
-        this.meta.status = counts.failed > 0 && counts.completed === 0 ? 'failed' : 'completed';
-      }
-
-      await this.storage.updateTask(this.meta.id, {
-        status: this.meta.status,
-        completedJobs: this.meta.completedJobs,
-        failedJobs: this.meta.failedJobs,
-      });
-
-      this.emit('completed');
-    } catch (error) {
-      // Storage closed during shutdown, state will be recovered on restart
-      if (error instanceof Error && error.message.includes('closed')) {
-        return;
-      }
-      throw error;
-    }
+    await this.run();
   }
 
   /**
@@ -350,92 +384,7 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
         throw new Error('No source set. Call setSourceForResume() first.');
       }
 
-      // Reset stopped flag for resume
-      this.stopped = false;
-
-      // Reset any active jobs from previous crash (only for crash recovery!)
-      await this.storage.resetActiveJobs(this.meta.id);
-
-      this.meta.status = 'running';
-      await this.storage.updateTask(this.meta.id, { status: 'running' });
-
-      this.startTime = Date.now();
-      this.dispatcher = new Dispatcher({
-        taskId: this.meta.id,
-        source: this.source as TaskSource,
-        storage: this.storage,
-        aimd: {
-          initialConcurrency: this.config.concurrency.initial ?? this.config.concurrency.min,
-          minConcurrency: this.config.concurrency.min,
-          maxConcurrency: this.config.concurrency.max,
-          additiveIncrease: 1,
-          multiplicativeDecrease: 0.5,
-          successThreshold: 10,
-        },
-        retry: this.config.retry,
-        timeout: this.config.timeout,
-      });
-
-      // Wire up events
-      this.dispatcher.on('job:start', (job) => {
-        this.emit('job:start', job as Job<TInput, TOutput>);
-      });
-
-      this.dispatcher.on('job:complete', (job) => {
-        this.meta.completedJobs++;
-        this.updateJobCounts().catch(() => {});
-        this.emit('job:complete', job as Job<TInput, TOutput>);
-      });
-
-      this.dispatcher.on('job:failed', ({ job, error }) => {
-        this.meta.failedJobs++;
-        this.updateJobCounts().catch(() => {});
-        this.emit('job:failed', job as Job<TInput, TOutput>, error);
-      });
-
-      this.dispatcher.on('job:retry', ({ job, attempt }) => {
-        this.emit('job:retry', job as Job<TInput, TOutput>, attempt);
-      });
-
-      this.dispatcher.on('rate-limited', (concurrency) => {
-        this.emit('rate-limited', concurrency);
-      });
-
-      this.startProgressReporting();
-
-      // Start processing (for crash recovery)
-      await this.dispatcher.start();
-
-      // Processing complete
-      this.stopProgressReporting();
-
-      if (this.stopped) {
-        return;
-      }
-
-      // Update final status
-      try {
-        const counts = await this.storage.getJobCounts(this.meta.id);
-        this.meta.completedJobs = counts.completed;
-        this.meta.failedJobs = counts.failed;
-
-        if (counts.pending === 0 && counts.active === 0) {
-          this.meta.status = counts.failed > 0 && counts.completed === 0 ? 'failed' : 'completed';
-        }
-
-        await this.storage.updateTask(this.meta.id, {
-          status: this.meta.status,
-          completedJobs: this.meta.completedJobs,
-          failedJobs: this.meta.failedJobs,
-        });
-
-        this.emit('completed');
-      } catch (error) {
-        if (error instanceof Error && error.message.includes('closed')) {
-          return;
-        }
-        throw error;
-      }
+      await this.run();
     } else {
       // Dispatcher exists - just resume (pause/resume in same session)
       // Note: Don't reset active jobs here - they're still being processed!
@@ -480,6 +429,9 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
    * Destroy task and clean up all data
    */
   async destroy(): Promise<void> {
+    const input = this.input;
+    this.input = null;
+    await input?.return?.();
     await this.stop();
     await this.storage.deleteJobsByTask(this.meta.id);
     await this.storage.deleteTask(this.meta.id);
@@ -535,10 +487,381 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
     return jobs as Job<TInput, TOutput>[];
   }
 
+  /**
+   * Stream jobs in input order, paging through storage
+   */
+  async *streamResults(options: {
+    status?: JobStatus;
+    batchSize?: number;
+  } = {}): AsyncGenerator<Job<TInput, TOutput>> {
+    const batchSize = options.batchSize ?? 1000;
+
+    for (let offset = 0; ; offset += batchSize) {
+      const page = await this.storage.getJobsByTask(this.meta.id, options.status, batchSize, offset);
+      for (const job of page) {
+        yield job as Job<TInput, TOutput>;
+      }
+      if (page.length < batchSize) break;
+    }
+  }
+
+  /**
+   * Export results as a Blob (NDJSON, CSV or JSON array)
+   */
+  async exportResults(options: ExportOptions): Promise<Blob> {
+    const chunks: string[] = [];
+    for await (const chunk of formatResults(this.streamResults({ status: options.status }), options.format)) {
+      chunks.push(chunk);
+    }
+    return new Blob(chunks, { type: EXPORT_MIME_TYPES[options.format] });
+  }
+
+  /**
+   * Export results to a file (Node.js / Bun), streaming rows to disk
+   */
+  async exportResultsToFile(path: string, options: ExportOptions): Promise<void> {
+    const { open } = await import('fs/promises');
+    const file = await open(path, 'w');
+
+    try {
+      let buffer = '';
+      for await (const chunk of formatResults(this.streamResults({ status: options.status }), options.format)) {
+        buffer += chunk;
+        if (buffer.length >= 64 * 1024) {
+          await file.write(buffer);
+          buffer = '';
+        }
+      }
+      if (buffer) {
+        await file.write(buffer);
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  // =========================================================================
+  // Proofs
+  // =========================================================================
+
+  /**
+   * Inclusion proofs for one job, against merkleRoot and (once completed) resultRoot
+   */
+  async getJobProof(jobId: string): Promise<JobProof> {
+    if (this.meta.type !== 'deterministic') {
+      throw new Error('Proofs are only available for deterministic tasks');
+    }
+
+    const { jobIds, resultIds, storageIds } = await this.collectLeaves();
+    const index = storageIds.indexOf(jobId);
+    if (index === -1) {
+      throw new Error(`Job not found in task: ${jobId}`);
+    }
+    const inputIds = await this.inputLeaves(jobIds);
+
+    return {
+      jobId,
+      input: await computeMerkleProof(inputIds, inputIds.indexOf(jobIds[index])),
+      result: this.meta.resultRoot ? await computeMerkleProof(resultIds, index) : null,
+    };
+  }
+
+  /**
+   * Check a full result set (e.g. an export from another machine) against this task's roots
+   */
+  async verifyResults(
+    results: Iterable<{ input: TInput; output?: unknown }> | AsyncIterable<{ input: TInput; output?: unknown }>
+  ): Promise<ResultVerification> {
+    const source = this.source;
+    return verifyResults(results, {
+      merkleRoot: this.meta.merkleRoot,
+      resultRoot: this.meta.resultRoot,
+      getJobId: source?.getJobId ? (input: TInput) => source.getJobId!(input) : undefined,
+    });
+  }
+
+  // =========================================================================
+  // Dead Letters
+  // =========================================================================
+
+  /**
+   * Get jobs that exhausted their retries, with their attempt history
+   */
+  async getFailedJobs(filter: FailedJobFilter = {}): Promise<Job<TInput, TOutput>[]> {
+    const matches = (await this.loadFailedJobs()).filter(job => this.matchesFailedJobFilter(job, filter));
+    const offset = filter.offset ?? 0;
+    const end = filter.limit === undefined ? undefined : offset + filter.limit;
+    return matches.slice(offset, end);
+  }
+
+  /**
+   * Move matching failed jobs back to pending with a fresh retry budget
+   * Failed jobs they depend on are requeued with them, or they could never run.
+   * History is kept. Call start() afterwards to process them.
+   * Returns the number of jobs requeued
+   */
+  async requeueFailedJobs(filter: FailedJobFilter = {}): Promise<number> {
+    const selected = new Set((await this.getFailedJobs(filter)).map(job => job.id));
+    if (selected.size === 0) return 0;
+
+    const byId = new Map((await this.loadFailedJobs()).map(job => [job.id, job]));
+
+    const stack = [...selected];
+    while (stack.length > 0) {
+      for (const dep of byId.get(stack.pop()!)?.dependsOn ?? []) {
+        if (byId.has(dep) && !selected.has(dep)) {
+          selected.add(dep);
+          stack.push(dep);
+        }
+      }
+    }
+    const jobIds = [...selected];
+
+    const count = await this.storage.requeueFailedJobs(this.meta.id, jobIds);
+    if (count > 0 && (this.meta.status === 'completed' || this.meta.status === 'failed')) {
+      // There is pending work again, so the task can be started
+      this.meta.status = 'paused';
+      await this.storage.updateTask(this.meta.id, { status: 'paused' });
+    }
+    await this.refreshCounts();
+    await this.refreshResultRoot();
+    return count;
+  }
+
+  /**
+   * Permanently delete matching failed jobs
+   * Returns the number of jobs discarded
+   */
+  async discardFailedJobs(filter: FailedJobFilter = {}): Promise<number> {
+    const jobIds = (await this.getFailedJobs(filter)).map(job => job.id);
+    if (jobIds.length === 0) return 0;
+
+    const count = await this.storage.discardFailedJobs(this.meta.id, jobIds);
+    await this.refreshCounts();
+    await this.refreshResultRoot();
+    return count;
+  }
+
+  // =========================================================================
+  // Appending Input
+  // =========================================================================
+
+  /**
+   * Add inputs to a dynamic task, skipping any whose job ID already exists
+   * A running task picks them up as it goes; a completed or failed task becomes
+   * paused, call start() to process them.
+   * Returns the number of jobs added
+   */
+  async append(inputs: Iterable<TInput> | AsyncIterable<TInput>): Promise<number> {
+    if (this.meta.type !== 'dynamic') {
+      throw new Error('Only dynamic tasks accept appended input');
+    }
+    if (!this.source) {
+      throw new Error('No source set. Call setSource() first.');
+    }
+
+    let added = 0;
+    let batch: TInput[] = [];
+    for await (const input of inputs) {
+      batch.push(input);
+      if (batch.length >= INGEST_BATCH_SIZE) {
+        added += await this.appendInputs(batch);
+        batch = [];
+      }
+    }
+    added += await this.appendInputs(batch);
+
+    if (added > 0 && (this.meta.status === 'completed' || this.meta.status === 'failed')) {
+      // There is pending work again, so the task can be started
+      this.meta.status = 'paused';
+      await this.storage.updateTask(this.meta.id, { status: 'paused' });
+    }
+    return added;
+  }
+
   // =========================================================================
   // Internal
   // =========================================================================
 
+  /**
+   * Run a fresh dispatcher until the task drains (used by start and crash-recovery resume)
+   */
+  private async run(): Promise<void> {
+    // Reset stopped flag for new run
+    this.stopped = false;
+
+    // Reset any active jobs from previous crash
+    await this.storage.resetActiveJobs(this.meta.id);
+
+    // Update status
+    this.meta.status = 'running';
+    await this.storage.updateTask(this.meta.id, { status: 'running' });
+
+    // Block until upstream tasks complete (stop() can still interrupt)
+    if (!(await this.waitForUpstreamTasks())) {
+      return;
+    }
+
+    this.startTime = Date.now();
+    this.startIngestion();
+    this.dispatcher = this.createDispatcher();
+
+    // Start progress reporting
+    this.startProgressReporting();
+
+    // Start processing
+    await this.dispatcher.start();
+
+    // Input appended just as the dispatcher drained: keep going
+    while (!this.stopped && (await this.hasLateInput())) {
+      await this.dispatcher.start();
+    }
+
+    // Processing complete - but check if we were stopped during processing
+    this.stopProgressReporting();
+
+    // If stopped externally, don't update final status (stop() handles it)
+    if (this.stopped) {
+      return;
+    }
+
+    // Update final status
+    try {
+      const counts = await this.storage.getJobCounts(this.meta.id);
+      this.meta.completedJobs = counts.completed;
+      this.meta.failedJobs = counts.failed;
+
+      if (counts.pending === 0 && counts.active === 0) {
+        this.meta.status = counts.failed > 0 && counts.completed === 0 ? 'failed' : 'completed';
+      } else if (counts.pending > 0) {
+        // Appended after the last check: leave it startable
+        this.meta.status = 'paused';
+      }
+
+      await this.storage.updateTask(this.meta.id, {
+        status: this.meta.status,
+        completedJobs: this.meta.completedJobs,
+        failedJobs: this.meta.failedJobs,
+      });
+      await this.refreshResultRoot();
+
+      this.emit('completed');
+    } catch (error) {
+      // Storage closed during shutdown, state will be recovered on restart
+      if (error instanceof Error && error.message.includes('closed')) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private createDispatcher(): Dispatcher {
+    const dispatcher = new Dispatcher({
+      taskId: this.meta.id,
+      source: this.source as TaskSource,
+      storage: this.storage,
+      aimd: {
+        initialConcurrency: this.config.concurrency.initial ?? this.config.concurrency.min,
+        minConcurrency: this.config.concurrency.min,
+        maxConcurrency: this.config.concurrency.max,
+        additiveIncrease: 1,
+        multiplicativeDecrease: 0.5,
+        successThreshold: 10,
+      },
+      retry: this.config.retry,
+      timeout: this.config.timeout,
+      scheduler: this.scheduler ?? undefined,
+      weight: this.config.weight,
+      lease: this.lease ?? undefined,
+      rateLimit: this.config.rateLimit,
+      inputOpen: () => this.ingestion !== null,
+      name: this.config.name,
+      metricsLabel: this.config.metricsLabel,
+      metrics: this.metrics ?? undefined,
+    });
+
+    // Wire up events
+    dispatcher.on('job:start', (job) => {
+      this.emit('job:start', job as Job<TInput, TOutput>);
+    });
+
+    dispatcher.on('job:complete', (job) => {
+      this.meta.completedJobs++;
+      // Fire and forget - don't await to avoid blocking the dispatcher
+      this.updateJobCounts().catch(() => {});
+      this.emit('job:complete', job as Job<TInput, TOutput>);
+    });
+
+    dispatcher.on('job:failed', ({ job, error }) => {
+      this.meta.failedJobs++;
+      // Fire and forget - don't await to avoid blocking the dispatcher
+      this.updateJobCounts().catch(() => {});
+      this.emit('job:failed', job as Job<TInput, TOutput>, error);
+    });
+
+    dispatcher.on('job:retry', ({ job, attempt }) => {
+      this.emit('job:retry', job as Job<TInput, TOutput>, attempt);
+    });
+
+    dispatcher.on('job:lease-lost', (job) => {
+      this.emit('job:lease-lost', job as Job<TInput, TOutput>);
+    });
+
+    dispatcher.on('rate-limited', (concurrency) => {
+      this.emit('rate-limited', concurrency);
+    });
+
+    dispatcher.on('quota-exhausted', (resetsAt) => {
+      this.emit('quota-exhausted', resetsAt);
+    });
+
+    return dispatcher;
+  }
+
+  /**
+   * Wait for every task in meta.dependsOn to complete
+   * Returns false if the run should not proceed (stopped, or an upstream task failed)
+   */
+  private async waitForUpstreamTasks(): Promise<boolean> {
+    let waiting = this.meta.dependsOn ?? [];
+
+    while (waiting.length > 0) {
+      if (this.stopped) return false;
+
+      const stillWaiting: string[] = [];
+      for (const upstreamId of waiting) {
+        const upstream = await this.storage.getTask(upstreamId);
+        if (!upstream) {
+          return this.failFromUpstream(new Error(`Upstream task not found: ${upstreamId}`));
+        }
+        if (upstream.status === 'failed') {
+          return this.failFromUpstream(new Error(`Upstream task failed: ${upstreamId}`));
+        }
+        if (upstream.status !== 'completed') {
+          stillWaiting.push(upstreamId);
+        }
+      }
+
+      waiting = stillWaiting;
+      if (waiting.length > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    return !this.stopped;
+  }
+
+  /**
+   * Mark this task failed because an upstream task failed
+   * Jobs stay pending so the task can be started again once upstream is fixed
+   */
+  private async failFromUpstream(error: Error): Promise<false> {
+    this.meta.status = 'failed';
+    await this.storage.updateTask(this.meta.id, { status: 'failed' });
+    this.emit('error', error);
+    return false;
+  }
+
   private startProgressReporting(): void {
     if (this.progressInterval) return;
 
@@ -576,4 +899,278 @@ export class Task<TInput = unknown, TOutput = unknown> extends EventEmitter<Task
   setSourceForResume(source: TaskSource<TInput, TOutput>): void {
     this.source = source;
   }
+
+  /**
+   * Write inputs as pending jobs, one batch at a time (streaming ingestion and append() share it)
+   */
+  private appendInputs(inputs: TInput[]): Promise<number> {
+    const written = this.inputLock.then(() => this.writeInputs(inputs));
+    this.inputLock = written.catch(() => {});
+    return written;
+  }
+
+  /**
+   * Dedupe inputs against the batch and storage, then create their jobs
+   * Dependencies must be stored already or come earlier in the batch.
+   */
+  private async writeInputs(inputs: TInput[]): Promise<number> {
+    if (inputs.length === 0) return 0;
+
+    const now = Date.now();
+    const inputHashes: string[] = [];
+    for (const input of inputs) {
+      inputHashes.push(this.source?.getJobId?.(input) ?? await generateJobId(input));
+    }
+
+    const stored = new Set(await this.storage.existingJobIds(inputHashes.map(id => this.toStorageJobId(id))));
+    const seen = new Set<string>();
+    const jobs: Job<TInput, TOutput>[] = [];
+
+    for (let i = 0; i < inputs.length; i++) {
+      const jobId = this.toStorageJobId(inputHashes[i]);
+      if (stored.has(jobId) || seen.has(inputHashes[i])) continue;
+
+      let dependsOn: string[] | undefined;
+      if (this.source?.getDependencies) {
+        const deps = await this.source.getDependencies(inputs[i]);
+        const missing = deps.filter(dep => !seen.has(dep) && !stored.has(this.toStorageJobId(dep)));
+        if (missing.length > 0) {
+          // Not in this batch: it may have been written by an earlier one
+          const found = new Set(await this.storage.existingJobIds(missing.map(dep => this.toStorageJobId(dep))));
+          const unknown = missing.find(dep => !found.has(this.toStorageJobId(dep)));
+          if (unknown !== undefined) {
+            throw new Error(`Job ${inputHashes[i]} depends on ${unknown}, which was not added before it`);
+          }
+        }
+        dependsOn = deps.length > 0 ? deps.map(dep => this.toStorageJobId(dep)) : undefined;
+      }
+
+      seen.add(inputHashes[i]);
+      jobs.push({
+        id: jobId,
+        taskId: this.meta.id,
+        input: inputs[i],
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        dependsOn,
+        priority: this.source?.getPriority?.(inputs[i]),
+      });
+    }
+
+    if (jobs.length === 0) return 0;
+
+    await this.storage.createJobs(jobs as Job[]);
+    this.meta.totalJobs += jobs.length;
+    await this.storage.updateTask(this.meta.id, { totalJobs: this.meta.totalJobs });
+    return jobs.length;
+  }
+
+  private startIngestion(): void {
+    if (!this.input || this.ingestion) return;
+    this.ingestion = this.ingestStream(this.input).finally(() => {
+      this.ingestion = null;
+    });
+  }
+
+  /**
+   * Feed a streaming source into storage while the dispatcher works
+   * A partial batch is flushed once the source goes quiet, and ingestion waits
+   * while highWaterMark jobs are pending (backpressure on the producer).
+   */
+  private async ingestStream(iterator: AsyncIterator<TInput>): Promise<void> {
+    const batchSize = Math.min(INGEST_BATCH_SIZE, this.config.highWaterMark);
+    let batch: TInput[] = [];
+
+    const flush = async () => {
+      await this.waitForCapacity(iterator);
+      if (this.input === iterator) {
+        await this.appendInputs(batch);
+      }
+      batch = [];
+    };
+
+    try {
+      let next = iterator.next();
+      while (this.input === iterator) {
+        let result: IteratorResult<TInput> | null;
+        if (batch.length > 0) {
+          let quietTimer: ReturnType<typeof setTimeout> | undefined;
+          try {
+            result = await Promise.race([
+              next,
+              new Promise<null>(resolve => {
+                quietTimer = setTimeout(() => resolve(null), STREAM_FLUSH_INTERVAL);
+              }),
+            ]);
+          } finally {
+            clearTimeout(quietTimer);
+          }
+        } else {
+          result = await next;
+        }
+
+        if (!result) {
+          // Source is quiet: let the dispatcher see what we have
+          await flush();
+          continue;
+        }
+        if (result.done) break;
+
+        batch.push(result.value);
+        next = iterator.next();
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      }
+
+      if (batch.length > 0) {
+        await flush();
+      }
+    } catch (error) {
+      // Storage closed during shutdown, the rest of the source is not ingested
+      if (error instanceof Error && error.message.includes('closed')) {
+        return;
+      }
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      if (this.input === iterator) {
+        this.input = null;
+      }
+    }
+  }
+
+  private async waitForCapacity(iterator: AsyncIterator<TInput>): Promise<void> {
+    while (this.input === iterator) {
+      const counts = await this.storage.getJobCounts(this.meta.id);
+      if (counts.pending < this.config.highWaterMark) return;
+      await new Promise(resolve => setTimeout(resolve, STREAM_FLUSH_INTERVAL));
+    }
+  }
+
+  /**
+   * Whether a dynamic task got new pending jobs after its dispatcher finished
+   */
+  private async hasLateInput(): Promise<boolean> {
+    if (this.meta.type !== 'dynamic') return false;
+    try {
+      return (await this.storage.getJobCounts(this.meta.id)).pending > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async loadFailedJobs(): Promise<Job<TInput, TOutput>[]> {
+    const jobs: Job<TInput, TOutput>[] = [];
+    const pageSize = 1000;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.storage.getJobsByTask(this.meta.id, 'failed', pageSize, offset);
+      jobs.push(...(page as Job<TInput, TOutput>[]));
+      if (page.length < pageSize) break;
+    }
+
+    return jobs;
+  }
+
+  private matchesFailedJobFilter(job: Job, filter: FailedJobFilter): boolean {
+    if (filter.jobIds && !filter.jobIds.includes(job.id)) {
+      return false;
+    }
+
+    if (filter.errorPattern !== undefined) {
+      const error = job.error ?? '';
+      const matched = typeof filter.errorPattern === 'string'
+        ? error.includes(filter.errorPattern)
+        : new RegExp(filter.errorPattern.source, filter.errorPattern.flags.replace('g', '')).test(error);
+      if (!matched) return false;
+    }
+
+    if (filter.classification && job.history?.at(-1)?.classification !== filter.classification) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Input and result leaves of every job, in input order
+   */
+  private async collectLeaves(): Promise<{ jobIds: string[]; resultIds: string[]; storageIds: string[] }> {
+    const jobIds: string[] = [];
+    const resultIds: string[] = [];
+    const storageIds: string[] = [];
+    const prefix = this.meta.id.length + 1;
+
+    for await (const job of this.streamResults()) {
+      // Storage IDs are `${taskId}:${inputHash}` (see toStorageJobId)
+      const jobId = job.id.slice(prefix);
+      jobIds.push(jobId);
+      resultIds.push(await generateResultId(jobId, job.status === 'completed' ? job.output : null));
+      storageIds.push(job.id);
+    }
+
+    return { jobIds, resultIds, storageIds };
+  }
+
+  /**
+   * Job IDs of inputs, in order (the merkleRoot leaves)
+   */
+  private async inputJobIds(data: TInput[]): Promise<string[]> {
+    const jobIds: string[] = [];
+    for (const input of data) {
+      jobIds.push(this.source?.getJobId?.(input) ?? await generateJobId(input));
+    }
+    return jobIds;
+  }
+
+  /**
+   * The merkleRoot leaves: the stored jobs until one is discarded, cleaned up or collapsed
+   * with a duplicate input, after that only the source can rebuild them
+   */
+  private async inputLeaves(storedIds: string[]): Promise<string[]> {
+    if (await computeMerkleRoot(storedIds) === this.meta.merkleRoot) {
+      return storedIds;
+    }
+
+    const data = this.source?.getData();
+    if (Array.isArray(data)) {
+      const jobIds = await this.inputJobIds(data);
+      if (await computeMerkleRoot(jobIds) === this.meta.merkleRoot) {
+        return jobIds;
+      }
+    }
+    throw new Error(
+      'Stored jobs no longer match merkleRoot (jobs were discarded, cleaned up or deduplicated): set the original source to prove inputs'
+    );
+  }
+
+  /**
+   * Recompute resultRoot for a completed deterministic task, or clear it when results can still change
+   */
+  private async refreshResultRoot(): Promise<void> {
+    let resultRoot: string | null = null;
+    if (this.meta.type === 'deterministic' && this.meta.status === 'completed') {
+      resultRoot = await computeMerkleRoot((await this.collectLeaves()).resultIds);
+    }
+
+    if (resultRoot === (this.meta.resultRoot ?? null)) return;
+    this.meta.resultRoot = resultRoot;
+    await this.storage.updateTask(this.meta.id, { resultRoot });
+  }
+
+  private async refreshCounts(): Promise<void> {
+    const meta = await this.storage.getTask(this.meta.id);
+    if (meta) {
+      this.meta.totalJobs = meta.totalJobs;
+    }
+
+    const counts = await this.storage.getJobCounts(this.meta.id);
+    this.meta.completedJobs = counts.completed;
+    this.meta.failedJobs = counts.failed;
+    await this.storage.updateTask(this.meta.id, {
+      completedJobs: this.meta.completedJobs,
+      failedJobs: this.meta.failedJobs,
+    });
+  }
 }
@@ -11,7 +11,11 @@ import { Hub } from './Hub.js';
  */
 export async function createTaskHub(config: HubConfig = { storage: 'auto' }): Promise<Hub> {
   const storage = await createStorageAdapter(config);
-  const hub = new Hub(storage);
+  const hub = new Hub(storage, {
+    maxConcurrency: config.maxConcurrency,
+    lease: config.lease,
+    metrics: config.metrics,
+  });
   await hub.initialize();
   return hub;
 }
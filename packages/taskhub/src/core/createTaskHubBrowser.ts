@@ -22,7 +22,11 @@ export async function createTaskHub(config: HubConfig = { storage: 'auto' }): Pr
   }
 
   const storage = await createStorageAdapter(config);
-  const hub = new Hub(storage);
+  const hub = new Hub(storage, {
+    maxConcurrency: config.maxConcurrency,
+    lease: config.lease,
+    metrics: config.metrics,
+  });
   await hub.initialize();
   return hub;
 }
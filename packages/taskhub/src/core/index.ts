@@ -4,9 +4,28 @@
 
 export { Hub } from './Hub.js';
 export { createTaskHub } from './createTaskHub.js';
-export type { CreateTaskOptions } from './Hub.js';
+export type { CreateTaskOptions, HubEvents } from './Hub.js';
 export { Task } from './Task.js';
 export { Dispatcher } from './Dispatcher.js';
+export { Scheduler } from './Scheduler.js';
+export { ScheduleRunner } from './ScheduleRunner.js';
+export type { ScheduleOptions, ScheduleSourceFactory, ScheduledRun } from './ScheduleRunner.js';
+export { parseCron, nextCronTime } from './Cron.js';
+export { formatResults, toResultRow } from './ResultExport.js';
+export type { ExportFormat, ExportOptions, ResultRow } from './ResultExport.js';
+export type { CronExpression } from './Cron.js';
+export { RateLimiter, getRetryAfterMs } from './RateLimiter.js';
+export { MetricsCollector, DEFAULT_LATENCY_BUCKETS } from './Metrics.js';
+export type { MetricsCollectorOptions } from './Metrics.js';
 export type { DispatcherEvents, DispatcherConfig } from './Dispatcher.js';
 export { EventEmitter } from './EventEmitter.js';
-export { computeMerkleRoot, generateJobId, generateTaskId } from './MerkleTree.js';
+export {
+  computeMerkleRoot,
+  computeMerkleProof,
+  verifyMerkleProof,
+  verifyResults,
+  generateJobId,
+  generateResultId,
+  generateTaskId,
+} from './MerkleTree.js';
+export type { MerkleProof, JobProof, VerifyResultsOptions, ResultVerification } from './MerkleTree.js';
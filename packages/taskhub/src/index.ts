@@ -21,13 +21,32 @@
 
 // Core
 export { Hub } from './core/Hub.js';
-export type { CreateTaskOptions } from './core/Hub.js';
+export type { CreateTaskOptions, HubEvents } from './core/Hub.js';
 export { createTaskHub } from './core/createTaskHub.js';
 export { Task } from './core/Task.js';
 export { Dispatcher } from './core/Dispatcher.js';
+export { Scheduler } from './core/Scheduler.js';
+export { ScheduleRunner } from './core/ScheduleRunner.js';
+export type { ScheduleOptions, ScheduleSourceFactory, ScheduledRun } from './core/ScheduleRunner.js';
+export { parseCron, nextCronTime } from './core/Cron.js';
+export { formatResults, toResultRow } from './core/ResultExport.js';
+export type { ExportFormat, ExportOptions, ResultRow } from './core/ResultExport.js';
+export type { CronExpression } from './core/Cron.js';
+export { RateLimiter, getRetryAfterMs } from './core/RateLimiter.js';
+export { MetricsCollector, DEFAULT_LATENCY_BUCKETS } from './core/Metrics.js';
+export type { MetricsCollectorOptions } from './core/Metrics.js';
 export type { DispatcherEvents, DispatcherConfig } from './core/Dispatcher.js';
 export { EventEmitter } from './core/EventEmitter.js';
-export { computeMerkleRoot, generateJobId, generateTaskId } from './core/MerkleTree.js';
+export {
+  computeMerkleRoot,
+  computeMerkleProof,
+  verifyMerkleProof,
+  verifyResults,
+  generateJobId,
+  generateResultId,
+  generateTaskId,
+} from './core/MerkleTree.js';
+export type { MerkleProof, JobProof, VerifyResultsOptions, ResultVerification } from './core/MerkleTree.js';
 
 // Storage
 export { BunSQLiteAdapter } from './storage/BunSQLiteAdapter.js';
@@ -39,6 +58,9 @@ export {
   type Job,
   type JobStatus,
   type JobContext,
+  type JobAttempt,
+  type FailureClassification,
+  type FailedJobFilter,
   type TaskMeta,
   type TaskStatus,
   type TaskType,
@@ -46,6 +68,20 @@ export {
   type TaskProgress,
   type TaskEvents,
   type HubConfig,
+  type LeaseConfig,
+  type JobLease,
+  LeaseLostError,
+  type RateLimitConfig,
+  type QuotaConfig,
+  type QuotaWindow,
+  type Metrics,
+  type MetricsTask,
+  type JobSpan,
+  type AttemptOutcome,
+  type RateLimitReason,
+  type ScheduleMeta,
+  type ScheduleStatus,
+  type MissedRunPolicy,
   type StorageAdapter,
   type ConcurrencyConfig,
   type RetryConfig,
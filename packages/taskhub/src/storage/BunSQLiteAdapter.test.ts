@@ -4,7 +4,8 @@
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { BunSQLiteAdapter } from './BunSQLiteAdapter.js';
-import type { Job, TaskMeta } from '../types.js';
+import type { Job, JobAttempt, TaskMeta, ScheduleMeta } from '../types.js';
+import { LeaseLostError } from '../types.js';
 import { unlink } from 'fs/promises';
 
 const TEST_DB = 'test-taskhub.db';
@@ -286,6 +287,16 @@ describe('BunSQLiteAdapter', () => {
       });
     });
 
+    describe('existingJobIds', () => {
+      test('returns only stored IDs', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2')]);
+
+        const existing = await adapter.existingJobIds(['job-2', 'job-3', 'job-1']);
+        expect(existing.sort()).toEqual(['job-1', 'job-2']);
+        expect(await adapter.existingJobIds([])).toEqual([]);
+      });
+    });
+
     describe('getJobsByTask', () => {
       beforeEach(async () => {
         const jobs = [
@@ -465,6 +476,125 @@ describe('BunSQLiteAdapter', () => {
       });
     });
 
+    describe('dead letters', () => {
+      const attempt = (n: number): JobAttempt => ({
+        attempt: n,
+        error: `boom ${n}`,
+        classification: 'retryable',
+        startedAt: 100 * n,
+        failedAt: 100 * n + 5,
+        durationMs: 5,
+      });
+
+      test('failJob appends attempts to history', async () => {
+        await adapter.createJobs([createJob('job-1')]);
+        await adapter.failJob('job-1', 'boom 1', true, undefined, attempt(1));
+        await adapter.failJob('job-1', 'boom 2', false, undefined, attempt(2));
+
+        const job = await adapter.getJob('job-1');
+        expect(job?.history).toEqual([attempt(1), attempt(2)]);
+      });
+
+      test('requeues only the given failed jobs and keeps history', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2'), createJob('job-3')]);
+        await adapter.failJob('job-1', 'boom', false, undefined, attempt(1));
+        await adapter.failJob('job-2', 'boom', false);
+
+        // job-3 is pending, so it is not affected
+        expect(await adapter.requeueFailedJobs(taskId, ['job-1', 'job-3'])).toBe(1);
+
+        const job = await adapter.getJob('job-1');
+        expect(job?.status).toBe('pending');
+        expect(job?.attempts).toBe(0);
+        expect(job?.error).toBeUndefined();
+        expect(job?.history).toEqual([attempt(1)]);
+        expect((await adapter.getJob('job-2'))?.status).toBe('failed');
+      });
+
+      test('discards failed jobs permanently', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2')]);
+        await adapter.failJob('job-1', 'boom', false);
+
+        expect(await adapter.discardFailedJobs(taskId, ['job-1', 'job-2'])).toBe(1);
+        expect(await adapter.getJob('job-1')).toBeNull();
+        expect(await adapter.getJob('job-2')).toBeTruthy();
+      });
+    });
+
+    describe('leases', () => {
+      const lease = (owner: string, durationMs = 60_000) => ({ owner, durationMs });
+
+      test('claims jobs with a lease owner and expiry', async () => {
+        await adapter.createJobs([createJob('job-1')]);
+        const [job] = await adapter.claimJobs(taskId, 1, lease('worker-a'));
+
+        expect(job.leaseOwner).toBe('worker-a');
+        expect(job.leaseExpiresAt).toBeGreaterThan(Date.now());
+        expect((await adapter.getJob('job-1'))?.leaseOwner).toBe('worker-a');
+      });
+
+      test('rejects completion and failure from a stale owner', async () => {
+        await adapter.createJobs([createJob('job-1')]);
+        await adapter.claimJobs(taskId, 1, lease('worker-a'));
+
+        await expect(adapter.completeJob('job-1', 1, 'worker-b')).rejects.toBeInstanceOf(LeaseLostError);
+        await expect(adapter.failJob('job-1', 'boom', false, undefined, undefined, 'worker-b')).rejects.toBeInstanceOf(LeaseLostError);
+
+        await adapter.completeJob('job-1', 1, 'worker-a');
+        const job = await adapter.getJob('job-1');
+        expect(job?.status).toBe('completed');
+        expect(job?.leaseOwner).toBeUndefined();
+      });
+
+      test('reclaims expired leases on claim', async () => {
+        await adapter.createJobs([createJob('job-1')]);
+        await adapter.claimJobs(taskId, 1, lease('worker-a', 1));
+        await new Promise(r => setTimeout(r, 5));
+
+        const [job] = await adapter.claimJobs(taskId, 1, lease('worker-b'));
+        expect(job.id).toBe('job-1');
+        expect(job.leaseOwner).toBe('worker-b');
+        expect(job.attempts).toBe(2);
+
+        await expect(adapter.completeJob('job-1', 1, 'worker-a')).rejects.toBeInstanceOf(LeaseLostError);
+      });
+
+      test('renews only leases the owner still holds', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2')]);
+        await adapter.claimJobs(taskId, 1, lease('worker-a'));
+        await adapter.claimJobs(taskId, 1, lease('worker-b'));
+
+        const renewed = await adapter.renewLeases('worker-a', ['job-1', 'job-2'], 120_000);
+        expect(renewed).toEqual(['job-1']);
+        expect((await adapter.getJob('job-1'))?.leaseExpiresAt).toBeGreaterThan(Date.now() + 60_000);
+      });
+
+      test('unclaims jobs without using an attempt', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2')]);
+        await adapter.claimJobs(taskId, 2, lease('worker-a'));
+
+        await adapter.unclaimJobs(['job-1', 'job-2'], 'worker-b');
+        expect((await adapter.getJob('job-1'))?.status).toBe('active');
+
+        await adapter.unclaimJobs(['job-1'], 'worker-a');
+        const job = await adapter.getJob('job-1');
+        expect(job?.status).toBe('pending');
+        expect(job?.attempts).toBe(0);
+        expect(job?.leaseOwner).toBeUndefined();
+        expect((await adapter.getJob('job-2'))?.status).toBe('active');
+      });
+
+      test('resetActiveJobs leaves live leases alone', async () => {
+        await adapter.createJobs([createJob('job-1'), createJob('job-2')]);
+        await adapter.claimJobs(taskId, 1, lease('worker-a'));
+        await adapter.claimJobs(taskId, 1);
+
+        expect(await adapter.resetActiveJobs(taskId)).toBe(1);
+        expect((await adapter.getJob('job-1'))?.status).toBe('active');
+        expect((await adapter.getJob('job-2'))?.status).toBe('pending');
+      });
+    });
+
     describe('resetActiveJobs', () => {
       test('resets active jobs to pending', async () => {
         await adapter.createJobs([
@@ -502,6 +632,71 @@ describe('BunSQLiteAdapter', () => {
       });
     });
 
+    describe('dependencies', () => {
+      test('only claims jobs whose dependencies completed', async () => {
+        await adapter.createJobs([
+          createJob('job-1'),
+          { ...createJob('job-2'), dependsOn: ['job-1'] },
+        ]);
+
+        const first = await adapter.claimJobs(taskId, 10);
+        expect(first.map(j => j.id)).toEqual(['job-1']);
+
+        await adapter.completeJob('job-1', 'done');
+
+        const second = await adapter.claimJobs(taskId, 10);
+        expect(second.map(j => j.id)).toEqual(['job-2']);
+        expect(second[0].dependsOn).toEqual(['job-1']);
+      });
+
+      test('claims higher priority jobs first', async () => {
+        await adapter.createJobs([
+          createJob('job-1'),
+          { ...createJob('job-2'), priority: 5 },
+          { ...createJob('job-3'), priority: -1 },
+          { ...createJob('job-4'), priority: 5 },
+        ]);
+
+        const claimed = await adapter.claimJobs(taskId, 3);
+        expect(claimed.map(j => j.id)).toEqual(['job-2', 'job-4', 'job-1']);
+        expect(claimed[0].priority).toBe(5);
+      });
+
+      test('failDependents cascades transitively to pending jobs', async () => {
+        await adapter.createJobs([
+          createJob('job-1'),
+          { ...createJob('job-2'), dependsOn: ['job-1'] },
+          { ...createJob('job-3'), dependsOn: ['job-2'] },
+          createJob('job-4'),
+        ]);
+        await adapter.failJob('job-1', 'boom', false);
+
+        const cascaded = await adapter.failDependents(taskId, 'job-1', 'Dependency failed: job-1');
+
+        expect(cascaded.map(j => j.id).sort()).toEqual(['job-2', 'job-3']);
+        const counts = await adapter.getJobCounts(taskId);
+        expect(counts.failed).toBe(3);
+        expect(counts.pending).toBe(1);
+        expect((await adapter.getJob('job-3'))?.error).toBe('Dependency failed: job-1');
+      });
+
+      test('adds missing columns to an existing database', async () => {
+        await adapter.close();
+        try { await unlink(TEST_DB); } catch {}
+
+        const { Database } = await import('bun:sqlite');
+        const legacy = new Database(TEST_DB);
+        legacy.exec(`CREATE TABLE jobs (id TEXT PRIMARY KEY, task_id TEXT NOT NULL, input TEXT NOT NULL,
+          output TEXT, error TEXT, status TEXT NOT NULL DEFAULT 'pending', attempts INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL, started_at INTEGER, completed_at INTEGER, scheduled_at INTEGER)`);
+        legacy.close();
+
+        await adapter.initialize();
+        await adapter.createJobs([{ ...createJob('job-1'), dependsOn: ['job-0'] }]);
+        expect((await adapter.getJob('job-1'))?.dependsOn).toEqual(['job-0']);
+      });
+    });
+
     describe('deleteJobsByTask', () => {
       test('deletes all jobs for task', async () => {
         await adapter.createJobs([
@@ -544,6 +739,75 @@ describe('BunSQLiteAdapter', () => {
     });
   });
 
+  describe('Schedule operations', () => {
+    const createSchedule = (id: string): ScheduleMeta => ({
+      id,
+      cron: '*/5 * * * *',
+      intervalMs: null,
+      missedRunPolicy: 'skip',
+      status: 'active',
+      nextRunAt: 1_000,
+      lastRunAt: null,
+      lastTaskId: null,
+      createdAt: 1,
+      updatedAt: 1,
+    });
+
+    test('creates and gets a schedule', async () => {
+      await adapter.createSchedule(createSchedule('nightly'));
+      expect(await adapter.getSchedule('nightly')).toEqual(createSchedule('nightly'));
+      expect(await adapter.getSchedule('missing')).toBeNull();
+    });
+
+    test('updates a schedule', async () => {
+      await adapter.createSchedule(createSchedule('nightly'));
+      await adapter.updateSchedule('nightly', { status: 'paused', nextRunAt: 2_000, lastTaskId: 'task-1' });
+
+      const schedule = await adapter.getSchedule('nightly');
+      expect(schedule?.status).toBe('paused');
+      expect(schedule?.nextRunAt).toBe(2_000);
+      expect(schedule?.lastTaskId).toBe('task-1');
+      expect(schedule?.updatedAt).toBeGreaterThan(1);
+    });
+
+    test('lists and deletes schedules', async () => {
+      await adapter.createSchedule(createSchedule('a'));
+      await adapter.createSchedule(createSchedule('b'));
+      expect((await adapter.listSchedules()).map(s => s.id).sort()).toEqual(['a', 'b']);
+
+      await adapter.deleteSchedule('a');
+      expect((await adapter.listSchedules()).map(s => s.id)).toEqual(['b']);
+    });
+  });
+
+  describe('Quota operations', () => {
+    const day = (windowStart: number, limit = 5) => ({ key: 'api:86400000', windowStart, limit });
+    const minute = (windowStart: number, limit = 3) => ({ key: 'api:60000', windowStart, limit });
+
+    test('grants up to the tightest window', async () => {
+      expect(await adapter.consumeQuota([day(0), minute(0)], 2)).toBe(2);
+      expect(await adapter.consumeQuota([day(0), minute(0)], 2)).toBe(1);
+      expect(await adapter.consumeQuota([day(0), minute(0)], 1)).toBe(0);
+
+      // A new minute window resets only that window
+      expect(await adapter.consumeQuota([day(0), minute(60_000)], 5)).toBe(2);
+    });
+
+    test('ignores stale windows', async () => {
+      await adapter.consumeQuota([minute(60_000)], 3);
+      expect(await adapter.consumeQuota([minute(0)], 1)).toBe(0);
+    });
+
+    test('persists usage across reopen', async () => {
+      await adapter.consumeQuota([day(0)], 4);
+      await adapter.close();
+
+      adapter = new BunSQLiteAdapter(TEST_DB);
+      await adapter.initialize();
+      expect(await adapter.consumeQuota([day(0)], 4)).toBe(1);
+    });
+  });
+
   describe('close', () => {
     test('closes database connection', async () => {
       await adapter.close();
@@ -4,8 +4,27 @@
  */
 
 import { Database } from 'bun:sqlite';
-import type { StorageAdapter, Job, JobStatus, TaskMeta, JobRecord, TaskRecord } from '../types.js';
-import { CREATE_TASKS_TABLE, CREATE_JOBS_TABLE, CREATE_INDEXES, PRAGMA_SETTINGS } from './sql-schemas.js';
+import type { StorageAdapter, Job, JobAttempt, JobLease, JobStatus, TaskMeta, JobRecord, TaskRecord, ScheduleMeta, ScheduleRecord, QuotaWindow } from '../types.js';
+import { LeaseLostError } from '../types.js';
+import {
+  CREATE_TASKS_TABLE,
+  CREATE_JOBS_TABLE,
+  CREATE_SCHEDULES_TABLE,
+  CREATE_QUOTAS_TABLE,
+  CREATE_INDEXES,
+  PRAGMA_SETTINGS,
+  COLUMN_MIGRATIONS,
+  DEPENDENCIES_SATISFIED,
+  SELECT_PENDING_DEPENDENTS,
+  APPEND_HISTORY,
+  RELEASE_LEASE,
+  OWNED_BY,
+  RECLAIM_EXPIRED_LEASES,
+  RENEW_LEASES,
+  UNCLAIM_JOBS,
+  ROLL_QUOTA_WINDOW,
+  ADD_QUOTA_USAGE,
+} from './sql-schemas.js';
 
 export class BunSQLiteAdapter implements StorageAdapter {
   private db: Database | null = null;
@@ -36,6 +55,9 @@ export class BunSQLiteAdapter implements StorageAdapter {
     // Create tables
     this.db.exec(CREATE_TASKS_TABLE);
     this.db.exec(CREATE_JOBS_TABLE);
+    this.db.exec(CREATE_SCHEDULES_TABLE);
+    this.db.exec(CREATE_QUOTAS_TABLE);
+    this.migrateColumns();
     this.db.exec(CREATE_INDEXES);
 
     this.initialized = true;
@@ -61,6 +83,19 @@ export class BunSQLiteAdapter implements StorageAdapter {
     return this.db;
   }
 
+  /**
+   * Add columns introduced after a database file was first created
+   */
+  private migrateColumns(): void {
+    const db = this.getDb();
+    for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+      const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(c => c.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
   // =========================================================================
   // Task Operations
   // =========================================================================
@@ -68,8 +103,8 @@ export class BunSQLiteAdapter implements StorageAdapter {
   async createTask(meta: TaskMeta): Promise<void> {
     const db = this.getDb();
     const stmt = db.prepare(`
-      INSERT INTO tasks (id, name, type, merkle_root, status, total_jobs, completed_jobs, failed_jobs, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tasks (id, name, type, merkle_root, status, total_jobs, completed_jobs, failed_jobs, created_at, updated_at, depends_on)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       meta.id,
@@ -81,7 +116,8 @@ export class BunSQLiteAdapter implements StorageAdapter {
       meta.completedJobs,
       meta.failedJobs,
       meta.createdAt,
-      meta.updatedAt
+      meta.updatedAt,
+      meta.dependsOn?.length ? JSON.stringify(meta.dependsOn) : null
     );
   }
 
@@ -103,6 +139,7 @@ export class BunSQLiteAdapter implements StorageAdapter {
     if (updates.completedJobs !== undefined) { fields.push('completed_jobs = ?'); values.push(updates.completedJobs); }
     if (updates.failedJobs !== undefined) { fields.push('failed_jobs = ?'); values.push(updates.failedJobs); }
     if (updates.merkleRoot !== undefined) { fields.push('merkle_root = ?'); values.push(updates.merkleRoot); }
+    if (updates.resultRoot !== undefined) { fields.push('result_root = ?'); values.push(updates.resultRoot); }
 
     if (fields.length === 0) return;
 
@@ -134,8 +171,8 @@ export class BunSQLiteAdapter implements StorageAdapter {
 
     const db = this.getDb();
     const stmt = db.prepare(`
-      INSERT INTO jobs (id, task_id, input, output, error, status, attempts, created_at, started_at, completed_at, scheduled_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO jobs (id, task_id, input, output, error, status, attempts, created_at, started_at, completed_at, scheduled_at, depends_on, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const insertMany = db.transaction((jobs: Job[]) => {
@@ -151,7 +188,9 @@ export class BunSQLiteAdapter implements StorageAdapter {
           job.createdAt,
           job.startedAt ?? null,
           job.completedAt ?? null,
-          job.scheduledAt ?? null
+          job.scheduledAt ?? null,
+          job.dependsOn?.length ? JSON.stringify(job.dependsOn) : null,
+          job.priority ?? 0
         );
       }
     });
@@ -165,6 +204,13 @@ export class BunSQLiteAdapter implements StorageAdapter {
     return row ? this.rowToJob(row) : null;
   }
 
+  async existingJobIds(jobIds: string[]): Promise<string[]> {
+    if (jobIds.length === 0) return [];
+    const db = this.getDb();
+    const rows = db.prepare('SELECT id FROM jobs WHERE id IN (SELECT value FROM json_each(?))').all(JSON.stringify(jobIds)) as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
   async getJobsByTask(taskId: string, status?: JobStatus, limit = 100, offset = 0): Promise<Job[]> {
     const db = this.getDb();
     let sql = 'SELECT * FROM jobs WHERE task_id = ?';
@@ -175,7 +221,7 @@ export class BunSQLiteAdapter implements StorageAdapter {
       params.push(status);
     }
 
-    sql += ' ORDER BY created_at ASC LIMIT ? OFFSET ?';
+    sql += ' ORDER BY created_at ASC, rowid ASC LIMIT ? OFFSET ?';
     params.push(limit, offset);
 
     const rows = db.prepare(sql).all(...params) as JobRecord[];
@@ -195,17 +241,25 @@ export class BunSQLiteAdapter implements StorageAdapter {
     return counts;
   }
 
-  async claimJobs(taskId: string, limit: number): Promise<Job[]> {
+  async claimJobs(taskId: string, limit: number, lease?: JobLease): Promise<Job[]> {
     const db = this.getDb();
     const now = Date.now();
+    const leaseOwner = lease?.owner ?? null;
+    const leaseExpiresAt = lease ? now + lease.durationMs : null;
 
     // Atomic: select and update in transaction
     // Only claim jobs that are ready (scheduled_at is null or in the past)
+    // and whose dependencies have all completed, highest priority first
     const claimTransaction = db.transaction(() => {
+      // Jobs of workers that stopped heartbeating become claimable again
+      db.prepare(RECLAIM_EXPIRED_LEASES).run(taskId, now);
+
       const rows = db.prepare(`
-        SELECT * FROM jobs
+        SELECT * FROM jobs j
         WHERE task_id = ? AND status = 'pending'
           AND (scheduled_at IS NULL OR scheduled_at <= ?)
+          AND ${DEPENDENCIES_SATISFIED}
+        ORDER BY priority DESC, rowid ASC
         LIMIT ?
       `).all(taskId, now, limit) as JobRecord[];
 
@@ -215,9 +269,10 @@ export class BunSQLiteAdapter implements StorageAdapter {
       const placeholders = ids.map(() => '?').join(',');
 
       db.prepare(`
-        UPDATE jobs SET status = 'active', started_at = ?, attempts = attempts + 1, scheduled_at = NULL
+        UPDATE jobs SET status = 'active', started_at = ?, attempts = attempts + 1, scheduled_at = NULL,
+          lease_owner = ?, lease_expires_at = ?
         WHERE id IN (${placeholders})
-      `).run(now, ...ids);
+      `).run(now, leaseOwner, leaseExpiresAt, ...ids);
 
       return rows.map(row => ({
         ...this.rowToJob(row),
@@ -225,41 +280,110 @@ export class BunSQLiteAdapter implements StorageAdapter {
         startedAt: now,
         attempts: row.attempts + 1,
         scheduledAt: undefined,
+        leaseOwner: leaseOwner ?? undefined,
+        leaseExpiresAt: leaseExpiresAt ?? undefined,
       }));
     });
 
     return claimTransaction();
   }
 
-  async completeJob(jobId: string, output: unknown): Promise<void> {
+  async completeJob(jobId: string, output: unknown, owner?: string): Promise<void> {
     const db = this.getDb();
-    db.prepare(`
-      UPDATE jobs SET status = 'completed', output = ?, completed_at = ? WHERE id = ?
-    `).run(JSON.stringify(output), Date.now(), jobId);
+    const result = db.prepare(`
+      UPDATE jobs SET status = 'completed', output = ?, completed_at = ?, ${RELEASE_LEASE}
+      WHERE id = ?${owner ? OWNED_BY : ''}
+    `).run(JSON.stringify(output), Date.now(), jobId, ...(owner ? [owner] : []));
+
+    if (owner && result.changes === 0) {
+      throw new LeaseLostError(jobId, owner);
+    }
   }
 
-  async failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number): Promise<void> {
+  async failJob(
+    jobId: string,
+    error: string,
+    canRetry: boolean,
+    retryAfterMs?: number,
+    attempt?: JobAttempt,
+    owner?: string
+  ): Promise<void> {
     const db = this.getDb();
     const newStatus = canRetry ? 'pending' : 'failed';
+    const appendHistory = attempt ? `, ${APPEND_HISTORY}` : '';
+    const ownedBy = owner ? OWNED_BY : '';
+    const extraParams = [...(attempt ? [JSON.stringify(attempt)] : []), jobId, ...(owner ? [owner] : [])];
+    let result;
     if (canRetry) {
       // Don't set completed_at for retryable failures - job will be retried
       // Set scheduled_at for delayed retry (exponential backoff)
       const scheduledAt = retryAfterMs ? Date.now() + retryAfterMs : null;
-      db.prepare(`
-        UPDATE jobs SET status = ?, error = ?, started_at = NULL, scheduled_at = ? WHERE id = ?
-      `).run(newStatus, error, scheduledAt, jobId);
+      result = db.prepare(`
+        UPDATE jobs SET status = ?, error = ?, started_at = NULL, scheduled_at = ?, ${RELEASE_LEASE}${appendHistory}
+        WHERE id = ?${ownedBy}
+      `).run(newStatus, error, scheduledAt, ...extraParams);
     } else {
-      db.prepare(`
-        UPDATE jobs SET status = ?, error = ?, completed_at = ? WHERE id = ?
-      `).run(newStatus, error, Date.now(), jobId);
+      result = db.prepare(`
+        UPDATE jobs SET status = ?, error = ?, completed_at = ?, ${RELEASE_LEASE}${appendHistory}
+        WHERE id = ?${ownedBy}
+      `).run(newStatus, error, Date.now(), ...extraParams);
+    }
+
+    if (owner && result.changes === 0) {
+      throw new LeaseLostError(jobId, owner);
     }
   }
 
+  async renewLeases(owner: string, jobIds: string[], durationMs: number): Promise<string[]> {
+    const db = this.getDb();
+    const rows = db.prepare(RENEW_LEASES).all(Date.now() + durationMs, owner, JSON.stringify(jobIds)) as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  async unclaimJobs(jobIds: string[], owner?: string): Promise<void> {
+    if (jobIds.length === 0) return;
+    const db = this.getDb();
+    if (owner) {
+      db.prepare(UNCLAIM_JOBS + OWNED_BY).run(JSON.stringify(jobIds), owner);
+    } else {
+      db.prepare(UNCLAIM_JOBS).run(JSON.stringify(jobIds));
+    }
+  }
+
+  async failDependents(taskId: string, jobId: string, error: string): Promise<Job[]> {
+    const db = this.getDb();
+    const now = Date.now();
+
+    const cascadeTransaction = db.transaction(() => {
+      const rows = db.prepare(SELECT_PENDING_DEPENDENTS).all(jobId, taskId, taskId) as JobRecord[];
+      if (rows.length === 0) return [];
+
+      const ids = rows.map(r => r.id);
+      const placeholders = ids.map(() => '?').join(',');
+
+      db.prepare(`
+        UPDATE jobs SET status = 'failed', error = ?, completed_at = ?
+        WHERE id IN (${placeholders})
+      `).run(error, now, ...ids);
+
+      return rows.map(row => ({
+        ...this.rowToJob(row),
+        status: 'failed' as const,
+        error,
+        completedAt: now,
+      }));
+    });
+
+    return cascadeTransaction();
+  }
+
   async resetActiveJobs(taskId: string): Promise<number> {
     const db = this.getDb();
+    // Jobs leased by a live worker are left alone
     const result = db.prepare(`
-      UPDATE jobs SET status = 'pending', started_at = NULL WHERE task_id = ? AND status = 'active'
-    `).run(taskId);
+      UPDATE jobs SET status = 'pending', started_at = NULL, ${RELEASE_LEASE}
+      WHERE task_id = ? AND status = 'active' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+    `).run(taskId, Date.now());
     return result.changes;
   }
 
@@ -280,11 +404,141 @@ export class BunSQLiteAdapter implements StorageAdapter {
     return result.changes;
   }
 
+  async requeueFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    const db = this.getDb();
+
+    // History is kept so the next failure extends the same record
+    const requeueTransaction = db.transaction(() => {
+      const changes = Number(db.prepare(`
+        UPDATE jobs SET status = 'pending', error = NULL, started_at = NULL, completed_at = NULL, attempts = 0
+        WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))
+      `).run(taskId, JSON.stringify(jobIds)).changes);
+
+      if (changes > 0) {
+        db.prepare(`
+          UPDATE tasks SET failed_jobs = MAX(0, failed_jobs - ?), updated_at = ? WHERE id = ?
+        `).run(changes, Date.now(), taskId);
+      }
+      return changes;
+    });
+
+    return requeueTransaction();
+  }
+
+  async discardFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    const db = this.getDb();
+
+    const discardTransaction = db.transaction(() => {
+      const changes = Number(db.prepare(`
+        DELETE FROM jobs WHERE task_id = ? AND status = 'failed' AND id IN (SELECT value FROM json_each(?))
+      `).run(taskId, JSON.stringify(jobIds)).changes);
+
+      if (changes > 0) {
+        db.prepare(`
+          UPDATE tasks SET failed_jobs = MAX(0, failed_jobs - ?), total_jobs = MAX(0, total_jobs - ?), updated_at = ?
+          WHERE id = ?
+        `).run(changes, changes, Date.now(), taskId);
+      }
+      return changes;
+    });
+
+    return discardTransaction();
+  }
+
   async deleteJobsByTask(taskId: string): Promise<void> {
     const db = this.getDb();
     db.prepare('DELETE FROM jobs WHERE task_id = ?').run(taskId);
   }
 
+  // =========================================================================
+  // Schedule Operations
+  // =========================================================================
+
+  async createSchedule(meta: ScheduleMeta): Promise<void> {
+    const db = this.getDb();
+    db.prepare(`
+      INSERT INTO schedules (id, cron, interval_ms, missed_run_policy, status, next_run_at, last_run_at, last_task_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      meta.id,
+      meta.cron,
+      meta.intervalMs,
+      meta.missedRunPolicy,
+      meta.status,
+      meta.nextRunAt,
+      meta.lastRunAt,
+      meta.lastTaskId,
+      meta.createdAt,
+      meta.updatedAt
+    );
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleMeta | null> {
+    const db = this.getDb();
+    const row = db.prepare('SELECT * FROM schedules WHERE id = ?').get(scheduleId) as ScheduleRecord | null;
+    return row ? this.rowToSchedule(row) : null;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<ScheduleMeta>): Promise<void> {
+    const db = this.getDb();
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (updates.cron !== undefined) { fields.push('cron = ?'); values.push(updates.cron); }
+    if (updates.intervalMs !== undefined) { fields.push('interval_ms = ?'); values.push(updates.intervalMs); }
+    if (updates.missedRunPolicy !== undefined) { fields.push('missed_run_policy = ?'); values.push(updates.missedRunPolicy); }
+    if (updates.status !== undefined) { fields.push('status = ?'); values.push(updates.status); }
+    if (updates.nextRunAt !== undefined) { fields.push('next_run_at = ?'); values.push(updates.nextRunAt); }
+    if (updates.lastRunAt !== undefined) { fields.push('last_run_at = ?'); values.push(updates.lastRunAt); }
+    if (updates.lastTaskId !== undefined) { fields.push('last_task_id = ?'); values.push(updates.lastTaskId); }
+
+    if (fields.length === 0) return;
+
+    fields.push('updated_at = ?');
+    values.push(Date.now());
+    values.push(scheduleId);
+
+    db.prepare(`UPDATE schedules SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    const db = this.getDb();
+    db.prepare('DELETE FROM schedules WHERE id = ?').run(scheduleId);
+  }
+
+  async listSchedules(): Promise<ScheduleMeta[]> {
+    const db = this.getDb();
+    const rows = db.prepare('SELECT * FROM schedules ORDER BY created_at ASC').all() as ScheduleRecord[];
+    return rows.map(row => this.rowToSchedule(row));
+  }
+
+  // =========================================================================
+  // Quota Operations
+  // =========================================================================
+
+  async consumeQuota(windows: QuotaWindow[], count: number): Promise<number> {
+    const db = this.getDb();
+
+    const consumeTransaction = db.transaction(() => {
+      let granted = count;
+      for (const window of windows) {
+        db.prepare(ROLL_QUOTA_WINDOW).run(window.key, window.windowStart);
+        const row = db.prepare('SELECT used FROM quotas WHERE key = ?').get(window.key) as { used: number };
+        granted = Math.min(granted, window.limit - row.used);
+      }
+      granted = Math.max(granted, 0);
+
+      if (granted > 0) {
+        for (const window of windows) {
+          db.prepare(ADD_QUOTA_USAGE).run(granted, window.key);
+        }
+      }
+      return granted;
+    });
+
+    return consumeTransaction();
+  }
+
   // =========================================================================
   // Helpers
   // =========================================================================
@@ -295,12 +549,29 @@ export class BunSQLiteAdapter implements StorageAdapter {
       name: row.name,
       type: row.type,
       merkleRoot: row.merkle_root,
+      resultRoot: row.result_root ?? undefined,
       status: row.status,
       totalJobs: row.total_jobs,
       completedJobs: row.completed_jobs,
       failedJobs: row.failed_jobs,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
+      dependsOn: row.depends_on ? JSON.parse(row.depends_on) : undefined,
+    };
+  }
+
+  private rowToSchedule(row: ScheduleRecord): ScheduleMeta {
+    return {
+      id: row.id,
+      cron: row.cron,
+      intervalMs: row.interval_ms,
+      missedRunPolicy: row.missed_run_policy,
+      status: row.status,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lastTaskId: row.last_task_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
     };
   }
 
@@ -317,6 +588,11 @@ export class BunSQLiteAdapter implements StorageAdapter {
       startedAt: row.started_at ?? undefined,
       completedAt: row.completed_at ?? undefined,
       scheduledAt: row.scheduled_at ?? undefined,
+      dependsOn: row.depends_on ? JSON.parse(row.depends_on) : undefined,
+      priority: row.priority || undefined,
+      history: row.history ? JSON.parse(row.history) : undefined,
+      leaseOwner: row.lease_owner ?? undefined,
+      leaseExpiresAt: row.lease_expires_at ?? undefined,
     };
   }
 }
@@ -3,15 +3,22 @@
  * Fallback for browsers without OPFS support
  */
 
-import type { StorageAdapter, Job, JobStatus, TaskMeta } from '../types.js';
+import type { StorageAdapter, Job, JobAttempt, JobLease, JobStatus, TaskMeta, ScheduleMeta, QuotaWindow } from '../types.js';
+import { LeaseLostError } from '../types.js';
 
 const DB_NAME = 'taskhub';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const TASKS_STORE = 'tasks';
 const JOBS_STORE = 'jobs';
+const SCHEDULES_STORE = 'schedules';
+const QUOTAS_STORE = 'quotas';
+
+// Stored jobs carry an insertion counter so equal createdAt values keep input order
+type StoredJob = Job & { insertOrder?: number };
 
 export class IndexedDBAdapter implements StorageAdapter {
   private db: IDBDatabase | null = null;
+  private insertOrder = 0;
   private initialized = false;
   private initializePromise: Promise<void> | null = null;
 
@@ -46,6 +53,16 @@ export class IndexedDBAdapter implements StorageAdapter {
           jobsStore.createIndex('status', 'status', { unique: false });
           jobsStore.createIndex('taskId_status', ['taskId', 'status'], { unique: false });
         }
+
+        // Schedules store (v2)
+        if (!db.objectStoreNames.contains(SCHEDULES_STORE)) {
+          db.createObjectStore(SCHEDULES_STORE, { keyPath: 'id' });
+        }
+
+        // Quotas store (v3): one record per quota, current window only
+        if (!db.objectStoreNames.contains(QUOTAS_STORE)) {
+          db.createObjectStore(QUOTAS_STORE, { keyPath: 'key' });
+        }
       };
 
       request.onsuccess = (event) => {
@@ -70,6 +87,12 @@ export class IndexedDBAdapter implements StorageAdapter {
     return this.db;
   }
 
+  private assertOwner(job: Job | undefined, jobId: string, owner?: string): void {
+    if (owner && (!job || job.status !== 'active' || job.leaseOwner !== owner)) {
+      throw new LeaseLostError(jobId, owner);
+    }
+  }
+
   private promisify<T>(request: IDBRequest<T>): Promise<T> {
     return new Promise((resolve, reject) => {
       request.onsuccess = () => resolve(request.result);
@@ -146,7 +169,7 @@ export class IndexedDBAdapter implements StorageAdapter {
     const store = tx.objectStore(JOBS_STORE);
 
     for (const job of jobs) {
-      store.add(job);
+      store.add({ ...job, insertOrder: this.insertOrder++ } satisfies StoredJob);
     }
 
     await this.promisifyTransaction(tx);
@@ -160,12 +183,23 @@ export class IndexedDBAdapter implements StorageAdapter {
     return result ?? null;
   }
 
+  async existingJobIds(jobIds: string[]): Promise<string[]> {
+    if (jobIds.length === 0) return [];
+
+    const db = this.getDb();
+    const tx = db.transaction(JOBS_STORE, 'readonly');
+    const store = tx.objectStore(JOBS_STORE);
+
+    const keys = await Promise.all(jobIds.map(jobId => this.promisify(store.getKey(jobId))));
+    return jobIds.filter((_, i) => keys[i] !== undefined);
+  }
+
   async getJobsByTask(taskId: string, status?: JobStatus, limit = 100, offset = 0): Promise<Job[]> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readonly');
     const store = tx.objectStore(JOBS_STORE);
 
-    let jobs: Job[];
+    let jobs: StoredJob[];
 
     if (status) {
       const index = store.index('taskId_status');
@@ -175,9 +209,9 @@ export class IndexedDBAdapter implements StorageAdapter {
       jobs = await this.promisify(index.getAll(taskId));
     }
 
-    // Sort by createdAt and apply pagination
+    // Sort by createdAt (then insertion order) and apply pagination
     return jobs
-      .sort((a, b) => a.createdAt - b.createdAt)
+      .sort((a, b) => a.createdAt - b.createdAt || (a.insertOrder ?? 0) - (b.insertOrder ?? 0))
       .slice(offset, offset + limit);
   }
 
@@ -196,27 +230,50 @@ export class IndexedDBAdapter implements StorageAdapter {
     return counts;
   }
 
-  async claimJobs(taskId: string, limit: number): Promise<Job[]> {
+  async claimJobs(taskId: string, limit: number, lease?: JobLease): Promise<Job[]> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readwrite');
     const store = tx.objectStore(JOBS_STORE);
     const index = store.index('taskId_status');
 
-    const pendingJobs = await this.promisify(index.getAll([taskId, 'pending']));
-
     const now = Date.now();
     const claimed: Job[] = [];
 
-    // Only claim jobs that are ready (scheduledAt is null or in the past)
-    const readyJobs = pendingJobs.filter(job => !job.scheduledAt || job.scheduledAt <= now);
+    // Jobs of workers (tabs) that stopped heartbeating become claimable again
+    const activeJobs: Job[] = await this.promisify(index.getAll([taskId, 'active']));
+    const reclaimed = activeJobs
+      .filter(job => job.leaseExpiresAt !== undefined && job.leaseExpiresAt <= now)
+      .map(job => ({ ...job, status: 'pending' as const, startedAt: undefined, leaseOwner: undefined, leaseExpiresAt: undefined }));
+    for (const job of reclaimed) {
+      store.put(job);
+    }
+
+    const pendingJobs = [...(await this.promisify(index.getAll([taskId, 'pending']))), ...reclaimed];
+
+    // Only claim jobs that are ready (scheduledAt is null or in the past), highest priority first
+    const readyJobs = pendingJobs
+      .filter(job => !job.scheduledAt || job.scheduledAt <= now)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    for (const job of readyJobs) {
+      if (claimed.length >= limit) break;
+
+      // Skip jobs whose dependencies haven't completed yet
+      if (job.dependsOn?.length) {
+        const parents = await Promise.all(
+          job.dependsOn.map((dep: string) => this.promisify<Job | undefined>(store.get(dep)))
+        );
+        if (parents.some(parent => parent?.status !== 'completed')) continue;
+      }
 
-    for (const job of readyJobs.slice(0, limit)) {
       const updated: Job = {
         ...job,
         status: 'active',
         startedAt: now,
         attempts: job.attempts + 1,
         scheduledAt: undefined,
+        leaseOwner: lease?.owner,
+        leaseExpiresAt: lease ? now + lease.durationMs : undefined,
       };
       store.put(updated);
       claimed.push(updated);
@@ -226,16 +283,19 @@ export class IndexedDBAdapter implements StorageAdapter {
     return claimed;
   }
 
-  async completeJob(jobId: string, output: unknown): Promise<void> {
+  async completeJob(jobId: string, output: unknown, owner?: string): Promise<void> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readwrite');
     const store = tx.objectStore(JOBS_STORE);
 
     const job = await this.promisify(store.get(jobId));
+    this.assertOwner(job, jobId, owner);
     if (!job) return;
 
     const updated: Job = {
       ...job,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
       status: 'completed',
       output,
       completedAt: Date.now(),
@@ -244,18 +304,29 @@ export class IndexedDBAdapter implements StorageAdapter {
     await this.promisifyTransaction(tx);
   }
 
-  async failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number): Promise<void> {
+  async failJob(
+    jobId: string,
+    error: string,
+    canRetry: boolean,
+    retryAfterMs?: number,
+    attempt?: JobAttempt,
+    owner?: string
+  ): Promise<void> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readwrite');
     const store = tx.objectStore(JOBS_STORE);
 
     const job = await this.promisify(store.get(jobId));
+    this.assertOwner(job, jobId, owner);
     if (!job) return;
 
     const updated: Job = {
       ...job,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
       status: canRetry ? 'pending' : 'failed',
       error,
+      history: attempt ? [...(job.history ?? []), attempt] : job.history,
       // Don't set completedAt for retryable failures - job will be retried
       // Set scheduledAt for delayed retry (exponential backoff)
       ...(canRetry
@@ -266,25 +337,105 @@ export class IndexedDBAdapter implements StorageAdapter {
     await this.promisifyTransaction(tx);
   }
 
+  async failDependents(taskId: string, jobId: string, error: string): Promise<Job[]> {
+    const db = this.getDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+    const index = store.index('taskId');
+
+    const jobs = await this.promisify(index.getAll(taskId));
+
+    // Walk dependency edges downstream from the failed job
+    const failedIds = new Set([jobId]);
+    const cascaded: Job[] = [];
+    const now = Date.now();
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (const job of jobs) {
+        if (job.status !== 'pending' || failedIds.has(job.id)) continue;
+        if (job.dependsOn?.some((dep: string) => failedIds.has(dep))) {
+          const updated: Job = { ...job, status: 'failed', error, completedAt: now };
+          Object.assign(job, updated);
+          store.put(updated);
+          failedIds.add(job.id);
+          cascaded.push(updated);
+          changed = true;
+        }
+      }
+    }
+
+    await this.promisifyTransaction(tx);
+    return cascaded;
+  }
+
   async resetActiveJobs(taskId: string): Promise<number> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readwrite');
     const store = tx.objectStore(JOBS_STORE);
     const index = store.index('taskId_status');
 
-    const activeJobs = await this.promisify(index.getAll([taskId, 'active']));
+    const now = Date.now();
+    const activeJobs: Job[] = await this.promisify(index.getAll([taskId, 'active']));
+    // Jobs leased by a live worker are left alone
+    const staleJobs = activeJobs.filter(job => !job.leaseExpiresAt || job.leaseExpiresAt <= now);
 
-    for (const job of activeJobs) {
+    for (const job of staleJobs) {
       const updated: Job = {
         ...job,
         status: 'pending',
         startedAt: undefined,
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined,
       };
       store.put(updated);
     }
 
     await this.promisifyTransaction(tx);
-    return activeJobs.length;
+    return staleJobs.length;
+  }
+
+  async renewLeases(owner: string, jobIds: string[], durationMs: number): Promise<string[]> {
+    const db = this.getDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+
+    const expiresAt = Date.now() + durationMs;
+    const renewed: string[] = [];
+
+    for (const jobId of jobIds) {
+      const job: Job | undefined = await this.promisify(store.get(jobId));
+      if (job && job.status === 'active' && job.leaseOwner === owner) {
+        store.put({ ...job, leaseExpiresAt: expiresAt });
+        renewed.push(jobId);
+      }
+    }
+
+    await this.promisifyTransaction(tx);
+    return renewed;
+  }
+
+  async unclaimJobs(jobIds: string[], owner?: string): Promise<void> {
+    const db = this.getDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+
+    for (const jobId of jobIds) {
+      const job: Job | undefined = await this.promisify(store.get(jobId));
+      if (job && job.status === 'active' && (!owner || job.leaseOwner === owner)) {
+        store.put({
+          ...job,
+          status: 'pending',
+          startedAt: undefined,
+          attempts: Math.max(0, job.attempts - 1),
+          leaseOwner: undefined,
+          leaseExpiresAt: undefined,
+        });
+      }
+    }
+
+    await this.promisifyTransaction(tx);
   }
 
   async resetFailedJobs(taskId: string): Promise<number> {
@@ -321,6 +472,65 @@ export class IndexedDBAdapter implements StorageAdapter {
     return failedJobs.length;
   }
 
+  async requeueFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    return this.updateFailedJobs(taskId, jobIds, (job, store) => {
+      // History is kept so the next failure extends the same record
+      store.put({
+        ...job,
+        status: 'pending',
+        error: undefined,
+        startedAt: undefined,
+        completedAt: undefined,
+        attempts: 0,
+      } satisfies Job);
+    }, false);
+  }
+
+  async discardFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    return this.updateFailedJobs(taskId, jobIds, (job, store) => {
+      store.delete(job.id);
+    }, true);
+  }
+
+  /**
+   * Apply an operation to the given failed jobs and adjust task counters
+   */
+  private async updateFailedJobs(
+    taskId: string,
+    jobIds: string[],
+    apply: (job: Job, store: IDBObjectStore) => void,
+    removesJobs: boolean
+  ): Promise<number> {
+    const db = this.getDb();
+    const tx = db.transaction([JOBS_STORE, TASKS_STORE], 'readwrite');
+    const jobsStore = tx.objectStore(JOBS_STORE);
+    const tasksStore = tx.objectStore(TASKS_STORE);
+    const index = jobsStore.index('taskId_status');
+
+    const wanted = new Set(jobIds);
+    const failedJobs: Job[] = await this.promisify(index.getAll([taskId, 'failed']));
+    const matched = failedJobs.filter(job => wanted.has(job.id));
+
+    for (const job of matched) {
+      apply(job, jobsStore);
+    }
+
+    if (matched.length > 0) {
+      const task = await this.promisify(tasksStore.get(taskId));
+      if (task) {
+        task.failedJobs = Math.max(0, task.failedJobs - matched.length);
+        if (removesJobs) {
+          task.totalJobs = Math.max(0, task.totalJobs - matched.length);
+        }
+        task.updatedAt = Date.now();
+        tasksStore.put(task);
+      }
+    }
+
+    await this.promisifyTransaction(tx);
+    return matched.length;
+  }
+
   async deleteJobsByTask(taskId: string): Promise<void> {
     const db = this.getDb();
     const tx = db.transaction(JOBS_STORE, 'readwrite');
@@ -335,4 +545,79 @@ export class IndexedDBAdapter implements StorageAdapter {
 
     await this.promisifyTransaction(tx);
   }
+
+  // =========================================================================
+  // Schedule Operations
+  // =========================================================================
+
+  async createSchedule(meta: ScheduleMeta): Promise<void> {
+    const db = this.getDb();
+    const tx = db.transaction(SCHEDULES_STORE, 'readwrite');
+    tx.objectStore(SCHEDULES_STORE).add(meta);
+    await this.promisifyTransaction(tx);
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleMeta | null> {
+    const db = this.getDb();
+    const tx = db.transaction(SCHEDULES_STORE, 'readonly');
+    const result = await this.promisify(tx.objectStore(SCHEDULES_STORE).get(scheduleId));
+    return result ?? null;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<ScheduleMeta>): Promise<void> {
+    const db = this.getDb();
+    const tx = db.transaction(SCHEDULES_STORE, 'readwrite');
+    const store = tx.objectStore(SCHEDULES_STORE);
+
+    const existing = await this.promisify(store.get(scheduleId));
+    if (!existing) return;
+
+    store.put({ ...existing, ...updates, updatedAt: Date.now() });
+    await this.promisifyTransaction(tx);
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    const db = this.getDb();
+    const tx = db.transaction(SCHEDULES_STORE, 'readwrite');
+    tx.objectStore(SCHEDULES_STORE).delete(scheduleId);
+    await this.promisifyTransaction(tx);
+  }
+
+  async listSchedules(): Promise<ScheduleMeta[]> {
+    const db = this.getDb();
+    const tx = db.transaction(SCHEDULES_STORE, 'readonly');
+    const schedules: ScheduleMeta[] = await this.promisify(tx.objectStore(SCHEDULES_STORE).getAll());
+    return schedules.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // =========================================================================
+  // Quota Operations
+  // =========================================================================
+
+  async consumeQuota(windows: QuotaWindow[], count: number): Promise<number> {
+    const db = this.getDb();
+    const tx = db.transaction(QUOTAS_STORE, 'readwrite');
+    const store = tx.objectStore(QUOTAS_STORE);
+
+    const usages: { key: string; windowStart: number; used: number }[] = [];
+    let granted = count;
+    for (const window of windows) {
+      let usage: { key: string; windowStart: number; used: number } | undefined = await this.promisify(store.get(window.key));
+      if (!usage || usage.windowStart < window.windowStart) {
+        usage = { key: window.key, windowStart: window.windowStart, used: 0 };
+      }
+      usages.push(usage);
+      granted = Math.min(granted, window.limit - usage.used);
+    }
+    granted = Math.max(granted, 0);
+
+    if (granted > 0) {
+      for (const usage of usages) {
+        store.put({ ...usage, used: usage.used + granted });
+      }
+    }
+
+    await this.promisifyTransaction(tx);
+    return granted;
+  }
 }
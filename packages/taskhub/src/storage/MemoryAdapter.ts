@@ -4,13 +4,23 @@
  * 性能最佳，但不支持断点续传
  */
 
-import type { StorageAdapter, TaskMeta, Job, JobStatus } from '../types.js';
+import type { StorageAdapter, TaskMeta, Job, JobAttempt, JobLease, JobStatus, ScheduleMeta, QuotaWindow } from '../types.js';
+import { LeaseLostError } from '../types.js';
 
 export class MemoryAdapter implements StorageAdapter {
   private tasks = new Map<string, TaskMeta>();
   private jobs = new Map<string, Job>();
   private jobsByTask = new Map<string, Set<string>>();
+  private schedules = new Map<string, ScheduleMeta>();
   private cleanupCompleted: boolean;
+  // cleanupCompleted 模式下已清理的失败 job，用于阻止其下游被认领
+  private cleanedFailedIds = new Set<string>();
+  // 含非零优先级 job 的任务，认领时需要排序
+  private prioritizedTasks = new Set<string>();
+  // 使用过租约认领的任务，认领前需要回收过期租约
+  private leasedTasks = new Set<string>();
+  // 每个配额只保留当前窗口的用量
+  private quotas = new Map<string, { windowStart: number; used: number }>();
 
   /**
    * @param cleanupCompleted - 是否在 job 完成后立即清理，节省内存（默认 false）
@@ -27,6 +37,11 @@ export class MemoryAdapter implements StorageAdapter {
     this.tasks.clear();
     this.jobs.clear();
     this.jobsByTask.clear();
+    this.schedules.clear();
+    this.cleanedFailedIds.clear();
+    this.prioritizedTasks.clear();
+    this.leasedTasks.clear();
+    this.quotas.clear();
   }
 
   // Task 操作
@@ -62,6 +77,9 @@ export class MemoryAdapter implements StorageAdapter {
     if (taskJobs) {
       taskJobs.add(meta.id);
     }
+    if (meta.priority) {
+      this.prioritizedTasks.add(meta.taskId);
+    }
   }
 
   async createJobs(metas: Job[]): Promise<void> {
@@ -74,33 +92,64 @@ export class MemoryAdapter implements StorageAdapter {
     return this.jobs.get(jobId) ?? null;
   }
 
-  async claimJobs(taskId: string, limit: number): Promise<Job[]> {
+  // cleanupCompleted 模式下已清理的 job 不再计入
+  async existingJobIds(jobIds: string[]): Promise<string[]> {
+    return jobIds.filter(jobId => this.jobs.has(jobId));
+  }
+
+  async claimJobs(taskId: string, limit: number, lease?: JobLease): Promise<Job[]> {
     const taskJobs = this.jobsByTask.get(taskId);
     if (!taskJobs) return [];
 
     const claimed: Job[] = [];
     const now = Date.now();
 
-    for (const jobId of taskJobs) {
+    if (lease) {
+      this.leasedTasks.add(taskId);
+    }
+    if (this.leasedTasks.has(taskId)) {
+      this.reclaimExpiredLeases(taskJobs, now);
+    }
+    const isReady = (job: Job | undefined): job is Job =>
+      // Only claim jobs that are ready (scheduledAt is null or in the past)
+      !!job && job.status === 'pending' && (!job.scheduledAt || job.scheduledAt <= now) && this.dependenciesSatisfied(job);
+
+    let candidates: Iterable<Job>;
+    if (this.prioritizedTasks.has(taskId)) {
+      // 有优先级时需要全量排序（sort 稳定，同优先级保持插入顺序）
+      candidates = [...taskJobs]
+        .map(id => this.jobs.get(id))
+        .filter(isReady)
+        .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    } else {
+      candidates = (function* (jobs: Map<string, Job>) {
+        for (const jobId of taskJobs) {
+          const job = jobs.get(jobId);
+          if (isReady(job)) yield job;
+        }
+      })(this.jobs);
+    }
+
+    for (const job of candidates) {
       if (claimed.length >= limit) break;
 
-      const job = this.jobs.get(jobId);
-      // Only claim jobs that are ready (scheduledAt is null or in the past)
-      if (job && job.status === 'pending' && (!job.scheduledAt || job.scheduledAt <= now)) {
-        job.status = 'active';
-        job.startedAt = now;
-        job.attempts++;
-        job.scheduledAt = undefined;
-        claimed.push({ ...job });
-      }
+      job.status = 'active';
+      job.startedAt = now;
+      job.attempts++;
+      job.scheduledAt = undefined;
+      job.leaseOwner = lease?.owner;
+      job.leaseExpiresAt = lease ? now + lease.durationMs : undefined;
+      claimed.push({ ...job });
     }
 
     return claimed;
   }
 
-  async completeJob(jobId: string, output: unknown): Promise<void> {
+  async completeJob(jobId: string, output: unknown, owner?: string): Promise<void> {
     const job = this.jobs.get(jobId);
+    this.assertOwner(job, jobId, owner);
     if (job) {
+      this.releaseLease(job);
       // 更新任务计数
       const task = this.tasks.get(job.taskId);
       if (task) {
@@ -121,10 +170,22 @@ export class MemoryAdapter implements StorageAdapter {
     }
   }
 
-  async failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number): Promise<void> {
+  async failJob(
+    jobId: string,
+    error: string,
+    canRetry: boolean,
+    retryAfterMs?: number,
+    attempt?: JobAttempt,
+    owner?: string
+  ): Promise<void> {
     const job = this.jobs.get(jobId);
+    this.assertOwner(job, jobId, owner);
     if (job) {
+      this.releaseLease(job);
       job.error = error;
+      if (attempt) {
+        job.history = [...(job.history ?? []), attempt];
+      }
 
       if (canRetry) {
         job.status = 'pending';
@@ -144,6 +205,7 @@ export class MemoryAdapter implements StorageAdapter {
           const taskJobs = this.jobsByTask.get(job.taskId);
           taskJobs?.delete(jobId);
           this.jobs.delete(jobId);
+          this.cleanedFailedIds.add(jobId);
         } else {
           job.status = 'failed';
           job.completedAt = Date.now();
@@ -152,6 +214,49 @@ export class MemoryAdapter implements StorageAdapter {
     }
   }
 
+  async failDependents(taskId: string, jobId: string, error: string): Promise<Job[]> {
+    const taskJobs = this.jobsByTask.get(taskId);
+    if (!taskJobs) return [];
+
+    // 从失败的 job 出发，沿依赖边找出所有下游 job
+    const failedIds = new Set([jobId]);
+    const cascaded: Job[] = [];
+    const now = Date.now();
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (const id of taskJobs) {
+        const job = this.jobs.get(id);
+        if (!job || job.status !== 'pending' || failedIds.has(id)) continue;
+        if (job.dependsOn?.some(dep => failedIds.has(dep))) {
+          job.status = 'failed';
+          job.error = error;
+          job.completedAt = now;
+          failedIds.add(id);
+          cascaded.push({ ...job });
+          changed = true;
+        }
+      }
+    }
+
+    const task = this.tasks.get(taskId);
+    if (task && cascaded.length > 0) {
+      task.failedJobs += cascaded.length;
+      task.updatedAt = now;
+    }
+
+    if (this.cleanupCompleted) {
+      for (const job of cascaded) {
+        taskJobs.delete(job.id);
+        this.jobs.delete(job.id);
+        this.cleanedFailedIds.add(job.id);
+      }
+    }
+
+    return cascaded;
+  }
+
   async getJobsByTask(taskId: string, status?: JobStatus, limit = 100, offset = 0): Promise<Job[]> {
     const taskJobs = this.jobsByTask.get(taskId);
     if (!taskJobs) return [];
@@ -196,17 +301,57 @@ export class MemoryAdapter implements StorageAdapter {
     if (!taskJobs) return 0;
 
     let count = 0;
+    const now = Date.now();
     for (const jobId of taskJobs) {
       const job = this.jobs.get(jobId);
-      if (job && job.status === 'active') {
+      // 持有有效租约的 job 属于其他 worker，不重置
+      if (job && job.status === 'active' && (!job.leaseExpiresAt || job.leaseExpiresAt <= now)) {
         job.status = 'pending';
         job.startedAt = null;
+        this.releaseLease(job);
         count++;
       }
     }
     return count;
   }
 
+  async renewLeases(owner: string, jobIds: string[], durationMs: number): Promise<string[]> {
+    const renewed: string[] = [];
+    const expiresAt = Date.now() + durationMs;
+
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (job && job.status === 'active' && job.leaseOwner === owner) {
+        job.leaseExpiresAt = expiresAt;
+        renewed.push(jobId);
+      }
+    }
+    return renewed;
+  }
+
+  async unclaimJobs(jobIds: string[], owner?: string): Promise<void> {
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (job && job.status === 'active' && (!owner || job.leaseOwner === owner)) {
+        // 未真正执行，退回本次尝试
+        job.status = 'pending';
+        job.startedAt = undefined;
+        job.attempts = Math.max(0, job.attempts - 1);
+        this.releaseLease(job);
+      }
+    }
+  }
+
+  private dependenciesSatisfied(job: Job): boolean {
+    if (!job.dependsOn) return true;
+    // 已清理的 job 要么已完成，要么记录在 cleanedFailedIds 中
+    return job.dependsOn.every(dep => {
+      const parent = this.jobs.get(dep);
+      if (parent) return parent.status === 'completed';
+      return this.cleanupCompleted && !this.cleanedFailedIds.has(dep);
+    });
+  }
+
   async resetFailedJobs(taskId: string): Promise<number> {
     const taskJobs = this.jobsByTask.get(taskId);
     if (!taskJobs) return 0;
@@ -232,4 +377,122 @@ export class MemoryAdapter implements StorageAdapter {
 
     return count;
   }
+
+  async requeueFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    let count = 0;
+
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (job && job.taskId === taskId && job.status === 'failed') {
+        // 保留 history，后续失败继续追加
+        job.status = 'pending';
+        job.error = undefined;
+        job.startedAt = undefined;
+        job.completedAt = undefined;
+        job.attempts = 0;
+        count++;
+      }
+    }
+
+    const task = this.tasks.get(taskId);
+    if (task && count > 0) {
+      task.failedJobs = Math.max(0, task.failedJobs - count);
+      task.updatedAt = Date.now();
+    }
+
+    return count;
+  }
+
+  async discardFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    const taskJobs = this.jobsByTask.get(taskId);
+    let count = 0;
+
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (job && job.taskId === taskId && job.status === 'failed') {
+        this.jobs.delete(jobId);
+        taskJobs?.delete(jobId);
+        count++;
+      }
+    }
+
+    const task = this.tasks.get(taskId);
+    if (task && count > 0) {
+      task.failedJobs = Math.max(0, task.failedJobs - count);
+      task.totalJobs = Math.max(0, task.totalJobs - count);
+      task.updatedAt = Date.now();
+    }
+
+    return count;
+  }
+
+  // Schedule 操作
+  async createSchedule(meta: ScheduleMeta): Promise<void> {
+    this.schedules.set(meta.id, { ...meta });
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleMeta | null> {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule ? { ...schedule } : null;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<ScheduleMeta>): Promise<void> {
+    const schedule = this.schedules.get(scheduleId);
+    if (schedule) {
+      Object.assign(schedule, updates, { updatedAt: Date.now() });
+    }
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    this.schedules.delete(scheduleId);
+  }
+
+  async listSchedules(): Promise<ScheduleMeta[]> {
+    return [...this.schedules.values()].map(schedule => ({ ...schedule }));
+  }
+
+  // 配额操作
+  async consumeQuota(windows: QuotaWindow[], count: number): Promise<number> {
+    let granted = count;
+    for (const window of windows) {
+      let usage = this.quotas.get(window.key);
+      // 进入新窗口时用量清零
+      if (!usage || usage.windowStart < window.windowStart) {
+        usage = { windowStart: window.windowStart, used: 0 };
+        this.quotas.set(window.key, usage);
+      }
+      granted = Math.min(granted, window.limit - usage.used);
+    }
+    granted = Math.max(granted, 0);
+
+    if (granted > 0) {
+      for (const window of windows) {
+        this.quotas.get(window.key)!.used += granted;
+      }
+    }
+    return granted;
+  }
+
+  // 租约辅助方法
+  private reclaimExpiredLeases(taskJobs: Set<string>, now: number): void {
+    for (const jobId of taskJobs) {
+      const job = this.jobs.get(jobId);
+      if (job && job.status === 'active' && job.leaseExpiresAt && job.leaseExpiresAt <= now) {
+        job.status = 'pending';
+        job.startedAt = undefined;
+        this.releaseLease(job);
+      }
+    }
+  }
+
+  private assertOwner(job: Job | undefined, jobId: string, owner?: string): void {
+    if (owner && (!job || job.status !== 'active' || job.leaseOwner !== owner)) {
+      throw new LeaseLostError(jobId, owner);
+    }
+  }
+
+  private releaseLease(job: Job): void {
+    job.leaseOwner = undefined;
+    job.leaseExpiresAt = undefined;
+  }
 }
@@ -6,7 +6,8 @@
  * postMessage RPC.
  */
 
-import type { StorageAdapter, Job, JobStatus, TaskMeta } from '../types.js';
+import type { StorageAdapter, Job, JobAttempt, JobLease, JobStatus, TaskMeta, ScheduleMeta, QuotaWindow } from '../types.js';
+import { LeaseLostError } from '../types.js';
 
 export interface OPFSAdapterConfig {
   /** URL of the opfs-worker.js file (default: /lib/sqlite3/opfs-worker.js) */
@@ -111,6 +112,10 @@ export class OPFSAdapter implements StorageAdapter {
     return this.call('getJob', jobId) as Promise<Job | null>;
   }
 
+  async existingJobIds(jobIds: string[]): Promise<string[]> {
+    return this.call('existingJobIds', jobIds) as Promise<string[]>;
+  }
+
   async getJobsByTask(taskId: string, status?: JobStatus, limit = 100, offset = 0): Promise<Job[]> {
     return this.call('getJobsByTask', taskId, status, limit, offset) as Promise<Job[]>;
   }
@@ -119,16 +124,38 @@ export class OPFSAdapter implements StorageAdapter {
     return this.call('getJobCounts', taskId) as Promise<{ pending: number; active: number; completed: number; failed: number }>;
   }
 
-  async claimJobs(taskId: string, limit: number): Promise<Job[]> {
-    return this.call('claimJobs', taskId, limit) as Promise<Job[]>;
+  async claimJobs(taskId: string, limit: number, lease?: JobLease): Promise<Job[]> {
+    return this.call('claimJobs', taskId, limit, lease) as Promise<Job[]>;
+  }
+
+  // The worker reports ownership as a boolean; errors don't keep their class across postMessage
+  async completeJob(jobId: string, output: unknown, owner?: string): Promise<void> {
+    const owned = await this.call('completeJob', jobId, output, owner);
+    if (owner && !owned) throw new LeaseLostError(jobId, owner);
+  }
+
+  async failJob(
+    jobId: string,
+    error: string,
+    canRetry: boolean,
+    retryAfterMs?: number,
+    attempt?: JobAttempt,
+    owner?: string
+  ): Promise<void> {
+    const owned = await this.call('failJob', jobId, error, canRetry, retryAfterMs, attempt, owner);
+    if (owner && !owned) throw new LeaseLostError(jobId, owner);
   }
 
-  async completeJob(jobId: string, output: unknown): Promise<void> {
-    await this.call('completeJob', jobId, output);
+  async renewLeases(owner: string, jobIds: string[], durationMs: number): Promise<string[]> {
+    return this.call('renewLeases', owner, jobIds, durationMs) as Promise<string[]>;
   }
 
-  async failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number): Promise<void> {
-    await this.call('failJob', jobId, error, canRetry, retryAfterMs);
+  async unclaimJobs(jobIds: string[], owner?: string): Promise<void> {
+    await this.call('unclaimJobs', jobIds, owner);
+  }
+
+  async failDependents(taskId: string, jobId: string, error: string): Promise<Job[]> {
+    return this.call('failDependents', taskId, jobId, error) as Promise<Job[]>;
   }
 
   async resetActiveJobs(taskId: string): Promise<number> {
@@ -139,7 +166,41 @@ export class OPFSAdapter implements StorageAdapter {
     return this.call('resetFailedJobs', taskId) as Promise<number>;
   }
 
+  async requeueFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    return this.call('requeueFailedJobs', taskId, jobIds) as Promise<number>;
+  }
+
+  async discardFailedJobs(taskId: string, jobIds: string[]): Promise<number> {
+    return this.call('discardFailedJobs', taskId, jobIds) as Promise<number>;
+  }
+
   async deleteJobsByTask(taskId: string): Promise<void> {
     await this.call('deleteJobsByTask', taskId);
   }
+
+  // Schedule operations
+  async createSchedule(meta: ScheduleMeta): Promise<void> {
+    await this.call('createSchedule', meta);
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleMeta | null> {
+    return this.call('getSchedule', scheduleId) as Promise<ScheduleMeta | null>;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<ScheduleMeta>): Promise<void> {
+    await this.call('updateSchedule', scheduleId, updates);
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.call('deleteSchedule', scheduleId);
+  }
+
+  async listSchedules(): Promise<ScheduleMeta[]> {
+    return this.call('listSchedules') as Promise<ScheduleMeta[]>;
+  }
+
+  // Quota operations
+  async consumeQuota(windows: QuotaWindow[], count: number): Promise<number> {
+    return this.call('consumeQuota', windows, count) as Promise<number>;
+  }
 }
@@ -13,7 +13,9 @@ CREATE TABLE IF NOT EXISTS tasks (
   completed_jobs INTEGER NOT NULL DEFAULT 0,
   failed_jobs INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL,
-  updated_at INTEGER NOT NULL
+  updated_at INTEGER NOT NULL,
+  depends_on TEXT,
+  result_root TEXT
 );
 `;
 
@@ -30,16 +32,133 @@ CREATE TABLE IF NOT EXISTS jobs (
   started_at INTEGER,
   completed_at INTEGER,
   scheduled_at INTEGER,
+  depends_on TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  history TEXT,
+  lease_owner TEXT,
+  lease_expires_at INTEGER,
   FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
 );
 `;
 
+export const CREATE_SCHEDULES_TABLE = `
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  cron TEXT,
+  interval_ms INTEGER,
+  missed_run_policy TEXT NOT NULL DEFAULT 'skip' CHECK(missed_run_policy IN ('skip', 'catch-up-once', 'catch-up-all')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'paused')),
+  next_run_at INTEGER NOT NULL,
+  last_run_at INTEGER,
+  last_task_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+`;
+
+// One row per quota: only the current window is kept
+export const CREATE_QUOTAS_TABLE = `
+CREATE TABLE IF NOT EXISTS quotas (
+  key TEXT PRIMARY KEY,
+  window_start INTEGER NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0
+);
+`;
+
 export const CREATE_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_jobs_task_id ON jobs(task_id);
 CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
 CREATE INDEX IF NOT EXISTS idx_jobs_task_status ON jobs(task_id, status);
+CREATE INDEX IF NOT EXISTS idx_jobs_task_status_priority ON jobs(task_id, status, priority DESC);
+`;
+
+/**
+ * Columns added after the initial schema.
+ * CREATE TABLE IF NOT EXISTS leaves existing databases untouched, so adapters
+ * add any column missing from PRAGMA table_info on initialize.
+ */
+export const COLUMN_MIGRATIONS: { table: string; column: string; definition: string }[] = [
+  { table: 'tasks', column: 'depends_on', definition: 'TEXT' },
+  { table: 'tasks', column: 'result_root', definition: 'TEXT' },
+  { table: 'jobs', column: 'depends_on', definition: 'TEXT' },
+  { table: 'jobs', column: 'priority', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'jobs', column: 'history', definition: 'TEXT' },
+  { table: 'jobs', column: 'lease_owner', definition: 'TEXT' },
+  { table: 'jobs', column: 'lease_expires_at', definition: 'INTEGER' },
+];
+
+/**
+ * Pending jobs whose dependencies have all completed.
+ * Expects the outer jobs table aliased as `j`.
+ */
+export const DEPENDENCIES_SATISFIED = `
+NOT EXISTS (
+  SELECT 1 FROM json_each(j.depends_on) d
+  LEFT JOIN jobs p ON p.id = d.value
+  WHERE p.status IS NULL OR p.status != 'completed'
+)`;
+
+/**
+ * Pending jobs that transitively depend on a job (bind: jobId, taskId, taskId)
+ */
+export const SELECT_PENDING_DEPENDENTS = `
+WITH RECURSIVE dependents(id) AS (
+  SELECT j.id FROM jobs j, json_each(j.depends_on) d
+  WHERE d.value = ? AND j.task_id = ?
+  UNION
+  SELECT j.id FROM jobs j, json_each(j.depends_on) d
+  JOIN dependents ON d.value = dependents.id
+  WHERE j.task_id = ?
+)
+SELECT * FROM jobs WHERE id IN (SELECT id FROM dependents) AND status = 'pending'
+`;
+
+/**
+ * Append one JobAttempt (bound as JSON text) to a job's history
+ */
+export const APPEND_HISTORY = `history = json_insert(COALESCE(history, '[]'), '$[#]', json(?))`;
+
+/**
+ * Lease helpers for distributed claiming
+ */
+export const RELEASE_LEASE = `lease_owner = NULL, lease_expires_at = NULL`;
+
+// Appended to a WHERE clause (bind: owner)
+export const OWNED_BY = ` AND status = 'active' AND lease_owner = ?`;
+
+// Expired claims go back to pending (bind: taskId, now)
+export const RECLAIM_EXPIRED_LEASES = `
+UPDATE jobs SET status = 'pending', started_at = NULL, ${RELEASE_LEASE}
+WHERE task_id = ? AND status = 'active' AND lease_expires_at <= ?
 `;
 
+// bind: expiresAt, owner, JSON job ID array
+export const RENEW_LEASES = `
+UPDATE jobs SET lease_expires_at = ?
+WHERE status = 'active' AND lease_owner = ? AND id IN (SELECT value FROM json_each(?))
+RETURNING id
+`;
+
+// Hand claimed jobs back without using an attempt (bind: JSON job ID array)
+export const UNCLAIM_JOBS = `
+UPDATE jobs SET status = 'pending', started_at = NULL, attempts = MAX(attempts - 1, 0), ${RELEASE_LEASE}
+WHERE status = 'active' AND id IN (SELECT value FROM json_each(?))
+`;
+
+/**
+ * Quota helpers
+ * Rolling a window first also takes the write lock, so the read-check-add that
+ * follows is atomic across processes (bind: key, windowStart)
+ */
+export const ROLL_QUOTA_WINDOW = `
+INSERT INTO quotas (key, window_start, used) VALUES (?, ?, 0)
+ON CONFLICT(key) DO UPDATE SET window_start = excluded.window_start, used = 0
+WHERE excluded.window_start > quotas.window_start
+`;
+
+// bind: units, key
+export const ADD_QUOTA_USAGE = `UPDATE quotas SET used = used + ? WHERE key = ?`;
+
 export const PRAGMA_SETTINGS = `
 PRAGMA journal_mode = WAL;
 PRAGMA synchronous = NORMAL;
@@ -8,6 +8,24 @@
 
 export type JobStatus = 'pending' | 'active' | 'completed' | 'failed';
 
+/**
+ * How a failed attempt was classified by the dispatcher
+ */
+export type FailureClassification = 'rate-limited' | 'timeout' | 'retryable' | 'fatal';
+
+/**
+ * One failed attempt in a job's history
+ */
+export interface JobAttempt {
+  attempt: number;
+  error: string;
+  stack?: string;
+  classification: FailureClassification;
+  startedAt: number;
+  failedAt: number;
+  durationMs: number;
+}
+
 export interface Job<TInput = unknown, TOutput = unknown> {
   id: string;
   taskId: string;
@@ -20,6 +38,11 @@ export interface Job<TInput = unknown, TOutput = unknown> {
   startedAt?: number;
   completedAt?: number;
   scheduledAt?: number; // For delayed retry - job won't be claimed until this time
+  dependsOn?: string[]; // Job IDs that must complete before this job can be claimed
+  priority?: number; // Higher is claimed first (default 0)
+  history?: JobAttempt[]; // Failed attempts, oldest first
+  leaseOwner?: string; // Worker holding the claim (distributed mode)
+  leaseExpiresAt?: number; // Claim is reclaimable by other workers after this time
 }
 
 export interface JobRecord {
@@ -34,6 +57,22 @@ export interface JobRecord {
   started_at: number | null;
   completed_at: number | null;
   scheduled_at: number | null; // For delayed retry
+  depends_on: string | null; // JSON serialized job ID array
+  priority: number;
+  history: string | null; // JSON serialized JobAttempt array
+  lease_owner: string | null;
+  lease_expires_at: number | null;
+}
+
+/**
+ * Selects failed jobs in the dead-letter view (all criteria must match)
+ */
+export interface FailedJobFilter {
+  jobIds?: string[];
+  errorPattern?: string | RegExp; // Matched against the final error (string = substring)
+  classification?: FailureClassification; // Classification of the last attempt
+  limit?: number;
+  offset?: number;
 }
 
 // ============================================================================
@@ -48,12 +87,14 @@ export interface TaskMeta {
   name: string;
   type: TaskType;
   merkleRoot: string | null;
+  resultRoot?: string | null; // Merkle root over (input, output) pairs, set when a deterministic task completes
   status: TaskStatus;
   totalJobs: number;
   completedJobs: number;
   failedJobs: number;
   createdAt: number;
   updatedAt: number;
+  dependsOn?: string[]; // Task IDs that must complete before this task starts
 }
 
 export interface TaskRecord {
@@ -67,6 +108,48 @@ export interface TaskRecord {
   failed_jobs: number;
   created_at: number;
   updated_at: number;
+  depends_on: string | null; // JSON serialized task ID array
+  result_root: string | null;
+}
+
+// ============================================================================
+// Schedule Types
+// ============================================================================
+
+export type ScheduleStatus = 'active' | 'paused';
+
+/**
+ * What to do with occurrences that passed while the hub was down or busy
+ * - skip: drop them, wait for the next future occurrence
+ * - catch-up-once: run a single task for all missed occurrences
+ * - catch-up-all: run one task per missed occurrence, oldest first
+ */
+export type MissedRunPolicy = 'skip' | 'catch-up-once' | 'catch-up-all';
+
+export interface ScheduleMeta {
+  id: string;
+  cron: string | null; // 5-field cron expression, evaluated in UTC
+  intervalMs: number | null; // Fixed interval (alternative to cron)
+  missedRunPolicy: MissedRunPolicy;
+  status: ScheduleStatus;
+  nextRunAt: number;
+  lastRunAt: number | null;
+  lastTaskId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScheduleRecord {
+  id: string;
+  cron: string | null;
+  interval_ms: number | null;
+  missed_run_policy: MissedRunPolicy;
+  status: ScheduleStatus;
+  next_run_at: number;
+  last_run_at: number | null;
+  last_task_id: string | null;
+  created_at: number;
+  updated_at: number;
 }
 
 // ============================================================================
@@ -103,6 +186,20 @@ export abstract class TaskSource<TInput = unknown, TOutput = unknown> {
    */
   getJobId?(input: TInput): string;
 
+  /**
+   * Optional: Declare the inputs this input depends on
+   * Returns job IDs (as produced by getJobId / generateJobId) of inputs in the
+   * same task that must complete before this one is claimed.
+   * Dynamic sources may only reference inputs yielded earlier.
+   */
+  getDependencies?(input: TInput): string[] | Promise<string[]>;
+
+  /**
+   * Optional: Priority for an input (higher is claimed first)
+   * Default: 0. Ties are claimed in input order.
+   */
+  getPriority?(input: TInput): number;
+
   /**
    * Optional: Determine if an error is retryable
    * Default: retry on network errors and 429/503
@@ -114,6 +211,13 @@ export abstract class TaskSource<TInput = unknown, TOutput = unknown> {
    * Default: check for 429/503 status codes
    */
   isRateLimited?(error: unknown): boolean;
+
+  /**
+   * Optional: How long the server asked us to wait, in ms
+   * Default: `retryAfterMs` on the error, or a Retry-After value (`retryAfter`
+   * property or header) in seconds or as an HTTP date
+   */
+  getRetryAfter?(error: unknown): number | undefined;
 }
 
 // ============================================================================
@@ -138,7 +242,9 @@ export interface TaskEvents<TInput = unknown, TOutput = unknown> {
   'job:complete': (job: Job<TInput, TOutput>) => void;
   'job:failed': (job: Job<TInput, TOutput>, error: Error) => void;
   'job:retry': (job: Job<TInput, TOutput>, attempt: number) => void;
+  'job:lease-lost': (job: Job<TInput, TOutput>) => void;
   'rate-limited': (concurrency: number) => void;
+  'quota-exhausted': (resetsAt: number) => void;
   completed: () => void;
   error: (error: Error) => void;
 }
@@ -164,20 +270,139 @@ export interface TaskConfig {
   concurrency?: Partial<ConcurrencyConfig>;
   retry?: Partial<RetryConfig>;
   timeout?: number; // ms per job
+  dependsOn?: string[]; // Task IDs that must complete before this task starts
+  weight?: number; // Share of the hub concurrency budget relative to other tasks (default 1)
+  rateLimit?: RateLimitConfig; // Hard request limits, enforced before AIMD
+  streaming?: boolean; // Dynamic tasks: start processing while the source is still producing
+  highWaterMark?: number; // Streaming: pending jobs at which ingestion waits for the dispatcher (default: 1000)
+  metricsLabel?: string; // Task label of metric series (default: name; runs of a schedule use the schedule ID)
+}
+
+/**
+ * Client-side rate limiting for APIs with published limits
+ * `rate` / `interval` form a token bucket kept in memory. `quotas` are fixed windows
+ * aligned to the epoch (a 1-day window resets at 00:00 UTC) whose usage is stored
+ * through the StorageAdapter, so restarts and other workers share the same budget.
+ */
+export interface RateLimitConfig {
+  rate?: number; // Requests per interval
+  interval?: number; // ms (default: 1000)
+  burst?: number; // Bucket capacity (default: rate)
+  quotas?: QuotaConfig[];
+  key?: string; // Quota key; tasks calling the same API should share it (default: task name)
+}
+
+export interface QuotaConfig {
+  limit: number; // Requests per window
+  windowMs: number; // e.g. 86_400_000 for a daily quota
 }
 
 export interface HubConfig {
   storage: 'auto' | 'memory' | 'bun-sqlite' | 'better-sqlite3' | 'opfs' | 'indexeddb';
   dbPath?: string; // For SQLite adapters
+  maxConcurrency?: number; // Global concurrency budget shared by all running tasks
+  lease?: LeaseConfig; // Enable leases so several workers can consume the same task
+  metrics?: Metrics; // Observability hooks, e.g. a MetricsCollector
   opfs?: {
     workerUrl?: string; // Path to opfs-worker.js (default: /lib/sqlite3/opfs-worker.js)
   };
 }
 
+/**
+ * Distributed claiming: claimed jobs are leased to a worker and renewed by heartbeat.
+ * A worker that stops heartbeating loses its jobs to whoever claims next.
+ */
+export interface LeaseConfig {
+  workerId?: string; // Unique per process / tab (default: random UUID)
+  durationMs?: number; // Lease length (default: 30000)
+  heartbeatInterval?: number; // How often active leases are renewed (default: durationMs / 3)
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export type AttemptOutcome = 'completed' | 'retry' | 'failed' | 'lease-lost';
+
+/**
+ * One handler attempt, shaped like an OpenTelemetry span
+ */
+export interface JobSpan {
+  name: 'taskhub.job';
+  traceId: string; // 32 hex chars, shared by every attempt in one dispatcher run
+  spanId: string; // 16 hex chars
+  startTime: number; // ms
+  endTime: number; // ms
+  status: { code: 'ok' | 'error'; message?: string };
+  attributes: {
+    'taskhub.task.id': string;
+    'taskhub.task.name': string;
+    'taskhub.task.label'?: string; // Stable series label (TaskConfig.metricsLabel, default: name)
+    'taskhub.job.id': string;
+    'taskhub.job.attempt': number;
+    'taskhub.job.outcome': AttemptOutcome;
+    'taskhub.job.classification'?: FailureClassification; // Failed attempts only
+  };
+}
+
+/**
+ * Where a rate-limit signal came from
+ * - response: the handler's error was classified as rate limited (AIMD decrease)
+ * - retry-after: the server said when to come back
+ * - quota: a persisted quota ran out
+ */
+export type RateLimitReason = 'response' | 'retry-after' | 'quota';
+
+/**
+ * Observability hooks called by every dispatcher of a hub
+ * All hooks are optional; errors thrown by a hook are logged and ignored.
+ */
+export interface Metrics {
+  onAttempt?(span: JobSpan): void;
+  onConcurrencyChange?(task: MetricsTask, concurrency: number): void;
+  onRateLimit?(task: MetricsTask, reason: RateLimitReason): void;
+  onTaskStop?(task: MetricsTask): void; // The task stopped processing: its gauges no longer apply
+}
+
+export interface MetricsTask {
+  id: string;
+  name: string;
+  label?: string; // Stable series label (TaskConfig.metricsLabel, default: name)
+}
+
 // ============================================================================
 // Storage Interface
 // ============================================================================
 
+export interface JobLease {
+  owner: string;
+  durationMs: number;
+}
+
+/**
+ * Thrown by completeJob/failJob when the caller no longer holds the job's lease
+ */
+export class LeaseLostError extends Error {
+  readonly jobId: string;
+  readonly owner: string;
+
+  constructor(jobId: string, owner: string) {
+    super(`Lease lost: job ${jobId} is no longer owned by ${owner}`);
+    this.name = 'LeaseLostError';
+    this.jobId = jobId;
+    this.owner = owner;
+  }
+}
+
+/**
+ * Current window of a persisted quota
+ */
+export interface QuotaWindow {
+  key: string; // Unique per quota, e.g. "etherscan:86400000"
+  windowStart: number;
+  limit: number;
+}
+
 export interface StorageAdapter {
   // Lifecycle
   initialize(): Promise<void>;
@@ -193,18 +418,34 @@ export interface StorageAdapter {
   // Job operations
   createJobs(jobs: Job[]): Promise<void>;
   getJob(jobId: string): Promise<Job | null>;
+  existingJobIds(jobIds: string[]): Promise<string[]>; // The subset of jobIds already stored
   getJobsByTask(taskId: string, status?: JobStatus, limit?: number, offset?: number): Promise<Job[]>;
   getJobCounts(taskId: string): Promise<{ pending: number; active: number; completed: number; failed: number }>;
 
   // Atomic operations for dispatcher
-  claimJobs(taskId: string, limit: number): Promise<Job[]>;
-  completeJob(jobId: string, output: unknown): Promise<void>;
-  failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number): Promise<void>;
-  resetActiveJobs(taskId: string): Promise<number>; // For crash recovery
+  claimJobs(taskId: string, limit: number, lease?: JobLease): Promise<Job[]>; // Also reclaims expired leases
+  completeJob(jobId: string, output: unknown, owner?: string): Promise<void>; // Throws LeaseLostError for a stale owner
+  failJob(jobId: string, error: string, canRetry: boolean, retryAfterMs?: number, attempt?: JobAttempt, owner?: string): Promise<void>; // attempt is appended to history
+  renewLeases(owner: string, jobIds: string[], durationMs: number): Promise<string[]>; // Returns the job IDs still owned
+  unclaimJobs(jobIds: string[], owner?: string): Promise<void>; // Back to pending without using an attempt
+  failDependents(taskId: string, jobId: string, error: string): Promise<Job[]>; // Cascade a terminal failure to pending dependents
+  resetActiveJobs(taskId: string): Promise<number>; // For crash recovery (skips jobs with a live lease)
   resetFailedJobs(taskId: string): Promise<number>; // For retrying failed jobs
+  requeueFailedJobs(taskId: string, jobIds: string[]): Promise<number>; // Selective retry, keeps history
+  discardFailedJobs(taskId: string, jobIds: string[]): Promise<number>; // Permanently delete failed jobs
 
   // Batch operations
   deleteJobsByTask(taskId: string): Promise<void>;
+
+  // Schedule operations
+  createSchedule(meta: ScheduleMeta): Promise<void>;
+  getSchedule(scheduleId: string): Promise<ScheduleMeta | null>;
+  updateSchedule(scheduleId: string, updates: Partial<ScheduleMeta>): Promise<void>;
+  deleteSchedule(scheduleId: string): Promise<void>;
+  listSchedules(): Promise<ScheduleMeta[]>;
+
+  // Quota operations
+  consumeQuota(windows: QuotaWindow[], count: number): Promise<number>; // Atomically use up to count units in every window, returns units granted
 }
 
 // ============================================================================
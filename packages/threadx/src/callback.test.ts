@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'bun:test';
+import { extractCallbacks, createCallbackClient, runCallback } from './callback';
+import type { WorkerToMainMessage } from './protocol';
+
+describe('callback', () => {
+  describe('extractCallbacks()', () => {
+    test('should replace top-level and nested functions with markers', () => {
+      const onProgress = () => {};
+      const info = () => {};
+      const { args, callbacks } = extractCallbacks([1, onProgress, { logger: { info }, level: 'debug' }, [info]]);
+
+      expect(args).toEqual([1, { $callback: 0 }, { logger: { info: { $callback: 1 } }, level: 'debug' }, [{ $callback: 2 }]]);
+      expect(callbacks).toEqual([onProgress, info, info]);
+    });
+
+    test('should return arguments without functions untouched', () => {
+      const data = { items: [1, 2, 3] };
+      const { args, callbacks } = extractCallbacks([data]);
+
+      expect(args[0]).toBe(data);
+      expect(callbacks).toHaveLength(0);
+    });
+  });
+
+  describe('runCallback()', () => {
+    test('should reject invocations of released callbacks', async () => {
+      const { reply } = await runCallback(
+        { $type: 'CALLBACK', $id: 1, callId: 9, index: 0, args: [] },
+        undefined
+      );
+
+      expect(reply.$type).toBe('CALLBACK_REJECT');
+      expect(reply).toMatchObject({ $id: 1, error: { message: expect.stringContaining('call 9') } });
+    });
+  });
+
+  describe('createCallbackClient()', () => {
+    test('should revive markers into stubs that post CALLBACK', async () => {
+      const sent: WorkerToMainMessage[] = [];
+      const client = createCallbackClient((message) => sent.push(message));
+
+      const [stub] = client.revive([{ $callback: 0 }], 5) as [(...args: unknown[]) => Promise<unknown>];
+      const result = stub('a', 1);
+
+      expect(sent).toEqual([{ $type: 'CALLBACK', $id: 1, callId: 5, index: 0, args: ['a', 1] }]);
+      expect(client.handle({ $type: 'CALLBACK_RESOLVE', $id: 1, value: 'ok' })).toBe(true);
+      expect(await result).toBe('ok');
+    });
+
+    test('should reject stubs with the main-thread error', async () => {
+      const client = createCallbackClient(() => {});
+      const [stub] = client.revive([{ $callback: 0 }], 1) as [() => Promise<unknown>];
+      const result = stub();
+
+      client.handle({ $type: 'CALLBACK_REJECT', $id: 1, error: { name: 'TypeError', message: 'bad' } });
+
+      await expect(result).rejects.toMatchObject({ name: 'TypeError', message: 'bad' });
+    });
+
+    test('should ignore messages that are not callback replies', () => {
+      const client = createCallbackClient(() => {});
+      expect(client.handle({ $type: 'CANCEL', $id: 1 })).toBe(false);
+    });
+  });
+});
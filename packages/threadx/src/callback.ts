@@ -0,0 +1,167 @@
+/**
+ * Function arguments the worker can call back on the main thread
+ *
+ * Main thread: functions in call arguments (top level, or nested in plain
+ * objects and arrays) are kept in the caller's thread and replaced by a
+ * `{ $callback: index }` marker. Worker side: markers are revived as async
+ * stubs that send CALLBACK and wait for CALLBACK_RESOLVE / CALLBACK_REJECT.
+ *
+ * A callback lives as long as the call it was passed to. Once that call has
+ * settled (or was cancelled / timed out), invoking the stub rejects.
+ */
+
+import type { CallbackMessage, MainToWorkerMessage, SerializedError, WorkerToMainMessage } from './protocol.js';
+import { serializeError } from './protocol.js';
+import { isTransferDescriptor } from './transfer.js';
+import { deserializeError } from './registry.js';
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/** Placeholder sent in place of a function */
+export interface CallbackMarker {
+  $callback: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isCallbackMarker(value: unknown): value is CallbackMarker {
+  return (
+    isPlainObject(value) && typeof value.$callback === 'number' && Object.keys(value).length === 1
+  );
+}
+
+/**
+ * Replace functions in call arguments with markers (main thread)
+ * Returns the functions in marker index order; empty when there are none.
+ */
+export function extractCallbacks(args: unknown[]): { args: unknown[]; callbacks: AnyFunction[] } {
+  const callbacks: AnyFunction[] = [];
+
+  function walk(value: unknown): unknown {
+    if (typeof value === 'function') {
+      callbacks.push(value as AnyFunction);
+      return { $callback: callbacks.length - 1 } satisfies CallbackMarker;
+    }
+    if (Array.isArray(value)) {
+      return value.some(containsFunction) ? value.map(walk) : value;
+    }
+    if (isPlainObject(value) && containsFunction(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item)]));
+    }
+    return value;
+  }
+
+  return { args: args.map(walk), callbacks };
+}
+
+function containsFunction(value: unknown): boolean {
+  if (typeof value === 'function') return true;
+  if (Array.isArray(value)) return value.some(containsFunction);
+  if (isPlainObject(value)) return Object.values(value).some(containsFunction);
+  return false;
+}
+
+/**
+ * Run a callback invoked by the worker and build the reply (main thread)
+ * `callback` is undefined when its call has already settled.
+ */
+export async function runCallback(
+  message: CallbackMessage,
+  callback: AnyFunction | undefined
+): Promise<{ reply: MainToWorkerMessage; transfer: Transferable[] }> {
+  const { $id } = message;
+  if (!callback) {
+    const error: SerializedError = {
+      name: 'Error',
+      message: `Callback is no longer available: call ${message.callId} has already finished`,
+    };
+    return { reply: { $type: 'CALLBACK_REJECT', $id, error }, transfer: [] };
+  }
+
+  try {
+    const value = await callback(...message.args);
+    if (isTransferDescriptor(value)) {
+      return { reply: { $type: 'CALLBACK_RESOLVE', $id, value: value.value }, transfer: value.transferables };
+    }
+    return { reply: { $type: 'CALLBACK_RESOLVE', $id, value }, transfer: [] };
+  } catch (error) {
+    return { reply: { $type: 'CALLBACK_REJECT', $id, error: serializeError(error) }, transfer: [] };
+  }
+}
+
+/** Pending invocation of a main-thread callback */
+interface PendingInvocation {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Worker-side end of callbacks: revives markers into stubs and settles their invocations
+ */
+export interface CallbackClient {
+  /** Replace markers in the arguments of call `callId` with async stubs (only for CALLs that carry callbacks) */
+  revive(args: unknown[], callId: number): unknown[];
+  /** Settle an invocation; returns false for messages that aren't callback replies */
+  handle(message: MainToWorkerMessage): boolean;
+}
+
+/**
+ * Create the worker-side end of callbacks
+ */
+export function createCallbackClient(
+  post: (message: WorkerToMainMessage, transfer?: Transferable[]) => void
+): CallbackClient {
+  let id = 0;
+  const pending = new Map<number, PendingInvocation>();
+
+  function stub(callId: number, index: number): AnyFunction {
+    return (...args: unknown[]) =>
+      new Promise<unknown>((resolve, reject) => {
+        const invocationId = ++id;
+        pending.set(invocationId, { resolve, reject });
+
+        const transfer: Transferable[] = [];
+        const values = args.map((arg) => {
+          if (isTransferDescriptor(arg)) {
+            transfer.push(...arg.transferables);
+            return arg.value;
+          }
+          return arg;
+        });
+        post({ $type: 'CALLBACK', $id: invocationId, callId, index, args: values }, transfer);
+      });
+  }
+
+  function revive(value: unknown, callId: number): unknown {
+    if (isCallbackMarker(value)) return stub(callId, value.$callback);
+    if (Array.isArray(value)) return value.map((item) => revive(item, callId));
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, revive(item, callId)]));
+    }
+    return value;
+  }
+
+  return {
+    revive: (args, callId) => args.map((arg) => revive(arg, callId)),
+
+    handle(message) {
+      if (message.$type !== 'CALLBACK_RESOLVE' && message.$type !== 'CALLBACK_REJECT') {
+        return false;
+      }
+      const invocation = pending.get(message.$id);
+      if (invocation) {
+        pending.delete(message.$id);
+        if (message.$type === 'CALLBACK_RESOLVE') {
+          invocation.resolve(message.value);
+        } else {
+          invocation.reject(deserializeError(message.error));
+        }
+      }
+      return true;
+    },
+  };
+}
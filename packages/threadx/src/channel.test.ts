@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'bun:test';
+import { ChannelReader, ChannelWriter, channelConfig, createChannel, toChunk } from './channel';
+import { TimeoutError } from './errors';
+
+function open(capacity: number) {
+  const descriptor = createChannel(channelConfig(Float64Array, { capacity }));
+  return {
+    reader: new ChannelReader(descriptor, Float64Array, 'test'),
+    writer: new ChannelWriter(descriptor),
+  };
+}
+
+describe('channel', () => {
+  describe('channelConfig()', () => {
+    test('should default the capacity', () => {
+      expect(channelConfig(Int32Array)).toEqual({ type: Int32Array, capacity: 65536 });
+    });
+
+    test('should reject invalid capacities', () => {
+      expect(() => channelConfig(Int32Array, { capacity: 0 })).toThrow(RangeError);
+      expect(() => channelConfig(Int32Array, { capacity: 1.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe('reader and writer', () => {
+    test('should read everything written so far as one chunk', async () => {
+      const { reader, writer } = open(16);
+
+      await writer.write(1);
+      await writer.write([2, 3]);
+      await writer.write(new Float64Array([4]));
+
+      expect(await reader.read(0)).toEqual(new Float64Array([1, 2, 3, 4]));
+    });
+
+    test('should return null once closed and drained', async () => {
+      const { reader, writer } = open(16);
+
+      await writer.write([1, 2]);
+      writer.close();
+
+      expect(await reader.read(0)).toEqual(new Float64Array([1, 2]));
+      expect(await reader.read(0)).toBeNull();
+    });
+
+    test('should wrap around the end of the ring', async () => {
+      const { reader, writer } = open(4);
+
+      await writer.write([1, 2, 3]);
+      await reader.read(0);
+      await writer.write([4, 5, 6]);
+
+      expect(await reader.read(0)).toEqual(new Float64Array([4, 5, 6]));
+    });
+
+    test('should make the writer wait while the ring is full', async () => {
+      const { reader, writer } = open(2);
+
+      let written = false;
+      const pending = writer.write([1, 2, 3, 4, 5]).then(() => (written = true));
+      await new Promise((r) => setTimeout(r, 20));
+      expect(written).toBe(false);
+
+      const values: number[] = [];
+      while (values.length < 5) {
+        values.push(...(await reader.read(0))!);
+      }
+
+      expect(await pending).toBe(true);
+      expect(values).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('should release a waiting writer when the reader cancels', async () => {
+      const { reader, writer } = open(2);
+
+      const pending = writer.write([1, 2, 3]);
+      reader.cancel();
+
+      expect(await pending).toBe(false);
+      expect(writer.cancelled).toBe(true);
+    });
+
+    test('should time out when nothing is written', async () => {
+      const { reader } = open(4);
+
+      await expect(reader.read(20)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test('should deliver buffered data before failing', async () => {
+      const { reader, writer } = open(4);
+
+      await writer.write(1);
+      reader.fail(new Error('worker crashed'));
+
+      expect(await reader.read(0)).toEqual(new Float64Array([1]));
+      await expect(reader.read(0)).rejects.toThrow('worker crashed');
+    });
+  });
+
+  describe('toChunk()', () => {
+    test('should convert numbers and arrays to typed arrays', () => {
+      expect(toChunk(1, Int16Array)).toEqual(new Int16Array([1]));
+      expect(toChunk([1, 2], Uint8Array)).toEqual(new Uint8Array([1, 2]));
+    });
+
+    test('should reject non-numeric values', () => {
+      expect(() => toChunk('text', Float64Array)).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * SharedArrayBuffer ring buffer for streaming numeric data
+ *
+ * One producer (the worker's generator) and one consumer (the main thread's
+ * for-await loop) share a ring of typed-array elements plus a small Int32 state
+ * block. Values never go through postMessage: the writer copies them into the
+ * ring, the reader takes everything available as one chunk. A full ring makes
+ * the writer wait (backpressure); an empty one makes the reader wait.
+ *
+ * Waiting uses Atomics.waitAsync where available and short polling otherwise,
+ * so neither side blocks its event loop.
+ */
+
+import type { ChannelDescriptor } from './protocol.js';
+import type { ChannelOptions, NumericArray, NumericArrayConstructor } from './types.js';
+import { TimeoutError } from './errors.js';
+
+/** Default ring size, in elements */
+export const DEFAULT_CAPACITY = 65536;
+
+/** Element type and ring size of a withChannel() proxy */
+export interface ChannelConfig {
+  type: NumericArrayConstructor<NumericArray>;
+  capacity: number;
+}
+
+/** Poll interval when Atomics.waitAsync is missing */
+const POLL_INTERVAL = 4;
+
+// Layout of the state block (Int32 slots)
+const WRITE_POS = 0;
+const READ_POS = 1;
+const AVAILABLE = 2;
+const CLOSED = 3;
+const CANCELLED = 4;
+/** Bumped on every change, the slot both sides wait on */
+const SEQ = 5;
+const STATE_SLOTS = 6;
+
+/**
+ * Whether SharedArrayBuffer can be used here
+ * Browsers only allow it on cross-origin isolated pages.
+ */
+export function isChannelSupported(): boolean {
+  if (typeof SharedArrayBuffer === 'undefined') return false;
+  const isolated = (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated;
+  return isolated !== false;
+}
+
+/**
+ * Resolve withChannel() arguments, validating the capacity up front
+ */
+export function channelConfig<A extends NumericArray>(
+  type: NumericArrayConstructor<A>,
+  options?: ChannelOptions
+): ChannelConfig {
+  const capacity = options?.capacity ?? DEFAULT_CAPACITY;
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new RangeError(`Channel capacity must be a positive integer, got ${capacity}`);
+  }
+  return { type, capacity };
+}
+
+/**
+ * Allocate the shared memory for one stream (main thread)
+ */
+export function createChannel({ type, capacity }: ChannelConfig): ChannelDescriptor {
+  return {
+    type: type.name,
+    data: new SharedArrayBuffer(capacity * type.BYTES_PER_ELEMENT),
+    state: new SharedArrayBuffer(STATE_SLOTS * Int32Array.BYTES_PER_ELEMENT),
+  };
+}
+
+/**
+ * Convert a streamed value to a chunk (fallback path, values came by message)
+ */
+export function toChunk<A extends NumericArray>(value: unknown, type: NumericArrayConstructor<A>): A {
+  return new type(toElements(value));
+}
+
+function toElements(value: unknown): ArrayLike<number> {
+  if (typeof value === 'number') return [value];
+  if (Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView))) {
+    return value as ArrayLike<number>;
+  }
+  throw new TypeError('Channel streams can only carry numbers, number arrays and typed arrays');
+}
+
+function slice(elements: ArrayLike<number>, start: number, end: number): ArrayLike<number> {
+  if (Array.isArray(elements)) return elements.slice(start, end);
+  return (elements as NumericArray).subarray(start, end);
+}
+
+/**
+ * Resolve after `view[index]` changes from `expected`, or after `timeout` ms
+ */
+async function waitChange(view: Int32Array, index: number, expected: number, timeout: number): Promise<void> {
+  if (typeof Atomics.waitAsync === 'function') {
+    const result = Atomics.waitAsync(view, index, expected, timeout);
+    if (result.async) await result.value;
+    return;
+  }
+  await new Promise((resolve) => setTimeout(resolve, Math.min(timeout, POLL_INTERVAL)));
+}
+
+/** Wake whoever waits on the other side */
+function bump(state: Int32Array): void {
+  Atomics.add(state, SEQ, 1);
+  Atomics.notify(state, SEQ);
+}
+
+/**
+ * Consumer end (main thread)
+ */
+export class ChannelReader<A extends NumericArray> {
+  private data: A;
+  private state: Int32Array;
+  private type: NumericArrayConstructor<A>;
+  private capacity: number;
+  private error: Error | null = null;
+
+  constructor(descriptor: ChannelDescriptor, type: NumericArrayConstructor<A>, private method: string) {
+    this.type = type;
+    this.data = new type(descriptor.data);
+    this.state = new Int32Array(descriptor.state);
+    this.capacity = this.data.length;
+  }
+
+  /**
+   * Next chunk of everything written so far, or null once the writer closed
+   * and the ring is drained. Rejects after `timeout` ms without data (0 = never).
+   */
+  async read(timeout: number): Promise<A | null> {
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+
+    for (;;) {
+      // Data written before an error is still delivered, like buffered YIELDs
+      const seq = Atomics.load(this.state, SEQ);
+      const available = Atomics.load(this.state, AVAILABLE);
+      if (available > 0) return this.take(available);
+      if (this.error) throw this.error;
+      if (Atomics.load(this.state, CLOSED)) return null;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new TimeoutError(this.method, timeout);
+      await waitChange(this.state, SEQ, seq, remaining);
+    }
+  }
+
+  /**
+   * Stop reading; the writer gives up on its next write
+   */
+  cancel(): void {
+    Atomics.store(this.state, CANCELLED, 1);
+    bump(this.state);
+  }
+
+  /**
+   * Fail the pending and future reads (worker error, abort, kill)
+   */
+  fail(error: Error): void {
+    this.error = error;
+    bump(this.state);
+  }
+
+  private take(count: number): A {
+    const chunk = new this.type(count);
+    const readPos = Atomics.load(this.state, READ_POS);
+    const first = Math.min(count, this.capacity - readPos);
+
+    chunk.set(this.data.subarray(readPos, readPos + first));
+    if (first < count) {
+      chunk.set(this.data.subarray(0, count - first), first);
+    }
+
+    Atomics.store(this.state, READ_POS, (readPos + count) % this.capacity);
+    Atomics.sub(this.state, AVAILABLE, count);
+    bump(this.state);
+    return chunk;
+  }
+}
+
+/**
+ * Producer end (worker side)
+ */
+export class ChannelWriter {
+  private data: NumericArray;
+  private state: Int32Array;
+  private capacity: number;
+
+  constructor(descriptor: ChannelDescriptor) {
+    const type = (globalThis as unknown as Record<string, NumericArrayConstructor<NumericArray>>)[descriptor.type];
+    this.data = new type(descriptor.data);
+    this.state = new Int32Array(descriptor.state);
+    this.capacity = this.data.length;
+  }
+
+  /** Whether the reader has gone away */
+  get cancelled(): boolean {
+    return Atomics.load(this.state, CANCELLED) === 1;
+  }
+
+  /**
+   * Copy a yielded value into the ring, waiting while it is full
+   * Resolves false if the reader cancelled before everything was written.
+   */
+  async write(value: unknown): Promise<boolean> {
+    const elements = toElements(value);
+    let offset = 0;
+
+    while (offset < elements.length) {
+      if (this.cancelled) return false;
+
+      const seq = Atomics.load(this.state, SEQ);
+      const free = this.capacity - Atomics.load(this.state, AVAILABLE);
+      if (free === 0) {
+        await waitChange(this.state, SEQ, seq, Infinity);
+        continue;
+      }
+
+      const count = Math.min(free, elements.length - offset);
+      const writePos = Atomics.load(this.state, WRITE_POS);
+      const first = Math.min(count, this.capacity - writePos);
+
+      this.data.set(slice(elements, offset, offset + first), writePos);
+      if (first < count) {
+        this.data.set(slice(elements, offset + first, offset + count), 0);
+      }
+      offset += count;
+
+      Atomics.store(this.state, WRITE_POS, (writePos + count) % this.capacity);
+      Atomics.add(this.state, AVAILABLE, count);
+      bump(this.state);
+    }
+    return !this.cancelled;
+  }
+
+  /**
+   * Mark the stream as finished
+   */
+  close(): void {
+    Atomics.store(this.state, CLOSED, 1);
+    bump(this.state);
+  }
+}
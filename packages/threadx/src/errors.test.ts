@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test';
-import { WorkerError, TimeoutError, InitError, UnsupportedRuntimeError } from './errors';
+import { WorkerError, TimeoutError, InitError, AbortError, UnsupportedRuntimeError } from './errors';
 
 describe('errors', () => {
   describe('WorkerError', () => {
@@ -67,6 +67,19 @@ describe('errors', () => {
     });
   });
 
+  describe('AbortError', () => {
+    test('should create AbortError with method name and reason', () => {
+      const reason = new Error('user cancelled');
+      const error = new AbortError('heavyTask', reason);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.name).toBe('AbortError');
+      expect(error.message).toBe("Call to 'heavyTask' was aborted");
+      expect(error.reason).toBe(reason);
+    });
+  });
+
   describe('UnsupportedRuntimeError', () => {
     test('should create UnsupportedRuntimeError with runtime name', () => {
       const error = new UnsupportedRuntimeError('cloudflare');
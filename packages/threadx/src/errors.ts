@@ -35,6 +35,20 @@ export class TimeoutError extends Error {
   }
 }
 
+/**
+ * Error thrown when a call is aborted through its AbortSignal
+ */
+export class AbortError extends Error {
+  /** The signal's abort reason */
+  reason: unknown;
+
+  constructor(method: string, reason?: unknown) {
+    super(`Call to '${method}' was aborted`);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
 /**
  * Error thrown when Worker initialization fails
  */
@@ -38,15 +38,30 @@
 
 // Main thread API
 export { wrap, kill } from './wrap.js';
+export { pool, resize } from './pool.js';
 export { t } from './transfer.js';
+export { registerError, unregisterError } from './registry.js';
+export { isChannelSupported } from './channel.js';
 
 // Error types
-export { WorkerError, TimeoutError, InitError, UnsupportedRuntimeError } from './errors.js';
+export { WorkerError, TimeoutError, InitError, AbortError, UnsupportedRuntimeError } from './errors.js';
 
 // Runtime detection utilities
 export { detectRuntime, isWorkerContext } from './adapters/index.js';
 
 // Types
-export type { WrapOptions, WrappedWorker, WorkerState } from './types.js';
+export type {
+  WrapOptions,
+  HealthCheckOptions,
+  RestartOptions,
+  WrappedWorker,
+  WorkerState,
+  PoolOptions,
+  PooledWorker,
+  CallContext,
+  ChannelOptions,
+  ChannelWorker,
+  NumericArray,
+} from './types.js';
 export type { TransferDescriptor } from './transfer.js';
 export type { RuntimeEnvironment } from './adapters/types.js';
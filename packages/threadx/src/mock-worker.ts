@@ -4,12 +4,16 @@
  */
 
 import type { MainToWorkerMessage, WorkerToMainMessage } from './protocol.js';
+import type { CallContext } from './types.js';
 import { serializeError } from './protocol.js';
+import { createCallbackClient } from './callback.js';
+import { deserializeError } from './registry.js';
+import { ChannelWriter } from './channel.js';
 
 type MessageHandler = (event: MessageEvent<WorkerToMainMessage>) => void;
 
 export interface MockWorkerMethods {
-  [key: string]: (...args: unknown[]) => unknown;
+  [key: string]: (this: CallContext, ...args: unknown[]) => unknown;
 }
 
 /**
@@ -24,6 +28,12 @@ export function createMockWorker(methods: MockWorkerMethods): Worker {
   // Track active generators for cancellation
   const activeGenerators = new Map<number, Generator | AsyncGenerator>();
 
+  // Abort controllers of running calls, behind each call's this.signal
+  const controllers = new Map<number, AbortController>();
+
+  // Stubs for function arguments
+  const callbacks = createCallbackClient((message) => sendMessage(message));
+
   const mockWorker = {
     postMessage(data: MainToWorkerMessage, _transfer?: Transferable[]) {
       if (isTerminated) return;
@@ -32,7 +42,18 @@ export function createMockWorker(methods: MockWorkerMethods): Worker {
       queueMicrotask(async () => {
         if (isTerminated) return;
 
+        if (callbacks.handle(data)) return;
+
+        if (data.$type === 'PING') {
+          sendMessage({ $type: 'PONG', $id: data.$id });
+          return;
+        }
+
         if (data.$type === 'CANCEL') {
+          const reason = data.reason && deserializeError(data.reason);
+          controllers.get(data.$id)?.abort(reason);
+          controllers.delete(data.$id);
+
           const gen = activeGenerators.get(data.$id);
           if (gen && 'return' in gen && typeof gen.return === 'function') {
             try {
@@ -58,20 +79,29 @@ export function createMockWorker(methods: MockWorkerMethods): Worker {
             return;
           }
 
+          const controller = new AbortController();
+          controllers.set($id, controller);
+
           try {
-            const result = fn(...args);
+            const result = fn.apply({ signal: controller.signal }, data.callbacks ? callbacks.revive(args, $id) : args);
 
             // Check if generator
             if (isGenerator(result)) {
               activeGenerators.set($id, result);
+              const writer = data.channel ? new ChannelWriter(data.channel) : null;
 
               try {
                 for await (const value of result as AsyncIterable<unknown>) {
                   if (!activeGenerators.has($id) || isTerminated) break;
-                  sendMessage({ $type: 'YIELD', $id, value });
+                  if (writer) {
+                    if (!(await writer.write(value))) break;
+                  } else {
+                    sendMessage({ $type: 'YIELD', $id, value });
+                  }
                 }
 
                 if (activeGenerators.has($id) && !isTerminated) {
+                  writer?.close();
                   sendMessage({ $type: 'DONE', $id });
                 }
               } finally {
@@ -87,6 +117,8 @@ export function createMockWorker(methods: MockWorkerMethods): Worker {
             if (!isTerminated) {
               sendMessage({ $type: 'REJECT', $id, error: serializeError(error) });
             }
+          } finally {
+            controllers.delete($id);
           }
         }
       });
@@ -0,0 +1,259 @@
+import { describe, test, expect } from 'bun:test';
+import { pool, resize } from './pool';
+import { wrap, kill } from './wrap';
+import { InitError, AbortError } from './errors';
+import { createMockWorker } from './mock-worker';
+import type { PooledWorker } from './types';
+
+interface PoolAPI {
+  whoami(): number;
+  add(a: number, b: number): number;
+  wait(ms: number): Promise<number>;
+  countdown(from: number): Generator<number>;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Mock workers numbered by creation order, each reporting its number
+function createFactory() {
+  const workers: Worker[] = [];
+  const factory = () => {
+    const index = workers.length;
+    const worker = createMockWorker({
+      whoami: () => index,
+      add: (a, b) => (a as number) + (b as number),
+      wait: async (ms) => {
+        await sleep(ms as number);
+        return index;
+      },
+      *countdown(from) {
+        for (let i = from as number; i >= 0; i--) yield i;
+      },
+    });
+    workers.push(worker);
+    return worker;
+  };
+  return { factory, workers };
+}
+
+// Simulate a worker crash through its onerror handler
+function crash(worker: Worker): void {
+  worker.onerror?.({ message: 'Worker crashed' } as ErrorEvent);
+}
+
+describe('pool', () => {
+  describe('basic calls', () => {
+    test('should call methods like a wrapped worker', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2 });
+
+      expect(await api.add(2, 3)).toBe(5);
+
+      kill(api);
+    });
+
+    test('should stream generator results', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2 });
+
+      const values: number[] = [];
+      for await (const n of api.countdown(3)) {
+        values.push(n);
+      }
+
+      expect(values).toEqual([3, 2, 1, 0]);
+      expect(api.$pending).toBe(0);
+
+      kill(api);
+    });
+
+    test('should spawn size workers up front', () => {
+      const { factory, workers } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 3 });
+
+      expect(workers).toHaveLength(3);
+      expect(api.$size).toBe(3);
+      expect(api.$worker).toEqual(workers);
+
+      kill(api);
+    });
+
+    test('should reject an invalid size', () => {
+      const { factory } = createFactory();
+      expect(() => pool<PoolAPI>(factory, { size: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('load balancing', () => {
+    test('should spread concurrent calls across workers', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 3 });
+
+      const results = await Promise.all([api.wait(20), api.wait(20), api.wait(20)]);
+
+      expect(new Set(results).size).toBe(3);
+
+      kill(api);
+    });
+
+    test('should send calls to the worker with the fewest pending calls', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2, concurrency: 2 });
+
+      const busy = api.wait(50);
+      await sleep(5);
+
+      const other = await api.whoami();
+      expect(other).not.toBe(await busy);
+
+      kill(api);
+    });
+
+    test('should queue calls while every worker is busy', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2 });
+
+      const calls = [api.wait(30), api.wait(30), api.wait(30)];
+      await sleep(5);
+
+      expect(api.$queued).toBe(1);
+      expect(api.$pending).toBe(3);
+
+      const start = Date.now();
+      await Promise.all(calls);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+      expect(api.$queued).toBe(0);
+
+      kill(api);
+    });
+  });
+
+  describe('crash recovery', () => {
+    test('should reject calls of a crashed worker and respawn it', async () => {
+      const { factory, workers } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 1 });
+
+      const call = api.wait(50);
+      await sleep(5);
+      crash(workers[0]);
+
+      await expect(Promise.resolve(call)).rejects.toBeInstanceOf(InitError);
+      expect(await api.whoami()).toBe(1);
+      expect(workers).toHaveLength(2);
+
+      kill(api);
+    });
+  });
+
+  describe('resize', () => {
+    test('should grow the pool at runtime', async () => {
+      const { factory, workers } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 1 });
+
+      resize(api, 3);
+
+      expect(workers).toHaveLength(3);
+      expect(api.$size).toBe(3);
+      const results = await Promise.all([api.wait(10), api.wait(10), api.wait(10)]);
+      expect(new Set(results).size).toBe(3);
+
+      kill(api);
+    });
+
+    test('should let busy workers finish before removing them', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2 });
+
+      const first = api.wait(30);
+      const second = api.wait(30);
+      await sleep(5);
+      resize(api, 1);
+
+      expect(api.$size).toBe(1);
+      expect(await Promise.all([first, second])).toEqual([0, 1]);
+      await sleep(5);
+      expect(api.$worker as unknown[]).toHaveLength(1);
+
+      kill(api);
+    });
+
+    test('should reject resize on a plain wrapped worker', () => {
+      const { factory } = createFactory();
+      const api = wrap<PoolAPI>(factory());
+
+      expect(() => resize(api as PooledWorker<PoolAPI>, 2)).toThrow(TypeError);
+
+      kill(api);
+    });
+  });
+
+  describe('abort signal', () => {
+    test('should drop a queued call when its signal aborts', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 1 });
+      const controller = new AbortController();
+
+      const running = api.wait(30);
+      const queued = api.withSignal(controller.signal).wait(30);
+      await sleep(5);
+      controller.abort();
+
+      await expect(Promise.resolve(queued)).rejects.toBeInstanceOf(AbortError);
+      expect(api.$queued).toBe(0);
+      expect(await running).toBe(0);
+
+      kill(api);
+    });
+
+    test('should abort a call running on a worker', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 1 });
+      const controller = new AbortController();
+
+      const call = api.withSignal(controller.signal).wait(50);
+      await sleep(5);
+      controller.abort();
+
+      await expect(Promise.resolve(call)).rejects.toBeInstanceOf(AbortError);
+      expect(api.$pending).toBe(0);
+      expect(await api.whoami()).toBe(0);
+
+      kill(api);
+    });
+  });
+
+  describe('channels', () => {
+    test('should stream through shared memory on the picked worker', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 2 });
+
+      const values: number[] = [];
+      for await (const chunk of api.withChannel(Int32Array, { capacity: 2 }).countdown(4)) {
+        expect(chunk).toBeInstanceOf(Int32Array);
+        values.push(...chunk);
+      }
+
+      expect(values).toEqual([4, 3, 2, 1, 0]);
+      expect(api.$pending).toBe(0);
+
+      kill(api);
+    });
+  });
+
+  describe('kill', () => {
+    test('should reject queued and pending calls', async () => {
+      const { factory } = createFactory();
+      const api = pool<PoolAPI>(factory, { size: 1 });
+
+      const running = api.wait(50);
+      const queued = api.wait(50);
+      await sleep(5);
+      kill(api);
+
+      await expect(Promise.resolve(running)).rejects.toBeInstanceOf(InitError);
+      await expect(Promise.resolve(queued)).rejects.toBeInstanceOf(InitError);
+      expect(api.$state).toBe('dead');
+      await expect(api.add(1, 2)).rejects.toBeInstanceOf(InitError);
+    });
+  });
+});
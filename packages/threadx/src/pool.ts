@@ -0,0 +1,349 @@
+/**
+ * Worker pool for ThreadX
+ */
+
+import { InitError, AbortError } from './errors.js';
+import type {
+  ChannelOptions,
+  NumericArray,
+  NumericArrayConstructor,
+  PoolOptions,
+  PooledWorker,
+  WorkerState,
+  WrappedWorker,
+} from './types.js';
+import { wrap, kill, proxyInternals, type CallOptions, type InternalState } from './wrap.js';
+import { channelConfig, type ChannelConfig } from './channel.js';
+
+/** Pool size when the runtime doesn't report hardwareConcurrency */
+const DEFAULT_SIZE = 4;
+
+/** What a wrapped method call returns: awaitable and iterable */
+type DualResult = PromiseLike<unknown> & AsyncIterable<unknown>;
+
+/** A member proxy, called by method name */
+type Member = WrappedWorker<unknown>;
+
+/** A call that has been handed to a member */
+interface Started {
+  result: DualResult;
+  /** Stream iterator, opened right away when the caller was already iterating */
+  iterator?: AsyncIterator<unknown>;
+}
+
+/** Call waiting for a free worker */
+interface Job {
+  method: string;
+  args: unknown[];
+  /** How the caller consumes the result, once known */
+  mode?: 'rpc' | 'stream';
+  /** Caller's signal, from withSignal() */
+  signal?: AbortSignal;
+  /** Shared-memory streaming, from withChannel() */
+  channel?: ChannelConfig;
+  /** Removes the abort listener that drops the job while it is queued */
+  cleanup?: () => void;
+  start: (started: Started) => void;
+  fail: (error: Error) => void;
+}
+
+/** resize() handles for each pool proxy */
+const poolResizers = new WeakMap<object, (size: number) => void>();
+
+function defaultSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return cores && cores > 0 ? cores : DEFAULT_SIZE;
+}
+
+function validateSize(size: number): void {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Pool size must be a positive integer, got ${size}`);
+  }
+}
+
+/**
+ * Create a pool of workers behind a single proxy
+ *
+ * Calls go to the worker with the fewest pending calls. When every worker already
+ * runs `concurrency` calls, new calls wait in a queue (their timeout starts once a
+ * worker picks them up). Crashed workers are replaced by new ones from the factory.
+ *
+ * @example
+ * import { pool, resize, kill } from '@shelchin/threadx'
+ * import type * as HashMethods from './hash.worker'
+ *
+ * const hasher = pool<typeof HashMethods>(() => new Worker('./hash.worker.js'), { size: 4 })
+ *
+ * const digests = await Promise.all(files.map((file) => hasher.sha256(file)))
+ *
+ * // Grow or shrink at runtime
+ * resize(hasher, 8)
+ *
+ * // Terminate every worker
+ * kill(hasher)
+ */
+export function pool<T>(factory: () => unknown, options?: PoolOptions): PooledWorker<T> {
+  const { size = defaultSize(), concurrency = 1, ...wrapOptions } = options ?? {};
+  validateSize(size);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(`Pool concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  let state: WorkerState = 'init';
+  let targetSize = size;
+  const members: Member[] = [];
+  // Workers removed by a downsize, killed once their calls finish
+  const retiring: Member[] = [];
+  const queue: Job[] = [];
+  let drainScheduled = false;
+
+  function spawn(): Member {
+    // The factory itself, so members with a restart policy can re-create their worker
+    return wrap<unknown>(factory, wrapOptions);
+  }
+
+  for (let i = 0; i < targetSize; i++) {
+    members.push(spawn());
+  }
+
+  function scheduleDrain(): void {
+    if (drainScheduled) return;
+    drainScheduled = true;
+    // Deferred so the caller has picked await or for-await before the call is sent
+    queueMicrotask(() => {
+      drainScheduled = false;
+      drain();
+    });
+  }
+
+  // Replace crashed workers, hand queued calls to free ones, kill idle retirees
+  function drain(): void {
+    if (state === 'dead') return;
+
+    for (let i = 0; i < members.length; i++) {
+      if (members[i].$state === 'dead') {
+        members[i] = spawn();
+      }
+    }
+
+    while (queue.length > 0) {
+      const member = pickMember();
+      if (!member) break;
+      dispatch(member, queue.shift()!);
+    }
+
+    for (let i = retiring.length - 1; i >= 0; i--) {
+      if (retiring[i].$pending === 0) {
+        kill(retiring[i]);
+        retiring.splice(i, 1);
+      }
+    }
+  }
+
+  // Least pending first, among workers that still have room
+  function pickMember(): Member | null {
+    let best: Member | null = null;
+    for (const member of members) {
+      if (member.$state === 'dead' || member.$pending >= concurrency) continue;
+      if (!best || member.$pending < best.$pending) {
+        best = member;
+      }
+    }
+    return best;
+  }
+
+  function dispatch(member: Member, job: Job): void {
+    job.cleanup?.();
+    let target = job.signal ? member.withSignal(job.signal) : member;
+    if (job.channel) {
+      target = target.withChannel(job.channel.type, { capacity: job.channel.capacity }) as Member;
+    }
+    const call = (target as unknown as Record<string, (...args: unknown[]) => DualResult>)[job.method];
+    const result = call(...job.args);
+
+    if (job.mode === 'stream') {
+      job.start({ result, iterator: result[Symbol.asyncIterator]() });
+    } else {
+      result.then(scheduleDrain, scheduleDrain);
+      job.start({ result });
+    }
+  }
+
+  function resizeTo(newSize: number): void {
+    validateSize(newSize);
+    if (state === 'dead') return;
+    targetSize = newSize;
+
+    while (members.length < targetSize) {
+      members.push(spawn());
+    }
+    if (members.length > targetSize) {
+      // Retire the least busy workers first
+      members.sort((a, b) => b.$pending - a.$pending);
+      retiring.push(...members.splice(targetSize));
+    }
+    scheduleDrain();
+  }
+
+  // Internal state for kill(), shared by every proxy of this pool
+  const internals: InternalState = {
+    setState: (newState: WorkerState) => {
+      state = newState;
+    },
+    rejectAll: (error: Error) => {
+      for (const job of queue) {
+        job.cleanup?.();
+        job.fail(error);
+      }
+      queue.length = 0;
+    },
+    terminate: () => {
+      for (const member of [...members, ...retiring]) {
+        kill(member);
+      }
+      members.length = 0;
+      retiring.length = 0;
+    },
+  };
+
+  // Wrap a member's stream so the pool hears when it ends
+  function releasingIterator(started: Promise<Started>): AsyncIterator<unknown> {
+    const inner = started.then(({ result, iterator }) => iterator ?? result[Symbol.asyncIterator]());
+
+    return {
+      async next(): Promise<IteratorResult<unknown>> {
+        const iterator = await inner;
+        try {
+          const item = await iterator.next();
+          if (item.done) scheduleDrain();
+          return item;
+        } catch (error) {
+          scheduleDrain();
+          throw error;
+        }
+      },
+
+      async return(): Promise<IteratorResult<unknown>> {
+        const iterator = await inner;
+        scheduleDrain();
+        return (await iterator.return?.()) ?? { value: undefined, done: true };
+      },
+    };
+  }
+
+  // Create a proxy whose calls use `callOptions`
+  function createProxy(callOptions: CallOptions): PooledWorker<T> {
+    const { signal, channel } = callOptions;
+    const proxy = new Proxy({} as PooledWorker<T>, {
+      get(_, prop: string | symbol) {
+        // State hooks
+        if (prop === '$state') {
+          if (state === 'dead') return state;
+          return members.some((member) => member.$state === 'ready') ? 'ready' : 'init';
+        }
+        if (prop === '$pending') {
+          return queue.length + [...members, ...retiring].reduce((sum, member) => sum + member.$pending, 0);
+        }
+        if (prop === '$queued') return queue.length;
+        if (prop === '$size') return targetSize;
+        if (prop === '$worker') return members.map((member) => member.$worker);
+        if (prop === 'withSignal') {
+          return (next: AbortSignal) => createProxy({ ...callOptions, signal: next });
+        }
+        if (prop === 'withChannel') {
+          return (type: NumericArrayConstructor<NumericArray>, channelOptions?: ChannelOptions) =>
+            createProxy({ ...callOptions, channel: channelConfig(type, channelOptions) });
+        }
+
+        // Symbol properties
+        if (typeof prop === 'symbol') return undefined;
+
+        // Method call
+        return (...args: unknown[]) => {
+          if (state === 'dead') {
+            return Promise.reject(new InitError('Worker is terminated'));
+          }
+          if (signal?.aborted) {
+            return Promise.reject(new AbortError(prop, signal.reason));
+          }
+
+          const job: Job = { method: prop, args, signal, channel, start: () => {}, fail: () => {} };
+          const started = new Promise<Started>((resolve, reject) => {
+            job.start = resolve;
+            job.fail = reject;
+          });
+          // Callers see the rejection through then() or next()
+          started.catch(() => {});
+
+          queue.push(job);
+          scheduleDrain();
+
+          // Aborting while queued drops the job; once dispatched, the member handles it
+          if (signal) {
+            const onAbort = () => {
+              const index = queue.indexOf(job);
+              if (index === -1) return;
+              queue.splice(index, 1);
+              job.fail(new AbortError(prop, signal.reason));
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            job.cleanup = () => signal.removeEventListener('abort', onAbort);
+          }
+
+          let rpcPromise: Promise<unknown> | null = null;
+          function rpc(): Promise<unknown> {
+            job.mode ??= 'rpc';
+            rpcPromise ??= started.then(({ result }) => result);
+            return rpcPromise;
+          }
+
+          // Same dual-mode object as wrap()
+          return {
+            then<TResult1 = unknown, TResult2 = never>(
+              onfulfilled?: ((value: unknown) => TResult1 | PromiseLike<TResult1>) | null,
+              onrejected?: ((reason: Error) => TResult2 | PromiseLike<TResult2>) | null
+            ): Promise<TResult1 | TResult2> {
+              return rpc().then(onfulfilled, onrejected) as Promise<TResult1 | TResult2>;
+            },
+
+            catch<TResult = never>(
+              onrejected?: ((reason: Error) => TResult | PromiseLike<TResult>) | null
+            ): Promise<unknown | TResult> {
+              return rpc().catch(onrejected);
+            },
+
+            finally(onfinally?: (() => void) | null): Promise<unknown> {
+              return rpc().finally(onfinally);
+            },
+
+            [Symbol.asyncIterator](): AsyncIterator<unknown> {
+              job.mode ??= 'stream';
+              return releasingIterator(started);
+            },
+          };
+        };
+      },
+    });
+
+    proxyInternals.set(proxy, internals);
+    poolResizers.set(proxy, resizeTo);
+
+    return proxy;
+  }
+
+  return createProxy({});
+}
+
+/**
+ * Change the number of workers in a pool
+ *
+ * Growing spawns new workers right away. Shrinking stops sending calls to the
+ * surplus workers and kills each one once its pending calls have finished.
+ */
+export function resize<T>(proxy: PooledWorker<T>, size: number): void {
+  const resizeTo = poolResizers.get(proxy);
+  if (!resizeTo) {
+    throw new TypeError('resize() expects a proxy created by pool()');
+  }
+  resizeTo(size);
+}
@@ -71,5 +71,41 @@ describe('protocol', () => {
       expect(serialized.name).toBe('Error');
       expect(serialized.message).toBe('[object Object]');
     });
+
+    test('should serialize the cause chain', () => {
+      const error = new Error('outer', { cause: new TypeError('inner', { cause: 'root' }) });
+      const serialized = serializeError(error);
+
+      expect(serialized.cause?.name).toBe('TypeError');
+      expect(serialized.cause?.message).toBe('inner');
+      expect(serialized.cause?.props).toEqual({ cause: 'root' });
+    });
+
+    test('should stop at cause cycles', () => {
+      const error = new Error('loop');
+      (error as Error & { cause: unknown }).cause = error;
+
+      expect(serializeError(error).cause).toBeUndefined();
+    });
+
+    test('should serialize AggregateError.errors', () => {
+      const serialized = serializeError(new AggregateError([new Error('a'), 'b'], 'both'));
+
+      expect(serialized.errors).toEqual([
+        expect.objectContaining({ name: 'Error', message: 'a' }),
+        { name: 'Error', message: 'b' },
+      ]);
+    });
+
+    test('should keep cloneable enumerable own properties', () => {
+      const error = Object.assign(new Error('Request failed'), {
+        status: 503,
+        headers: { 'retry-after': '5' },
+        retry: () => {},
+      });
+      const serialized = serializeError(error);
+
+      expect(serialized.props).toEqual({ status: 503, headers: { 'retry-after': '5' } });
+    });
   });
 });
@@ -9,20 +9,82 @@ export interface CallMessage {
   $id: number;
   method: string;
   args: unknown[];
+  /** Number of function arguments replaced by { $callback } markers (omitted when none) */
+  callbacks?: number;
+  /** Shared ring buffer a generator result is streamed through instead of YIELD */
+  channel?: ChannelDescriptor;
+}
+
+export interface ChannelDescriptor {
+  /** Typed array constructor name, e.g. 'Float64Array' */
+  type: string;
+  /** Ring of elements */
+  data: SharedArrayBuffer;
+  /** Int32 positions and flags */
+  state: SharedArrayBuffer;
 }
 
 export interface CancelMessage {
   $type: 'CANCEL';
   $id: number;
+  /** Why the call was cancelled, becomes the worker-side signal's reason */
+  reason?: SerializedError;
+}
+
+export interface CallbackResolveMessage {
+  $type: 'CALLBACK_RESOLVE';
+  $id: number;
+  value: unknown;
+}
+
+export interface CallbackRejectMessage {
+  $type: 'CALLBACK_REJECT';
+  $id: number;
+  error: SerializedError;
+}
+
+/** Answer to READY with `init`: configuration for the worker's init hook */
+export interface InitMessage {
+  $type: 'INIT';
+  config: unknown;
 }
 
-export type MainToWorkerMessage = CallMessage | CancelMessage;
+/** Health check, answered with PONG */
+export interface PingMessage {
+  $type: 'PING';
+  $id: number;
+}
+
+export type MainToWorkerMessage =
+  | CallMessage
+  | CancelMessage
+  | CallbackResolveMessage
+  | CallbackRejectMessage
+  | InitMessage
+  | PingMessage;
 
 // ============ Worker → Main Thread ============
 
 export interface ReadyMessage {
   $type: 'READY';
   methods: string[];
+  /** The worker has an init hook and waits for INIT before taking calls */
+  init?: boolean;
+}
+
+export interface InitResolveMessage {
+  $type: 'INIT_RESOLVE';
+}
+
+export interface InitRejectMessage {
+  $type: 'INIT_REJECT';
+  error: SerializedError;
+}
+
+export interface PongMessage {
+  $type: 'PONG';
+  /** Id of the PING being answered */
+  $id: number;
 }
 
 export interface ResolveMessage {
@@ -48,12 +110,27 @@ export interface DoneMessage {
   $id: number;
 }
 
+export interface CallbackMessage {
+  $type: 'CALLBACK';
+  /** Invocation id, chosen by the worker */
+  $id: number;
+  /** Id of the CALL the callback was passed to */
+  callId: number;
+  /** Marker index of the callback within that call */
+  index: number;
+  args: unknown[];
+}
+
 export type WorkerToMainMessage =
   | ReadyMessage
   | ResolveMessage
   | RejectMessage
   | YieldMessage
-  | DoneMessage;
+  | DoneMessage
+  | CallbackMessage
+  | InitResolveMessage
+  | InitRejectMessage
+  | PongMessage;
 
 // ============ Error Serialization ============
 
@@ -61,15 +138,59 @@ export interface SerializedError {
   name: string;
   message: string;
   stack?: string;
+  /** Error.cause, when it is an Error (other cause values travel in props) */
+  cause?: SerializedError;
+  /** AggregateError.errors */
+  errors?: SerializedError[];
+  /** Enumerable own properties (e.g. an HTTP status), only those that can be cloned */
+  props?: Record<string, unknown>;
 }
 
-export function serializeError(error: unknown): SerializedError {
+/** Properties carried by the fields above */
+const RESERVED_PROPS = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+function isCloneable(value: unknown): boolean {
+  try {
+    structuredClone(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function serializeError(error: unknown, seen: WeakSet<object> = new WeakSet()): SerializedError {
   if (error instanceof Error) {
-    return {
+    seen.add(error);
+    const serialized: SerializedError = {
       name: error.name,
       message: error.message,
       stack: error.stack,
     };
+
+    const props: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(error)) {
+      if (!RESERVED_PROPS.has(key) && isCloneable(value)) {
+        props[key] = value;
+      }
+    }
+
+    // Skip causes already on the chain, so cycles terminate
+    if ('cause' in error && error.cause !== undefined) {
+      if (error.cause instanceof Error) {
+        if (!seen.has(error.cause)) serialized.cause = serializeError(error.cause, seen);
+      } else if (isCloneable(error.cause)) {
+        props.cause = error.cause;
+      }
+    }
+
+    if (error instanceof AggregateError && Array.isArray(error.errors)) {
+      serialized.errors = error.errors.map((item) => serializeError(item, seen));
+    }
+
+    if (Object.keys(props).length > 0) {
+      serialized.props = props;
+    }
+    return serialized;
   }
   return {
     name: 'Error',
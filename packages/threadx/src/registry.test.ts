@@ -0,0 +1,64 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { registerError, unregisterError, deserializeError } from './registry';
+import { serializeError } from './protocol';
+import { WorkerError } from './errors';
+
+class ValidationError extends Error {
+  field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = 'ValidationError';
+    this.field = field;
+  }
+}
+
+describe('registry', () => {
+  afterEach(() => {
+    unregisterError('ValidationError');
+    unregisterError('Invalid');
+  });
+
+  test('should rebuild registered classes without calling the constructor', () => {
+    registerError(ValidationError);
+
+    const error = deserializeError(serializeError(new ValidationError('email', 'Email is required')));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.name).toBe('ValidationError');
+    expect(error.message).toBe('Email is required');
+    expect((error as ValidationError).field).toBe('email');
+    expect(Object.keys(error)).toEqual(['field']);
+  });
+
+  test('should register under an explicit name', () => {
+    registerError(ValidationError, 'Invalid');
+
+    const error = deserializeError({ name: 'Invalid', message: 'bad' });
+
+    expect(error).toBeInstanceOf(ValidationError);
+  });
+
+  test('should fall back to WorkerError', () => {
+    const callSite = new Error();
+    const error = deserializeError({ name: 'ValidationError', message: 'bad', props: { field: 'name' } }, callSite);
+
+    expect(error).toBeInstanceOf(WorkerError);
+    expect(error.name).toBe('ValidationError');
+    expect((error as WorkerError & { field: string }).field).toBe('name');
+  });
+
+  test('should rebuild causes and aggregated errors recursively', () => {
+    registerError(ValidationError);
+
+    const error = deserializeError({
+      name: 'AggregateError',
+      message: 'failed',
+      errors: [{ name: 'ValidationError', message: 'a' }],
+      cause: { name: 'ValidationError', message: 'b' },
+    });
+
+    expect((error as AggregateError).errors[0]).toBeInstanceOf(ValidationError);
+    expect(error.cause).toBeInstanceOf(ValidationError);
+  });
+});
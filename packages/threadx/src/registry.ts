@@ -0,0 +1,100 @@
+/**
+ * Registry of error classes that keep their identity across the worker boundary
+ *
+ * An error is sent as a SerializedError. On the receiving side, an error whose
+ * name is registered is rebuilt as an instance of that class, so `instanceof`
+ * works; any other error becomes a WorkerError carrying the original name.
+ * Register the same classes on both sides (e.g. in a module that both the main
+ * thread and the worker import).
+ */
+
+import type { SerializedError } from './protocol.js';
+import { WorkerError } from './errors.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ErrorClass = abstract new (...args: any[]) => Error;
+
+/**
+ * Kept on globalThis so the main entry and the worker entry share one registry
+ * even when they are bundled separately into the same thread
+ */
+const REGISTRY_KEY = Symbol.for('threadx.errorRegistry');
+
+function registry(): Map<string, ErrorClass> {
+  const scope = globalThis as { [REGISTRY_KEY]?: Map<string, ErrorClass> };
+  return (scope[REGISTRY_KEY] ??= new Map());
+}
+
+/**
+ * Register an error class so errors with its name are rebuilt as instances of it
+ *
+ * `name` must match the `name` property of the errors (default: the class name).
+ * Pass it explicitly when the code is minified or the class sets its own name.
+ * The constructor is not called: the instance is created from the prototype and
+ * gets the message, stack, cause and enumerable properties of the original.
+ *
+ * @example
+ * class HttpError extends Error {
+ *   constructor(public status: number, message: string) {
+ *     super(message)
+ *     this.name = 'HttpError'
+ *   }
+ * }
+ * registerError(HttpError)
+ *
+ * try {
+ *   await api.fetchUser(1)
+ * } catch (e) {
+ *   if (e instanceof HttpError && e.status === 404) { ... }
+ * }
+ */
+export function registerError(errorClass: ErrorClass, name: string = errorClass.name): void {
+  registry().set(name, errorClass);
+}
+
+/**
+ * Remove a registered error name
+ */
+export function unregisterError(name: string): void {
+  registry().delete(name);
+}
+
+/**
+ * Rebuild an error from its serialized form
+ * `callSite` is only used for errors that fall back to WorkerError.
+ */
+export function deserializeError(serialized: SerializedError, callSite?: Error): Error {
+  const errorClass = registry().get(serialized.name);
+
+  let error: Error;
+  if (errorClass) {
+    error = Object.create(errorClass.prototype) as Error;
+    // Own, non-enumerable fields, like the ones Error's constructor creates
+    Object.defineProperties(error, {
+      name: { value: serialized.name, writable: true, configurable: true },
+      message: { value: serialized.message, writable: true, configurable: true },
+      stack: { value: serialized.stack, writable: true, configurable: true },
+    });
+  } else {
+    error = new WorkerError(serialized, callSite);
+  }
+
+  if (serialized.cause) {
+    Object.defineProperty(error, 'cause', {
+      value: deserializeError(serialized.cause),
+      writable: true,
+      configurable: true,
+    });
+  }
+  if (serialized.errors) {
+    Object.defineProperty(error, 'errors', {
+      value: serialized.errors.map((item) => deserializeError(item)),
+      writable: true,
+      configurable: true,
+    });
+  }
+  if (serialized.props) {
+    Object.assign(error, serialized.props);
+  }
+  return error;
+}
@@ -0,0 +1,13 @@
+/**
+ * Error class shared by the test worker and the tests (for error registry testing)
+ */
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
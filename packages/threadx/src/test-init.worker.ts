@@ -0,0 +1,27 @@
+/**
+ * Init Worker - receives its configuration through the init handshake
+ */
+
+import { expose } from './worker.js';
+
+interface Config {
+  greeting: string;
+  fail?: boolean;
+}
+
+let config: Config | null = null;
+
+expose(
+  {
+    greet(name: string): string {
+      return `${config!.greeting}, ${name}`;
+    },
+  },
+  {
+    async init(received: Config) {
+      await new Promise((r) => setTimeout(r, 20));
+      if (received.fail) throw new Error('Invalid config');
+      config = received;
+    },
+  }
+);
@@ -2,11 +2,26 @@
  * Test Worker - contains all methods needed for unit tests
  */
 
-import { expose } from './worker.js';
+import { expose, registerError } from './worker.js';
+import { HttpError } from './test-errors.js';
+
+registerError(HttpError);
 
 // For testing pending resolution
 let pendingResolvers: Map<string, () => void> = new Map();
 
+// For testing callback lifetime
+let storedCallback: (() => Promise<void>) | null = null;
+
+// For testing signal propagation
+let lastAbortReason: string | null = null;
+
+// For testing channel backpressure
+let channelWritten = 0;
+
+// For telling a restarted worker from the original
+const instanceId = Math.random();
+
 expose({
   // === Basic RPC ===
   add(a: number, b: number): number {
@@ -50,6 +65,14 @@ expose({
     throw new TypeError('Invalid type');
   },
 
+  throwHttpError(): void {
+    throw new HttpError(404, 'User not found', { cause: new RangeError('id out of range') });
+  },
+
+  throwAggregate(): void {
+    throw new AggregateError([new Error('first'), new HttpError(500, 'second')], 'Several failed');
+  },
+
   // === Timeout ===
   async slowMethod(): Promise<string> {
     await new Promise((r) => setTimeout(r, 1000));
@@ -121,6 +144,108 @@ expose({
     }
   },
 
+  // === Callbacks ===
+  async withProgress(count: number, onProgress: (done: number) => Promise<void>): Promise<number> {
+    for (let i = 1; i <= count; i++) {
+      await onProgress(i);
+    }
+    return count;
+  },
+
+  async useFetcher(fetcher: { get(id: number): Promise<string> }, id: number): Promise<string> {
+    return (await fetcher.get(id)).toUpperCase();
+  },
+
+  async catchCallbackError(callback: () => Promise<void>): Promise<string> {
+    try {
+      await callback();
+      return 'no error';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  },
+
+  async catchCallbackResultError(callback: () => Promise<unknown>): Promise<string> {
+    try {
+      await callback();
+      return 'no error';
+    } catch (error) {
+      return `${(error as Error).name}: ${(error as Error).message}`;
+    }
+  },
+
+  storeCallback(callback: () => Promise<void>): void {
+    storedCallback = callback;
+  },
+
+  async callStoredCallback(): Promise<string> {
+    try {
+      await storedCallback?.();
+      return 'called';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  },
+
+  // === Abort ===
+  async abortableLoop(steps: number): Promise<string> {
+    for (let i = 0; i < steps; i++) {
+      if (this.signal.aborted) {
+        lastAbortReason = (this.signal.reason as Error).name;
+        throw this.signal.reason;
+      }
+      await new Promise((r) => setTimeout(r, 10));
+    }
+    return 'finished';
+  },
+
+  getLastAbortReason(): string | null {
+    return lastAbortReason;
+  },
+
+  // === Channels ===
+  *samples(count: number, batch: number) {
+    for (let start = 0; start < count; start += batch) {
+      const chunk = new Float64Array(Math.min(batch, count - start));
+      for (let i = 0; i < chunk.length; i++) chunk[i] = (start + i) / 2;
+      yield chunk;
+    }
+  },
+
+  *counted(count: number) {
+    channelWritten = 0;
+    for (let i = 0; i < count; i++) {
+      yield i;
+      channelWritten = i + 1;
+    }
+  },
+
+  getChannelWritten(): number {
+    return channelWritten;
+  },
+
+  *notNumeric() {
+    yield 'text';
+  },
+
+  // === Lifecycle ===
+  getInstanceId(): number {
+    return instanceId;
+  },
+
+  crash(): void {
+    setTimeout(() => {
+      throw new Error('Worker crashed');
+    });
+  },
+
+  block(ms: number): void {
+    const end = Date.now() + ms;
+    while (Date.now() < end) {
+      // Busy loop: no messages (or pings) are handled meanwhile
+    }
+  },
+
   // === Transferables ===
   processBuffer(buffer: ArrayBuffer): number {
     return buffer.byteLength;
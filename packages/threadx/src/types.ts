@@ -4,8 +4,9 @@
 
 /**
  * Worker state
+ * 'restarting' is the backoff delay between a crash and the new worker's 'init'.
  */
-export type WorkerState = 'init' | 'ready' | 'dead';
+export type WorkerState = 'init' | 'ready' | 'restarting' | 'dead';
 
 /**
  * Options for wrap()
@@ -15,6 +16,93 @@ export interface WrapOptions {
   timeout?: number;
   /** Debug name for logging */
   name?: string;
+  /** Passed to the worker's init hook (see expose options) before any call */
+  config?: unknown;
+  /** Ping the worker periodically; an unanswered ping counts as a crash */
+  healthCheck?: HealthCheckOptions;
+  /** Re-create the worker after a crash (wrap() must get a worker factory) */
+  restart?: RestartOptions;
+  /** Called on every state change */
+  onStateChange?: (state: WorkerState, previous: WorkerState) => void;
+}
+
+/**
+ * Options for health checks
+ */
+export interface HealthCheckOptions {
+  /** Time between pings in milliseconds */
+  interval: number;
+  /** Time to wait for the answer (default: interval) */
+  timeout?: number;
+}
+
+/**
+ * Restart policy for crashed workers
+ */
+export interface RestartOptions {
+  /** Restarts allowed over the proxy's lifetime before it goes 'dead' (default: 3) */
+  maxRestarts?: number;
+  /** Delay before the first restart in milliseconds, doubled on each restart (default: 100) */
+  backoff?: number;
+  /** Upper bound of the delay (default: 10000) */
+  maxBackoff?: number;
+  /**
+   * Methods safe to run twice: their calls in flight during a crash are sent
+   * again to the new worker instead of being rejected (not streams, and not
+   * calls with transferred arguments)
+   */
+  idempotent?: string[];
+}
+
+/**
+ * Options for expose()
+ */
+export interface ExposeOptions<C = unknown> {
+  /** Runs with the main thread's `config` before the first call; throwing fails the worker */
+  init?: (config: C) => void | Promise<void>;
+}
+
+/**
+ * Typed arrays a channel can stream
+ */
+export type NumericArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array;
+
+/**
+ * Constructor of a NumericArray (Float64Array, Int32Array, ...)
+ */
+export interface NumericArrayConstructor<A extends NumericArray> {
+  new (length: number): A;
+  new (values: ArrayLike<number>): A;
+  new (buffer: ArrayBufferLike): A;
+  readonly BYTES_PER_ELEMENT: number;
+  readonly name: string;
+}
+
+/**
+ * Options for withChannel()
+ */
+export interface ChannelOptions {
+  /** Ring buffer size in elements (default: 65536) */
+  capacity?: number;
+}
+
+/**
+ * Options for pool()
+ */
+export interface PoolOptions extends WrapOptions {
+  /** Number of workers (default: navigator.hardwareConcurrency, or 4) */
+  size?: number;
+  /** Calls one worker runs at a time before the pool queues (default: 1) */
+  concurrency?: number;
 }
 
 /**
@@ -33,10 +121,18 @@ interface TransferMarker<T> {
 type MaybeTransfer<T> = T | TransferMarker<T>;
 
 /**
- * Convert each parameter to allow TransferDescriptor wrapping
+ * A function parameter as seen by the caller: the worker gets an async stub,
+ * so the main-thread function may return the value directly or a Promise of it
+ */
+type LocalCallback<T> = T extends (...args: infer P) => infer R
+  ? (...args: P) => Awaited<R> | Promise<Awaited<R>>
+  : T;
+
+/**
+ * Convert each parameter to allow TransferDescriptor wrapping and main-thread callbacks
  */
 type TransferableArgs<A extends unknown[]> = {
-  [K in keyof A]: MaybeTransfer<A[K]>;
+  [K in keyof A]: MaybeTransfer<LocalCallback<A[K]>>;
 };
 
 /**
@@ -45,6 +141,7 @@ type TransferableArgs<A extends unknown[]> = {
  * - AsyncGenerator<T> → AsyncIterable<T>
  * - T | Promise<T> → Promise<T>
  * - Parameters can be wrapped with t() for transfer
+ * - Function parameters are called back on the main thread
  */
 export type Promisify<T> = T extends (...args: infer A) => Generator<infer Y, unknown, unknown>
   ? (...args: TransferableArgs<A>) => AsyncIterable<Y>
@@ -63,9 +160,18 @@ export type WrapModule<T> = {
 };
 
 /**
- * The wrapped worker proxy type with state hooks
+ * Convert a module so its streaming methods yield chunks of A (see withChannel)
+ */
+export type ChannelModule<T, A extends NumericArray> = {
+  [K in keyof WrapModule<T>]: WrapModule<T>[K] extends (...args: infer P) => AsyncIterable<unknown>
+    ? (...args: P) => AsyncIterable<A>
+    : WrapModule<T>[K];
+};
+
+/**
+ * State hooks and call options shared by every proxy
  */
-export type WrappedWorker<T> = WrapModule<T> & {
+export interface WorkerHooks<T> {
   /** Current worker state */
   readonly $state: WorkerState;
   /** Number of pending calls */
@@ -76,4 +182,39 @@ export type WrappedWorker<T> = WrapModule<T> & {
    * - Node.js: worker_threads.Worker
    */
   readonly $worker: unknown;
+  /** Same proxy, but calls made through it are aborted when `signal` aborts */
+  withSignal(signal: AbortSignal): WrappedWorker<T>;
+  /**
+   * Same proxy, but streaming calls made through it go through a SharedArrayBuffer
+   * ring and yield typed-array chunks (falls back to messages without SharedArrayBuffer)
+   */
+  withChannel<A extends NumericArray>(type: NumericArrayConstructor<A>, options?: ChannelOptions): ChannelWorker<T, A>;
+}
+
+/**
+ * The wrapped worker proxy type with state hooks
+ */
+export type WrappedWorker<T> = WrapModule<T> & WorkerHooks<T>;
+
+/**
+ * A proxy from withChannel()
+ */
+export type ChannelWorker<T, A extends NumericArray> = ChannelModule<T, A> & WorkerHooks<T>;
+
+/**
+ * Context of a call, available as `this` inside exposed methods
+ */
+export interface CallContext {
+  /** Aborted when the caller aborts, the call times out, or a stream is cancelled */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * The pool proxy type: same calls as a single worker, spread over several
+ */
+export type PooledWorker<T> = WrappedWorker<T> & {
+  /** Number of workers the pool keeps alive */
+  readonly $size: number;
+  /** Calls waiting for a free worker */
+  readonly $queued: number;
 };
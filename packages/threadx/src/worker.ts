@@ -2,15 +2,23 @@
  * Worker-side API for ThreadX
  */
 
-import type { MainToWorkerMessage, WorkerToMainMessage } from './protocol.js';
+import type { MainToWorkerMessage, ReadyMessage, WorkerToMainMessage } from './protocol.js';
+import type { CallContext, ExposeOptions } from './types.js';
 import { serializeError } from './protocol.js';
 import { isTransferDescriptor } from './transfer.js';
 import { createWorkerSideAdapter, type WorkerSideAdapter } from './adapters/index.js';
+import { createCallbackClient } from './callback.js';
+import { deserializeError } from './registry.js';
+import { ChannelWriter } from './channel.js';
 
 // Re-export t() for Worker-side use
 export { t } from './transfer.js';
+export type { CallContext, ExposeOptions } from './types.js';
+export { registerError, unregisterError } from './registry.js';
 
-type AnyFunction = (...args: unknown[]) => unknown;
+// Parameters are `any` so methods with typed parameters (and callback stubs) are accepted
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyFunction = (...args: any[]) => unknown;
 type MethodMap = Record<string, AnyFunction>;
 
 /**
@@ -103,10 +111,42 @@ function postMessage(adapter: WorkerSideAdapter, message: WorkerToMainMessage):
  *     for (let i = 0; i <= total; i++) {
  *       yield i
  *     }
+ *   },
+ *
+ *   // this.signal aborts when the caller aborts (see wrap().withSignal)
+ *   async render(frames: number) {
+ *     for (let i = 0; i < frames; i++) {
+ *       if (this.signal.aborted) throw this.signal.reason
+ *       await renderFrame(i)
+ *     }
+ *   },
+ *
+ *   // Function arguments arrive as async stubs calling back to the main thread
+ *   async crawl(urls: string[], onPage: (url: string) => Promise<void>) {
+ *     for (const url of urls) {
+ *       await onPage(url)
+ *     }
  *   }
  * })
  *
  * @example
+ * // Configuration from wrap(worker, { config }), received before any call
+ * let db: Database
+ *
+ * expose(
+ *   {
+ *     query(sql: string) {
+ *       return db.query(sql)
+ *     }
+ *   },
+ *   {
+ *     async init(config: { url: string }) {
+ *       db = await connect(config.url)
+ *     }
+ *   }
+ * )
+ *
+ * @example
  * // Node.js worker_threads
  * import { expose } from '@shelchin/threadx/worker'
  *
@@ -116,7 +156,10 @@ function postMessage(adapter: WorkerSideAdapter, message: WorkerToMainMessage):
  *   }
  * })
  */
-export function expose<T extends MethodMap>(methods: T): void {
+export function expose<T extends MethodMap, C = unknown>(
+  methods: T & ThisType<CallContext>,
+  options?: ExposeOptions<C>
+): void {
   const methodNames = Object.keys(methods);
 
   // Create adapter for this worker context
@@ -125,15 +168,53 @@ export function expose<T extends MethodMap>(methods: T): void {
   // Track active generators for cancellation
   const activeGenerators = new Map<number, Generator | AsyncGenerator>();
 
-  // Send ready message
-  adapter.postMessage({ $type: 'READY', methods: methodNames } satisfies WorkerToMainMessage);
+  // Abort controllers of running calls, behind each call's this.signal
+  const controllers = new Map<number, AbortController>();
+
+  // Stubs for function arguments, calling back to the main thread
+  const callbacks = createCallbackClient((message, transfer) => {
+    if (transfer?.length) {
+      adapter.postMessage(message, transfer);
+    } else {
+      adapter.postMessage(message);
+    }
+  });
+
+  // Send ready message; with an init hook, the main thread answers with INIT
+  const ready: ReadyMessage = { $type: 'READY', methods: methodNames };
+  if (options?.init) ready.init = true;
+  adapter.postMessage(ready);
 
   // Handle incoming messages
   adapter.onMessage(async (data: unknown) => {
     const msg = data as MainToWorkerMessage;
 
+    // Answer health checks
+    if (msg.$type === 'PING') {
+      postMessage(adapter, { $type: 'PONG', $id: msg.$id });
+      return;
+    }
+
+    // Run the init hook with the main thread's config
+    if (msg.$type === 'INIT') {
+      try {
+        await options?.init?.(msg.config as C);
+        postMessage(adapter, { $type: 'INIT_RESOLVE' });
+      } catch (error) {
+        postMessage(adapter, { $type: 'INIT_REJECT', error: serializeError(error) });
+      }
+      return;
+    }
+
+    // Handle replies to callback invocations
+    if (callbacks.handle(msg)) return;
+
     // Handle cancellation
     if (msg.$type === 'CANCEL') {
+      const reason = msg.reason && deserializeError(msg.reason);
+      controllers.get(msg.$id)?.abort(reason);
+      controllers.delete(msg.$id);
+
       const gen = activeGenerators.get(msg.$id);
       if (gen && 'return' in gen && typeof gen.return === 'function') {
         try {
@@ -161,12 +242,18 @@ export function expose<T extends MethodMap>(methods: T): void {
         return;
       }
 
+      const controller = new AbortController();
+      controllers.set($id, controller);
+      const context: CallContext = { signal: controller.signal };
+
       try {
-        const result = fn(...args);
+        const result = fn.apply(context, msg.callbacks ? callbacks.revive(args, $id) : args);
 
         // Handle Generator/AsyncGenerator → streaming
         if (isGenerator(result) || isAsyncGenerator(result)) {
           activeGenerators.set($id, result);
+          // withChannel() calls stream through shared memory instead of YIELD messages
+          const writer = msg.channel ? new ChannelWriter(msg.channel) : null;
 
           try {
             // Use for-await to handle both sync and async generators
@@ -175,11 +262,17 @@ export function expose<T extends MethodMap>(methods: T): void {
               if (!activeGenerators.has($id)) {
                 break;
               }
-              postMessageWithValue(adapter, 'YIELD', $id, value);
+              if (writer) {
+                // Waits while the ring is full; false once the reader is gone
+                if (!(await writer.write(unwrapValue(value).actualValue))) break;
+              } else {
+                postMessageWithValue(adapter, 'YIELD', $id, value);
+              }
             }
 
             // Only send DONE if not cancelled
             if (activeGenerators.has($id)) {
+              writer?.close();
               postMessage(adapter, { $type: 'DONE', $id });
             }
           } finally {
@@ -196,6 +289,8 @@ export function expose<T extends MethodMap>(methods: T): void {
           $id,
           error: serializeError(error),
         });
+      } finally {
+        controllers.delete($id);
       }
     }
   });
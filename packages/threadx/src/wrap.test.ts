@@ -1,7 +1,10 @@
 import { describe, test, expect } from 'bun:test';
 import { wrap, kill } from './wrap';
 import { t } from './transfer';
-import { WorkerError, TimeoutError, InitError } from './errors';
+import { WorkerError, TimeoutError, InitError, AbortError } from './errors';
+import { registerError, unregisterError } from './registry';
+import { HttpError } from './test-errors';
+import type { WorkerState } from './types';
 
 // Helper to create real worker
 function createTestWorker() {
@@ -31,6 +34,49 @@ interface TestAPI {
   processBuffer(buffer: ArrayBuffer): number;
   combineBuffers(buf1: ArrayBuffer, buf2: ArrayBuffer): number;
   nonExistent(): void;
+  throwHttpError(): void;
+  throwAggregate(): void;
+  withProgress(count: number, onProgress: (done: number) => Promise<void>): Promise<number>;
+  useFetcher(fetcher: { get(id: number): Promise<string> }, id: number): Promise<string>;
+  catchCallbackError(callback: () => Promise<void>): Promise<string>;
+  storeCallback(callback: () => Promise<void>): void;
+  callStoredCallback(): Promise<string>;
+  abortableLoop(steps: number): Promise<string>;
+  getLastAbortReason(): string | null;
+  samples(count: number, batch: number): Generator<Float64Array>;
+  counted(count: number): Generator<number>;
+  getChannelWritten(): number;
+  notNumeric(): Generator<string>;
+  getInstanceId(): number;
+  crash(): void;
+  block(ms: number): void;
+}
+
+interface InitAPI {
+  greet(name: string): string;
+}
+
+function createInitWorker() {
+  return new Worker(new URL('./test-init.worker.ts', import.meta.url).href);
+}
+
+// Resolve once the proxy reaches `state`
+function waitForState(states: WorkerState[], state: WorkerState): Promise<void> {
+  return new Promise((resolve) => {
+    const check = setInterval(() => {
+      if (states.includes(state)) {
+        clearInterval(check);
+        resolve();
+      }
+    }, 5);
+  });
+}
+
+// Collect a channel stream into one array
+async function collect(stream: AsyncIterable<ArrayLike<number>>): Promise<number[]> {
+  const values: number[] = [];
+  for await (const chunk of stream) values.push(...Array.from(chunk));
+  return values;
 }
 
 describe('wrap', () => {
@@ -169,6 +215,70 @@ describe('wrap', () => {
     });
   });
 
+  describe('error registry', () => {
+    test('should rebuild registered error classes with fields and cause', async () => {
+      registerError(HttpError);
+      const api = wrap<TestAPI>(createTestWorker());
+
+      let caught: unknown;
+      try {
+        await api.throwHttpError();
+        expect.unreachable('Should have thrown');
+      } catch (e) {
+        caught = e;
+      } finally {
+        unregisterError('HttpError');
+      }
+
+      expect(caught).toBeInstanceOf(HttpError);
+      expect((caught as HttpError).status).toBe(404);
+      expect((caught as HttpError).message).toBe('User not found');
+      expect((caught as HttpError).cause).toBeInstanceOf(WorkerError);
+      expect(((caught as HttpError).cause as Error).name).toBe('RangeError');
+
+      kill(api);
+    });
+
+    test('should fall back to WorkerError for unregistered classes', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      let caught: unknown;
+      try {
+        await api.throwHttpError();
+      } catch (e) {
+        caught = e;
+      }
+
+      expect(caught).toBeInstanceOf(WorkerError);
+      expect((caught as WorkerError).name).toBe('HttpError');
+      expect((caught as { status?: number }).status).toBe(404);
+
+      kill(api);
+    });
+
+    test('should keep the errors of an AggregateError', async () => {
+      registerError(HttpError);
+      const api = wrap<TestAPI>(createTestWorker());
+
+      let caught: unknown;
+      try {
+        await api.throwAggregate();
+      } catch (e) {
+        caught = e;
+      } finally {
+        unregisterError('HttpError');
+      }
+
+      const errors = (caught as AggregateError).errors;
+      expect((caught as Error).name).toBe('AggregateError');
+      expect(errors).toHaveLength(2);
+      expect(errors[0].message).toBe('first');
+      expect(errors[1]).toBeInstanceOf(HttpError);
+
+      kill(api);
+    });
+  });
+
   describe('timeout', () => {
     test('should timeout slow methods', async () => {
       const api = wrap<TestAPI>(createTestWorker(), { timeout: 50 });
@@ -318,6 +428,350 @@ describe('wrap', () => {
     });
   });
 
+  describe('callbacks', () => {
+    test('should let the worker call a function argument', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const seen: number[] = [];
+      const result = await api.withProgress(3, (done) => {
+        seen.push(done);
+      });
+
+      expect(result).toBe(3);
+      expect(seen).toEqual([1, 2, 3]);
+
+      kill(api);
+    });
+
+    test('should return callback results to the worker', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const result = await api.useFetcher({ get: async (id) => `item-${id}` }, 7);
+
+      expect(result).toBe('ITEM-7');
+
+      kill(api);
+    });
+
+    test('should reject the worker-side call when the callback throws', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const result = await api.catchCallbackError(() => {
+        throw new Error('Main thread failed');
+      });
+
+      expect(result).toBe('Main thread failed');
+
+      kill(api);
+    });
+
+    test('should reject the worker-side call when the callback result cannot be cloned', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const fn = await api.catchCallbackResultError(() => () => 'not cloneable');
+      const symbol = await api.catchCallbackResultError(() => Symbol('not cloneable'));
+
+      expect(fn).toContain('DataCloneError');
+      expect(symbol).toContain('DataCloneError');
+
+      kill(api);
+    });
+
+    test('should release callbacks once their call has finished', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      let called = false;
+      await api.storeCallback(() => {
+        called = true;
+      });
+      const result = await api.callStoredCallback();
+
+      expect(called).toBe(false);
+      expect(result).toContain('no longer available');
+
+      kill(api);
+    });
+  });
+
+  describe('abort signal', () => {
+    test('should reject with AbortError and abort the worker-side signal', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+      const controller = new AbortController();
+
+      const call = api.withSignal(controller.signal).abortableLoop(100);
+      setTimeout(() => controller.abort('user cancelled'), 30);
+
+      let caught: unknown;
+      try {
+        await call;
+        expect.unreachable('Should have thrown');
+      } catch (e) {
+        caught = e;
+      }
+      expect(caught).toBeInstanceOf(AbortError);
+      expect((caught as AbortError).reason).toBe('user cancelled');
+      expect(api.$pending).toBe(0);
+
+      await new Promise((r) => setTimeout(r, 30));
+      expect(await api.getLastAbortReason()).toBe('AbortError');
+
+      kill(api);
+    });
+
+    test('should not send calls whose signal is already aborted', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const call = api.withSignal(AbortSignal.abort()).add(1, 2);
+
+      await expect(call).rejects.toBeInstanceOf(AbortError);
+      expect(api.$pending).toBe(0);
+
+      kill(api);
+    });
+
+    test('should end a stream when its signal aborts', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+      const controller = new AbortController();
+
+      const values: number[] = [];
+      let caught: unknown;
+      try {
+        for await (const n of api.withSignal(controller.signal).infiniteStream()) {
+          values.push(n);
+          if (n === 2) controller.abort();
+        }
+      } catch (e) {
+        caught = e;
+      }
+
+      expect(caught).toBeInstanceOf(AbortError);
+      expect(values).toEqual([0, 1, 2]);
+      expect(api.$pending).toBe(0);
+
+      kill(api);
+    });
+
+    test('should abort the worker-side signal on timeout', async () => {
+      const api = wrap<TestAPI>(createTestWorker(), { timeout: 30 });
+
+      await expect(Promise.resolve(api.abortableLoop(100))).rejects.toBeInstanceOf(TimeoutError);
+      await new Promise((r) => setTimeout(r, 30));
+
+      expect(await api.getLastAbortReason()).toBe('TimeoutError');
+
+      kill(api);
+    });
+
+    test('should leave calls without the signal alone', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+      const controller = new AbortController();
+
+      const aborted = api.withSignal(controller.signal).abortableLoop(3);
+      const plain = api.abortableLoop(3);
+      controller.abort();
+
+      await expect(Promise.resolve(aborted)).rejects.toBeInstanceOf(AbortError);
+      expect(await plain).toBe('finished');
+
+      kill(api);
+    });
+  });
+
+  describe('channels', () => {
+    test('should stream typed-array chunks through shared memory', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const chunks: Float64Array[] = [];
+      for await (const chunk of api.withChannel(Float64Array).samples(1000, 64)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.every((chunk) => chunk instanceof Float64Array)).toBe(true);
+      const values = chunks.flatMap((chunk) => Array.from(chunk));
+      expect(values).toHaveLength(1000);
+      expect(values[999]).toBe(499.5);
+
+      kill(api);
+    });
+
+    test('should wrap around a ring smaller than the stream', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const values = await collect(api.withChannel(Int32Array, { capacity: 7 }).counted(100));
+
+      expect(values).toEqual(Array.from({ length: 100 }, (_, i) => i));
+
+      kill(api);
+    });
+
+    test('should make the worker wait while the ring is full', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      const iterator = api.withChannel(Int32Array, { capacity: 4 }).counted(1000)[Symbol.asyncIterator]();
+      await iterator.next();
+      await new Promise((r) => setTimeout(r, 50));
+
+      // One chunk read, at most one more ring's worth written
+      expect(await api.getChannelWritten()).toBeLessThan(20);
+
+      await iterator.return?.();
+      kill(api);
+    });
+
+    test('should stop the worker when breaking out early', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      for await (const chunk of api.withChannel(Int32Array, { capacity: 4 }).counted(1000)) {
+        expect(chunk.length).toBeGreaterThan(0);
+        break;
+      }
+      await new Promise((r) => setTimeout(r, 50));
+      const written = await api.getChannelWritten();
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(await api.getChannelWritten()).toBe(written);
+      expect(api.$pending).toBe(0);
+
+      kill(api);
+    });
+
+    test('should reject values that are not numeric', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      await expect(collect(api.withChannel(Float64Array).notNumeric())).rejects.toThrow('can only carry numbers');
+
+      kill(api);
+    });
+
+    test('should keep awaiting non-streaming methods', async () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      expect(await api.withChannel(Float64Array).add(2, 3)).toBe(5);
+
+      kill(api);
+    });
+
+    test('should fall back to messages without cross-origin isolation', async () => {
+      const scope = globalThis as { crossOriginIsolated?: boolean };
+      const api = wrap<TestAPI>(createTestWorker());
+
+      scope.crossOriginIsolated = false;
+      try {
+        const chunks: Int32Array[] = [];
+        for await (const chunk of api.withChannel(Int32Array).counted(3)) {
+          chunks.push(chunk);
+        }
+        expect(chunks).toEqual([new Int32Array([0]), new Int32Array([1]), new Int32Array([2])]);
+      } finally {
+        delete scope.crossOriginIsolated;
+      }
+
+      kill(api);
+    });
+
+    test('should reject invalid capacities', () => {
+      const api = wrap<TestAPI>(createTestWorker());
+
+      expect(() => api.withChannel(Float64Array, { capacity: 0 })).toThrow(RangeError);
+
+      kill(api);
+    });
+  });
+
+  describe('lifecycle', () => {
+    test('should report state changes', async () => {
+      const states: WorkerState[] = [];
+      const api = wrap<TestAPI>(createTestWorker(), { onStateChange: (state) => states.push(state) });
+
+      await api.add(1, 2);
+      kill(api);
+
+      expect(states).toEqual(['ready', 'dead']);
+    });
+
+    test('should pass config to the init hook before the first call', async () => {
+      const api = wrap<InitAPI>(createInitWorker(), { config: { greeting: 'Hello' } });
+
+      expect(await api.greet('ThreadX')).toBe('Hello, ThreadX');
+
+      kill(api);
+    });
+
+    test('should fail with InitError when the init hook throws', async () => {
+      const api = wrap<InitAPI>(createInitWorker(), { config: { greeting: 'Hello', fail: true } });
+
+      await expect(Promise.resolve(api.greet('ThreadX'))).rejects.toThrow('Worker init failed: Invalid config');
+      expect(api.$state).toBe('dead');
+    });
+
+    test('should treat an unanswered health check as a crash', async () => {
+      const api = wrap<TestAPI>(createTestWorker(), { healthCheck: { interval: 30 } });
+
+      await api.add(1, 2);
+      const call = api.block(500);
+
+      await expect(Promise.resolve(call)).rejects.toThrow('health check');
+      expect(api.$state).toBe('dead');
+    });
+
+    test('should require a factory to restart', () => {
+      const worker = createTestWorker();
+      expect(() => wrap<TestAPI>(worker, { restart: {} })).toThrow(TypeError);
+      worker.terminate();
+    });
+
+    test('should restart a crashed worker and replay idempotent calls', async () => {
+      const states: WorkerState[] = [];
+      const api = wrap<TestAPI>(createTestWorker, {
+        restart: { backoff: 10, idempotent: ['slowMethod'] },
+        onStateChange: (state) => states.push(state),
+      });
+
+      const original = await api.getInstanceId();
+      const replayed = api.slowMethod();
+      const lost = api.slowMethodWithCallback();
+      await api.crash();
+
+      await expect(Promise.resolve(lost)).rejects.toBeInstanceOf(InitError);
+      expect(await replayed).toBe('done');
+      expect(await api.getInstanceId()).not.toBe(original);
+      expect(states).toEqual(['ready', 'restarting', 'init', 'ready']);
+
+      kill(api);
+    });
+
+    test('should restart an unresponsive worker', async () => {
+      const states: WorkerState[] = [];
+      const api = wrap<TestAPI>(createTestWorker, {
+        healthCheck: { interval: 30 },
+        restart: { backoff: 10 },
+        onStateChange: (state) => states.push(state),
+      });
+
+      await expect(Promise.resolve(api.block(500))).rejects.toBeInstanceOf(InitError);
+      expect(await api.add(2, 3)).toBe(5);
+      expect(states).toContain('restarting');
+
+      kill(api);
+    });
+
+    test('should give up after maxRestarts', async () => {
+      const states: WorkerState[] = [];
+      const api = wrap<TestAPI>(createTestWorker, {
+        restart: { maxRestarts: 1, backoff: 10 },
+        onStateChange: (state) => states.push(state),
+      });
+
+      await api.crash();
+      await waitForState(states, 'restarting');
+      await api.crash();
+      await waitForState(states, 'dead');
+
+      expect(states).toEqual(['ready', 'restarting', 'init', 'ready', 'dead']);
+      await expect(Promise.resolve(api.add(1, 2))).rejects.toBeInstanceOf(InitError);
+    });
+  });
+
   describe('transferables', () => {
     test('should handle transferable arguments', async () => {
       const api = wrap<TestAPI>(createTestWorker());
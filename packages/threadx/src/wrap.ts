@@ -2,23 +2,53 @@
  * Main thread API for ThreadX
  */
 
-import type { WorkerToMainMessage, CallMessage, CancelMessage, SerializedError } from './protocol.js';
-import { WorkerError, TimeoutError, InitError } from './errors.js';
+import type {
+  WorkerToMainMessage,
+  CallMessage,
+  CallbackRejectMessage,
+  CancelMessage,
+  InitMessage,
+  PingMessage,
+} from './protocol.js';
+import { serializeError } from './protocol.js';
+import { TimeoutError, InitError, AbortError } from './errors.js';
+import { deserializeError } from './registry.js';
 import { prepareArgs } from './transfer.js';
-import type { WorkerState, WrapOptions, WrappedWorker } from './types.js';
+import { extractCallbacks, runCallback } from './callback.js';
+import { ChannelReader, channelConfig, createChannel, isChannelSupported, toChunk, type ChannelConfig } from './channel.js';
+import type {
+  ChannelOptions,
+  NumericArray,
+  NumericArrayConstructor,
+  WorkerState,
+  WrapOptions,
+  WrappedWorker,
+} from './types.js';
 import { createMainThreadAdapter, type MainThreadAdapter } from './adapters/index.js';
 
 /** Default timeout in milliseconds */
 const DEFAULT_TIMEOUT = 30000;
 
+/** Restart policy defaults */
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_BACKOFF = 100;
+const DEFAULT_MAX_BACKOFF = 10000;
+
 /** Internal state for kill() to access */
-interface InternalState {
+export interface InternalState {
   setState: (state: WorkerState) => void;
   rejectAll: (error: Error) => void;
+  terminate: () => void;
+}
+
+/** Options a proxy applies to its calls, set by withSignal() and withChannel() */
+export interface CallOptions {
+  signal?: AbortSignal;
+  channel?: ChannelConfig;
 }
 
-/** WeakMap to store internal state for each proxy */
-const proxyInternals = new WeakMap<object, InternalState>();
+/** WeakMap to store internal state for each proxy (wrap() and pool() both register here) */
+export const proxyInternals = new WeakMap<object, InternalState>();
 
 /** Pending RPC call */
 interface PendingCall {
@@ -27,6 +57,8 @@ interface PendingCall {
   method: string;
   callSite: Error;
   timeoutId?: ReturnType<typeof setTimeout>;
+  /** Message to send again after a restart (idempotent methods only) */
+  replay?: QueuedCall;
 }
 
 /** Pending streaming call */
@@ -49,11 +81,12 @@ interface QueuedCall {
  * Create an AsyncIterable for streaming results
  */
 function createAsyncIterable<T>(
-  adapter: MainThreadAdapter,
+  cancel: () => void,
   id: number,
   pending: Map<number, PendingStream>,
   timeout: number,
-  method: string
+  method: string,
+  release: () => void
 ): AsyncIterable<T> {
   // Buffer for values received before consumed
   const buffer: T[] = [];
@@ -78,8 +111,9 @@ function createAsyncIterable<T>(
         waitingReject = null;
       }
       pending.delete(id);
+      release();
       // Send cancel to worker
-      adapter.postMessage({ $type: 'CANCEL', $id: id } satisfies CancelMessage);
+      cancel();
     }, timeout);
   }
 
@@ -98,7 +132,8 @@ function createAsyncIterable<T>(
             waitingReject = null;
           }
           pending.delete(id);
-          adapter.postMessage({ $type: 'CANCEL', $id: id } satisfies CancelMessage);
+          release();
+          cancel();
         }, timeout);
       }
 
@@ -162,8 +197,9 @@ function createAsyncIterable<T>(
           // Called when for-await is broken
           if (timeoutId) clearTimeout(timeoutId);
           pending.delete(id);
+          release();
           // Send cancel to worker
-          adapter.postMessage({ $type: 'CANCEL', $id: id } satisfies CancelMessage);
+          cancel();
           return { value: undefined as T, done: true };
         },
       };
@@ -171,6 +207,94 @@ function createAsyncIterable<T>(
   };
 }
 
+/**
+ * Create an AsyncIterable reading a withChannel() stream from shared memory
+ * Chunks come from the ring, not from YIELD messages; the pending entry only
+ * carries errors. The timeout applies to each wait for data.
+ */
+function createChannelIterable<A extends NumericArray>(
+  cancel: () => void,
+  id: number,
+  pending: Map<number, PendingStream>,
+  timeout: number,
+  method: string,
+  release: () => void,
+  reader: ChannelReader<A>
+): AsyncIterable<A> {
+  pending.set(id, {
+    push: () => {},
+    done: () => {},
+    error: (err: Error) => reader.fail(err),
+    method,
+    callSite: new Error(),
+  });
+
+  return {
+    [Symbol.asyncIterator]() {
+      return {
+        async next(): Promise<IteratorResult<A>> {
+          try {
+            const chunk = await reader.read(timeout);
+            if (chunk === null) {
+              return { value: undefined as unknown as A, done: true };
+            }
+            return { value: chunk, done: false };
+          } catch (error) {
+            if (error instanceof TimeoutError && pending.has(id)) {
+              // Later reads fail the same way
+              reader.fail(error);
+              pending.delete(id);
+              release();
+              cancel();
+            }
+            throw error;
+          }
+        },
+
+        async return(): Promise<IteratorResult<A>> {
+          // Called when for-await is broken
+          pending.delete(id);
+          release();
+          cancel();
+          return { value: undefined as unknown as A, done: true };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Convert a message stream to typed-array chunks (withChannel() without SharedArrayBuffer)
+ */
+function toChunks<A extends NumericArray>(
+  iterable: AsyncIterable<unknown>,
+  type: NumericArrayConstructor<A>
+): AsyncIterable<A> {
+  return {
+    [Symbol.asyncIterator]() {
+      const iterator = iterable[Symbol.asyncIterator]();
+      return {
+        async next(): Promise<IteratorResult<A>> {
+          const item = await iterator.next();
+          if (item.done) return { value: undefined as unknown as A, done: true };
+          try {
+            return { value: toChunk(item.value, type), done: false };
+          } catch (error) {
+            // Not numeric data: stop the worker's generator
+            await iterator.return?.();
+            throw error;
+          }
+        },
+
+        async return(): Promise<IteratorResult<A>> {
+          await iterator.return?.();
+          return { value: undefined as unknown as A, done: true };
+        },
+      };
+    },
+  };
+}
+
 /**
  * Wrap a Worker for seamless RPC communication
  *
@@ -195,19 +319,101 @@ function createAsyncIterable<T>(
  * for await (const progress of calc.process(data)) {
  *   console.log(progress)
  * }
+ *
+ * // Abortable call: rejects with AbortError, the worker sees this.signal abort
+ * const controller = new AbortController()
+ * const result = calc.withSignal(controller.signal).heavy(input)
+ *
+ * @example
+ * // Factory + restart policy: crashed or unresponsive workers are re-created
+ * const calc = wrap<typeof CalcMethods>(() => new Worker('./calc.worker.js'), {
+ *   config: { precision: 8 },
+ *   healthCheck: { interval: 5000 },
+ *   restart: { maxRestarts: 5, idempotent: ['add'] },
+ *   onStateChange: (state) => console.log('calc worker', state),
+ * })
+ *
+ * // Numeric streams through shared memory, yielding Float64Array chunks
+ * for await (const chunk of calc.withChannel(Float64Array).samples(1e6)) {
+ *   plot(chunk)
+ * }
  */
 export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T> {
   const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
 
-  // Create adapter for the worker
-  const adapter = createMainThreadAdapter(worker);
+  // A function is a factory, which restarts need
+  const factory = typeof worker === 'function' ? (worker as () => unknown) : null;
+  if (options?.restart && !factory) {
+    throw new TypeError('wrap() needs a worker factory to restart workers');
+  }
+
+  // Create adapter for the worker (replaced on restart)
+  let adapter: MainThreadAdapter = createMainThreadAdapter(factory ? factory() : worker);
 
   // State
   let state: WorkerState = 'init';
   let id = 0;
+  let restarts = 0;
+  let restartTimer: ReturnType<typeof setTimeout> | undefined;
+  // Health check: interval timer, and the deadline of the unanswered ping
+  let healthTimer: ReturnType<typeof setInterval> | undefined;
+  let pingTimer: ReturnType<typeof setTimeout> | undefined;
+  let pingId = 0;
   const pendingCalls = new Map<number, PendingCall>();
   const pendingStreams = new Map<number, PendingStream>();
   const queue: QueuedCall[] = [];
+  // Function arguments of in-flight calls, by call id
+  const callbacks = new Map<number, ((...args: unknown[]) => unknown)[]>();
+  // Removes the abort listener of in-flight calls made with a signal, by call id
+  const abortCleanups = new Map<number, () => void>();
+  // Readers of withChannel() calls, by call id
+  const channels = new Map<number, ChannelReader<NumericArray>>();
+
+  // Forget what a finished call kept alive
+  function releaseCall(callId: number): void {
+    callbacks.delete(callId);
+    abortCleanups.get(callId)?.();
+    abortCleanups.delete(callId);
+    // Unblocks a worker still waiting for room in the ring
+    channels.get(callId)?.cancel();
+    channels.delete(callId);
+  }
+
+  // Tell the worker a call is no longer wanted (or drop it if it hasn't been sent yet)
+  function cancelInWorker(callId: number, reason?: Error): void {
+    const queued = queue.findIndex(({ message }) => message.$id === callId);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+    } else if (state === 'ready') {
+      const message: CancelMessage = { $type: 'CANCEL', $id: callId };
+      if (reason) message.reason = serializeError(reason);
+      adapter.postMessage(message);
+    }
+  }
+
+  // Reject an aborted call, whether awaited or streamed
+  function abortCall(callId: number, error: AbortError): void {
+    cancelInWorker(callId, error);
+
+    const call = pendingCalls.get(callId);
+    if (call) {
+      call.reject(error);
+      pendingCalls.delete(callId);
+    }
+    const stream = pendingStreams.get(callId);
+    if (stream) {
+      stream.error(error);
+      pendingStreams.delete(callId);
+    }
+    releaseCall(callId);
+  }
+
+  function setState(next: WorkerState): void {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    options?.onStateChange?.(next, previous);
+  }
 
   // Flush queued calls after ready
   function flushQueue(): void {
@@ -217,24 +423,96 @@ export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T
     queue.length = 0;
   }
 
-  // Deserialize error from worker
-  function deserializeError(serialized: SerializedError, callSite: Error): Error {
-    return new WorkerError(serialized, callSite);
+  function becomeReady(): void {
+    setState('ready');
+    flushQueue();
+    startHealthCheck();
+  }
+
+  // Ping every interval; a ping still unanswered after its timeout counts as a crash
+  function startHealthCheck(): void {
+    const healthCheck = options?.healthCheck;
+    if (!healthCheck) return;
+    const pingTimeout = healthCheck.timeout ?? healthCheck.interval;
+
+    healthTimer = setInterval(() => {
+      if (pingTimer) return;
+      pingTimer = setTimeout(() => {
+        pingTimer = undefined;
+        handleCrash(new InitError(`Worker did not answer a health check within ${pingTimeout}ms`));
+      }, pingTimeout);
+      adapter.postMessage({ $type: 'PING', $id: ++pingId } satisfies PingMessage);
+    }, healthCheck.interval);
+  }
+
+  function stopHealthCheck(): void {
+    clearInterval(healthTimer);
+    clearTimeout(pingTimer);
+    healthTimer = undefined;
+    pingTimer = undefined;
   }
 
   // Handle messages from worker
-  adapter.onMessage((data: unknown) => {
+  function handleMessage(data: unknown): void {
     const msg = data as WorkerToMainMessage;
 
-    // Handle ready message
+    // Handle ready message; a worker with an init hook waits for its config first
     if (msg.$type === 'READY') {
-      state = 'ready';
-      flushQueue();
+      if (msg.init) {
+        adapter.postMessage({ $type: 'INIT', config: options?.config } satisfies InitMessage);
+      } else {
+        becomeReady();
+      }
+      return;
+    }
+
+    if (msg.$type === 'INIT_RESOLVE') {
+      becomeReady();
+      return;
+    }
+
+    // A failing init hook would fail again after a restart
+    if (msg.$type === 'INIT_REJECT') {
+      const error = new InitError(`Worker init failed: ${msg.error.message}`);
+      rejectAllPending(error);
+      setState('dead');
+      terminate();
+      return;
+    }
+
+    if (msg.$type === 'PONG') {
+      if (msg.$id === pingId) {
+        clearTimeout(pingTimer);
+        pingTimer = undefined;
+      }
+      return;
+    }
+
+    // Handle the worker calling a function argument
+    if (msg.$type === 'CALLBACK') {
+      const current = adapter;
+      runCallback(msg, callbacks.get(msg.callId)?.[msg.index]).then(({ reply, transfer }) => {
+        // The reply is meaningless to a worker that replaced the caller
+        if (state === 'dead' || current !== adapter) return;
+        try {
+          adapter.postMessage(reply, transfer);
+        } catch (error) {
+          // The callback returned something that can't be cloned (DataCloneError)
+          adapter.postMessage({
+            $type: 'CALLBACK_REJECT',
+            $id: msg.$id,
+            error: serializeError(error),
+          } satisfies CallbackRejectMessage);
+        }
+      }).catch(() => {
+        // The worker can't take the rejection either (closed port): drop the reply
+      });
       return;
     }
 
     // Handle RPC responses
     if (msg.$type === 'RESOLVE') {
+      releaseCall(msg.$id);
       const call = pendingCalls.get(msg.$id);
       if (call) {
         if (call.timeoutId) clearTimeout(call.timeoutId);
@@ -245,6 +523,7 @@ export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T
     }
 
     if (msg.$type === 'REJECT') {
+      releaseCall(msg.$id);
       const call = pendingCalls.get(msg.$id);
       if (call) {
         if (call.timeoutId) clearTimeout(call.timeoutId);
@@ -272,6 +551,7 @@ export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T
     }
 
     if (msg.$type === 'DONE') {
+      releaseCall(msg.$id);
       const stream = pendingStreams.get(msg.$id);
       if (stream) {
         stream.done();
@@ -279,7 +559,18 @@ export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T
       }
       return;
     }
-  });
+  }
+
+  // Listen to the current worker; events of a replaced worker are ignored
+  function connect(): void {
+    const current = adapter;
+    current.onMessage((data) => {
+      if (current === adapter) handleMessage(data);
+    });
+    current.onError((error) => {
+      if (current === adapter) handleCrash(new InitError(error.message || 'Worker error'));
+    });
+  }
 
   // Function to reject all pending calls (including queued)
   function rejectAllPending(error: Error): void {
@@ -296,178 +587,308 @@ export function wrap<T>(worker: unknown, options?: WrapOptions): WrappedWorker<T
       stream.error(error);
     }
     pendingStreams.clear();
+    callbacks.clear();
+    for (const cleanup of abortCleanups.values()) cleanup();
+    abortCleanups.clear();
+    for (const reader of channels.values()) reader.cancel();
+    channels.clear();
 
     // Clear queued calls - they'll never be sent
     queue.length = 0;
   }
 
-  // Handle worker errors
-  adapter.onError((error) => {
-    const initError = new InitError(error.message || 'Worker error');
-    rejectAllPending(initError);
-    state = 'dead';
-  });
+  // Reject what a crash lost; calls not sent yet and idempotent calls wait for the new worker
+  function rejectLost(error: Error): void {
+    const queued = new Set(queue.map(({ message }) => message.$id));
 
-  // Create proxy
-  const proxy = new Proxy({} as WrappedWorker<T>, {
-    get(_, prop: string | symbol) {
-      // State hooks
-      if (prop === '$state') return state;
-      if (prop === '$pending') return pendingCalls.size + pendingStreams.size;
-      if (prop === '$worker') return adapter.raw;
-
-      // Symbol properties
-      if (typeof prop === 'symbol') return undefined;
-
-      // Method call
-      return (...args: unknown[]) => {
-        const currentId = ++id;
-        const { args: processedArgs, transfer } = prepareArgs(args);
-
-        const message: CallMessage = {
-          $type: 'CALL',
-          $id: currentId,
-          method: prop,
-          args: processedArgs,
-        };
+    for (const [callId, call] of pendingCalls) {
+      if (queued.has(callId)) continue;
+      if (call.replay) {
+        queue.push(call.replay);
+        continue;
+      }
+      call.reject(error);
+      pendingCalls.delete(callId);
+      releaseCall(callId);
+    }
+
+    for (const [callId, stream] of pendingStreams) {
+      if (queued.has(callId)) continue;
+      stream.error(error);
+      pendingStreams.delete(callId);
+      releaseCall(callId);
+    }
 
-        const callSite = new Error();
+    // Keep the original call order
+    queue.sort((a, b) => a.message.$id - b.message.$id);
+  }
 
-        // Create a dual-mode response object
-        let isStreaming = false;
-        let streamIterable: AsyncIterable<unknown> | null = null;
+  // The worker crashed or stopped answering: restart it if the policy allows
+  function handleCrash(error: Error): void {
+    if (state === 'dead' || state === 'restarting') return;
+    terminate();
 
-        // Create internal promise once (to support multiple .then() calls)
-        let internalPromise: Promise<unknown> | null = null;
-        let promiseResolve: ((value: unknown) => void) | null = null;
-        let promiseReject: ((error: Error) => void) | null = null;
+    const policy = options?.restart;
+    if (!policy || restarts >= (policy.maxRestarts ?? DEFAULT_MAX_RESTARTS)) {
+      rejectAllPending(error);
+      setState('dead');
+      return;
+    }
 
-        // Lazily create the internal promise
-        function getInternalPromise(): Promise<unknown> {
-          if (!internalPromise) {
-            internalPromise = new Promise<unknown>((resolve, reject) => {
-              promiseResolve = resolve;
-              promiseReject = reject;
-            });
-          }
-          return internalPromise;
+    rejectLost(error);
+    const backoff = policy.backoff ?? DEFAULT_BACKOFF;
+    const delay = Math.min(backoff * 2 ** restarts, policy.maxBackoff ?? DEFAULT_MAX_BACKOFF);
+    restarts++;
+    setState('restarting');
+
+    restartTimer = setTimeout(() => {
+      restartTimer = undefined;
+      try {
+        adapter = createMainThreadAdapter(factory!());
+      } catch (e) {
+        setState('init');
+        handleCrash(new InitError(`Worker restart failed: ${(e as Error).message}`));
+        return;
+      }
+      connect();
+      setState('init');
+    }, delay);
+  }
+
+  function terminate(): void {
+    clearTimeout(restartTimer);
+    restartTimer = undefined;
+    stopHealthCheck();
+    adapter.terminate();
+  }
+
+  connect();
+
+  // Internal state for kill(), shared by every proxy of this worker
+  const internals: InternalState = {
+    setState,
+    rejectAll: rejectAllPending,
+    terminate,
+  };
+
+  // Create a proxy whose calls use `callOptions`
+  function createProxy(callOptions: CallOptions): WrappedWorker<T> {
+    const { signal, channel } = callOptions;
+    const proxy = new Proxy({} as WrappedWorker<T>, {
+      get(_, prop: string | symbol) {
+        // State hooks
+        if (prop === '$state') return state;
+        if (prop === '$pending') return pendingCalls.size + pendingStreams.size;
+        if (prop === '$worker') return adapter.raw;
+        if (prop === 'withSignal') {
+          return (next: AbortSignal) => createProxy({ ...callOptions, signal: next });
+        }
+        if (prop === 'withChannel') {
+          return (type: NumericArrayConstructor<NumericArray>, channelOptions?: ChannelOptions) =>
+            createProxy({ ...callOptions, channel: channelConfig(type, channelOptions) });
         }
 
-        // Set up timeout for RPC mode
-        let timeoutId: ReturnType<typeof setTimeout> | undefined;
-        if (timeout > 0) {
-          timeoutId = setTimeout(() => {
-            if (!isStreaming) {
-              const timeoutError = new TimeoutError(prop, timeout);
+        // Symbol properties
+        if (typeof prop === 'symbol') return undefined;
+
+        // Method call
+        return (...args: unknown[]) => {
+          if (signal?.aborted) {
+            return Promise.reject(new AbortError(prop, signal.reason));
+          }
+
+          const currentId = ++id;
+          const { args: transferArgs, transfer } = prepareArgs(args);
+          const { args: processedArgs, callbacks: functionArgs } = extractCallbacks(transferArgs);
+
+          const message: CallMessage = {
+            $type: 'CALL',
+            $id: currentId,
+            method: prop,
+            args: processedArgs,
+          };
+          if (functionArgs.length > 0) {
+            message.callbacks = functionArgs.length;
+            callbacks.set(currentId, functionArgs);
+          }
+
+          // Shared memory for a possible stream; unused if the method isn't a generator
+          let reader: ChannelReader<NumericArray> | null = null;
+          if (channel && isChannelSupported()) {
+            message.channel = createChannel(channel);
+            reader = new ChannelReader(message.channel, channel.type, prop);
+            channels.set(currentId, reader);
+          }
+
+          const callSite = new Error();
+
+          // Create a dual-mode response object
+          let isStreaming = false;
+          let streamIterable: AsyncIterable<unknown> | null = null;
+
+          // Create internal promise once (to support multiple .then() calls)
+          let internalPromise: Promise<unknown> | null = null;
+          let promiseResolve: ((value: unknown) => void) | null = null;
+          let promiseReject: ((error: Error) => void) | null = null;
+
+          // Lazily create the internal promise
+          function getInternalPromise(): Promise<unknown> {
+            if (!internalPromise) {
+              internalPromise = new Promise<unknown>((resolve, reject) => {
+                promiseResolve = resolve;
+                promiseReject = reject;
+              });
+            }
+            return internalPromise;
+          }
+
+          // Set up timeout for RPC mode
+          let timeoutId: ReturnType<typeof setTimeout> | undefined;
+          if (timeout > 0) {
+            timeoutId = setTimeout(() => {
+              if (!isStreaming) {
+                const timeoutError = new TimeoutError(prop, timeout);
+                // Ensure promise exists before rejecting
+                getInternalPromise();
+                if (promiseReject) {
+                  promiseReject(timeoutError);
+                }
+                pendingCalls.delete(currentId);
+                releaseCall(currentId);
+                // Let the worker's signal fire so the method can stop early
+                cancelInWorker(currentId, timeoutError);
+              }
+            }, timeout);
+          }
+
+          // Idempotent calls can be sent again to a restarted worker (transferred buffers can't)
+          const replayable = options?.restart?.idempotent?.includes(prop) && transfer.length === 0;
+
+          // Register pending call
+          pendingCalls.set(currentId, {
+            resolve: (value) => {
+              if (timeoutId) clearTimeout(timeoutId);
+              // Ensure promise exists before resolving
+              getInternalPromise();
+              if (promiseResolve) {
+                promiseResolve(value);
+              }
+            },
+            reject: (error) => {
+              if (timeoutId) clearTimeout(timeoutId);
               // Ensure promise exists before rejecting
               getInternalPromise();
               if (promiseReject) {
-                promiseReject(timeoutError);
+                promiseReject(error);
               }
-              pendingCalls.delete(currentId);
-            }
-          }, timeout);
-        }
+            },
+            method: prop,
+            callSite,
+            timeoutId,
+            replay: replayable ? { message, transfer } : undefined,
+          });
 
-        // Register pending call
-        pendingCalls.set(currentId, {
-          resolve: (value) => {
-            if (timeoutId) clearTimeout(timeoutId);
-            // Ensure promise exists before resolving
-            getInternalPromise();
-            if (promiseResolve) {
-              promiseResolve(value);
-            }
-          },
-          reject: (error) => {
+          // Send or queue the message
+          if (state === 'ready') {
+            adapter.postMessage(message, transfer);
+          } else if (state === 'init' || state === 'restarting') {
+            queue.push({ message, transfer });
+          } else {
+            // Worker is dead
+            const error = new InitError('Worker is terminated');
             if (timeoutId) clearTimeout(timeoutId);
-            // Ensure promise exists before rejecting
-            getInternalPromise();
-            if (promiseReject) {
-              promiseReject(error);
-            }
-          },
-          method: prop,
-          callSite,
-          timeoutId,
-        });
-
-        // Send or queue the message
-        if (state === 'ready') {
-          adapter.postMessage(message, transfer);
-        } else if (state === 'init') {
-          queue.push({ message, transfer });
-        } else {
-          // Worker is dead
-          const error = new InitError('Worker is terminated');
-          if (timeoutId) clearTimeout(timeoutId);
-          pendingCalls.delete(currentId);
-          return Promise.reject(error);
-        }
+            pendingCalls.delete(currentId);
+            releaseCall(currentId);
+            return Promise.reject(error);
+          }
 
-        // Return dual-mode object
-        const dualResult = {
-          // Promise interface - use shared internal promise
-          then<TResult1 = unknown, TResult2 = never>(
-            onfulfilled?: ((value: unknown) => TResult1 | PromiseLike<TResult1>) | null,
-            onrejected?: ((reason: Error) => TResult2 | PromiseLike<TResult2>) | null
-          ): Promise<TResult1 | TResult2> {
-            return getInternalPromise().then(onfulfilled, onrejected) as Promise<TResult1 | TResult2>;
-          },
-
-          catch<TResult = never>(
-            onrejected?: ((reason: Error) => TResult | PromiseLike<TResult>) | null
-          ): Promise<unknown | TResult> {
-            return getInternalPromise().catch(onrejected);
-          },
-
-          finally(onfinally?: (() => void) | null): Promise<unknown> {
-            return getInternalPromise().finally(onfinally);
-          },
-
-          // AsyncIterable interface
-          [Symbol.asyncIterator](): AsyncIterator<unknown> {
-            // Switch to streaming mode
-            if (!isStreaming) {
-              isStreaming = true;
-
-              // Remove from pendingCalls, add to pendingStreams
-              const call = pendingCalls.get(currentId);
-              if (call?.timeoutId) clearTimeout(call.timeoutId);
-              pendingCalls.delete(currentId);
-
-              // Create streaming iterable
-              streamIterable = createAsyncIterable(
-                adapter,
-                currentId,
-                pendingStreams,
-                timeout,
-                prop
-              );
-            }
+          // Abort through the caller's signal
+          let abortError: AbortError | null = null;
+          if (signal) {
+            const onAbort = () => {
+              abortError = new AbortError(prop, signal.reason);
+              abortCall(currentId, abortError);
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            abortCleanups.set(currentId, () => signal.removeEventListener('abort', onAbort));
+          }
 
-            return streamIterable![Symbol.asyncIterator]();
-          },
+          // Return dual-mode object
+          const dualResult = {
+            // Promise interface - use shared internal promise
+            then<TResult1 = unknown, TResult2 = never>(
+              onfulfilled?: ((value: unknown) => TResult1 | PromiseLike<TResult1>) | null,
+              onrejected?: ((reason: Error) => TResult2 | PromiseLike<TResult2>) | null
+            ): Promise<TResult1 | TResult2> {
+              return getInternalPromise().then(onfulfilled, onrejected) as Promise<TResult1 | TResult2>;
+            },
+
+            catch<TResult = never>(
+              onrejected?: ((reason: Error) => TResult | PromiseLike<TResult>) | null
+            ): Promise<unknown | TResult> {
+              return getInternalPromise().catch(onrejected);
+            },
+
+            finally(onfinally?: (() => void) | null): Promise<unknown> {
+              return getInternalPromise().finally(onfinally);
+            },
+
+            // AsyncIterable interface
+            [Symbol.asyncIterator](): AsyncIterator<unknown> {
+              // Aborted before iteration started
+              if (abortError) {
+                const error = abortError;
+                return { next: () => Promise.reject(error) };
+              }
+
+              // Switch to streaming mode
+              if (!isStreaming) {
+                isStreaming = true;
+
+                // Remove from pendingCalls, add to pendingStreams
+                const call = pendingCalls.get(currentId);
+                if (call?.timeoutId) clearTimeout(call.timeoutId);
+                pendingCalls.delete(currentId);
+
+                // Create streaming iterable
+                const release = () => releaseCall(currentId);
+                const cancel = () => cancelInWorker(currentId);
+                if (reader) {
+                  streamIterable = createChannelIterable(
+                    cancel,
+                    currentId,
+                    pendingStreams,
+                    timeout,
+                    prop,
+                    release,
+                    reader
+                  );
+                } else {
+                  const iterable = createAsyncIterable(cancel, currentId, pendingStreams, timeout, prop, release);
+                  streamIterable = channel ? toChunks(iterable, channel.type) : iterable;
+                }
+              }
+
+              return streamIterable![Symbol.asyncIterator]();
+            },
+          };
+
+          return dualResult;
         };
+      },
+    });
 
-        return dualResult;
-      };
-    },
-  });
+    // Register internal state for kill()
+    proxyInternals.set(proxy, internals);
 
-  // Register internal state for kill()
-  proxyInternals.set(proxy, {
-    setState: (newState: WorkerState) => {
-      state = newState;
-    },
-    rejectAll: rejectAllPending,
-  });
+    return proxy;
+  }
 
-  return proxy;
+  return createProxy({});
 }
 
 /**
- * Terminate a wrapped worker
+ * Terminate a wrapped worker (or every worker of a pool)
  */
 export function kill<T>(proxy: WrappedWorker<T>): void {
   const internals = proxyInternals.get(proxy);
@@ -475,6 +896,8 @@ export function kill<T>(proxy: WrappedWorker<T>): void {
     const error = new InitError('Worker is terminated');
     internals.rejectAll(error);
     internals.setState('dead');
+    internals.terminate();
+    return;
   }
   (proxy.$worker as { terminate(): void }).terminate();
 }
@@ -46,7 +46,7 @@ for (const file of files) {
     splitting: false,
     sourcemap: 'external',
     minify: false,
-    external: ['bottleneck'],
+    external: ['bottleneck', 'node:fs', 'node:path'],
     naming: '[name].[ext]',
   });
 
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { CircuitBreaker } from './breaker.js';
+import { Vendor } from './vendor.js';
+import type { CircuitBreakerOptions, CircuitTransition } from './types.js';
+
+class TestVendor extends Vendor<string, string> {
+  readonly id = 'test-vendor';
+
+  async execute(input: string): Promise<string> {
+    return input;
+  }
+}
+
+const OPTIONS: Required<CircuitBreakerOptions> = {
+  failureRateThreshold: 0.5,
+  minimumCalls: 4,
+  windowMs: 60_000,
+  openDuration: [50, 50],
+  halfOpenMaxCalls: 2,
+};
+
+describe('CircuitBreaker', () => {
+  let vendor: TestVendor;
+  let transitions: CircuitTransition[];
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vendor = new TestVendor();
+    vendor.initialize({ initialMinTime: 0, probeStep: 0, rateLimitBackoff: 1.25 });
+    transitions = [];
+    breaker = new CircuitBreaker(vendor, OPTIONS, (transition) => transitions.push(transition));
+  });
+
+  it('should stay closed until the window has enough calls', () => {
+    breaker.onFailure();
+    breaker.onFailure();
+    breaker.onFailure();
+
+    expect(breaker.state).toBe('closed');
+    expect(vendor.isFrozen()).toBe(false);
+  });
+
+  it('should open when the failure rate reaches the threshold', () => {
+    breaker.onSuccess();
+    breaker.onSuccess();
+    breaker.onFailure();
+    breaker.onFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(vendor.isFrozen()).toBe(true);
+    expect(vendor.getState().circuit).toBe('open');
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0]).toMatchObject({ vendorId: 'test-vendor', from: 'closed', to: 'open', failureRate: 0.5 });
+  });
+
+  it('should drop calls that fell out of the window', async () => {
+    breaker = new CircuitBreaker(vendor, { ...OPTIONS, windowMs: 30 }, (transition) => transitions.push(transition));
+    breaker.onFailure();
+    breaker.onFailure();
+    breaker.onFailure();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    breaker.onFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should limit trial calls while half-open and close after enough successes', async () => {
+    for (let i = 0; i < 4; i++) breaker.onFailure();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(breaker.state).toBe('half-open');
+    breaker.onCallStart();
+    breaker.onCallStart();
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.onSuccess();
+    expect(breaker.state).toBe('half-open');
+    breaker.onSuccess();
+
+    expect(breaker.state).toBe('closed');
+    expect(transitions.map((t) => t.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when a trial call fails', async () => {
+    for (let i = 0; i < 4; i++) breaker.onFailure();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    breaker.onCallStart();
+    breaker.onFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(vendor.isFrozen()).toBe(true);
+  });
+
+  it('should free a trial slot for calls that say nothing about health', async () => {
+    for (let i = 0; i < 4; i++) breaker.onFailure();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    breaker.onCallStart();
+    breaker.onCallStart();
+    breaker.onIgnored();
+
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import type { CircuitBreakerOptions, CircuitState, CircuitTransition } from './types.js';
+import type { Vendor } from './vendor.js';
+
+/**
+ * Circuit breaker for one vendor.
+ * The state itself lives in the vendor's VendorState (so it is persisted with it),
+ * and an open circuit is the vendor being frozen until the open duration ends.
+ * The call window and half-open trials are kept in memory only.
+ */
+export class CircuitBreaker {
+  private vendor: Vendor;
+  private options: Required<CircuitBreakerOptions>;
+  private onTransition: (transition: CircuitTransition) => void;
+
+  /** Outcomes of recent calls while closed */
+  private outcomes: { at: number; success: boolean }[] = [];
+
+  /** Trial calls in flight / succeeded while half-open */
+  private trials = 0;
+  private trialSuccesses = 0;
+
+  constructor(
+    vendor: Vendor,
+    options: Required<CircuitBreakerOptions>,
+    onTransition: (transition: CircuitTransition) => void
+  ) {
+    this.vendor = vendor;
+    this.options = options;
+    this.onTransition = onTransition;
+  }
+
+  /**
+   * Current state; an open circuit whose duration has passed moves to half-open here
+   */
+  get state(): CircuitState {
+    const state = this.vendor.getState().circuit;
+    if (state === 'open' && !this.vendor.isFrozen()) {
+      this.transition('half-open');
+      return 'half-open';
+    }
+    return state;
+  }
+
+  /**
+   * Whether the vendor may take a call right now
+   */
+  allowRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        return this.trials < this.options.halfOpenMaxCalls;
+      case 'open':
+        return false;
+    }
+  }
+
+  /**
+   * A call was dispatched to the vendor
+   */
+  onCallStart(): void {
+    if (this.state === 'half-open') {
+      this.trials++;
+    }
+  }
+
+  /**
+   * The call succeeded
+   */
+  onSuccess(): void {
+    if (this.vendor.getState().circuit === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+      this.trialSuccesses++;
+      if (this.trialSuccesses >= this.options.halfOpenMaxCalls) {
+        this.transition('closed');
+      }
+      return;
+    }
+    this.record(true);
+  }
+
+  /**
+   * The call failed with a server or unknown error
+   */
+  onFailure(): void {
+    if (this.vendor.getState().circuit === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.record(false);
+    const failures = this.outcomes.filter((outcome) => !outcome.success).length;
+    const failureRate = failures / this.outcomes.length;
+    if (this.outcomes.length >= this.options.minimumCalls && failureRate >= this.options.failureRateThreshold) {
+      this.open(failureRate);
+    }
+  }
+
+  /**
+   * The call ended without telling anything about the vendor's health (aborted, rate limited)
+   */
+  onIgnored(): void {
+    if (this.vendor.getState().circuit === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+    }
+  }
+
+  /**
+   * Forget the window and trials (the vendor's state is reset separately)
+   */
+  reset(): void {
+    this.outcomes = [];
+    this.trials = 0;
+    this.trialSuccesses = 0;
+  }
+
+  private record(success: boolean): void {
+    const now = Date.now();
+    this.outcomes.push({ at: now, success });
+
+    const windowStart = now - this.options.windowMs;
+    const firstInWindow = this.outcomes.findIndex((outcome) => outcome.at > windowStart);
+    this.outcomes.splice(0, firstInWindow === -1 ? this.outcomes.length : firstInWindow);
+  }
+
+  private open(failureRate?: number): void {
+    const [min, max] = this.options.openDuration;
+    this.vendor.freeze(Date.now() + Math.floor(Math.random() * (max - min + 1)) + min);
+    this.transition('open', failureRate);
+  }
+
+  private transition(to: CircuitState, failureRate?: number): void {
+    const from = this.vendor.getState().circuit;
+    this.vendor.setCircuit(to);
+    this.outcomes = [];
+    this.trials = 0;
+    this.trialSuccesses = 0;
+    this.onTransition({ vendorId: this.vendor.id, from, to, failureRate, at: Date.now() });
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'bun:test';
+import { ResponseCache } from './cache.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResponseCache', () => {
+  it('should return fresh, then stale, then nothing', async () => {
+    const cache = new ResponseCache<string>({ ttl: 20, staleWhileRevalidate: 30, maxEntries: 10 });
+    cache.set('k', 'v');
+
+    expect(cache.get('k')).toEqual({ value: 'v', stale: false });
+    await sleep(25);
+    expect(cache.get('k')).toEqual({ value: 'v', stale: true });
+    await sleep(30);
+    expect(cache.get('k')).toBeNull();
+  });
+
+  it('should drop the oldest entries beyond maxEntries', () => {
+    const cache = new ResponseCache<number>({ ttl: 1000, staleWhileRevalidate: 0, maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 3); // Refreshed, now newest
+    cache.set('c', 4);
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')?.value).toBe(3);
+    expect(cache.get('c')?.value).toBe(4);
+  });
+
+  it('should share a load in flight for the same key', async () => {
+    const cache = new ResponseCache<string>({ ttl: 1000, staleWhileRevalidate: 0, maxEntries: 10 });
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      await sleep(10);
+      return 'v';
+    };
+
+    const first = cache.coalesce('k', load);
+    const second = cache.coalesce('k', load);
+
+    expect(first.shared).toBe(false);
+    expect(second.shared).toBe(true);
+    expect(await second.promise).toBe('v');
+    expect(loads).toBe(1);
+
+    // Finished loads are not shared
+    expect(cache.coalesce('k', load).shared).toBe(false);
+  });
+
+  it('should forget a failed load', async () => {
+    const cache = new ResponseCache<string>({ ttl: 1000, staleWhileRevalidate: 0, maxEntries: 10 });
+
+    await expect(cache.coalesce('k', () => Promise.reject(new Error('boom'))).promise).rejects.toThrow('boom');
+    expect(cache.coalesce('k', async () => 'v').shared).toBe(false);
+  });
+
+  it('should reject a non-positive ttl', () => {
+    expect(() => new ResponseCache({ ttl: 0, staleWhileRevalidate: 0, maxEntries: 1 })).toThrow('ttl');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Results per key with a freshness window and a stale-while-revalidate window,
+ * plus the calls in flight per key so identical calls can share one
+ */
+export class ResponseCache<T> {
+  private ttl: number;
+  private staleWhileRevalidate: number;
+  private maxEntries: number;
+  private entries = new Map<string, { value: T; storedAt: number }>();
+  private inflight = new Map<string, Promise<T>>();
+
+  constructor(options: { ttl: number; staleWhileRevalidate: number; maxEntries: number }) {
+    if (!(options.ttl > 0)) {
+      throw new Error('Cache ttl must be positive');
+    }
+    this.ttl = options.ttl;
+    this.staleWhileRevalidate = Math.max(0, options.staleWhileRevalidate);
+    this.maxEntries = Math.max(1, options.maxEntries);
+  }
+
+  /**
+   * Cached value for a key, null once it is past both windows
+   */
+  get(key: string): { value: T; stale: boolean } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    const age = Date.now() - entry.storedAt;
+    if (age >= this.ttl + this.staleWhileRevalidate) {
+      this.entries.delete(key);
+      return null;
+    }
+    return { value: entry.value, stale: age >= this.ttl };
+  }
+
+  set(key: string, value: T): void {
+    // Re-insert to keep the map oldest first
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Run `load` for a key, unless a load for it is already in flight: then share that one
+   */
+  coalesce(key: string, load: () => Promise<T>): { promise: Promise<T>; shared: boolean } {
+    const running = this.inflight.get(key);
+    if (running) {
+      return { promise: running, shared: true };
+    }
+
+    const promise = load().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return { promise, shared: false };
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
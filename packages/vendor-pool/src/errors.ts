@@ -74,6 +74,43 @@ export class NoVendorAvailableError extends VendorPoolError {
   }
 }
 
+/**
+ * Thrown when pool.consensus() can no longer reach its quorum
+ */
+export class ConsensusError extends VendorPoolError {
+  public readonly quorum: number;
+  /** Distinct results received, with the vendors that returned each */
+  public readonly groups: { result: unknown; vendorIds: string[] }[];
+  public readonly failedVendors: string[];
+
+  constructor(quorum: number, groups: { result: unknown; vendorIds: string[] }[], failedVendors: string[]) {
+    const largest = Math.max(0, ...groups.map((group) => group.vendorIds.length));
+    super(
+      `Consensus not reached: needed ${quorum} matching results, best was ${largest} ` +
+        `(${groups.length} distinct results, ${failedVendors.length} vendors failed)`
+    );
+    this.name = 'ConsensusError';
+    this.quorum = quorum;
+    this.groups = groups;
+    this.failedVendors = failedVendors;
+  }
+}
+
+/**
+ * Thrown by CostStrategy when no available vendor fits in the remaining budget
+ */
+export class BudgetExceededError extends VendorPoolError {
+  public readonly budget: number;
+  public readonly spent: number;
+
+  constructor(budget: number, spent: number) {
+    super(`Budget exceeded: spent ${spent} of ${budget}`);
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+    this.spent = spent;
+  }
+}
+
 /**
  * Wrapper for vendor execution errors with classification
  */
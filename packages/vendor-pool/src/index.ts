@@ -2,9 +2,24 @@
 export { Pool } from './pool.js';
 export { Vendor } from './vendor.js';
 
+// Selection strategies
+export {
+  LeastQueueStrategy,
+  WeightedRoundRobinStrategy,
+  LatencyStrategy,
+  CostStrategy,
+  StickyStrategy,
+  type LatencyStrategyOptions,
+  type CostStrategyOptions,
+  type StickyStrategyOptions,
+} from './strategies.js';
+
 // Storage adapters
 export { MemoryStorageAdapter, LocalStorageAdapter } from './storage/index.js';
 
+// State sync (FileSync is exported from '@shelchin/vendor-pool/node')
+export { BroadcastChannelSync } from './sync/index.js';
+
 // Errors
 export {
   VendorPoolError,
@@ -12,6 +27,8 @@ export {
   TimeoutError,
   LogicError,
   NoVendorAvailableError,
+  BudgetExceededError,
+  ConsensusError,
   VendorExecutionError,
 } from './errors.js';
 
@@ -24,6 +41,23 @@ export {
   type StorageAdapter,
   type VendorMetrics,
   type PoolResult,
+  type SelectionStrategy,
+  type SelectionContext,
+  type SelectionResult,
+  type HedgeOptions,
+  type DoOptions,
+  type CacheOptions,
+  type ConsensusOptions,
+  type ConsensusResult,
+  type ScheduleOptions,
+  type CircuitState,
+  type CircuitBreakerOptions,
+  type CircuitTransition,
+  type PoolEvents,
+  type VendorStats,
+  type PoolStats,
+  type SharedVendorState,
+  type StateSync,
 } from './types.js';
 
 export type { VendorOptions } from './vendor.js';
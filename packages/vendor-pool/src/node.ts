@@ -0,0 +1,9 @@
+/**
+ * Node / Bun entry point: everything from the main entry, plus the adapters
+ * that need the file system
+ */
+
+export * from './index.js';
+
+// State sync
+export { FileSync, type FileSyncOptions } from './sync/file.js';
@@ -1,14 +1,17 @@
 import { describe, it, expect, beforeEach, mock } from 'bun:test';
 import { Pool } from './pool.js';
-import { Vendor } from './vendor.js';
+import { Vendor, type VendorOptions } from './vendor.js';
 import { ErrorType } from './types.js';
 import {
+  ConsensusError,
   EscalationError,
   LogicError,
   TimeoutError,
   NoVendorAvailableError,
 } from './errors.js';
 import { MemoryStorageAdapter } from './storage/memory.js';
+import { BroadcastChannelSync } from './sync/broadcast.js';
+import type { SharedVendorState, StateSync } from './types.js';
 
 // Test vendor that can be configured to succeed or fail
 class MockVendor extends Vendor<string, string> {
@@ -54,6 +57,96 @@ class MockVendor extends Vendor<string, string> {
   }
 }
 
+// Vendor that honors the abort signal, like a fetch() based vendor would
+class AbortableVendor extends Vendor<string, string> {
+  readonly id: string;
+  private delay: number;
+  public callCount = 0;
+  public abortedCount = 0;
+
+  constructor(id: string, delay: number) {
+    super();
+    this.id = id;
+    this.delay = delay;
+  }
+
+  async execute(input: string, signal: AbortSignal): Promise<string> {
+    this.callCount++;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, this.delay);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        this.abortedCount++;
+        reject(new Error('aborted'));
+      });
+    });
+    return `${this.id}: ${input}`;
+  }
+}
+
+// Vendor that returns a fixed answer, for voting
+class AnswerVendor extends Vendor<string, { value: number }> {
+  readonly id: string;
+  private answer: number | Error;
+  private delay: number;
+  public callCount = 0;
+  public aborted = false;
+
+  constructor(id: string, answer: number | Error, delay = 0) {
+    super();
+    this.id = id;
+    this.answer = answer;
+    this.delay = delay;
+  }
+
+  async execute(_input: string, signal: AbortSignal): Promise<{ value: number }> {
+    this.callCount++;
+    if (this.delay > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.delay);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          this.aborted = true;
+          reject(new Error('aborted'));
+        });
+      });
+    }
+    if (this.answer instanceof Error) throw this.answer;
+    return { value: this.answer };
+  }
+}
+
+// Vendor with a batch endpoint; inputs in `failItems` are rejected inside a batch
+class BatchVendor extends Vendor<string, string> {
+  readonly id: string;
+  public batches: string[][] = [];
+  public singleCalls = 0;
+  public failBatch = false;
+  public failItems = new Set<string>();
+
+  constructor(id: string, options: VendorOptions = {}) {
+    super(options);
+    this.id = id;
+  }
+
+  async execute(input: string): Promise<string> {
+    this.singleCalls++;
+    return `${this.id}: ${input}`;
+  }
+
+  async executeBatch(inputs: string[]): Promise<PromiseSettledResult<string>[]> {
+    this.batches.push(inputs);
+    if (this.failBatch) {
+      throw new Error('HTTP 503 Service Unavailable');
+    }
+    return inputs.map((input) =>
+      this.failItems.has(input)
+        ? { status: 'rejected', reason: new Error('item failed') }
+        : { status: 'fulfilled', value: `${this.id}: ${input}` }
+    );
+  }
+}
+
 describe('Pool', () => {
   let storage: MemoryStorageAdapter;
 
@@ -387,6 +480,309 @@ describe('Pool', () => {
     });
   });
 
+  describe('do() - hedging', () => {
+    it('should hedge a slow call and abort the loser', async () => {
+      const slow = new AbortableVendor('slow', 1000);
+      const fast = new AbortableVendor('fast', 10);
+      const pool = new Pool([slow, fast], { storage, hedge: { initialDelay: 50 } });
+
+      const start = Date.now();
+      const result = await pool.do('hello');
+
+      expect(result.vendorId).toBe('fast');
+      expect(result.result).toBe('fast: hello');
+      expect(result.retries).toBe(0);
+      expect(Date.now() - start).toBeLessThan(500);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(slow.abortedCount).toBe(1);
+
+      const [slowState, fastState] = pool.getVendorStates();
+      expect(slowState.abortedCount).toBe(1);
+      expect(slowState.failureCount).toBe(0);
+      expect(slow.isFrozen()).toBe(false);
+      expect(fastState.hedgedCount).toBe(1);
+      expect(fastState.minTime).toBe(500); // Hedged wins don't probe
+    });
+
+    it('should not hedge calls that answer in time', async () => {
+      const v1 = new AbortableVendor('v1', 10);
+      const v2 = new AbortableVendor('v2', 10);
+      const pool = new Pool([v1, v2], { storage, hedge: { initialDelay: 200 } });
+
+      await pool.do('hello');
+
+      expect(v1.callCount).toBe(1);
+      expect(v2.callCount).toBe(0);
+    });
+
+    it('should skip hedging when disabled per call', async () => {
+      const slow = new AbortableVendor('slow', 150);
+      const fast = new AbortableVendor('fast', 10);
+      const pool = new Pool([slow, fast], { storage, hedge: { initialDelay: 20 } });
+
+      const result = await pool.do('hello', { hedge: false });
+
+      expect(result.vendorId).toBe('slow');
+      expect(fast.callCount).toBe(0);
+    });
+
+    it('should keep waiting for the other call when one fails', async () => {
+      const slow = new AbortableVendor('slow', 100);
+      const failing = new MockVendor('failing', 'server-error');
+      const pool = new Pool([slow, failing], { storage, hedge: { initialDelay: 20 } });
+
+      const result = await pool.do('hello');
+
+      expect(result.vendorId).toBe('slow');
+      expect(result.retries).toBe(1);
+      expect(failing.isFrozen()).toBe(true);
+    });
+
+    it('should abort in-flight calls on the global timeout', async () => {
+      const slow = new AbortableVendor('slow', 1000);
+      const pool = new Pool([slow], { storage, timeout: 100 });
+
+      await expect(pool.do('hello')).rejects.toThrow(TimeoutError);
+      expect(slow.abortedCount).toBe(1);
+      expect(pool.getVendorStates()[0].failureCount).toBe(0);
+    });
+  });
+
+  describe('consensus()', () => {
+    it('should return the agreed result and penalize dissenters', async () => {
+      const pool = new Pool(
+        [new AnswerVendor('a', 42), new AnswerVendor('b', 7), new AnswerVendor('c', 42)],
+        { storage }
+      );
+
+      const result = await pool.consensus('block', { quorum: 2 });
+
+      expect(result.result).toEqual({ value: 42 });
+      expect(result.agreeingVendors.sort()).toEqual(['a', 'c']);
+      expect(result.dissentingVendors).toEqual(['b']);
+      expect(result.failedVendors).toEqual([]);
+
+      const states = pool.getVendorStates();
+      expect(states[1].dissentCount).toBe(1);
+      expect(states[1].lastError).toContain('consensus');
+      expect(states[0].dissentCount).toBe(0);
+    });
+
+    it('should use a custom comparator', async () => {
+      const pool = new Pool(
+        [new AnswerVendor('a', 100), new AnswerVendor('b', 101), new AnswerVendor('c', 150)],
+        { storage }
+      );
+
+      const result = await pool.consensus('price', {
+        quorum: 2,
+        compare: (x, y) => Math.abs(x.value - y.value) <= 1,
+      });
+
+      expect(result.agreeingVendors.sort()).toEqual(['a', 'b']);
+    });
+
+    it('should stop once the quorum is reached and abort the rest', async () => {
+      const slow = new AnswerVendor('slow', 5, 1000);
+      const pool = new Pool([new AnswerVendor('a', 1), slow, new AnswerVendor('b', 1)], { storage });
+
+      const start = Date.now();
+      const result = await pool.consensus('x', { quorum: 2 });
+
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(result.dissentingVendors).toEqual([]);
+      expect(slow.aborted).toBe(true);
+      expect(pool.getVendorStates()[1].dissentCount).toBe(0);
+    });
+
+    it('should ask further vendors when some fail', async () => {
+      const failing = new AnswerVendor('failing', new Error('HTTP 503 Service Unavailable'));
+      const spare = new AnswerVendor('spare', 1, 20);
+      const pool = new Pool([failing, new AnswerVendor('b', 1), spare], { storage });
+
+      const result = await pool.consensus('x', { quorum: 2, fanout: 2 });
+
+      expect(result.agreeingVendors.sort()).toEqual(['b', 'spare']);
+      expect(result.failedVendors).toEqual(['failing']);
+      expect(failing.isFrozen()).toBe(true);
+    });
+
+    it('should throw ConsensusError when the quorum cannot be reached', async () => {
+      const pool = new Pool(
+        [new AnswerVendor('a', 1), new AnswerVendor('b', 2), new AnswerVendor('c', 3)],
+        { storage }
+      );
+
+      try {
+        await pool.consensus('x', { quorum: 2 });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConsensusError);
+        expect((error as ConsensusError).groups).toHaveLength(3);
+        expect((error as ConsensusError).message).toContain('best was 1');
+      }
+    });
+
+    it('should reject with the error a custom comparator throws', async () => {
+      const pool = new Pool([new AnswerVendor('a', 1), new AnswerVendor('b', 1)], { storage, timeout: 1000 });
+
+      const start = Date.now();
+      await expect(
+        pool.consensus('x', {
+          quorum: 2,
+          compare: () => {
+            throw new Error('bad compare');
+          },
+        })
+      ).rejects.toThrow('bad compare');
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+
+    it('should reject an invalid quorum', async () => {
+      const pool = new Pool([new AnswerVendor('a', 1)], { storage });
+
+      await expect(pool.consensus('x', { quorum: 2 })).rejects.toThrow('Quorum');
+    });
+  });
+
+  describe('doMany()', () => {
+    it('should split inputs into vendor-sized batches and keep input order', async () => {
+      const vendor = new BatchVendor('rpc', { maxBatchSize: 2 });
+      const pool = new Pool([vendor], { storage, initialMinTime: 0 });
+
+      const results = await pool.doMany(['a', 'b', 'c', 'd', 'e']);
+
+      expect(vendor.batches).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+      expect(vendor.singleCalls).toBe(0);
+      expect(results.map((r) => r.status === 'fulfilled' && r.value.result)).toEqual([
+        'rpc: a',
+        'rpc: b',
+        'rpc: c',
+        'rpc: d',
+        'rpc: e',
+      ]);
+    });
+
+    it('should retry items rejected inside a batch individually', async () => {
+      const vendor = new BatchVendor('rpc');
+      vendor.failItems.add('b');
+      const pool = new Pool([vendor], { storage, initialMinTime: 0 });
+
+      const results = await pool.doMany(['a', 'b', 'c']);
+
+      expect(vendor.batches).toHaveLength(1);
+      expect(vendor.singleCalls).toBe(1);
+      expect(results[1]).toEqual({
+        status: 'fulfilled',
+        value: expect.objectContaining({ result: 'rpc: b', retries: 1 }),
+      });
+    });
+
+    it('should move a failed batch to another vendor and freeze the failing one', async () => {
+      const broken = new BatchVendor('broken', { weight: 2 });
+      broken.failBatch = true;
+      const healthy = new BatchVendor('healthy');
+      const pool = new Pool([broken, healthy], { storage, initialMinTime: 0 });
+
+      const results = await pool.doMany(['a', 'b']);
+
+      expect(broken.isFrozen()).toBe(true);
+      expect(healthy.batches).toEqual([['a', 'b']]);
+      expect(results.every((r) => r.status === 'fulfilled' && r.value.vendorId === 'healthy')).toBe(true);
+    });
+
+    it('should fall back to single calls on vendors without executeBatch', async () => {
+      const vendor = new MockVendor('single');
+      const pool = new Pool([vendor], { storage, initialMinTime: 0 });
+
+      const results = await pool.doMany(['a', 'b']);
+
+      expect(vendor.callCount).toBe(2);
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled']);
+    });
+
+    it('should probe the rate once per batch', async () => {
+      const vendor = new BatchVendor('rpc', { maxBatchSize: 5 });
+      const pool = new Pool([vendor], { storage, initialMinTime: 100, probeStep: 10 });
+
+      await pool.doMany(['a', 'b', 'c', 'd', 'e']);
+
+      const [state] = pool.getVendorStates();
+      expect(state.successCount).toBe(1);
+      expect(state.minTime).toBe(90);
+    });
+
+    it('should report inputs that fail everywhere as rejected', async () => {
+      const vendor = new MockVendor('v1', 'logic-error');
+      const pool = new Pool([vendor], { storage });
+
+      const results = await pool.doMany(['a']);
+
+      expect(results[0].status).toBe('rejected');
+      expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(LogicError);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should keep a vendor in rotation until its failure rate trips the breaker', async () => {
+      // Higher weight: preferred while available
+      const flaky = Object.assign(new MockVendor('flaky', 'server-error'), { weight: 2 });
+      const transitions: string[] = [];
+      const pool = new Pool([flaky, new MockVendor('backup')], {
+        storage,
+        initialMinTime: 0,
+        circuitBreaker: { minimumCalls: 2, openDuration: [1000, 1000] },
+        onCircuitChange: (t) => transitions.push(`${t.vendorId}:${t.from}->${t.to}`),
+      });
+
+      const result = await pool.do('a');
+
+      // The first failure didn't take it out of rotation, the second opened the circuit
+      expect(flaky.callCount).toBe(2);
+      expect(result.vendorId).toBe('backup');
+      expect(flaky.isFrozen()).toBe(true);
+      expect(transitions).toEqual(['flaky:closed->open']);
+
+      const saved = await storage.get<{ circuit: string }>('vendor:flaky');
+      expect(saved?.circuit).toBe('open');
+    });
+
+    it('should send one trial call when half-open and close on success', async () => {
+      const flaky = new MockVendor('flaky', 'server-error');
+      const transitions: string[] = [];
+      const pool = new Pool([flaky], {
+        storage,
+        initialMinTime: 0,
+        maxConsecutiveFailures: 10,
+        circuitBreaker: { minimumCalls: 1, openDuration: [50, 50] },
+        onCircuitChange: (t) => transitions.push(t.to),
+      });
+
+      const first = pool.do('a');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      flaky.setBehavior('success');
+      const result = await first;
+
+      expect(result.retries).toBe(1);
+      expect(transitions).toEqual(['open', 'half-open', 'closed']);
+      expect(pool.getVendorStates()[0].circuit).toBe('closed');
+    });
+
+    it('should still soft-freeze on rate limits', async () => {
+      const limited = new MockVendor('limited', 'rate-limit');
+      const pool = new Pool([limited, new MockVendor('backup')], {
+        storage,
+        circuitBreaker: {},
+      });
+
+      await pool.do('a');
+
+      expect(limited.isFrozen()).toBe(true);
+      expect(pool.getVendorStates()[0].circuit).toBe('closed');
+    });
+  });
+
   describe('do() - waiting for unfreeze', () => {
     it('should wait for vendor to unfreeze when all are frozen', async () => {
       const v1 = new MockVendor('v1', 'server-error');
@@ -511,6 +907,260 @@ describe('Pool', () => {
     });
   });
 
+  describe('events', () => {
+    it('should emit selection, failure, freeze and success in order', async () => {
+      const v1 = new MockVendor('v1', 'server-error');
+      const v2 = new MockVendor('v2', 'success');
+      const pool = new Pool([v1, v2], { storage, hardFreezeDuration: [1000, 1000] });
+
+      const events: string[] = [];
+      pool.on('vendor:selected', (e) => events.push(`selected:${e.vendorId}`));
+      pool.on('vendor:failure', (e) => events.push(`failure:${e.vendorId}:${e.errorType}`));
+      pool.on('vendor:freeze', (e) => events.push(`freeze:${e.vendorId}:${e.reason}`));
+      pool.on('vendor:success', (e) => events.push(`success:${e.vendorId}`));
+
+      await pool.do('hello');
+
+      expect(events).toEqual([
+        'selected:v1',
+        `failure:v1:${ErrorType.SERVER_ERROR}`,
+        `freeze:v1:${ErrorType.SERVER_ERROR}`,
+        'selected:v2',
+        'success:v2',
+      ]);
+    });
+
+    it('should emit unfreeze when the freeze ends', async () => {
+      const v1 = new MockVendor('v1', 'server-error');
+      const pool = new Pool([v1, new MockVendor('v2')], { storage, hardFreezeDuration: [30, 30] });
+
+      const unfrozen = new Promise<string>((resolve) => pool.on('vendor:unfreeze', (e) => resolve(e.vendorId)));
+      await pool.do('hello');
+
+      expect(await unfrozen).toBe('v1');
+      expect(v1.isFrozen()).toBe(false);
+    });
+
+    it('should emit minTime changes', async () => {
+      const pool = new Pool([new MockVendor('v1')], { storage, initialMinTime: 100, probeStep: 10 });
+
+      const changes: [number, number][] = [];
+      pool.on('vendor:minTime', (e) => changes.push([e.from, e.to]));
+
+      await pool.do('hello');
+
+      expect(changes).toEqual([[100, 90]]);
+    });
+
+    it('should emit escalation before throwing', async () => {
+      const pool = new Pool([new MockVendor('v1', 'server-error')], {
+        storage,
+        maxRetries: 1,
+        hardFreezeDuration: [10, 10],
+      });
+
+      let escalated = false;
+      pool.on('escalation', () => (escalated = true));
+
+      await expect(pool.do('hello')).rejects.toThrow(EscalationError);
+      expect(escalated).toBe(true);
+    });
+
+    it('should stop calling a handler after unsubscribing', async () => {
+      const pool = new Pool([new MockVendor('v1')], { storage });
+
+      let calls = 0;
+      const unsubscribe = pool.on('vendor:success', () => calls++);
+      await pool.do('a');
+      unsubscribe();
+      await pool.do('b');
+
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report rolling statistics per vendor', async () => {
+      const v1 = new MockVendor('v1', 'rate-limit');
+      const v2 = new MockVendor('v2', 'success');
+      const pool = new Pool([v1, v2], { storage, initialMinTime: 0 });
+
+      await pool.do('a');
+      await pool.do('b');
+
+      const stats = pool.getStats();
+      expect(stats.window).toBe(60_000);
+
+      const [s1, s2] = stats.vendors;
+      expect(s1.vendorId).toBe('v1');
+      expect(s1.requests).toBe(1);
+      expect(s1.errors[ErrorType.RATE_LIMIT]).toBe(1);
+      expect(s1.latency).toBeNull();
+      expect(s2.successes).toBe(2);
+      expect(s2.requestsPerMinute).toBe(2);
+      expect(s2.latency).not.toBeNull();
+    });
+  });
+
+  describe('caching', () => {
+    it('should serve repeated inputs from the cache without calling a vendor', async () => {
+      const vendor = new MockVendor('v1');
+      const pool = new Pool([vendor], { storage, cache: { key: (input) => input, ttl: 1000 } });
+
+      const first = await pool.do('hello');
+      const second = await pool.do('hello');
+
+      expect(vendor.callCount).toBe(1);
+      expect(first.cached).toBe(false);
+      expect(second).toMatchObject({ result: 'v1: hello', vendorId: 'v1', cached: true });
+      expect(pool.getVendorStates()[0].successCount).toBe(1); // No probing on hits
+    });
+
+    it('should share one vendor call between identical concurrent calls', async () => {
+      const vendor = new MockVendor('v1', 'success', 20);
+      const pool = new Pool([vendor], { storage, cache: { key: (input) => input, ttl: 1000 } });
+
+      const results = await Promise.all([pool.do('hello'), pool.do('hello'), pool.do('other')]);
+
+      expect(vendor.callCount).toBe(2);
+      expect(results.map((r) => r.cached)).toEqual([false, true, false]);
+    });
+
+    it('should return a stale result and refresh it in the background', async () => {
+      const vendor = new MockVendor('v1');
+      const pool = new Pool([vendor], {
+        storage,
+        initialMinTime: 0,
+        cache: { key: (input) => input, ttl: 20, staleWhileRevalidate: 1000 },
+      });
+
+      await pool.do('hello');
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      const stale = await pool.do('hello');
+      expect(stale.cached).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(vendor.callCount).toBe(2);
+
+      await pool.do('hello');
+      expect(vendor.callCount).toBe(2); // Refreshed entry is fresh again
+    });
+
+    it('should not cache failures', async () => {
+      const vendor = new MockVendor('v1', 'logic-error');
+      const pool = new Pool([vendor], { storage, cache: { key: (input) => input, ttl: 1000 } });
+
+      await expect(pool.do('hello')).rejects.toThrow(LogicError);
+      vendor.setBehavior('success');
+
+      expect((await pool.do('hello')).cached).toBe(false);
+    });
+
+    it('should skip the cache per call, for uncached keys and after invalidate', async () => {
+      const vendor = new MockVendor('v1');
+      const pool = new Pool([vendor], {
+        storage,
+        cache: { key: (input) => (input.startsWith('tx:') ? undefined : input), ttl: 1000 },
+      });
+
+      await pool.do('hello');
+      await pool.do('hello', { cache: false });
+      await pool.do('tx:1');
+      await pool.do('tx:1');
+      pool.invalidate('hello');
+      await pool.do('hello');
+
+      expect(vendor.callCount).toBe(5);
+    });
+  });
+
+  describe('shared state', () => {
+    // In-process channel: delivers each update to every other subscriber
+    function createChannel(): () => StateSync {
+      const listeners = new Set<(update: SharedVendorState) => void>();
+      return () => ({
+        publish: (update) => listeners.forEach((listener) => listener(update)),
+        subscribe: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+      });
+    }
+
+    it('should freeze a vendor in every instance', async () => {
+      const channel = createChannel();
+      const poolA = new Pool([new MockVendor('v1', 'server-error'), new MockVendor('v2')], {
+        storage: new MemoryStorageAdapter(),
+        sync: channel(),
+      });
+      const shared = new MockVendor('v1');
+      const poolB = new Pool([shared, new MockVendor('v2')], {
+        storage: new MemoryStorageAdapter(),
+        sync: channel(),
+      });
+      await poolB.do('warm up'); // Subscribes on initialization
+
+      const frozen: string[] = [];
+      poolB.on('vendor:freeze', (e) => frozen.push(`${e.vendorId}:${e.reason}`));
+      await poolA.do('hello');
+
+      expect(shared.isFrozen()).toBe(true);
+      expect(frozen).toEqual(['v1:shared']);
+      poolA.close();
+      poolB.close();
+    });
+
+    it('should share the learned rate', async () => {
+      const channel = createChannel();
+      const poolA = new Pool([new MockVendor('v1')], { storage, initialMinTime: 300, sync: channel() });
+      const vendorB = new MockVendor('v1');
+      const poolB = new Pool([vendorB], { storage: new MemoryStorageAdapter(), initialMinTime: 500, sync: channel() });
+      await poolB.do('warm up');
+
+      await poolA.do('hello');
+
+      expect(poolB.getVendorStates()[0].minTime).toBe(280);
+      poolA.close();
+      poolB.close();
+    });
+
+    it('should not publish when nothing shared changed', async () => {
+      const published: SharedVendorState[] = [];
+      const pool = new Pool([new MockVendor('v1')], {
+        storage,
+        initialMinTime: 50,
+        sync: { publish: (u) => published.push(u), subscribe: () => () => {} },
+      });
+
+      await pool.do('a');
+      await pool.do('b');
+
+      expect(published).toHaveLength(0); // minTime already at its floor
+    });
+
+    it('should sync through a BroadcastChannel', async () => {
+      const name = `vendor-pool-test-${Math.random()}`;
+      const syncA = new BroadcastChannelSync(name);
+      const syncB = new BroadcastChannelSync(name);
+      const poolA = new Pool([new MockVendor('v1', 'rate-limit'), new MockVendor('v2')], {
+        storage: new MemoryStorageAdapter(),
+        sync: syncA,
+      });
+      const shared = new MockVendor('v1');
+      const poolB = new Pool([shared, new MockVendor('v2')], { storage: new MemoryStorageAdapter(), sync: syncB });
+      await poolB.do('warm up');
+
+      await poolA.do('hello');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(shared.isFrozen()).toBe(true);
+      poolA.close();
+      poolB.close();
+      syncA.close();
+      syncB.close();
+    });
+  });
+
   describe('state persistence', () => {
     it('should persist vendor state after success', async () => {
       const v1 = new MockVendor('v1', 'success');
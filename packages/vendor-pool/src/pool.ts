@@ -5,9 +5,24 @@ import {
   type VendorState,
   type EscalationContext,
   type PoolResult,
+  type SelectionStrategy,
+  type HedgeOptions,
+  type DoOptions,
+  type ConsensusOptions,
+  type ConsensusResult,
+  type CircuitBreakerOptions,
+  type PoolEvents,
+  type PoolStats,
+  type SharedVendorState,
+  type StateSync,
 } from './types.js';
 import { Vendor } from './vendor.js';
+import { CircuitBreaker } from './breaker.js';
+import { EventEmitter } from './emitter.js';
+import { StatsCollector } from './stats.js';
+import { ResponseCache } from './cache.js';
 import {
+  ConsensusError,
   EscalationError,
   LogicError,
   NoVendorAvailableError,
@@ -15,6 +30,7 @@ import {
   VendorExecutionError,
 } from './errors.js';
 import { MemoryStorageAdapter } from './storage/memory.js';
+import { LeastQueueStrategy } from './strategies.js';
 
 /** Default configuration values */
 const DEFAULTS = {
@@ -26,6 +42,7 @@ const DEFAULTS = {
   rateLimitBackoff: 1.25,
   softFreezeDuration: [5_000, 10_000] as [number, number],
   hardFreezeDuration: [30_000, 60_000] as [number, number],
+  statsWindow: 60_000,
 };
 
 /** Storage key prefix for vendor states */
@@ -38,6 +55,29 @@ function randomDuration([min, max]: [number, number]): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
+/**
+ * Structural equality for plain data (primitives incl. bigint, arrays, plain objects)
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(
+    (key) => Object.hasOwn(b, key) && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * The fields of a vendor state shared between pool instances, for change detection
+ */
+function sharedSnapshot(state: VendorState): string {
+  return `${state.frozenUntil}:${state.minTime}:${state.isStable}`;
+}
+
 /**
  * Sleep for a given duration
  */
@@ -56,25 +96,59 @@ function sleep(ms: number): Promise<void> {
  *   new AnthropicVendor(),
  * ]);
  *
+ * pool.on('vendor:failure', ({ vendorId, errorType }) => console.warn(vendorId, errorType));
+ *
  * const result = await pool.do({ message: 'Hello' });
  * ```
  */
-export class Pool<TInput = unknown, TOutput = unknown> {
+export class Pool<TInput = unknown, TOutput = unknown> extends EventEmitter<PoolEvents> {
   private vendors: Vendor<TInput, TOutput>[];
   private storage: StorageAdapter;
-  private options: Required<Omit<PoolOptions, 'storage' | 'onEscalate'>> & {
+  private strategy: SelectionStrategy;
+  private options: Required<
+    Omit<
+      PoolOptions,
+      'storage' | 'onEscalate' | 'strategy' | 'hedge' | 'circuitBreaker' | 'onCircuitChange' | 'sync' | 'cache'
+    >
+  > & {
     onEscalate?: PoolOptions['onEscalate'];
+    hedge: Required<HedgeOptions> | null;
+    circuitBreaker: Required<CircuitBreakerOptions> | null;
+    onCircuitChange?: PoolOptions['onCircuitChange'];
   };
+  private breakers = new Map<Vendor<TInput, TOutput>, CircuitBreaker>();
+  private stats: StatsCollector;
+  private unfreezeTimers = new Map<Vendor<TInput, TOutput>, ReturnType<typeof setTimeout>>();
+  private sync: StateSync | null;
+  private unsubscribeSync: (() => void) | null = null;
+  /** Identifies this instance's updates on the sync channel */
+  private instanceId = Math.random().toString(36).slice(2, 10);
+  /** Last shared state published per vendor, to publish only changes */
+  private published = new Map<Vendor<TInput, TOutput>, string>();
+  private cache: ResponseCache<PoolResult<TOutput>> | null;
+  private cacheKey: ((input: TInput) => string | undefined) | null;
   private initialized = false;
   private initializePromise: Promise<void> | null = null;
 
-  constructor(vendors: Vendor<TInput, TOutput>[], options: PoolOptions = {}) {
+  constructor(vendors: Vendor<TInput, TOutput>[], options: PoolOptions<TInput> = {}) {
+    super();
+
     if (vendors.length === 0) {
       throw new Error('Pool requires at least one vendor');
     }
 
     this.vendors = vendors;
     this.storage = options.storage ?? new MemoryStorageAdapter();
+    this.strategy = options.strategy ?? new LeastQueueStrategy();
+    this.sync = options.sync ?? null;
+    this.cache = options.cache
+      ? new ResponseCache({
+          ttl: options.cache.ttl,
+          staleWhileRevalidate: options.cache.staleWhileRevalidate ?? 0,
+          maxEntries: options.cache.maxEntries ?? 1000,
+        })
+      : null;
+    this.cacheKey = options.cache?.key ?? null;
     this.options = {
       maxRetries: options.maxRetries ?? DEFAULTS.maxRetries,
       maxConsecutiveFailures: options.maxConsecutiveFailures ?? DEFAULTS.maxConsecutiveFailures,
@@ -84,8 +158,50 @@ export class Pool<TInput = unknown, TOutput = unknown> {
       rateLimitBackoff: options.rateLimitBackoff ?? DEFAULTS.rateLimitBackoff,
       softFreezeDuration: options.softFreezeDuration ?? DEFAULTS.softFreezeDuration,
       hardFreezeDuration: options.hardFreezeDuration ?? DEFAULTS.hardFreezeDuration,
+      statsWindow: options.statsWindow ?? DEFAULTS.statsWindow,
       onEscalate: options.onEscalate,
+      hedge: options.hedge
+        ? {
+            percentile: options.hedge.percentile ?? 95,
+            minSamples: options.hedge.minSamples ?? 20,
+            initialDelay: options.hedge.initialDelay ?? 1000,
+          }
+        : null,
+      circuitBreaker: options.circuitBreaker
+        ? {
+            failureRateThreshold: options.circuitBreaker.failureRateThreshold ?? 0.5,
+            minimumCalls: options.circuitBreaker.minimumCalls ?? 10,
+            windowMs: options.circuitBreaker.windowMs ?? 60_000,
+            openDuration:
+              options.circuitBreaker.openDuration ?? options.hardFreezeDuration ?? DEFAULTS.hardFreezeDuration,
+            halfOpenMaxCalls: options.circuitBreaker.halfOpenMaxCalls ?? 1,
+          }
+        : null,
+      onCircuitChange: options.onCircuitChange,
     };
+    this.stats = new StatsCollector(this.options.statsWindow);
+
+    const breakerOptions = this.options.circuitBreaker;
+    if (breakerOptions) {
+      for (const vendor of vendors) {
+        this.breakers.set(
+          vendor,
+          new CircuitBreaker(vendor, breakerOptions, (transition) => {
+            void this.saveVendorState(vendor);
+            this.options.onCircuitChange?.(transition);
+            this.emit('vendor:circuit', transition);
+            if (transition.to === 'open') {
+              this.emit('vendor:freeze', {
+                vendorId: vendor.id,
+                until: vendor.getState().frozenUntil,
+                reason: 'circuit',
+              });
+              this.scheduleUnfreeze(vendor);
+            }
+          })
+        );
+      }
+    }
   }
 
   /**
@@ -110,7 +226,19 @@ export class Pool<TInput = unknown, TOutput = unknown> {
           probeStep: this.options.probeStep,
           rateLimitBackoff: this.options.rateLimitBackoff,
           savedState: savedState ?? undefined,
+          onMinTimeChange: (from, to) => this.emit('vendor:minTime', { vendorId: vendor.id, from, to }),
         });
+        if (vendor.isFrozen()) {
+          this.scheduleUnfreeze(vendor);
+        }
+      }
+
+      if (this.sync) {
+        // Only publish changes: the initial state would override what the others learned
+        for (const vendor of this.vendors) {
+          this.published.set(vendor, sharedSnapshot(vendor.getState()));
+        }
+        this.unsubscribeSync = this.sync.subscribe((update) => this.applySharedState(update));
       }
 
       this.initialized = true;
@@ -131,40 +259,79 @@ export class Pool<TInput = unknown, TOutput = unknown> {
       // Storage errors should not affect task execution
       // In production, you might want to log this
     }
+    this.publishVendorState(vendor);
   }
 
   /**
-   * Select the best available vendor.
-   * Filters out frozen vendors, then selects the one with lowest queue length.
-   * Uses weight as a tiebreaker.
+   * Tell the other pool instances if the vendor's frozen-until or rate changed.
+   * Sync errors are ignored like storage errors.
    */
-  private selectVendor(): Vendor<TInput, TOutput> | null {
-    const available = this.vendors.filter((v) => !v.isFrozen());
+  private publishVendorState(vendor: Vendor<TInput, TOutput>): void {
+    if (!this.sync) return;
 
-    if (available.length === 0) {
-      return null;
+    const state = vendor.getState();
+    const snapshot = sharedSnapshot(state);
+    if (this.published.get(vendor) === snapshot) return;
+    this.published.set(vendor, snapshot);
+
+    try {
+      this.sync.publish({
+        vendorId: vendor.id,
+        frozenUntil: state.frozenUntil,
+        minTime: state.minTime,
+        isStable: state.isStable,
+        lastSuccessMinTime: state.lastSuccessMinTime,
+        source: this.instanceId,
+        at: Date.now(),
+      });
+    } catch {
+      // Other instances catch up on the next change
     }
+  }
 
-    // Sort by: queue length (asc), then weight (desc), then success rate (desc)
-    available.sort((a, b) => {
-      const metricsA = a.getMetrics();
-      const metricsB = b.getMetrics();
+  /**
+   * Apply an update published by another pool instance
+   */
+  private applySharedState(update: SharedVendorState): void {
+    if (update.source === this.instanceId) return;
+    const vendor = this.vendors.find((v) => v.id === update.vendorId);
+    if (!vendor) return;
 
-      // Primary: lowest queue length
-      if (metricsA.queueLength !== metricsB.queueLength) {
-        return metricsA.queueLength - metricsB.queueLength;
-      }
+    const wasFrozenUntil = vendor.getState().frozenUntil;
+    vendor.applySharedState(update);
 
-      // Secondary: highest weight
-      if (a.weight !== b.weight) {
-        return b.weight - a.weight;
-      }
+    const state = vendor.getState();
+    // Already known to the others, don't echo it back
+    this.published.set(vendor, sharedSnapshot(state));
 
-      // Tertiary: highest success rate
-      return metricsB.successRate - metricsA.successRate;
-    });
+    if (state.frozenUntil > wasFrozenUntil && vendor.isFrozen()) {
+      this.emit('vendor:freeze', { vendorId: vendor.id, until: state.frozenUntil, reason: 'shared' });
+      this.scheduleUnfreeze(vendor);
+    }
+  }
+
+  /**
+   * Select the best available vendor.
+   * Filters out frozen vendors (and `exclude`), then lets the strategy choose among the rest.
+   */
+  private selectVendor(
+    input: TInput,
+    exclude: readonly Vendor<TInput, TOutput>[] = []
+  ): Vendor<TInput, TOutput> | null {
+    const available = this.vendors.filter((v) => this.isAvailable(v) && !exclude.includes(v));
 
-    return available[0];
+    if (available.length === 0) {
+      return null;
+    }
+
+    return this.strategy.select(available, { input });
+  }
+
+  /**
+   * Not frozen, and its circuit (if any) lets a call through
+   */
+  private isAvailable(vendor: Vendor<TInput, TOutput>): boolean {
+    return !vendor.isFrozen() && (this.breakers.get(vendor)?.allowRequest() ?? true);
   }
 
   /**
@@ -200,20 +367,98 @@ export class Pool<TInput = unknown, TOutput = unknown> {
         return;
     }
 
-    vendor.freeze(Date.now() + duration);
+    const until = Date.now() + duration;
+    vendor.freeze(until);
+    this.emit('vendor:freeze', { vendorId: vendor.id, until, reason: errorType });
+    this.scheduleUnfreeze(vendor);
+  }
+
+  /**
+   * Emit `vendor:unfreeze` once the vendor's freeze has passed
+   */
+  private scheduleUnfreeze(vendor: Vendor<TInput, TOutput>): void {
+    clearTimeout(this.unfreezeTimers.get(vendor));
+
+    const timer = setTimeout(() => {
+      this.unfreezeTimers.delete(vendor);
+      if (vendor.isFrozen()) {
+        // Frozen again (or the timer fired early)
+        this.scheduleUnfreeze(vendor);
+      } else {
+        this.emit('vendor:unfreeze', { vendorId: vendor.id });
+      }
+    }, vendor.getFrozenFor());
+
+    // Don't keep the process alive just to report an unfreeze
+    (timer as { unref?: () => void }).unref?.();
+    this.unfreezeTimers.set(vendor, timer);
   }
 
   /**
    * Execute a task with automatic failover and retry.
    * This is the main entry point.
    *
+   * With PoolOptions.cache, a fresh cached result is returned without calling a vendor,
+   * a stale one is returned while it is refreshed in the background, and identical
+   * calls in flight at the same time share one vendor call.
+   *
    * @param input - The task input
+   * @param options - Per-call options (e.g. `{ hedge: false }` to skip hedging)
    * @returns Promise resolving to the task output with metadata
    * @throws {EscalationError} When all vendors exhausted and escalation triggered
    * @throws {LogicError} When a logic error occurs (no retry possible)
    * @throws {TimeoutError} When global timeout exceeded
    */
-  async do(input: TInput): Promise<PoolResult<TOutput>> {
+  async do(input: TInput, options: DoOptions = {}): Promise<PoolResult<TOutput>> {
+    const key = this.cache && options.cache !== false ? this.cacheKey!(input) : undefined;
+    if (key === undefined) {
+      return this.run(input, options);
+    }
+
+    const cache = this.cache!;
+    const startTime = Date.now();
+    const hit = cache.get(key);
+    if (hit) {
+      if (hit.stale) {
+        // Errors are ignored: the stale result is served until the entry expires
+        cache.coalesce(key, () => this.load(key, input, options)).promise.catch(() => {});
+      }
+      return { ...hit.value, retries: 0, duration: Date.now() - startTime, cached: true };
+    }
+
+    const { promise, shared } = cache.coalesce(key, () => this.load(key, input, options));
+    const result = await promise;
+    return shared ? { ...result, retries: 0, duration: Date.now() - startTime, cached: true } : result;
+  }
+
+  /**
+   * Run a task on the vendors and cache its result
+   */
+  private async load(key: string, input: TInput, options: DoOptions): Promise<PoolResult<TOutput>> {
+    const result = await this.run(input, options);
+    this.cache!.set(key, result);
+    return result;
+  }
+
+  /**
+   * Drop cached results: the one for `input`, or all of them
+   */
+  invalidate(input?: TInput): void {
+    if (!this.cache) return;
+    if (input === undefined) {
+      this.cache.clear();
+      return;
+    }
+    const key = this.cacheKey!(input);
+    if (key !== undefined) {
+      this.cache.delete(key);
+    }
+  }
+
+  /**
+   * Execute a task on the vendors with failover and retry (no caching)
+   */
+  private async run(input: TInput, options: DoOptions): Promise<PoolResult<TOutput>> {
     await this.initialize();
 
     const startTime = Date.now();
@@ -242,6 +487,8 @@ export class Pool<TInput = unknown, TOutput = unknown> {
           taskInput: input,
         };
 
+        this.emit('escalation', context);
+
         // Call escalation callback if provided
         if (this.options.onEscalate) {
           await this.options.onEscalate(context);
@@ -251,7 +498,7 @@ export class Pool<TInput = unknown, TOutput = unknown> {
       }
 
       // Select a vendor
-      const vendor = this.selectVendor();
+      const vendor = this.selectVendor(input);
 
       if (!vendor) {
         // All vendors frozen - wait for nearest unfreeze
@@ -274,8 +521,8 @@ export class Pool<TInput = unknown, TOutput = unknown> {
         }
       }
 
-      // Mark vendor as having a pending task (for load balancing)
-      vendor.incrementPending();
+      const controllers: AbortController[] = [];
+      const hedge = (options.hedge ?? true) && this.options.hedge !== null;
 
       // Calculate remaining time for timeout enforcement during execution
       const remainingTime = this.options.timeout - (Date.now() - startTime);
@@ -290,66 +537,492 @@ export class Pool<TInput = unknown, TOutput = unknown> {
 
       try {
         // Execute the task with timeout enforcement
-        // Note: If timeout wins, vendorPromise may later reject - we must handle it
+        // Note: If timeout wins, the race may later reject - we must handle it
         // to prevent unhandled promise rejection (which can crash Node.js/Bun)
-        const vendorPromise = vendor.schedule(input);
-        vendorPromise.catch(() => {}); // Suppress unhandled rejection if timeout wins
+        const racePromise = this.race(input, vendor, hedge, controllers, (error) => {
+          totalRetries++;
+          consecutiveFailures++;
+          lastError = error;
+        });
+        racePromise.catch(() => {}); // Suppress unhandled rejection if timeout wins
 
-        const result = await Promise.race([vendorPromise, timeoutPromise]);
+        const { result, vendor: winner } = await Promise.race([racePromise, timeoutPromise]);
 
         // Clear timeout timer to prevent memory leak
         clearTimeout(timeoutId!);
 
-        // Decrement pending count
-        vendor.decrementPending();
-
-        // Save state on success
-        await this.saveVendorState(vendor);
-
         return {
           result,
-          vendorId: vendor.id,
+          vendorId: winner.id,
           retries: totalRetries,
           duration: Date.now() - startTime,
+          cached: false,
         };
       } catch (error) {
         // Clear timeout timer to prevent memory leak
         clearTimeout(timeoutId!);
 
-        // Decrement pending count
-        vendor.decrementPending();
-
-        // TimeoutError should not be retried - throw immediately
+        // TimeoutError should not be retried - cancel in-flight calls and throw immediately
         if (error instanceof TimeoutError) {
+          controllers.forEach((controller) => controller.abort());
           throw error;
         }
 
-        totalRetries++;
-        consecutiveFailures++;
+        // Logic errors are not retryable
+        if (error instanceof VendorExecutionError && error.errorType === ErrorType.LOGIC_ERROR) {
+          throw new LogicError(error.vendorId, error.originalError);
+        }
 
-        if (error instanceof VendorExecutionError) {
-          lastError = error;
+        // Continue to next iteration (retry with potentially different vendor)
+      }
+    }
+  }
+
+  /**
+   * Execute a task on several vendors in parallel and return the result a quorum agrees on.
+   * Failed calls and split votes are made up for by querying further vendors while any
+   * are left. Once the quorum is reached, calls still running are aborted, and vendors
+   * that answered differently are penalized in their VendorState.
+   *
+   * @param input - The task input
+   * @param options - Quorum size, result comparator and initial fanout
+   * @returns Promise resolving to the agreed result and how each vendor voted
+   * @throws {ConsensusError} When too few vendors are left to reach the quorum
+   * @throws {LogicError} When a logic error occurs (no retry possible)
+   * @throws {TimeoutError} When global timeout exceeded
+   */
+  async consensus(input: TInput, options: ConsensusOptions<TOutput>): Promise<ConsensusResult<TOutput>> {
+    const { quorum } = options;
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > this.vendors.length) {
+      throw new Error(`Quorum must be an integer between 1 and ${this.vendors.length}`);
+    }
+
+    await this.initialize();
+
+    const compare = options.compare ?? deepEqual;
+    const fanout = Math.max(options.fanout ?? this.vendors.length, quorum);
+    const startTime = Date.now();
+
+    const groups: { result: TOutput; vendors: Vendor<TInput, TOutput>[] }[] = [];
+    const failed: Vendor<TInput, TOutput>[] = [];
+    const tried: Vendor<TInput, TOutput>[] = [];
+    const controllers: AbortController[] = [];
+
+    return new Promise((resolve, reject) => {
+      let running = 0;
+      let settled = false;
+
+      const timeoutId = setTimeout(() => {
+        finish(() => reject(new TimeoutError(this.options.timeout, Date.now() - startTime)));
+      }, this.options.timeout);
+
+      const finish = (settle: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        controllers.forEach((controller) => controller.abort());
+        settle();
+      };
 
-          // Logic errors are not retryable
-          if (error.errorType === ErrorType.LOGIC_ERROR) {
-            throw new LogicError(error.vendorId, error.originalError);
+      const toError = () =>
+        new ConsensusError(
+          quorum,
+          groups.map((group) => ({ result: group.result, vendorIds: group.vendors.map((v) => v.id) })),
+          failed.map((v) => v.id)
+        );
+
+      const largestGroup = () => Math.max(0, ...groups.map((group) => group.vendors.length));
+
+      // Keep enough calls running that the quorum can still be reached
+      const launch = (count: number) => {
+        try {
+          for (let i = 0; i < count; i++) {
+            const vendor = this.selectVendor(input, tried);
+            if (!vendor) break;
+            tried.push(vendor);
+            start(vendor);
           }
+        } catch (error) {
+          // The strategy refused (e.g. BudgetExceededError)
+          finish(() => reject(error));
+          return;
+        }
+        if (running === 0 || largestGroup() + running + this.untried(tried) < quorum) {
+          finish(() => reject(toError()));
+        }
+      };
 
-          // Apply freeze based on error type
-          this.freezeVendor(vendor, error.errorType);
-          await this.saveVendorState(vendor);
-        } else {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          // Unknown error - apply hard freeze
-          this.freezeVendor(vendor, ErrorType.UNKNOWN);
-          await this.saveVendorState(vendor);
+      const start = (vendor: Vendor<TInput, TOutput>) => {
+        const controller = new AbortController();
+        controllers.push(controller);
+        running++;
+
+        this.call(vendor, input, controller.signal, false).then(
+          (result) => {
+            running--;
+            if (settled) return;
+
+            try {
+              let group = groups.find((g) => compare(g.result, result));
+              if (!group) {
+                group = { result, vendors: [] };
+                groups.push(group);
+              }
+              group.vendors.push(vendor);
+
+              if (group.vendors.length >= quorum) {
+                const agreed = group;
+                const dissenters = groups.filter((g) => g !== agreed).flatMap((g) => g.vendors);
+                finish(() =>
+                  resolve({
+                    result: agreed.result,
+                    agreeingVendors: agreed.vendors.map((v) => v.id),
+                    dissentingVendors: dissenters.map((v) => v.id),
+                    failedVendors: failed.map((v) => v.id),
+                    duration: Date.now() - startTime,
+                  })
+                );
+                for (const dissenter of dissenters) {
+                  dissenter.recordDissent();
+                  void this.saveVendorState(dissenter);
+                }
+                return;
+              }
+
+              launch(quorum - largestGroup() - running);
+            } catch (error) {
+              // A throwing `compare`
+              finish(() => reject(error));
+            }
+          },
+          (error: unknown) => {
+            running--;
+            if (settled) return;
+
+            if (error instanceof VendorExecutionError && error.errorType === ErrorType.LOGIC_ERROR) {
+              finish(() => reject(new LogicError(error.vendorId, error.originalError)));
+              return;
+            }
+
+            failed.push(vendor);
+            launch(quorum - largestGroup() - running);
+          }
+        );
+      };
+
+      launch(fanout);
+    });
+  }
+
+  /**
+   * Execute many tasks, in batches on vendors that implement `executeBatch`.
+   * Each batch goes to the vendor the strategy picks, at most `maxBatchSize` inputs at a time.
+   * A failed batch is sent again (usually to another vendor, since the failing one is frozen);
+   * items a batch rejected, batches that failed with a logic error, and inputs left over once
+   * no batching vendor is available are retried one by one through do().
+   *
+   * @param inputs - The task inputs
+   * @returns One settled result per input, in input order
+   */
+  async doMany(inputs: TInput[]): Promise<PromiseSettledResult<PoolResult<TOutput>>[]> {
+    await this.initialize();
+
+    const startTime = Date.now();
+    const results: PromiseSettledResult<PoolResult<TOutput>>[] = new Array(inputs.length);
+    const retries: number[] = new Array(inputs.length).fill(0);
+    const queue = inputs.map((_, i) => i);
+    const singles: number[] = [];
+    const running: Promise<void>[] = [];
+    const unbatched = this.vendors.filter((v) => !v.executeBatch);
+
+    // Batches still running at the timeout are abandoned
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+
+    const startBatches = () => {
+      while (queue.length > 0 && !controller.signal.aborted) {
+        let vendor: Vendor<TInput, TOutput> | null;
+        try {
+          vendor = this.selectVendor(inputs[queue[0]], unbatched);
+        } catch {
+          // The strategy refused (e.g. BudgetExceededError): do() reports it per input
+          vendor = null;
         }
+        if (!vendor) return;
 
-        // Continue to next iteration (retry with potentially different vendor)
+        const batch = queue.splice(0, vendor.maxBatchSize);
+        const request = this.callBatch(
+          vendor,
+          batch.map((i) => inputs[i]),
+          controller.signal
+        ).then(
+          (settled) => {
+            settled.forEach((item, j) => {
+              if (item.status === 'fulfilled') {
+                results[batch[j]] = {
+                  status: 'fulfilled',
+                  value: {
+                    result: item.value,
+                    vendorId: vendor.id,
+                    retries: retries[batch[j]],
+                    duration: Date.now() - startTime,
+                    cached: false,
+                  },
+                };
+              } else {
+                retries[batch[j]]++;
+                singles.push(batch[j]);
+              }
+            });
+          },
+          (error: unknown) => {
+            if (controller.signal.aborted) {
+              const elapsed = Date.now() - startTime;
+              for (const i of batch) {
+                results[i] = { status: 'rejected', reason: new TimeoutError(this.options.timeout, elapsed) };
+              }
+              return;
+            }
+
+            for (const i of batch) retries[i]++;
+
+            // A logic error may come from a single bad input: find it by splitting the batch
+            if (error instanceof VendorExecutionError && error.errorType === ErrorType.LOGIC_ERROR) {
+              singles.push(...batch);
+              return;
+            }
+            queue.push(...batch.filter((i) => retries[i] < this.options.maxRetries));
+            singles.push(...batch.filter((i) => retries[i] >= this.options.maxRetries));
+            startBatches();
+          }
+        );
+        running.push(request);
+      }
+    };
+
+    startBatches();
+    while (running.length > 0) {
+      await running.shift();
+    }
+    clearTimeout(timeoutId);
+
+    const remaining = [...singles, ...queue].sort((a, b) => a - b);
+    if (controller.signal.aborted) {
+      const elapsed = Date.now() - startTime;
+      for (const i of remaining) {
+        results[i] = { status: 'rejected', reason: new TimeoutError(this.options.timeout, elapsed) };
+      }
+      return results;
+    }
+
+    const settled = await Promise.allSettled(remaining.map((i) => this.do(inputs[i])));
+    settled.forEach((item, j) => {
+      const i = remaining[j];
+      results[i] =
+        item.status === 'fulfilled'
+          ? {
+              status: 'fulfilled',
+              value: { ...item.value, retries: item.value.retries + retries[i], duration: Date.now() - startTime },
+            }
+          : item;
+    });
+
+    return results;
+  }
+
+  /**
+   * Available vendors not in `tried`
+   */
+  private untried(tried: readonly Vendor<TInput, TOutput>[]): number {
+    return this.vendors.filter((v) => this.isAvailable(v) && !tried.includes(v)).length;
+  }
+
+  /**
+   * Run one attempt: a call on `primary`, plus a hedge call on a second vendor if
+   * hedging is on and `primary` is slower than its usual latency percentile.
+   * Resolves with the first success and aborts the other call. Every failed call is
+   * passed to `onFailure`; rejects once no call is left running (or on a logic error).
+   */
+  private race(
+    input: TInput,
+    primary: Vendor<TInput, TOutput>,
+    hedge: boolean,
+    controllers: AbortController[],
+    onFailure: (error: Error) => void
+  ): Promise<{ result: TOutput; vendor: Vendor<TInput, TOutput> }> {
+    return new Promise((resolve, reject) => {
+      let running = 0;
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (winner: AbortController | null) => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        for (const controller of controllers) {
+          if (controller !== winner) controller.abort();
+        }
+      };
+
+      const start = (vendor: Vendor<TInput, TOutput>, hedged: boolean) => {
+        const controller = new AbortController();
+        controllers.push(controller);
+        running++;
+
+        this.call(vendor, input, controller.signal, hedged).then(
+          (result) => {
+            if (settled) return;
+            settle(controller);
+            resolve({ result, vendor });
+          },
+          (error: unknown) => {
+            running--;
+            if (settled) return;
+
+            const err = error instanceof Error ? error : new Error(String(error));
+            onFailure(err);
+
+            // A logic error fails the input on every vendor; otherwise wait for the other call
+            if (running === 0 || (err instanceof VendorExecutionError && err.errorType === ErrorType.LOGIC_ERROR)) {
+              settle(null);
+              reject(err);
+            }
+          }
+        );
+      };
+
+      start(primary, false);
+
+      if (hedge) {
+        hedgeTimer = setTimeout(() => {
+          if (settled) return;
+          let second: Vendor<TInput, TOutput> | null;
+          try {
+            second = this.selectVendor(input, [primary]);
+          } catch {
+            // The strategy refused (e.g. BudgetExceededError): keep waiting for the primary
+            second = null;
+          }
+          if (second) start(second, true);
+        }, this.hedgeDelay(primary));
+      }
+    });
+  }
+
+  /**
+   * Run one call on a vendor
+   */
+  private call(
+    vendor: Vendor<TInput, TOutput>,
+    input: TInput,
+    signal: AbortSignal,
+    hedged: boolean
+  ): Promise<TOutput> {
+    return this.dispatch(vendor, input, signal, hedged, (onStart) =>
+      vendor.schedule(input, { signal, hedged, onStart })
+    );
+  }
+
+  /**
+   * Run one batch request on a vendor
+   */
+  private callBatch(
+    vendor: Vendor<TInput, TOutput>,
+    inputs: TInput[],
+    signal: AbortSignal
+  ): Promise<PromiseSettledResult<TOutput>[]> {
+    return this.dispatch(vendor, inputs, signal, false, (onStart) =>
+      vendor.scheduleBatch(inputs, { signal, onStart })
+    );
+  }
+
+  /**
+   * Run a request on a vendor, freezing it (or counting the failure in its circuit breaker) on failure.
+   * Requests aborted by the pool are not held against the vendor.
+   */
+  private async dispatch<T>(
+    vendor: Vendor<TInput, TOutput>,
+    input: unknown,
+    signal: AbortSignal,
+    hedged: boolean,
+    run: (onStart: () => void) => Promise<T>
+  ): Promise<T> {
+    // Mark vendor as having a pending task (for load balancing)
+    vendor.incrementPending();
+    const dispatchedAt = Date.now();
+    const breaker = this.breakers.get(vendor);
+    breaker?.onCallStart();
+    const reservation = this.strategy.reserve?.(vendor);
+    this.emit('vendor:selected', { vendorId: vendor.id, input, hedged });
+
+    let called = false;
+    try {
+      const result = await run(() => {
+        called = true;
+      });
+
+      // Decrement pending count
+      vendor.decrementPending();
+      this.strategy.onSettle?.(vendor, called, reservation);
+      if (signal.aborted) {
+        breaker?.onIgnored();
+        return result;
+      }
+      const duration = Date.now() - dispatchedAt;
+      this.strategy.onResult?.(vendor, { success: true, duration });
+      breaker?.onSuccess();
+      this.stats.record(vendor.id, duration, null);
+      this.emit('vendor:success', { vendorId: vendor.id, duration, hedged });
+
+      // Save state on success
+      await this.saveVendorState(vendor);
+      return result;
+    } catch (error) {
+      // Decrement pending count
+      vendor.decrementPending();
+      this.strategy.onSettle?.(vendor, called, reservation);
+      if (signal.aborted) {
+        breaker?.onIgnored();
+        throw error;
       }
+      const duration = Date.now() - dispatchedAt;
+      this.strategy.onResult?.(vendor, { success: false, duration });
+
+      // Unknown errors get a hard freeze
+      const errorType = error instanceof VendorExecutionError ? error.errorType : ErrorType.UNKNOWN;
+      const cause = error instanceof VendorExecutionError ? error.originalError : error;
+      this.stats.record(vendor.id, duration, errorType);
+      this.emit('vendor:failure', {
+        vendorId: vendor.id,
+        errorType,
+        error: cause instanceof Error ? cause : new Error(String(cause)),
+        duration,
+      });
+
+      if (errorType === ErrorType.LOGIC_ERROR) {
+        // Logic errors don't freeze - the input is at fault, not the vendor
+        breaker?.onIgnored();
+      } else if (errorType === ErrorType.RATE_LIMIT || !breaker) {
+        breaker?.onIgnored();
+        this.freezeVendor(vendor, errorType);
+        await this.saveVendorState(vendor);
+      } else {
+        // The breaker decides whether the vendor is taken out of rotation
+        breaker.onFailure();
+        await this.saveVendorState(vendor);
+      }
+      throw error;
     }
   }
 
+  /**
+   * How long to wait for `vendor` before sending a hedge request
+   */
+  private hedgeDelay(vendor: Vendor<TInput, TOutput>): number {
+    const hedge = this.options.hedge!;
+    const stats = vendor.getLatencyPercentile(hedge.percentile);
+    return stats && stats.samples >= hedge.minSamples ? stats.latency : hedge.initialDelay;
+  }
+
   /**
    * Get current states of all vendors
    */
@@ -357,16 +1030,48 @@ export class Pool<TInput = unknown, TOutput = unknown> {
     return this.vendors.map((v) => v.getState());
   }
 
+  /**
+   * Rolling call statistics per vendor (latency percentiles, errors by type, request rate)
+   * over the last PoolOptions.statsWindow ms
+   */
+  getStats(): PoolStats {
+    return {
+      window: this.options.statsWindow,
+      vendors: this.vendors.map((v) => this.stats.get(v.id)),
+    };
+  }
+
   /**
    * Reset all vendors to initial state
    */
   async reset(): Promise<void> {
+    this.stats.reset();
+    for (const timer of this.unfreezeTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.unfreezeTimers.clear();
+
     for (const vendor of this.vendors) {
       vendor.reset(this.options.initialMinTime);
+      this.breakers.get(vendor)?.reset();
       await this.saveVendorState(vendor);
     }
   }
 
+  /**
+   * Stop listening to other pool instances and drop pending timers.
+   * The pool can't share state after this, but can still be used.
+   */
+  close(): void {
+    this.unsubscribeSync?.();
+    this.unsubscribeSync = null;
+    this.sync = null;
+    for (const timer of this.unfreezeTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.unfreezeTimers.clear();
+  }
+
   /**
    * Clear all persisted state
    */
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { StatsCollector } from './stats.js';
+import { ErrorType } from './types.js';
+
+describe('StatsCollector', () => {
+  it('should compute latency percentiles from successful calls', () => {
+    const stats = new StatsCollector(60_000);
+    for (let i = 1; i <= 20; i++) {
+      stats.record('a', i * 10, null);
+    }
+
+    const vendor = stats.get('a');
+    expect(vendor.successes).toBe(20);
+    expect(vendor.latency).toEqual({ p50: 100, p95: 190 });
+  });
+
+  it('should break failures down by error type', () => {
+    const stats = new StatsCollector(60_000);
+    stats.record('a', 5, ErrorType.RATE_LIMIT);
+    stats.record('a', 5, ErrorType.RATE_LIMIT);
+    stats.record('a', 5, ErrorType.SERVER_ERROR);
+
+    const vendor = stats.get('a');
+    expect(vendor.requests).toBe(3);
+    expect(vendor.successes).toBe(0);
+    expect(vendor.latency).toBeNull();
+    expect(vendor.errors).toEqual({
+      [ErrorType.RATE_LIMIT]: 2,
+      [ErrorType.SERVER_ERROR]: 1,
+      [ErrorType.LOGIC_ERROR]: 0,
+      [ErrorType.UNKNOWN]: 0,
+    });
+  });
+
+  it('should scale the request count to a per-minute rate', () => {
+    const stats = new StatsCollector(30_000);
+    stats.record('a', 1, null);
+    stats.record('a', 1, null);
+
+    expect(stats.get('a').requestsPerMinute).toBe(4);
+  });
+
+  it('should only count calls inside the window', async () => {
+    const stats = new StatsCollector(30);
+    stats.record('a', 1, null);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    stats.record('a', 1, ErrorType.UNKNOWN);
+
+    const vendor = stats.get('a');
+    expect(vendor.requests).toBe(1);
+    expect(vendor.successes).toBe(0);
+  });
+
+  it('should reject a non-positive window', () => {
+    expect(() => new StatsCollector(0)).toThrow('statsWindow');
+  });
+});
@@ -0,0 +1,81 @@
+import { ErrorType, type VendorStats } from './types.js';
+
+/**
+ * Rolling per-vendor call statistics behind pool.getStats().
+ * Keeps one entry per finished call for the length of the window.
+ */
+export class StatsCollector {
+  private window: number;
+  private calls = new Map<string, { at: number; duration: number; errorType: ErrorType | null }[]>();
+
+  constructor(window: number) {
+    if (!(window > 0)) {
+      throw new Error('statsWindow must be positive');
+    }
+    this.window = window;
+  }
+
+  /**
+   * Record a finished call (errorType null = success)
+   */
+  record(vendorId: string, duration: number, errorType: ErrorType | null): void {
+    let calls = this.calls.get(vendorId);
+    if (!calls) {
+      calls = [];
+      this.calls.set(vendorId, calls);
+    }
+    calls.push({ at: Date.now(), duration, errorType });
+    this.prune(calls);
+  }
+
+  /**
+   * Statistics of one vendor over the window
+   */
+  get(vendorId: string): VendorStats {
+    const calls = this.calls.get(vendorId) ?? [];
+    this.prune(calls);
+
+    const errors = Object.fromEntries(Object.values(ErrorType).map((type) => [type, 0])) as Record<
+      ErrorType,
+      number
+    >;
+    const durations: number[] = [];
+    for (const call of calls) {
+      if (call.errorType === null) {
+        durations.push(call.duration);
+      } else {
+        errors[call.errorType]++;
+      }
+    }
+    durations.sort((a, b) => a - b);
+
+    return {
+      vendorId,
+      requests: calls.length,
+      requestsPerMinute: (calls.length * 60_000) / this.window,
+      successes: durations.length,
+      errors,
+      latency: durations.length > 0 ? { p50: percentile(durations, 50), p95: percentile(durations, 95) } : null,
+    };
+  }
+
+  /**
+   * Forget everything recorded
+   */
+  reset(): void {
+    this.calls.clear();
+  }
+
+  private prune(calls: { at: number }[]): void {
+    const windowStart = Date.now() - this.window;
+    const firstInWindow = calls.findIndex((call) => call.at > windowStart);
+    calls.splice(0, firstInWindow === -1 ? calls.length : firstInWindow);
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'bun:test';
+import { Pool } from './pool.js';
+import { Vendor, type VendorOptions } from './vendor.js';
+import { BudgetExceededError, TimeoutError } from './errors.js';
+import {
+  LeastQueueStrategy,
+  WeightedRoundRobinStrategy,
+  LatencyStrategy,
+  CostStrategy,
+  StickyStrategy,
+} from './strategies.js';
+
+class EchoVendor extends Vendor<string, string> {
+  readonly id: string;
+  private delay: number;
+  private failing = false;
+  public callCount = 0;
+
+  constructor(id: string, options: VendorOptions & { delay?: number } = {}) {
+    super(options);
+    this.id = id;
+    this.delay = options.delay ?? 0;
+  }
+
+  setFailing(failing: boolean) {
+    this.failing = failing;
+  }
+
+  async execute(input: string): Promise<string> {
+    this.callCount++;
+    if (this.delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+    }
+    if (this.failing) {
+      throw new Error('HTTP 503 Service Unavailable');
+    }
+    return `${this.id}: ${input}`;
+  }
+}
+
+// Initialized vendors with a fast limiter, for calling strategies directly
+function vendors(...list: EchoVendor[]): EchoVendor[] {
+  for (const vendor of list) {
+    vendor.initialize({ initialMinTime: 0, probeStep: 0, rateLimitBackoff: 1.25 });
+  }
+  return list;
+}
+
+describe('LeastQueueStrategy', () => {
+  it('should prefer the least loaded vendor, then weight', () => {
+    const [a, b, c] = vendors(new EchoVendor('a'), new EchoVendor('b'), new EchoVendor('c', { weight: 5 }));
+    const strategy = new LeastQueueStrategy();
+
+    expect(strategy.select([a, b, c], { input: 'x' })?.id).toBe('c');
+
+    c.incrementPending();
+    expect(strategy.select([a, b, c], { input: 'x' })?.id).toBe('a');
+  });
+
+  it('should return null when no vendor is offered', () => {
+    expect(new LeastQueueStrategy().select([], { input: 'x' })).toBeNull();
+  });
+});
+
+describe('WeightedRoundRobinStrategy', () => {
+  it('should interleave calls in proportion to weight', () => {
+    const list = vendors(new EchoVendor('a', { weight: 3 }), new EchoVendor('b', { weight: 1 }));
+    const strategy = new WeightedRoundRobinStrategy();
+
+    const picks = Array.from({ length: 8 }, () => strategy.select(list, { input: 'x' })?.id);
+
+    expect(picks).toEqual(['a', 'a', 'b', 'a', 'a', 'a', 'b', 'a']);
+  });
+
+  it('should skip vendors that are not offered', () => {
+    const [a, b] = vendors(new EchoVendor('a'), new EchoVendor('b'));
+    const strategy = new WeightedRoundRobinStrategy();
+
+    expect(strategy.select([a, b], { input: 'x' })?.id).toBe('a');
+    expect(strategy.select([a], { input: 'x' })?.id).toBe('a');
+    expect(strategy.select([a, b], { input: 'x' })?.id).toBe('b');
+  });
+});
+
+describe('LatencyStrategy', () => {
+  it('should keep an EWMA of observed response times', () => {
+    const [a] = vendors(new EchoVendor('a'));
+    const strategy = new LatencyStrategy({ alpha: 0.5 });
+
+    expect(strategy.getLatency('a')).toBeUndefined();
+    strategy.onResult(a, { success: true, duration: 100 });
+    strategy.onResult(a, { success: true, duration: 200 });
+
+    expect(strategy.getLatency('a')).toBe(150);
+  });
+
+  it('should try unmeasured vendors first, then the fastest', () => {
+    const [a, b] = vendors(new EchoVendor('a'), new EchoVendor('b'));
+    const strategy = new LatencyStrategy();
+
+    strategy.onResult(a, { success: true, duration: 50 });
+    expect(strategy.select([a, b], { input: 'x' })?.id).toBe('b');
+
+    strategy.onResult(b, { success: true, duration: 300 });
+    expect(strategy.select([a, b], { input: 'x' })?.id).toBe('a');
+  });
+
+  it('should route pool traffic to the faster vendor', async () => {
+    const slow = new EchoVendor('slow', { delay: 60 });
+    const fast = new EchoVendor('fast', { delay: 5 });
+    const pool = new Pool([slow, fast], { strategy: new LatencyStrategy(), initialMinTime: 0 });
+
+    for (let i = 0; i < 6; i++) {
+      await pool.do(`req-${i}`);
+    }
+
+    expect(slow.callCount).toBe(1);
+    expect(fast.callCount).toBe(5);
+  });
+
+  it('should reject an invalid alpha', () => {
+    expect(() => new LatencyStrategy({ alpha: 0 })).toThrow('alpha');
+  });
+});
+
+describe('CostStrategy', () => {
+  it('should use free vendors first and fall back to paid ones while they are frozen', async () => {
+    const free = new EchoVendor('free');
+    const paid = new EchoVendor('paid', { costPerCall: 2 });
+    const strategy = new CostStrategy({ budget: 10 });
+    const pool = new Pool([paid, free], { strategy, initialMinTime: 0 });
+
+    expect((await pool.do('a')).vendorId).toBe('free');
+
+    free.setFailing(true);
+    expect((await pool.do('b')).vendorId).toBe('paid');
+    expect(strategy.spent).toBe(2);
+  });
+
+  it('should throw BudgetExceededError once nothing affordable is left', async () => {
+    const paid = new EchoVendor('paid', { costPerCall: 3 });
+    const strategy = new CostStrategy({ budget: 5 });
+    const pool = new Pool([paid], { strategy, initialMinTime: 0 });
+
+    await pool.do('a');
+    await expect(pool.do('b')).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(paid.callCount).toBe(1);
+
+    strategy.resetBudget();
+    expect((await pool.do('c')).vendorId).toBe('paid');
+  });
+
+  it('should reserve the cost when a call starts so concurrent calls stay within budget', async () => {
+    const paid = new EchoVendor('paid', { costPerCall: 1, delay: 20 });
+    const strategy = new CostStrategy({ budget: 1 });
+    const pool = new Pool([paid], { strategy, initialMinTime: 0 });
+
+    const results = await Promise.allSettled([pool.do('a'), pool.do('b'), pool.do('c')]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter((r) => r.status === 'rejected')) {
+      expect(result.reason).toBeInstanceOf(BudgetExceededError);
+    }
+    expect(paid.callCount).toBe(1);
+    expect(strategy.spent).toBe(1);
+    expect(strategy.reserved).toBe(0);
+  });
+
+  it('should skip the hedge when the budget has no room for it', async () => {
+    const a = new EchoVendor('a', { costPerCall: 1, delay: 60 });
+    const b = new EchoVendor('b', { costPerCall: 1.5 });
+    const strategy = new CostStrategy({ budget: 2 });
+    const pool = new Pool([a, b], { strategy, initialMinTime: 0, hedge: { initialDelay: 20 } });
+
+    await pool.do('x', { hedge: false });
+    const result = await pool.do('y');
+
+    expect(result.vendorId).toBe('a');
+    expect(b.callCount).toBe(0);
+    expect(strategy.spent).toBe(2);
+  });
+
+  it('should charge calls that lose to the pool timeout', async () => {
+    const paid = new EchoVendor('paid', { costPerCall: 1, delay: 60 });
+    const strategy = new CostStrategy({ budget: 10 });
+    const pool = new Pool([paid], { strategy, initialMinTime: 0, timeout: 20 });
+
+    await expect(pool.do('a')).rejects.toBeInstanceOf(TimeoutError);
+    expect(strategy.reserved).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(strategy.spent).toBe(1);
+    expect(strategy.reserved).toBe(0);
+  });
+
+  it('should release only the reservation of the settling call', () => {
+    const [paid] = vendors(new EchoVendor('paid', { costPerCall: 1 }));
+    const strategy = new CostStrategy({ budget: 10 });
+
+    const reservation = strategy.reserve(paid);
+    strategy.onSettle(paid, true); // A call that holds no reservation
+    expect(strategy.reserved).toBe(1);
+
+    strategy.onSettle(paid, true, reservation);
+    strategy.onSettle(paid, false, reservation);
+    expect(strategy.reserved).toBe(0);
+    expect(strategy.spent).toBe(2);
+  });
+
+  it('should reserve calls pinned by a StickyStrategy', async () => {
+    const paid = new EchoVendor('paid', { costPerCall: 1, delay: 30 });
+    const cost = new CostStrategy({ budget: 2 });
+    const strategy = new StickyStrategy<string>({
+      key: (input) => (input === 'pinned' ? input : undefined),
+      fallback: cost,
+    });
+    const pool = new Pool([paid], { strategy, initialMinTime: 0, hedge: null });
+
+    await pool.do('pinned');
+    const results = await Promise.allSettled([pool.do('pinned'), pool.do('other')]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1].status === 'rejected' && results[1].reason).toBeInstanceOf(BudgetExceededError);
+    expect(cost.spent).toBe(2);
+    expect(cost.reserved).toBe(0);
+  });
+});
+
+describe('StickyStrategy', () => {
+  it('should send the same key to the same vendor', async () => {
+    const a = new EchoVendor('a');
+    const b = new EchoVendor('b');
+    const pool = new Pool([a, b], {
+      strategy: new StickyStrategy<string>({ key: (input) => input.split(':')[0] }),
+      initialMinTime: 0,
+    });
+
+    const first = await pool.do('user1:x');
+    a.incrementPending(); // Load would normally move the next call
+    b.incrementPending();
+    b.incrementPending();
+    const second = await pool.do('user1:y');
+
+    expect(second.vendorId).toBe(first.vendorId);
+  });
+
+  it('should move a key when its vendor is frozen', () => {
+    const [a, b] = vendors(new EchoVendor('a'), new EchoVendor('b'));
+    const strategy = new StickyStrategy<string>({ key: (input) => input });
+
+    expect(strategy.select([a, b], { input: 'k' })?.id).toBe('a');
+    expect(strategy.select([b], { input: 'k' })?.id).toBe('b');
+    expect(strategy.select([a, b], { input: 'k' })?.id).toBe('b');
+  });
+
+  it('should forget the least recently used keys beyond maxKeys', () => {
+    const [a, b] = vendors(new EchoVendor('a'), new EchoVendor('b'));
+    const strategy = new StickyStrategy<string>({ key: (input) => input, maxKeys: 1 });
+
+    strategy.select([b], { input: 'k1' });
+    strategy.select([a], { input: 'k2' });
+
+    // k1 was dropped, so it goes wherever the fallback sends it
+    expect(strategy.select([a, b], { input: 'k1' })?.id).toBe('a');
+  });
+});
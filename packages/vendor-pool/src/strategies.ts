@@ -0,0 +1,245 @@
+import type { SelectionContext, SelectionResult, SelectionStrategy } from './types.js';
+import type { Vendor } from './vendor.js';
+import { BudgetExceededError } from './errors.js';
+
+/**
+ * Order by queue length (asc), then weight (desc), then success rate (desc).
+ * Shared tiebreaker for the other strategies.
+ */
+function compareLoad(a: Vendor, b: Vendor): number {
+  const metricsA = a.getMetrics();
+  const metricsB = b.getMetrics();
+
+  if (metricsA.queueLength !== metricsB.queueLength) {
+    return metricsA.queueLength - metricsB.queueLength;
+  }
+  if (a.weight !== b.weight) {
+    return b.weight - a.weight;
+  }
+  return metricsB.successRate - metricsA.successRate;
+}
+
+/**
+ * Default strategy: the least loaded vendor, weight and success rate as tiebreakers
+ */
+export class LeastQueueStrategy implements SelectionStrategy {
+  select<V extends Vendor>(vendors: readonly V[]): V | null {
+    if (vendors.length === 0) return null;
+    return [...vendors].sort(compareLoad)[0];
+  }
+}
+
+/**
+ * Smooth weighted round-robin (as in nginx): each vendor gets a share of calls
+ * proportional to its weight, interleaved rather than in bursts
+ */
+export class WeightedRoundRobinStrategy implements SelectionStrategy {
+  private current = new Map<string, number>();
+
+  select<V extends Vendor>(vendors: readonly V[]): V | null {
+    if (vendors.length === 0) return null;
+
+    let total = 0;
+    let best: V | null = null;
+    let bestWeight = -Infinity;
+
+    for (const vendor of vendors) {
+      const weight = Math.max(vendor.weight, 0);
+      const current = (this.current.get(vendor.id) ?? 0) + weight;
+      this.current.set(vendor.id, current);
+      total += weight;
+
+      if (current > bestWeight) {
+        best = vendor;
+        bestWeight = current;
+      }
+    }
+
+    this.current.set(best!.id, bestWeight - total);
+    return best;
+  }
+}
+
+/**
+ * Options for LatencyStrategy
+ */
+export interface LatencyStrategyOptions {
+  /** Weight of the newest sample in the moving average, 0-1 (default: 0.3) */
+  alpha?: number;
+}
+
+/**
+ * Prefer the vendor with the lowest expected wait: the EWMA of its observed
+ * response time, times its queue length + 1.
+ * Vendors without samples yet are tried first so every vendor gets measured.
+ */
+export class LatencyStrategy implements SelectionStrategy {
+  private alpha: number;
+  private latencies = new Map<string, number>();
+
+  constructor(options: LatencyStrategyOptions = {}) {
+    this.alpha = options.alpha ?? 0.3;
+    if (!(this.alpha > 0 && this.alpha <= 1)) {
+      throw new Error('LatencyStrategy alpha must be in (0, 1]');
+    }
+  }
+
+  select<V extends Vendor>(vendors: readonly V[]): V | null {
+    if (vendors.length === 0) return null;
+
+    const score = (vendor: V) =>
+      (this.latencies.get(vendor.id) ?? 0) * (vendor.getMetrics().queueLength + 1);
+
+    return [...vendors].sort((a, b) => score(a) - score(b) || compareLoad(a, b))[0];
+  }
+
+  onResult(vendor: Vendor, result: SelectionResult): void {
+    const previous = this.latencies.get(vendor.id);
+    this.latencies.set(
+      vendor.id,
+      previous === undefined ? result.duration : previous + this.alpha * (result.duration - previous)
+    );
+  }
+
+  /**
+   * Current latency estimate for a vendor in ms (undefined before its first call)
+   */
+  getLatency(vendorId: string): number | undefined {
+    return this.latencies.get(vendorId);
+  }
+}
+
+/**
+ * Options for CostStrategy
+ */
+export interface CostStrategyOptions {
+  /** Maximum total spend, in the same unit as Vendor.costPerCall (default: unlimited) */
+  budget?: number;
+}
+
+/**
+ * Prefer the cheapest vendor (by Vendor.costPerCall), least loaded among equals.
+ * Free vendors take traffic first; paid ones are used while free ones are frozen.
+ * A call's cost is reserved when it starts, so concurrent calls can't overrun the
+ * budget together, and charged when it ends: failed, aborted and timed-out calls count,
+ * calls that never reached the vendor are refunded. Once no available vendor fits in
+ * what is left, select throws BudgetExceededError.
+ */
+export class CostStrategy implements SelectionStrategy {
+  private budget: number;
+  private spentTotal = 0;
+  private reservedTotal = 0;
+  private reservations = new Set<{ cost: number }>();
+
+  constructor(options: CostStrategyOptions = {}) {
+    this.budget = options.budget ?? Infinity;
+  }
+
+  select<V extends Vendor>(vendors: readonly V[]): V | null {
+    if (vendors.length === 0) return null;
+
+    const committed = this.spentTotal + this.reservedTotal;
+    const affordable = vendors.filter((v) => committed + v.costPerCall <= this.budget);
+    if (affordable.length === 0) {
+      throw new BudgetExceededError(this.budget, committed);
+    }
+
+    return affordable.sort((a, b) => a.costPerCall - b.costPerCall || compareLoad(a, b))[0];
+  }
+
+  reserve(vendor: Vendor): { cost: number } {
+    const reservation = { cost: vendor.costPerCall };
+    this.reservations.add(reservation);
+    this.reservedTotal += reservation.cost;
+    return reservation;
+  }
+
+  onSettle(vendor: Vendor, called: boolean, reservation?: unknown): void {
+    // Only the settling call's own reservation is released, and only once
+    if (this.reservations.delete(reservation as { cost: number })) {
+      this.reservedTotal -= (reservation as { cost: number }).cost;
+    }
+    if (called) this.spentTotal += vendor.costPerCall;
+  }
+
+  /**
+   * Total charged for finished calls
+   */
+  get spent(): number {
+    return this.spentTotal;
+  }
+
+  /**
+   * Total held for calls still running
+   */
+  get reserved(): number {
+    return this.reservedTotal;
+  }
+
+  /**
+   * Start a new budget period (calls still running are charged to the new one)
+   */
+  resetBudget(): void {
+    this.spentTotal = 0;
+  }
+}
+
+/**
+ * Options for StickyStrategy
+ */
+export interface StickyStrategyOptions<TInput = unknown> {
+  /** Routing key for an input (undefined = not sticky) */
+  key: (input: TInput) => string | undefined;
+  /** Picks a vendor for new keys, or when the pinned vendor is frozen (default: LeastQueueStrategy) */
+  fallback?: SelectionStrategy;
+  /** Keys remembered, least recently used are dropped first (default: 10000) */
+  maxKeys?: number;
+}
+
+/**
+ * Send inputs with the same key to the same vendor (e.g. one session per provider).
+ * If the pinned vendor is frozen, the key moves to whichever vendor the fallback picks.
+ */
+export class StickyStrategy<TInput = unknown> implements SelectionStrategy {
+  private key: (input: TInput) => string | undefined;
+  private fallback: SelectionStrategy;
+  private maxKeys: number;
+  private pins = new Map<string, string>();
+
+  constructor(options: StickyStrategyOptions<TInput>) {
+    this.key = options.key;
+    this.fallback = options.fallback ?? new LeastQueueStrategy();
+    this.maxKeys = options.maxKeys ?? 10_000;
+  }
+
+  select<V extends Vendor>(vendors: readonly V[], context: SelectionContext): V | null {
+    const key = this.key(context.input as TInput);
+    if (key === undefined) {
+      return this.fallback.select(vendors, context);
+    }
+
+    const pinned = this.pins.get(key);
+    const vendor = vendors.find((v) => v.id === pinned) ?? this.fallback.select(vendors, context);
+    if (!vendor) return null;
+
+    // Re-insert to keep the map in least-recently-used order
+    this.pins.delete(key);
+    this.pins.set(key, vendor.id);
+    if (this.pins.size > this.maxKeys) {
+      this.pins.delete(this.pins.keys().next().value!);
+    }
+    return vendor;
+  }
+
+  onResult(vendor: Vendor, result: SelectionResult): void {
+    this.fallback.onResult?.(vendor, result);
+  }
+
+  reserve(vendor: Vendor): unknown {
+    return this.fallback.reserve?.(vendor);
+  }
+
+  onSettle(vendor: Vendor, called: boolean, reservation?: unknown): void {
+    this.fallback.onSettle?.(vendor, called, reservation);
+  }
+}
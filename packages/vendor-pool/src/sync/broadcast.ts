@@ -0,0 +1,34 @@
+import type { SharedVendorState, StateSync } from '../types.js';
+
+/**
+ * BroadcastChannel sync for browser tabs and workers of the same origin
+ * (also works between worker threads in Node and Bun).
+ * Updates are not kept: combine with LocalStorageAdapter so a new tab starts
+ * from the last saved state.
+ */
+export class BroadcastChannelSync implements StateSync {
+  private channel: BroadcastChannel;
+
+  constructor(name = 'vendor-pool') {
+    this.channel = new BroadcastChannel(name);
+    // Node/Bun: an open channel shouldn't keep the process alive
+    (this.channel as { unref?: () => void }).unref?.();
+  }
+
+  publish(update: SharedVendorState): void {
+    this.channel.postMessage(update);
+  }
+
+  subscribe(listener: (update: SharedVendorState) => void): () => void {
+    const handler = (event: MessageEvent<SharedVendorState>) => listener(event.data);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  /**
+   * Close the channel
+   */
+  close(): void {
+    this.channel.close();
+  }
+}
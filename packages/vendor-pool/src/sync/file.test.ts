@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSync } from './file.js';
+import type { SharedVendorState } from '../types.js';
+
+function update(vendorId: string, minTime: number, source = 'a'): SharedVendorState {
+  return { vendorId, frozenUntil: 0, minTime, isStable: false, lastSuccessMinTime: minTime, source, at: Date.now() };
+}
+
+describe('FileSync', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'vendor-pool-sync-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should deliver the current view on subscribe', () => {
+    new FileSync(directory).publish(update('v1', 300));
+
+    const received: SharedVendorState[] = [];
+    const unsubscribe = new FileSync(directory).subscribe((u) => received.push(u));
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].minTime).toBe(300);
+  });
+
+  it('should deliver later updates once per change', async () => {
+    const publisher = new FileSync(directory);
+    const received: number[] = [];
+    const unsubscribe = new FileSync(directory, { pollInterval: 10 }).subscribe((u) => received.push(u.minTime));
+
+    publisher.publish(update('v1', 300));
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    publisher.publish(update('v1', 250));
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    unsubscribe();
+
+    expect(received).toEqual([300, 250]);
+  });
+
+  it('should skip unreadable files', () => {
+    writeFileSync(join(directory, 'broken.json'), '{');
+    new FileSync(directory).publish(update('v1', 300));
+
+    const received: SharedVendorState[] = [];
+    new FileSync(directory).subscribe((u) => received.push(u))();
+
+    expect(received.map((u) => u.vendorId)).toEqual(['v1']);
+  });
+});
@@ -0,0 +1,74 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SharedVendorState, StateSync } from '../types.js';
+
+/**
+ * Options for FileSync
+ */
+export interface FileSyncOptions {
+  /** How often to check for updates from other processes in ms (default: 200) */
+  pollInterval?: number;
+}
+
+/**
+ * File-backed sync for Node/Bun processes on the same machine.
+ * Each vendor's latest state is one JSON file in `directory`, replaced atomically
+ * (write + rename) on publish and polled by subscribers. The files hold the current
+ * view, so a process that starts later picks it up on subscribe.
+ */
+export class FileSync implements StateSync {
+  private directory: string;
+  private pollInterval: number;
+
+  constructor(directory: string, options: FileSyncOptions = {}) {
+    this.directory = directory;
+    this.pollInterval = options.pollInterval ?? 200;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  publish(update: SharedVendorState): void {
+    const file = join(this.directory, `${encodeURIComponent(update.vendorId)}.json`);
+    const temp = `${file}.${update.source}.tmp`;
+    writeFileSync(temp, JSON.stringify(update));
+    renameSync(temp, file);
+  }
+
+  subscribe(listener: (update: SharedVendorState) => void): () => void {
+    const seen = new Map<string, string>();
+
+    const poll = () => {
+      let names: string[];
+      try {
+        names = readdirSync(this.directory).filter((name) => name.endsWith('.json'));
+      } catch {
+        return;
+      }
+
+      for (const name of names) {
+        let content: string;
+        try {
+          content = readFileSync(join(this.directory, name), 'utf8');
+        } catch {
+          continue; // Replaced between readdir and read, picked up next time
+        }
+        if (seen.get(name) === content) continue;
+        seen.set(name, content);
+
+        let update: SharedVendorState;
+        try {
+          update = JSON.parse(content) as SharedVendorState;
+        } catch {
+          continue; // Ignore unreadable files
+        }
+        listener(update);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, this.pollInterval);
+    // Don't keep the process alive just to poll
+    (timer as { unref?: () => void }).unref?.();
+
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1 @@
+export { BroadcastChannelSync } from './broadcast.js';
@@ -1,3 +1,5 @@
+import type { Vendor } from './vendor.js';
+
 /**
  * Error classification for determining retry/freeze behavior
  */
@@ -30,6 +32,14 @@ export interface VendorState {
   successCount: number;
   /** Total failed executions */
   failureCount: number;
+  /** Hedge requests sent to this vendor (a second request for an input another vendor is slow on) */
+  hedgedCount: number;
+  /** Calls cancelled because another vendor answered first (counted neither as success nor failure) */
+  abortedCount: number;
+  /** Answers outvoted by the quorum in Pool.consensus() */
+  dissentCount: number;
+  /** Circuit breaker state (always 'closed' unless PoolOptions.circuitBreaker is set) */
+  circuit: CircuitState;
   /** Last error message if any */
   lastError?: string;
   /** Last error timestamp */
@@ -57,7 +67,7 @@ export interface EscalationContext {
 /**
  * Pool configuration options
  */
-export interface PoolOptions {
+export interface PoolOptions<TInput = unknown> {
   /** Storage adapter for persisting vendor states (default: MemoryStorageAdapter) */
   storage?: StorageAdapter;
 
@@ -87,6 +97,271 @@ export interface PoolOptions {
 
   /** Hard freeze duration range in ms for server errors (default: [30000, 60000]) */
   hardFreezeDuration?: [number, number];
+
+  /** How to pick among unfrozen vendors (default: LeastQueueStrategy) */
+  strategy?: SelectionStrategy;
+
+  /** Send slow calls to a second vendor as well and take the first success (default: off) */
+  hedge?: HedgeOptions;
+
+  /** Open a vendor's circuit on a high failure rate instead of freezing it on every server error (default: off) */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /** Callback on every circuit breaker state change */
+  onCircuitChange?: (transition: CircuitTransition) => void;
+
+  /** Length in ms of the rolling window behind pool.getStats() (default: 60000) */
+  statsWindow?: number;
+
+  /** Share frozen-until and minTime with other pool instances (other tabs, workers, processes) */
+  sync?: StateSync;
+
+  /** Cache results of pool.do() per input (default: off) */
+  cache?: CacheOptions<TInput>;
+}
+
+/**
+ * Response caching for pool.do(): results are kept per input key for `ttl`, and
+ * identical calls in flight at the same time share one vendor call
+ */
+export interface CacheOptions<TInput = unknown> {
+  /** Cache key for an input (undefined = don't cache this input) */
+  key: (input: TInput) => string | undefined;
+  /** How long a result is fresh in ms */
+  ttl: number;
+  /** How long after `ttl` a stale result is still returned while it is refreshed in the background, in ms (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Most results kept, oldest are dropped first (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Circuit breaker state of a vendor:
+ * closed = normal traffic, open = no traffic, half-open = a few trial calls decide
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Per-vendor circuit breaker. Server errors are counted in a sliding time window
+ * instead of freezing the vendor right away; once the failure rate is too high the
+ * circuit opens. After the open duration, trial calls decide whether it closes again.
+ * Rate limits (429) still soft-freeze the vendor as usual.
+ */
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) within the window that opens the circuit (default: 0.5) */
+  failureRateThreshold?: number;
+  /** Calls needed in the window before the failure rate counts (default: 10) */
+  minimumCalls?: number;
+  /** Sliding window length in ms (default: 60000) */
+  windowMs?: number;
+  /** How long the circuit stays open, as a random range in ms (default: hardFreezeDuration) */
+  openDuration?: [number, number];
+  /** Concurrent trial calls allowed while half-open; that many successes close the circuit (default: 1) */
+  halfOpenMaxCalls?: number;
+}
+
+/**
+ * A circuit breaker state change
+ */
+export interface CircuitTransition {
+  /** Vendor whose circuit changed */
+  vendorId: string;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Failure rate in the window when the circuit opened from closed */
+  failureRate?: number;
+  /** Timestamp of the change */
+  at: number;
+}
+
+/**
+ * Hedged requests: if the first vendor hasn't answered after a latency percentile,
+ * the same input goes to a second vendor, and the slower call is aborted
+ */
+export interface HedgeOptions {
+  /** Percentile of the first vendor's recent latencies to wait before hedging, 0-100 (default: 95) */
+  percentile?: number;
+  /** Samples a vendor needs before its percentile is used (default: 20) */
+  minSamples?: number;
+  /** Hedge delay in ms until then (default: 1000) */
+  initialDelay?: number;
+}
+
+/**
+ * Per-call options for pool.do()
+ */
+export interface DoOptions {
+  /** Override PoolOptions.hedge for this call (false = never hedge) */
+  hedge?: boolean;
+  /** Use PoolOptions.cache for this call (false = skip the cache and don't store the result) */
+  cache?: boolean;
+}
+
+/**
+ * Options for pool.consensus()
+ */
+export interface ConsensusOptions<TOutput = unknown> {
+  /** Number of vendors that must return equal results */
+  quorum: number;
+  /** Equality of two results (default: deep equality of plain data) */
+  compare?: (a: TOutput, b: TOutput) => boolean;
+  /** Vendors queried up front, at least `quorum` (default: all unfrozen vendors) */
+  fanout?: number;
+}
+
+/**
+ * Result of a pool.consensus() operation
+ */
+export interface ConsensusResult<T> {
+  /** The value the quorum agreed on */
+  result: T;
+  /** Vendors that returned the agreed value */
+  agreeingVendors: string[];
+  /** Vendors that answered with a different value (penalized in their VendorState) */
+  dissentingVendors: string[];
+  /** Vendors whose call failed */
+  failedVendors: string[];
+  /** Total time taken in ms */
+  duration: number;
+}
+
+/**
+ * Per-call options passed from Pool to Vendor.schedule()
+ */
+export interface ScheduleOptions {
+  /** Aborted when the call is no longer needed */
+  signal?: AbortSignal;
+  /** This call is a hedge for a slow call on another vendor */
+  hedged?: boolean;
+  /** Called when the call leaves the rate-limit queue and reaches the vendor */
+  onStart?: () => void;
+}
+
+/**
+ * Context passed to a selection strategy
+ */
+export interface SelectionContext {
+  /** The task input being routed */
+  input: unknown;
+}
+
+/**
+ * Outcome of one vendor call, reported back to the strategy
+ */
+export interface SelectionResult {
+  /** Whether the call succeeded */
+  success: boolean;
+  /** Time from dispatch to settle in ms, including the vendor's rate-limit queue */
+  duration: number;
+}
+
+/**
+ * Decides which vendor handles the next call.
+ * Only unfrozen vendors are offered; returning null makes the pool wait as if all were frozen.
+ */
+export interface SelectionStrategy {
+  /** Pick one of the offered vendors */
+  select<V extends Vendor>(vendors: readonly V[], context: SelectionContext): V | null;
+
+  /** Called after every vendor call (not when the pool's own timeout wins) */
+  onResult?(vendor: Vendor, result: SelectionResult): void;
+  /**
+   * Called when a call starts on a vendor select returned. The returned token (e.g. a budget
+   * reservation) is handed back to onSettle for that call only.
+   */
+  reserve?(vendor: Vendor): unknown;
+  /**
+   * Called once for every vendor select returned, when its call ends however it ends
+   * (aborted by the pool included). `called` is false if the call never reached the vendor,
+   * e.g. it was aborted while waiting in the vendor's rate-limit queue. `reservation` is
+   * what reserve returned for this call.
+   */
+  onSettle?(vendor: Vendor, called: boolean, reservation?: unknown): void;
+}
+
+/**
+ * Events emitted by Pool (subscribe with pool.on())
+ */
+export type PoolEvents = {
+  /** A call was dispatched to a vendor */
+  'vendor:selected': (event: { vendorId: string; input: unknown; hedged: boolean }) => void;
+  /** A vendor call succeeded */
+  'vendor:success': (event: { vendorId: string; duration: number; hedged: boolean }) => void;
+  /** A vendor call failed (calls aborted by the pool are not reported) */
+  'vendor:failure': (event: { vendorId: string; errorType: ErrorType; error: Error; duration: number }) => void;
+  /** A vendor was taken out of rotation until `until` ('shared' = frozen by another pool instance) */
+  'vendor:freeze': (event: { vendorId: string; until: number; reason: ErrorType | 'circuit' | 'shared' }) => void;
+  /** A frozen vendor is available again */
+  'vendor:unfreeze': (event: { vendorId: string }) => void;
+  /** Adaptive rate limiting changed a vendor's minTime */
+  'vendor:minTime': (event: { vendorId: string; from: number; to: number }) => void;
+  /** A vendor's circuit breaker changed state */
+  'vendor:circuit': (transition: CircuitTransition) => void;
+  /** All vendors exhausted, an EscalationError is about to be thrown */
+  escalation: (context: EscalationContext) => void;
+};
+
+/**
+ * Rolling statistics of one vendor over PoolOptions.statsWindow
+ */
+export interface VendorStats {
+  /** Vendor identifier */
+  vendorId: string;
+  /** Calls finished in the window (aborted calls excluded) */
+  requests: number;
+  /** Calls per minute over the window */
+  requestsPerMinute: number;
+  /** Successful calls in the window */
+  successes: number;
+  /** Failed calls in the window, by error type */
+  errors: Record<ErrorType, number>;
+  /** Latency of successful calls in the window in ms (null without successes) */
+  latency: { p50: number; p95: number } | null;
+}
+
+/**
+ * Result of pool.getStats()
+ */
+export interface PoolStats {
+  /** Window length in ms */
+  window: number;
+  /** One entry per vendor, in pool order */
+  vendors: VendorStats[];
+}
+
+/**
+ * The part of a vendor's state shared between pool instances
+ */
+export interface SharedVendorState {
+  /** Vendor identifier */
+  vendorId: string;
+  /** Timestamp until which the vendor is frozen */
+  frozenUntil: number;
+  /** Current minTime in ms */
+  minTime: number;
+  /** Whether the vendor's rate is locked */
+  isStable: boolean;
+  /** Last known good minTime */
+  lastSuccessMinTime: number;
+  /** Pool instance that published the update */
+  source: string;
+  /** Timestamp of the update */
+  at: number;
+}
+
+/**
+ * Channel between pool instances sharing vendor state.
+ * A pool publishes whenever a vendor's frozen-until or minTime changes and applies
+ * what the other instances publish.
+ */
+export interface StateSync {
+  /** Send an update to the other instances */
+  publish(update: SharedVendorState): void;
+
+  /** Receive updates from other instances, returns an unsubscribe function */
+  subscribe(listener: (update: SharedVendorState) => void): () => void;
 }
 
 /**
@@ -135,4 +410,6 @@ export interface PoolResult<T> {
   retries: number;
   /** Total time taken in ms */
   duration: number;
+  /** Served from the cache, or shared with an identical call already in flight (no vendor call of its own) */
+  cached: boolean;
 }
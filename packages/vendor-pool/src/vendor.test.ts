@@ -151,6 +151,72 @@ describe('Vendor', () => {
     });
   });
 
+  describe('hedging and abort', () => {
+    it('should count hedged calls without probing', async () => {
+      const initialMinTime = vendor.getState().minTime;
+      await vendor.schedule('hello', { hedged: true });
+
+      const state = vendor.getState();
+      expect(state.hedgedCount).toBe(1);
+      expect(state.successCount).toBe(1);
+      expect(state.minTime).toBe(initialMinTime);
+    });
+
+    it('should not hold aborted calls against the vendor', async () => {
+      const controller = new AbortController();
+      vendor.setMockExecute(async () => {
+        controller.abort();
+        throw new Error('HTTP 500 Internal Server Error');
+      });
+
+      let caught: unknown;
+      try {
+        await vendor.schedule('hello', { signal: controller.signal });
+      } catch (e) {
+        caught = e;
+      }
+      expect((caught as Error).message).toContain('HTTP 500');
+
+      const state = vendor.getState();
+      expect(state.abortedCount).toBe(1);
+      expect(state.failureCount).toBe(0);
+      expect(state.lastError).toBeUndefined();
+    });
+
+    it('should skip execution when aborted before it starts', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let called = false;
+      vendor.setMockExecute(async (input) => {
+        called = true;
+        return input;
+      });
+
+      await expect(vendor.schedule('hello', { signal: controller.signal })).rejects.toThrow();
+      expect(called).toBe(false);
+      expect(vendor.getState().abortedCount).toBe(1);
+    });
+
+    it('should report latency percentiles of successful calls', async () => {
+      expect(vendor.getLatencyPercentile(95)).toBeNull();
+
+      vendor.reset(0);
+      for (const delay of [10, 20, 30, 40]) {
+        vendor.setMockExecute(async (input) => {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return input;
+        });
+        await vendor.schedule('hello');
+      }
+
+      const p50 = vendor.getLatencyPercentile(50)!;
+      expect(p50.samples).toBe(4);
+      expect(p50.latency).toBeGreaterThanOrEqual(19);
+      expect(p50.latency).toBeLessThan(30);
+      expect(vendor.getLatencyPercentile(100)!.latency).toBeGreaterThanOrEqual(39);
+    });
+  });
+
   describe('error handling', () => {
     it('should throw VendorExecutionError on failure', async () => {
       vendor.setMockExecute(async () => {
@@ -296,6 +362,15 @@ describe('Vendor', () => {
       const metrics = vendor.getMetrics();
       expect(metrics.successRate).toBe(0.5); // 1 success, 1 failure
     });
+
+    it('should count dissenting results against the success rate', async () => {
+      await vendor.schedule('hello');
+      await vendor.schedule('world');
+      vendor.recordDissent();
+
+      expect(vendor.getState().dissentCount).toBe(1);
+      expect(vendor.getMetrics().successRate).toBe(0.5);
+    });
   });
 
   describe('reset', () => {
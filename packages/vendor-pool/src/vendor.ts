@@ -1,5 +1,12 @@
 import Bottleneck from 'bottleneck';
-import { ErrorType, type VendorState, type VendorMetrics } from './types.js';
+import {
+  ErrorType,
+  type VendorState,
+  type VendorMetrics,
+  type ScheduleOptions,
+  type CircuitState,
+  type SharedVendorState,
+} from './types.js';
 import { VendorExecutionError } from './errors.js';
 
 /**
@@ -56,6 +63,9 @@ function defaultClassifyError(error: unknown): ErrorType {
   return ErrorType.UNKNOWN;
 }
 
+/** Successful call durations kept for latency percentiles */
+const LATENCY_SAMPLES = 100;
+
 /**
  * Configuration options for a Vendor
  */
@@ -64,6 +74,10 @@ export interface VendorOptions {
   initialMinTime?: number;
   /** Weight for load balancing (higher = more traffic, default: 1) */
   weight?: number;
+  /** Price per call, used by CostStrategy (default: 0) */
+  costPerCall?: number;
+  /** Most inputs per executeBatch() call (default: 10) */
+  maxBatchSize?: number;
 }
 
 /**
@@ -94,6 +108,12 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
   /** Weight for load balancing (higher = more traffic) */
   readonly weight: number;
 
+  /** Price per call, used by CostStrategy */
+  readonly costPerCall: number;
+
+  /** Most inputs per executeBatch() call */
+  readonly maxBatchSize: number;
+
   /** Internal limiter instance */
   private limiter: Bottleneck | null = null;
 
@@ -112,17 +132,37 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
   /** Rate limit backoff multiplier */
   private rateLimitBackoff = 1.25;
 
+  /** Told about every minTime change */
+  private onMinTimeChange: ((from: number, to: number) => void) | null = null;
+
+  /** Recent successful execution times in ms (ring buffer) */
+  private latencies: number[] = [];
+  private latencyIndex = 0;
+
   constructor(options: VendorOptions = {}) {
     this.weight = options.weight ?? 1;
+    this.costPerCall = options.costPerCall ?? 0;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 10);
   }
 
   /**
    * Execute the task. Implement this in your vendor subclass.
    * @param input - The task input
+   * @param signal - Aborted when the result is no longer needed (e.g. a hedged call won); pass it to fetch()
    * @returns Promise resolving to the task output
    * @throws Error on failure (will be classified by classifyError)
    */
-  abstract execute(input: TInput): Promise<TOutput>;
+  abstract execute(input: TInput, signal: AbortSignal): Promise<TOutput>;
+
+  /**
+   * Execute several inputs in one request (e.g. a JSON-RPC batch). Optional: implement it
+   * if the vendor's API supports batching, and Pool.doMany() will use it.
+   * @param inputs - Up to maxBatchSize inputs
+   * @param signal - Aborted when the results are no longer needed
+   * @returns One settled result per input, in the same order; rejected items are retried individually
+   * @throws Error when the whole request fails (will be classified by classifyError)
+   */
+  executeBatch?(inputs: TInput[], signal: AbortSignal): Promise<PromiseSettledResult<TOutput>[]>;
 
   /**
    * Classify an error to determine retry/freeze behavior.
@@ -144,22 +184,36 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
     probeStep: number;
     rateLimitBackoff: number;
     savedState?: VendorState;
+    onMinTimeChange?: (from: number, to: number) => void;
   }): void {
     if (this.initialized) return;
 
     this.probeStep = config.probeStep;
     this.rateLimitBackoff = config.rateLimitBackoff;
-
-    // Restore or create initial state
-    this.state = config.savedState ?? {
-      id: this.id,
-      isStable: false,
-      minTime: config.initialMinTime,
-      lastSuccessMinTime: config.initialMinTime,
-      frozenUntil: 0,
-      successCount: 0,
-      failureCount: 0,
-    };
+    this.onMinTimeChange = config.onMinTimeChange ?? null;
+
+    // Restore or create initial state (states saved by older versions lack the newer fields)
+    this.state = config.savedState
+      ? {
+          ...config.savedState,
+          hedgedCount: config.savedState.hedgedCount ?? 0,
+          abortedCount: config.savedState.abortedCount ?? 0,
+          dissentCount: config.savedState.dissentCount ?? 0,
+          circuit: config.savedState.circuit ?? 'closed',
+        }
+      : {
+          id: this.id,
+          isStable: false,
+          minTime: config.initialMinTime,
+          lastSuccessMinTime: config.initialMinTime,
+          frozenUntil: 0,
+          successCount: 0,
+          failureCount: 0,
+          hedgedCount: 0,
+          abortedCount: 0,
+          dissentCount: 0,
+          circuit: 'closed',
+        };
 
     // Create limiter with current minTime
     this.limiter = new Bottleneck({
@@ -175,17 +229,41 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
    * Called internally by Pool.
    * @internal
    */
-  async schedule(input: TInput): Promise<TOutput> {
+  async schedule(input: TInput, options: ScheduleOptions = {}): Promise<TOutput> {
     if (!this.limiter || !this.state) {
       throw new Error(`Vendor "${this.id}" not initialized`);
     }
 
+    const signal = options.signal ?? new AbortController().signal;
+    if (options.hedged) {
+      this.state.hedgedCount++;
+    }
+
     return this.limiter.schedule(async () => {
+      // Cancelled while waiting in the queue: don't spend a request on it
+      if (signal.aborted) {
+        this.state!.abortedCount++;
+        signal.throwIfAborted();
+      }
+      options.onStart?.();
+
+      const startedAt = Date.now();
       try {
-        const result = await this.execute(input);
-        this.onSuccess();
+        const result = await this.execute(input, signal);
+        if (signal.aborted) {
+          // Lost the race: the result is discarded and says nothing about the rate
+          this.state!.abortedCount++;
+          return result;
+        }
+        this.recordLatency(Date.now() - startedAt);
+        this.onSuccess(options.hedged ?? false);
         return result;
       } catch (error) {
+        if (signal.aborted) {
+          // Aborted by us, not the vendor's fault
+          this.state!.abortedCount++;
+          throw error;
+        }
         const errorType = this.classifyError(error);
         this.onFailure(error instanceof Error ? error : new Error(String(error)), errorType);
         throw new VendorExecutionError(
@@ -198,19 +276,70 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
   }
 
   /**
-   * Handle successful execution - speed up if not stable
+   * Schedule a batch execution through the rate limiter: one batch is one request,
+   * so it takes one minTime slot and probes/backs off like a single call.
+   * Only a failure of the whole request counts against the vendor.
+   * Called internally by Pool.
+   * @internal
    */
-  private onSuccess(): void {
+  async scheduleBatch(inputs: TInput[], options: ScheduleOptions = {}): Promise<PromiseSettledResult<TOutput>[]> {
+    if (!this.limiter || !this.state) {
+      throw new Error(`Vendor "${this.id}" not initialized`);
+    }
+    if (!this.executeBatch) {
+      throw new Error(`Vendor "${this.id}" does not support batching`);
+    }
+
+    const signal = options.signal ?? new AbortController().signal;
+
+    return this.limiter.schedule(async () => {
+      if (signal.aborted) {
+        this.state!.abortedCount++;
+        signal.throwIfAborted();
+      }
+      options.onStart?.();
+
+      try {
+        const results = await this.executeBatch!(inputs, signal);
+        if (results.length !== inputs.length) {
+          throw new Error(`Batch returned ${results.length} results for ${inputs.length} inputs`);
+        }
+        if (signal.aborted) {
+          this.state!.abortedCount++;
+          return results;
+        }
+        this.onSuccess(false);
+        return results;
+      } catch (error) {
+        if (signal.aborted) {
+          this.state!.abortedCount++;
+          throw error;
+        }
+        const errorType = this.classifyError(error);
+        this.onFailure(error instanceof Error ? error : new Error(String(error)), errorType);
+        throw new VendorExecutionError(
+          this.id,
+          errorType,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    });
+  }
+
+  /**
+   * Handle successful execution - speed up if not stable.
+   * Hedged calls don't probe: they are extra traffic, not evidence the rate can go up.
+   */
+  private onSuccess(hedged: boolean): void {
     if (!this.state || !this.limiter) return;
 
     this.state.successCount++;
 
     // If not locked, try to speed up
-    if (!this.state.isStable && this.state.minTime > 50) {
+    if (!hedged && !this.state.isStable && this.state.minTime > 50) {
       // Record current minTime as last known good BEFORE speeding up
       this.state.lastSuccessMinTime = this.state.minTime;
-      this.state.minTime = Math.max(50, this.state.minTime - this.probeStep);
-      this.limiter.updateSettings({ minTime: this.state.minTime });
+      this.setMinTime(Math.max(50, this.state.minTime - this.probeStep));
     }
   }
 
@@ -229,13 +358,24 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
       if (this.state.isStable) {
         // Already locked but still hitting rate limit - need to slow down more
         // Back off from CURRENT minTime since the locked rate is still too fast
-        this.state.minTime = Math.ceil(this.state.minTime * this.rateLimitBackoff);
+        this.setMinTime(Math.ceil(this.state.minTime * this.rateLimitBackoff));
       } else {
         // First time hitting rate limit - lock and backoff from last known good
         this.state.isStable = true;
-        this.state.minTime = Math.ceil(this.state.lastSuccessMinTime * this.rateLimitBackoff);
+        this.setMinTime(Math.ceil(this.state.lastSuccessMinTime * this.rateLimitBackoff));
       }
-      this.limiter.updateSettings({ minTime: this.state.minTime });
+    }
+  }
+
+  /**
+   * Apply a new minTime to the state and the limiter
+   */
+  private setMinTime(minTime: number): void {
+    const previous = this.state!.minTime;
+    this.state!.minTime = minTime;
+    this.limiter!.updateSettings({ minTime });
+    if (minTime !== previous) {
+      this.onMinTimeChange?.(previous, minTime);
     }
   }
 
@@ -253,11 +393,27 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
         frozenUntil: 0,
         successCount: 0,
         failureCount: 0,
+        hedgedCount: 0,
+        abortedCount: 0,
+        dissentCount: 0,
+        circuit: 'closed',
       };
     }
     return { ...this.state };
   }
 
+  /**
+   * Record that this vendor's answer disagreed with a consensus quorum.
+   * The call already counted as a success; dissent is subtracted from the success rate.
+   * @internal
+   */
+  recordDissent(): void {
+    if (!this.state) return;
+    this.state.dissentCount++;
+    this.state.lastError = 'Result disagreed with consensus quorum';
+    this.state.lastErrorAt = Date.now();
+  }
+
   /**
    * Update frozen state
    * @internal
@@ -268,6 +424,29 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
     }
   }
 
+  /**
+   * Take over frozen-until and rate published by another pool instance.
+   * A longer freeze wins; the rate is replaced by the latest one seen.
+   * @internal
+   */
+  applySharedState(shared: SharedVendorState): void {
+    if (!this.state || !this.limiter) return;
+    this.state.frozenUntil = Math.max(this.state.frozenUntil, shared.frozenUntil);
+    this.state.isStable = shared.isStable;
+    this.state.lastSuccessMinTime = shared.lastSuccessMinTime;
+    this.setMinTime(shared.minTime);
+  }
+
+  /**
+   * Update circuit breaker state
+   * @internal
+   */
+  setCircuit(circuit: CircuitState): void {
+    if (this.state) {
+      this.state.circuit = circuit;
+    }
+  }
+
   /**
    * Check if vendor is currently frozen
    */
@@ -284,6 +463,27 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
     return Math.max(0, this.state.frozenUntil - Date.now());
   }
 
+  /**
+   * Latency percentile (0-100) of recent successful executions in ms,
+   * with the number of samples it is based on
+   */
+  getLatencyPercentile(percentile: number): { latency: number; samples: number } | null {
+    if (this.latencies.length === 0) return null;
+
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return { latency: sorted[Math.max(0, index)], samples: sorted.length };
+  }
+
+  private recordLatency(ms: number): void {
+    if (this.latencies.length < LATENCY_SAMPLES) {
+      this.latencies.push(ms);
+    } else {
+      this.latencies[this.latencyIndex] = ms;
+      this.latencyIndex = (this.latencyIndex + 1) % LATENCY_SAMPLES;
+    }
+  }
+
   /**
    * Get metrics for vendor selection
    * @internal
@@ -297,7 +497,8 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
       queueLength: (this.limiter?.counts().QUEUED ?? 0) + this.pendingCount,
       isFrozen: this.isFrozen(),
       frozenFor: this.getFrozenFor(),
-      successRate: total > 0 ? (state?.successCount ?? 0) / total : 1,
+      // Answers outvoted in consensus calls don't count as successes
+      successRate: total > 0 ? Math.max(0, (state?.successCount ?? 0) - (state?.dissentCount ?? 0)) / total : 1,
     };
   }
 
@@ -330,7 +531,13 @@ export abstract class Vendor<TInput = unknown, TOutput = unknown> {
       frozenUntil: 0,
       successCount: 0,
       failureCount: 0,
+      hedgedCount: 0,
+      abortedCount: 0,
+      dissentCount: 0,
+      circuit: 'closed',
     };
+    this.latencies = [];
+    this.latencyIndex = 0;
     if (this.limiter) {
       this.limiter.updateSettings({ minTime: initialMinTime });
     }